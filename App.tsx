@@ -1,8 +1,9 @@
-import React, { Suspense, lazy, useState, useEffect, useRef } from 'react';
-import { Observation, View, TaxonomicGroup, Status } from './types';
-import { getObservations, saveObservation, updateObservation, deleteObservation, processOfflineQueue, bulkUpsertObservationsInCache } from './services/storageService';
+import React, { Suspense, lazy, useState, useEffect, useMemo, useRef } from 'react';
+import { Observation, View, TaxonomicGroup, Status, SamplingSession } from './types';
+import { getObservations, saveObservation, updateObservation, updateObservations, deleteObservation, processOfflineQueue, bulkUpsertObservationsInCache, getSyncConflicts, resolveSyncConflict, SyncConflict, getDeletedObservations, restoreObservation, purgeObservation, purgeExpiredDeletedObservations, detachSessionFromObservations, TRASH_RETENTION_DAYS } from './services/storageService';
 import ObservationList from './components/ObservationList';
 import ConfirmationDialog from './components/ConfirmationDialog';
+import SyncConflictDialog from './components/SyncConflictDialog';
 import BottomNavigation from './components/BottomNavigation';
 import { fetchSpeciesInfo } from './services/speciesService';
 import { ImportResult } from './services/excelImportService';
@@ -11,8 +12,18 @@ import ToastContainer, { ToastItem, ToastType } from './components/ToastContaine
 import { compareIsoDate } from './utils/dateUtils';
 import { buildImportPersistencePlan } from './services/importPolicy';
 import { isUuid } from './utils/uuidUtils';
+import { StatusScale, selectRedListsForDepartment } from './utils/redListUtils';
+import { RegulatoryFilter } from './utils/regulatoryStatusUtils';
+import { ValidationFilter, isValidatedObservation } from './utils/validationUtils';
+import { AtlasSquareFilter } from './utils/atlasGridUtils';
 import { useObservationFilters } from './hooks/useObservationFilters';
 import { selectStartupEnrichmentCandidates } from './services/startupEnrichmentUtils';
+import { createEmptySession, deleteSession, getSessions, saveSession } from './services/sessionService';
+import { buildStocSpeciesOptions, createStocSession, exportStocSessions } from './services/stocService';
+import { EpocTally, buildEpocObservations, createEpocSession, isEpocChecklistPending } from './services/epocService';
+import { setTaxonHistory } from './services/localTaxonIndex';
+import { retagObservations } from './services/regulatoryListService';
+import { linkObservationsToTaxref } from './services/taxrefService';
 
 type AppConnectionStatus = 'online' | 'offline' | 'degraded';
 
@@ -26,6 +37,13 @@ const ObservationMap = lazy(() => import('./components/ObservationMap'));
 const ObservationStats = lazy(() => import('./components/ObservationStats'));
 const ObservationGallery = lazy(() => import('./components/ObservationGallery'));
 const ObservationCalendar = lazy(() => import('./components/ObservationCalendar'));
+const ObservationTrash = lazy(() => import('./components/ObservationTrash'));
+const DataQualityDashboard = lazy(() => import('./components/DataQualityDashboard'));
+const ReviewQueue = lazy(() => import('./components/ReviewQueue'));
+const SessionList = lazy(() => import('./components/SessionList'));
+const SessionEditor = lazy(() => import('./components/SessionEditor'));
+const StocPointCount = lazy(() => import('./components/StocPointCount'));
+const EpocChecklist = lazy(() => import('./components/EpocChecklist'));
 
 const App: React.FC = () => {
     const ENRICHMENT_BATCH_LIMIT = 20;
@@ -38,6 +56,11 @@ const App: React.FC = () => {
     const [yearFilter, setYearFilter] = useState<string>('all');
     const [taxonomicGroupFilter, setTaxonomicGroupFilter] = useState<TaxonomicGroup | 'all'>('all');
     const [statusFilter, setStatusFilter] = useState<Status | 'all'>('all');
+    const [statusScale, setStatusScale] = useState<StatusScale>('observation');
+    const [regulatoryFilter, setRegulatoryFilter] = useState<RegulatoryFilter>('all');
+    const [validationFilter, setValidationFilter] = useState<ValidationFilter>('all');
+    const [squareFilter, setSquareFilter] = useState<AtlasSquareFilter>('all');
+    const [statsValidatedOnly, setStatsValidatedOnly] = useState(false);
     const [startDateFilter, setStartDateFilter] = useState<string>('');
     const [endDateFilter, setEndDateFilter] = useState<string>('');
     const [isLoading, setIsLoading] = useState(true);
@@ -46,10 +69,31 @@ const App: React.FC = () => {
     const [toasts, setToasts] = useState<ToastItem[]>([]);
     const [connectionStatus, setConnectionStatus] = useState<AppConnectionStatus>(isOffline ? 'offline' : 'online');
     const [isBulkDeleting, setIsBulkDeleting] = useState(false);
+    const [isSavingBatch, setIsSavingBatch] = useState(false);
     const [isImporting, setIsImporting] = useState(false);
     const [isCreatingBackup, setIsCreatingBackup] = useState(false);
     const [isExportingStats, setIsExportingStats] = useState(false);
+    const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+    const [isResolvingConflict, setIsResolvingConflict] = useState(false);
+    const [trashedObservations, setTrashedObservations] = useState<Observation[]>([]);
+    const [isTrashLoading, setIsTrashLoading] = useState(false);
+    const [isTrashProcessing, setIsTrashProcessing] = useState(false);
+    const [sessions, setSessions] = useState<SamplingSession[]>([]);
+    const [isSessionsLoading, setIsSessionsLoading] = useState(false);
+    const [editingSession, setEditingSession] = useState<{ session: SamplingSession; isNew: boolean } | null>(null);
+    const [isSavingSession, setIsSavingSession] = useState(false);
+    // Session whose shared fields prefill the next new observation ("Continuer la sortie").
+    const [formSession, setFormSession] = useState<SamplingSession | null>(null);
+    // STOC EPS session open in the point-count mode.
+    const [stocSession, setStocSession] = useState<SamplingSession | null>(null);
+    // Running EPOC session open in the checklist screen.
+    const [epocSession, setEpocSession] = useState<SamplingSession | null>(null);
     const statsRootRef = useRef<HTMLDivElement | null>(null);
+    const stocSpeciesOptions = useMemo(() => buildStocSpeciesOptions(observations), [observations]);
+    const statsObservations = useMemo(
+        () => (statsValidatedOnly ? observations.filter(isValidatedObservation) : observations),
+        [observations, statsValidatedOnly]
+    );
 
     const [isDarkMode, setIsDarkMode] = useState(() => localStorage.getItem('darkMode') === 'true');
 
@@ -80,7 +124,7 @@ const App: React.FC = () => {
         }
     }, [isDarkMode]);
 
-    // Listen for localStorage quota exceeded and warn user
+    // Listen for offline storage (IndexedDB) quota exceeded and warn user
     useEffect(() => {
         const handleQuota = () => pushToast('warning', 'Stockage local plein — les données hors-ligne risquent de ne pas être sauvegardées. Libérez de l\'espace ou synchronisez vos données.', 8000);
         const handleMediaStripped = (event: Event) => {
@@ -98,6 +142,11 @@ const App: React.FC = () => {
         };
     }, []);
 
+    // Species of the notebook feed the offline autocomplete.
+    useEffect(() => {
+        setTaxonHistory(observations);
+    }, [observations]);
+
     useEffect(() => {
         if (isOffline) {
             setConnectionStatus('offline');
@@ -133,9 +182,16 @@ const App: React.FC = () => {
                             `Synchronisation partielle: ${syncResult.failed}/${syncResult.processed} action(s) en échec.${syncResult.failureReasons.length > 0 ? ` ${syncResult.failureReasons.slice(0, 2).join(' ; ')}` : ''}`,
                             8000
                         );
-                    } else if (syncResult.processed > 0) {
+                    } else if (syncResult.processed > syncResult.conflicts) {
                         setConnectionStatus('online');
-                        pushToast('success', `${syncResult.processed} action(s) hors-ligne synchronisée(s).`);
+                        pushToast('success', `${syncResult.processed - syncResult.conflicts} action(s) hors-ligne synchronisée(s).`);
+                    }
+
+                    if (syncResult.conflicts > 0) {
+                        const conflicts = await getSyncConflicts();
+                        if (!mounted) return;
+                        setSyncConflicts(conflicts);
+                        pushToast('warning', `${syncResult.conflicts} observation(s) modifiée(s) ailleurs pendant votre édition hors-ligne : choisissez la version à garder.`, 8000);
                     }
                 }
 
@@ -152,6 +208,9 @@ const App: React.FC = () => {
                 if (loadResult.source === 'cache' && loadResult.warning) {
                     pushToast('warning', `Affichage du cache local: ${loadResult.warning}`, 7000);
                 }
+                const loadedSessions = await getSessions();
+                if (!mounted) return;
+                setSessions(loadedSessions);
                 setIsLoading(false);
 
                 // Auto-fetch missing images for existing observations
@@ -185,11 +244,14 @@ const App: React.FC = () => {
 
                                 const nextObservation = {
                                     ...updatedObs[index],
-                                    wikipediaImage: info.imageUrl || updatedObs[index].wikipediaImage
+                                    wikipediaImage: info.imageUrl || updatedObs[index].wikipediaImage,
+                                    redLists: updatedObs[index].redLists
+                                        ?? (info.redLists.length ? selectRedListsForDepartment(info.redLists, updatedObs[index].department) : undefined)
                                 };
 
                                 const changed = (
                                     nextObservation.wikipediaImage !== updatedObs[index].wikipediaImage
+                                    || nextObservation.redLists !== updatedObs[index].redLists
                                 );
 
                                 if (!changed) continue;
@@ -226,8 +288,52 @@ const App: React.FC = () => {
         return () => { mounted = false; };
     }, [authLoading, user, supabaseConfigError]);
 
+    useEffect(() => {
+        if (view !== View.TRASH || !user) return;
+
+        let mounted = true;
+        const loadTrash = async () => {
+            setIsTrashLoading(true);
+            try {
+                await purgeExpiredDeletedObservations();
+                const deleted = await getDeletedObservations();
+                if (mounted) setTrashedObservations(deleted);
+            } catch (e) {
+                console.error(e);
+                if (mounted) pushToast('error', 'Impossible de charger la corbeille.');
+            } finally {
+                if (mounted) setIsTrashLoading(false);
+            }
+        };
+        loadTrash();
+
+        return () => { mounted = false; };
+    }, [view, user]);
+
+    useEffect(() => {
+        if (view !== View.SESSIONS || !user) return;
+
+        let mounted = true;
+        const loadSessions = async () => {
+            setIsSessionsLoading(true);
+            try {
+                const loaded = await getSessions();
+                if (mounted) setSessions(loaded);
+            } catch (e) {
+                console.error(e);
+                if (mounted) pushToast('error', 'Impossible de charger les sorties.');
+            } finally {
+                if (mounted) setIsSessionsLoading(false);
+            }
+        };
+        loadSessions();
+
+        return () => { mounted = false; };
+    }, [view, user]);
+
     const handleAddObservation = () => {
         setEditingObservation(null);
+        setFormSession(null);
         setView(View.FORM);
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
@@ -236,6 +342,7 @@ const App: React.FC = () => {
         const observationToEdit = observations.find(obs => obs.id === id);
         if (observationToEdit) {
             setEditingObservation(observationToEdit);
+            setFormSession(null);
             setView(View.FORM);
             window.scrollTo({ top: 0, behavior: 'smooth' });
         }
@@ -244,7 +351,7 @@ const App: React.FC = () => {
     const handleDeleteRequest = (id: string) => {
         setConfirmation({
             title: "Confirmer la suppression",
-            message: "Êtes-vous sûr de vouloir supprimer cette observation ? Cette action est irréversible.",
+            message: `Cette observation sera placée dans la corbeille, d'où elle pourra être restaurée pendant ${TRASH_RETENTION_DAYS} jours.`,
             onConfirm: async () => {
                 try {
                     await deleteObservation(id);
@@ -260,7 +367,7 @@ const App: React.FC = () => {
     const handleBulkDeleteRequest = (ids: string[]) => {
         setConfirmation({
             title: "Confirmer la suppression multiple",
-            message: `Êtes-vous sûr de vouloir supprimer ces ${ids.length} observations ? Cette action est irréversible.`,
+            message: `Ces ${ids.length} observations seront placées dans la corbeille, d'où elles pourront être restaurées pendant ${TRASH_RETENTION_DAYS} jours.`,
             onConfirm: async () => {
                 setIsBulkDeleting(true);
                 try {
@@ -282,6 +389,9 @@ const App: React.FC = () => {
                     if (failedCount > 0) {
                         pushToast('warning', `${failedCount} suppression(s) ont échoué.`);
                     }
+                    if (successIds.length > 0) {
+                        pushToast('info', `${successIds.length} observation(s) placée(s) dans la corbeille.`);
+                    }
                 } catch (e) {
                     setError("Erreur lors de la suppression multiple.");
                     console.error(e);
@@ -292,19 +402,107 @@ const App: React.FC = () => {
         });
     };
 
+    // Saves observations edited together (bulk re-identification, quality fixes);
+    // offline, the whole batch goes to the sync queue.
+    const saveObservationBatch = async (changes: Observation[], doneLabel: string): Promise<boolean> => {
+        if (changes.length === 0 || isSavingBatch) return false;
+        setIsSavingBatch(true);
+        try {
+            const { updated, failed } = await updateObservations(changes);
+            const updatedById = new Map(updated.map(observation => [observation.id, observation]));
+            setObservations(prev => prev.map(observation => updatedById.get(observation.id) ?? observation));
+            if (failed.length > 0) {
+                pushToast('warning', `${updated.length} observation(s) ${doneLabel}, ${failed.length} échec(s).`);
+                return false;
+            }
+            pushToast(
+                'success',
+                navigator.onLine
+                    ? `${updated.length} observation(s) ${doneLabel}.`
+                    : `${updated.length} observation(s) ${doneLabel} hors-ligne : synchronisation au retour du réseau.`
+            );
+            return true;
+        } catch (e) {
+            console.error(e);
+            pushToast('error', "Erreur lors de l'enregistrement des observations.");
+            return false;
+        } finally {
+            setIsSavingBatch(false);
+        }
+    };
+
+    const handleReidentify = (changes: Observation[]) => saveObservationBatch(changes, 'ré-identifiée(s)');
+
+    const handleApplyQualityFixes = (changes: Observation[]) => saveObservationBatch(changes, 'corrigée(s)');
+
+    const handleApplyValidation = (changes: Observation[]) => saveObservationBatch(changes, 'relue(s)');
+
+    const handleRestoreRequest = async (ids: string[]) => {
+        if (ids.length === 0) return;
+        setIsTrashProcessing(true);
+        try {
+            const results = await Promise.allSettled(ids.map(id => restoreObservation(id)));
+            const restored = results
+                .filter((result): result is PromiseFulfilledResult<Observation> => result.status === 'fulfilled')
+                .map(result => result.value);
+            const failedCount = results.length - restored.length;
+            const restoredIds = new Set(restored.map(obs => obs.id));
+
+            setTrashedObservations(prev => prev.filter(obs => !restoredIds.has(obs.id)));
+            setObservations(prev => [...restored, ...prev.filter(obs => !restoredIds.has(obs.id))]);
+
+            if (restored.length > 0) {
+                pushToast('success', `${restored.length} observation(s) restaurée(s).`);
+            }
+            if (failedCount > 0) {
+                pushToast('warning', `${failedCount} restauration(s) ont échoué.`);
+            }
+        } finally {
+            setIsTrashProcessing(false);
+        }
+    };
+
+    const handlePurgeRequest = (ids: string[]) => {
+        if (ids.length === 0) return;
+        setConfirmation({
+            title: "Confirmer la suppression définitive",
+            message: `${ids.length} observation(s) seront effacées définitivement. Cette action est irréversible.`,
+            onConfirm: async () => {
+                setIsTrashProcessing(true);
+                try {
+                    const results = await Promise.allSettled(ids.map(id => purgeObservation(id)));
+                    const purgedIds = new Set(ids.filter((_, index) => results[index].status === 'fulfilled'));
+                    setTrashedObservations(prev => prev.filter(obs => !purgedIds.has(obs.id)));
+
+                    const failedCount = ids.length - purgedIds.size;
+                    if (failedCount > 0) {
+                        pushToast('warning', `${failedCount} suppression(s) définitive(s) ont échoué.`);
+                    }
+                } finally {
+                    setIsTrashProcessing(false);
+                }
+            }
+        });
+    };
+
     const handleSaveObservation = async (observation: Observation) => {
         try {
             if (editingObservation) {
-                await updateObservation(observation);
-                setObservations(prev => prev.map(obs => obs.id === observation.id ? observation : obs));
+                // The server version the edit started from, used to detect conflicts at sync time.
+                const persisted = await updateObservation({ ...observation, updatedAt: editingObservation.updatedAt });
+                setObservations(prev => prev.map(obs => obs.id === observation.id ? persisted : obs));
             } else {
                 const savedObs = await saveObservation(observation);
-                // Merge the returned ID with the local observation data to ensure we have all fields (especially date)
-                const newObservation = { ...observation, id: savedObs.id };
+                // Merge the returned ID with the local observation data to ensure we have all fields (especially date).
+                // Media URLs come back from storage once offline photos/sounds have been uploaded.
+                // updatedAt is the conflict base of a later offline edit.
+                const newObservation = { ...observation, id: savedObs.id, photo: savedObs.photo, sound: savedObs.sound, updatedAt: savedObs.updatedAt };
                 setObservations(prev => [newObservation, ...prev]);
             }
-            setView(View.LIST);
+            // Back to the sessions view to keep logging the same session.
+            setView(formSession && !editingObservation ? View.SESSIONS : View.LIST);
             setEditingObservation(null);
+            setFormSession(null);
             window.scrollTo({ top: 0, behavior: 'smooth' });
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : String(e);
@@ -314,6 +512,154 @@ const App: React.FC = () => {
         }
     };
 
+    const handleContinueSession = (session: SamplingSession) => {
+        if (session.stoc) {
+            setStocSession(session);
+            return;
+        }
+        if (isEpocChecklistPending(session)) {
+            setEpocSession(session);
+            return;
+        }
+        setEditingObservation(null);
+        setFormSession(session);
+        setView(View.FORM);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const persistSession = async (session: SamplingSession): Promise<SamplingSession | null> => {
+        setIsSavingSession(true);
+        try {
+            const saved = await saveSession(session);
+            setSessions(prev => [saved, ...prev.filter(existing => existing.id !== saved.id)]
+                .sort((a, b) => b.date.localeCompare(a.date) || b.startTime.localeCompare(a.startTime)));
+            return saved;
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            pushToast('error', `Enregistrement de la sortie impossible: ${errorMessage}`, 7000);
+            console.error(e);
+            return null;
+        } finally {
+            setIsSavingSession(false);
+        }
+    };
+
+    const handleSaveSession = async (session: SamplingSession) => {
+        const saved = await persistSession(session);
+        if (!saved) return;
+        setEditingSession(null);
+        pushToast('success', navigator.onLine ? 'Sortie enregistrée.' : 'Sortie enregistrée hors-ligne, elle sera synchronisée plus tard.');
+    };
+
+    const handleEndSession = async (session: SamplingSession) => {
+        const saved = await persistSession({ ...session, endTime: new Date().toTimeString().substring(0, 5) });
+        if (saved) pushToast('success', 'Sortie terminée.');
+    };
+
+    const handleSaveStocSession = async (session: SamplingSession) => {
+        const saved = await persistSession(session);
+        if (saved) setStocSession(saved);
+        return saved;
+    };
+
+    // The session goes first: the checklist observations reference it.
+    const handleSubmitEpocChecklist = async (session: SamplingSession, tallies: EpocTally[]): Promise<boolean> => {
+        const saved = await persistSession(session);
+        if (!saved) return false;
+
+        setIsSavingSession(true);
+        const created: Observation[] = [];
+        let failedCount = 0;
+        try {
+            for (const observation of buildEpocObservations(saved, tallies)) {
+                try {
+                    const savedObs = await saveObservation(observation);
+                    created.push({ ...observation, id: savedObs.id, updatedAt: savedObs.updatedAt });
+                } catch (e) {
+                    failedCount++;
+                    console.error(e);
+                }
+            }
+        } finally {
+            setIsSavingSession(false);
+        }
+
+        setObservations(prev => [...created, ...prev]);
+        if (failedCount > 0) {
+            pushToast('warning', `Liste enregistrée, mais ${failedCount} espèce(s) n'ont pas pu être sauvegardées.`, 7000);
+        } else {
+            pushToast('success', `Liste ${saved.completeList ? 'complète' : 'incomplète'} enregistrée : ${created.length} espèce(s).`);
+        }
+        return true;
+    };
+
+    const handleExportStoc = (session: SamplingSession) => {
+        try {
+            exportStocSessions([session]);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            pushToast('error', `Export STOC impossible: ${errorMessage}`, 7000);
+            console.error(e);
+        }
+    };
+
+    const handleDeleteSessionRequest = (session: SamplingSession) => {
+        setConfirmation({
+            title: 'Supprimer la sortie',
+            message: `La sortie « ${session.name || 'sans nom'} » sera supprimée. Ses observations sont conservées, sans rattachement.`,
+            onConfirm: async () => {
+                try {
+                    await deleteSession(session.id);
+                    await detachSessionFromObservations(session.id);
+                    setSessions(prev => prev.filter(existing => existing.id !== session.id));
+                    setObservations(prev => prev.map(obs => obs.sessionId === session.id ? { ...obs, sessionId: undefined } : obs));
+                } catch (e) {
+                    const errorMessage = e instanceof Error ? e.message : String(e);
+                    pushToast('error', `Suppression de la sortie impossible: ${errorMessage}`, 7000);
+                    console.error(e);
+                }
+            }
+        });
+    };
+
+    const handleResolveConflict = async (resolved: Observation) => {
+        const [current, ...remaining] = syncConflicts;
+        if (!current) return;
+
+        setIsResolvingConflict(true);
+        try {
+            const applied = await resolveSyncConflict(current.queueItemId, resolved);
+            if (applied) {
+                setObservations(prev => applied.deletedAt
+                    ? prev.filter(obs => obs.id !== applied.id)
+                    : prev.map(obs => obs.id === applied.id ? applied : obs));
+            }
+            setSyncConflicts(remaining);
+
+            if (remaining.length === 0 && navigator.onLine) {
+                const syncResult = await processOfflineQueue();
+                if (syncResult.conflicts > 0) {
+                    setSyncConflicts(await getSyncConflicts());
+                } else if (syncResult.failed === 0) {
+                    const loadResult = await getObservations();
+                    setObservations(loadResult.observations);
+                    pushToast('success', 'Conflits résolus et synchronisés.');
+                }
+            }
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            pushToast('error', `Résolution du conflit impossible: ${errorMessage}`, 7000);
+            console.error(e);
+        } finally {
+            setIsResolvingConflict(false);
+        }
+    };
+
+    const handlePostponeConflicts = () => {
+        setSyncConflicts([]);
+        pushToast('info', 'Les modifications en conflit restent en attente et seront proposées à la prochaine synchronisation.', 6000);
+    };
+
     const handleImportRequest = async (importResult: ImportResult): Promise<void> => {
         let importToastId: string | null = null;
         try {
@@ -358,12 +704,12 @@ const App: React.FC = () => {
 
                     try {
                         if (planned.mode === 'update') {
-                            await updateObservation(observationToPersist, { skipCache: true });
-                            successfulOps.push(observationToPersist);
+                            const persisted = await updateObservation(observationToPersist, { skipCache: true });
+                            successfulOps.push({ ...observationToPersist, updatedAt: persisted.updatedAt });
                             updatedCount++;
                         } else {
                             const savedObs = await saveObservation(observationToPersist, { skipCache: true });
-                            const persisted = { ...observationToPersist, id: savedObs.id };
+                            const persisted = { ...observationToPersist, id: savedObs.id, updatedAt: savedObs.updatedAt };
                             successfulOps.push(persisted);
                             addedCount++;
                         }
@@ -392,7 +738,7 @@ const App: React.FC = () => {
 
             // Cohérence Cache <-> React State
             // 1. Mise à jour massive du cache local (1 écriture)
-            bulkUpsertObservationsInCache(successfulOps);
+            await bulkUpsertObservationsInCache(successfulOps);
 
             // 2. Mise à jour de l'état React
             for (const obs of successfulOps) {
@@ -439,8 +785,9 @@ const App: React.FC = () => {
         }
     };
     const handleCancel = () => {
-        setView(View.LIST);
+        setView(formSession ? View.SESSIONS : View.LIST);
         setEditingObservation(null);
+        setFormSession(null);
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
@@ -465,6 +812,36 @@ const App: React.FC = () => {
         }
     };
 
+    // Re-tags the notebook once protection, directive or ZNIEFF lists are imported.
+    const handleRegulatoryListImported = async () => {
+        const retagged = await retagObservations(observations);
+        if (retagged.length === 0) {
+            pushToast('info', 'Listes réglementaires importées : aucune observation à mettre à jour.');
+            return;
+        }
+
+        const { updated: persisted } = await updateObservations(retagged);
+        const persistedById = new Map(persisted.map(observation => [observation.id, observation]));
+        setObservations(prev => prev.map(observation => persistedById.get(observation.id) ?? observation));
+        pushToast(
+            persisted.length < retagged.length ? 'warning' : 'success',
+            `Statuts réglementaires mis à jour sur ${persisted.length} observation(s)${persisted.length < retagged.length ? `, ${retagged.length - persisted.length} échec(s)` : ''}.`
+        );
+    };
+
+    const handleTaxrefImported = async () => {
+        const linked = await linkObservationsToTaxref(observations);
+        if (linked.length === 0) return;
+
+        const { updated: persisted } = await updateObservations(linked);
+        const persistedById = new Map(persisted.map(observation => [observation.id, observation]));
+        setObservations(prev => prev.map(observation => persistedById.get(observation.id) ?? observation));
+        pushToast(
+            persisted.length < linked.length ? 'warning' : 'success',
+            `Référence TAXREF ajoutée à ${persisted.length} observation(s)${persisted.length < linked.length ? `, ${linked.length - persisted.length} échec(s)` : ''}.`
+        );
+    };
+
     const handleExportStats = async () => {
         if (isExportingStats) return;
         setIsExportingStats(true);
@@ -472,10 +849,11 @@ const App: React.FC = () => {
         try {
             const { exportStatsBundle } = await import('./services/statsExportService');
             const result = await exportStatsBundle({
-                observations,
+                observations: statsObservations,
                 statsRootElement: statsRootRef.current ?? document.body,
                 isDarkMode,
-                exportedAt: new Date()
+                exportedAt: new Date(),
+                statusScale
             });
             removeToast(toastId);
             pushToast('success', `Stats exportées: PDF statique + HTML interactif (${result.fileName}).`, 7000);
@@ -513,13 +891,17 @@ const App: React.FC = () => {
         }
     };
 
-    const { sortConfig, requestSort, sortedAndFilteredObservations, availableYears } = useObservationFilters(
+    const { sortConfig, requestSort, sortedAndFilteredObservations, availableYears, availableSquares } = useObservationFilters(
         observations,
         {
             searchTerm,
             yearFilter,
             taxonomicGroupFilter,
             statusFilter,
+            statusScale,
+            regulatoryFilter,
+            validationFilter,
+            squareFilter,
             startDateFilter,
             endDateFilter
         }
@@ -611,7 +993,7 @@ const App: React.FC = () => {
             {/* Mobile Layout: Glass Header */}
             {isMobileView ? (
                 <header className="fixed top-0 left-0 right-0 z-50 px-4 py-2 bg-white/70 dark:bg-nature-dark-surface/70 backdrop-blur-md border-b border-white/20 dark:border-white/5 shadow-sm flex items-center justify-between transition-all duration-300">
-                    <UserProfile />
+                    <UserProfile onRegulatoryListImported={handleRegulatoryListImported} onTaxrefImported={handleTaxrefImported} />
                     <div className="flex items-center gap-1.5">
                         {/* Server Status Mobile */}
                         <div className={`w-2.5 h-2.5 rounded-full ${statusColorClass}`} title={statusTitle}></div>
@@ -640,7 +1022,7 @@ const App: React.FC = () => {
                 /* Desktop Layout: Floating Buttons */
                 <>
                     <div className="fixed top-6 left-6 z-50">
-                        <UserProfile />
+                        <UserProfile onRegulatoryListImported={handleRegulatoryListImported} onTaxrefImported={handleTaxrefImported} />
                     </div>
 
                     <div className="fixed top-6 right-6 z-50 flex items-center gap-3">
@@ -689,6 +1071,13 @@ const App: React.FC = () => {
                     </button>
                 </div>
             )}
+            <SyncConflictDialog
+                conflict={syncConflicts[0] ?? null}
+                remainingCount={syncConflicts.length}
+                isResolving={isResolvingConflict}
+                onResolve={handleResolveConflict}
+                onPostpone={handlePostponeConflicts}
+            />
             <ToastContainer toasts={toasts} onDismiss={removeToast} />
 
             {/* Backup Button (Desktop Only) */}
@@ -735,6 +1124,22 @@ const App: React.FC = () => {
                                     id: View.GALLERY, label: 'Galerie',
                                     icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
                                 },
+                                {
+                                    id: View.SESSIONS, label: 'Sorties',
+                                    icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+                                },
+                                {
+                                    id: View.QUALITY, label: 'Qualité',
+                                    icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
+                                },
+                                {
+                                    id: View.REVIEW, label: 'Validation',
+                                    icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
+                                },
+                                {
+                                    id: View.TRASH, label: 'Corbeille',
+                                    icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                                },
                             ].map((tab) => (
                                 <button
                                     key={tab.id}
@@ -767,6 +1172,7 @@ const App: React.FC = () => {
                             onEdit={handleEditObservation}
                             onDelete={handleDeleteRequest}
                             onBulkDelete={handleBulkDeleteRequest}
+                            onReidentify={handleReidentify}
                             onImport={handleImportRequest}
                             onToast={pushToast}
                             searchTerm={searchTerm}
@@ -781,13 +1187,24 @@ const App: React.FC = () => {
                             onTaxonomicGroupChange={setTaxonomicGroupFilter}
                             statusFilter={statusFilter}
                             onStatusChange={setStatusFilter}
+                            statusScale={statusScale}
+                            onStatusScaleChange={setStatusScale}
+                            regulatoryFilter={regulatoryFilter}
+                            onRegulatoryFilterChange={setRegulatoryFilter}
+                            validationFilter={validationFilter}
+                            onValidationFilterChange={setValidationFilter}
+                            squareFilter={squareFilter}
+                            onSquareFilterChange={setSquareFilter}
                             availableYears={availableYears}
+                            availableSquares={availableSquares}
                             allObservations={observations}
                             sortConfig={sortConfig}
                             requestSort={requestSort}
                             isMobileView={isMobileView}
                             isBulkDeleting={isBulkDeleting}
+                            isReidentifying={isSavingBatch}
                             isImporting={isImporting}
+                            exportContext={{ sessions, observer: user?.email ?? '' }}
                         />
                     ) : view === View.MAP ? (
                         <div className={`space-y-6 ${isMobileView ? 'pb-20' : ''}`}>
@@ -798,7 +1215,16 @@ const App: React.FC = () => {
                                 onYearChange={setYearFilter}
                                 statusFilter={statusFilter}
                                 onStatusChange={setStatusFilter}
+                                statusScale={statusScale}
+                                onStatusScaleChange={setStatusScale}
+                                regulatoryFilter={regulatoryFilter}
+                                onRegulatoryFilterChange={setRegulatoryFilter}
+                                validationFilter={validationFilter}
+                                onValidationFilterChange={setValidationFilter}
+                                squareFilter={squareFilter}
+                                onSquareFilterChange={setSquareFilter}
                                 availableYears={availableYears}
+                                availableSquares={availableSquares}
                                 isMobileView={isMobileView}
                                 searchId="search-input-map"
                             />
@@ -809,6 +1235,7 @@ const App: React.FC = () => {
                                 isMobileView={isMobileView}
                                 onToast={pushToast}
                                 onEdit={handleEditObservation}
+                                onSquareSelect={setSquareFilter}
                             />
 
                             <div className={`flex justify-end ${isMobileView ? 'fixed bottom-24 right-4 z-50' : ''}`}>
@@ -822,11 +1249,16 @@ const App: React.FC = () => {
                         </div>
                     ) : view === View.STATS ? (
                         <ObservationStats
-                            observations={observations}
+                            observations={statsObservations}
+                            sessions={sessions}
                             isMobileView={isMobileView}
                             onExportStats={handleExportStats}
                             isExportingStats={isExportingStats}
                             statsRootRef={statsRootRef}
+                            statusScale={statusScale}
+                            onStatusScaleChange={setStatusScale}
+                            validatedOnly={statsValidatedOnly}
+                            onValidatedOnlyChange={setStatsValidatedOnly}
                         />
                     ) : view === View.CALENDAR ? (
                         <ObservationCalendar
@@ -845,7 +1277,16 @@ const App: React.FC = () => {
                                 onYearChange={setYearFilter}
                                 statusFilter={statusFilter}
                                 onStatusChange={setStatusFilter}
+                                statusScale={statusScale}
+                                onStatusScaleChange={setStatusScale}
+                                regulatoryFilter={regulatoryFilter}
+                                onRegulatoryFilterChange={setRegulatoryFilter}
+                                validationFilter={validationFilter}
+                                onValidationFilterChange={setValidationFilter}
+                                squareFilter={squareFilter}
+                                onSquareFilterChange={setSquareFilter}
                                 availableYears={availableYears}
+                                availableSquares={availableSquares}
                                 isMobileView={isMobileView}
                                 searchId="search-input-gallery"
                             />
@@ -863,12 +1304,91 @@ const App: React.FC = () => {
                                 </button>
                             </div>
                         </div>
+                    ) : view === View.SESSIONS ? (
+                        <>
+                            <SessionList
+                                sessions={sessions}
+                                observations={observations}
+                                isLoading={isSessionsLoading}
+                                onCreate={() => setEditingSession({ session: createEmptySession(), isNew: true })}
+                                onCreateStoc={() => setStocSession(createStocSession())}
+                                onCreateEpoc={() => setEpocSession(createEpocSession())}
+                                onEdit={session => setEditingSession({ session, isNew: false })}
+                                onContinue={handleContinueSession}
+                                onEnd={handleEndSession}
+                                onDelete={handleDeleteSessionRequest}
+                                onExportStoc={handleExportStoc}
+                                isMobileView={isMobileView}
+                            />
+                            {editingSession && (
+                                <SessionEditor
+                                    session={editingSession.session}
+                                    isNew={editingSession.isNew}
+                                    isSaving={isSavingSession}
+                                    onSave={handleSaveSession}
+                                    onCancel={() => setEditingSession(null)}
+                                    onToast={pushToast}
+                                />
+                            )}
+                            {stocSession && (
+                                <StocPointCount
+                                    key={stocSession.id}
+                                    session={stocSession}
+                                    speciesOptions={stocSpeciesOptions}
+                                    isSaving={isSavingSession}
+                                    onSave={handleSaveStocSession}
+                                    onClose={() => setStocSession(null)}
+                                    onToast={pushToast}
+                                />
+                            )}
+                            {epocSession && (
+                                <EpocChecklist
+                                    key={epocSession.id}
+                                    session={epocSession}
+                                    observations={observations}
+                                    isSaving={isSavingSession}
+                                    onSubmit={handleSubmitEpocChecklist}
+                                    onClose={() => setEpocSession(null)}
+                                    onToast={pushToast}
+                                />
+                            )}
+                        </>
+                    ) : view === View.QUALITY ? (
+                        <DataQualityDashboard
+                            observations={observations}
+                            isApplying={isSavingBatch}
+                            onApplyFixes={handleApplyQualityFixes}
+                            onEdit={handleEditObservation}
+                            isMobileView={isMobileView}
+                        />
+                    ) : view === View.REVIEW ? (
+                        <ReviewQueue
+                            observations={observations}
+                            reviewer={user?.email}
+                            isApplying={isSavingBatch}
+                            onDecide={handleApplyValidation}
+                            onEdit={handleEditObservation}
+                            isMobileView={isMobileView}
+                        />
+                    ) : view === View.TRASH ? (
+                        <ObservationTrash
+                            observations={trashedObservations}
+                            retentionDays={TRASH_RETENTION_DAYS}
+                            isLoading={isTrashLoading}
+                            isProcessing={isTrashProcessing}
+                            onRestore={handleRestoreRequest}
+                            onPurge={handlePurgeRequest}
+                            isMobileView={isMobileView}
+                        />
                     ) : (
                         <ObservationForm
                             onSave={handleSaveObservation}
                             onCancel={handleCancel}
                             initialData={editingObservation}
                             onToast={pushToast}
+                            sessions={sessions}
+                            initialSession={formSession}
+                            observations={observations}
                         />
                     )}
                 </Suspense>
@@ -1,10 +1,45 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { TaxrefMeta, getTaxrefMeta, importTaxrefFile } from '../../services/taxrefService';
+import { RegulatoryListMeta, getRegulatoryListMeta, importRegulatoryListFile } from '../../services/regulatoryListService';
+import { REGIONAL_CHECKLIST_RADIUS_KM, RegionalChecklistMeta, downloadRegionalChecklist, getRegionalChecklistMeta } from '../../services/localTaxonIndex';
 
-const UserProfile: React.FC = () => {
+interface UserProfileProps {
+    // Called once protection / directive / ZNIEFF lists have been imported.
+    onRegulatoryListImported?: () => Promise<void>;
+    // Called once a TAXREF reference has been imported.
+    onTaxrefImported?: () => Promise<void>;
+}
+
+const UserProfile: React.FC<UserProfileProps> = ({ onRegulatoryListImported, onTaxrefImported }) => {
     const { user, signOut } = useAuth();
     const [isOpen, setIsOpen] = useState(false);
+    const [taxrefMeta, setTaxrefMeta] = useState<TaxrefMeta | null>(null);
+    const [taxrefStatus, setTaxrefStatus] = useState<{ busy: boolean; error: string }>({ busy: false, error: '' });
+    const [regulatoryMeta, setRegulatoryMeta] = useState<RegulatoryListMeta | null>(null);
+    const [regulatoryStatus, setRegulatoryStatus] = useState<{ busy: boolean; error: string }>({ busy: false, error: '' });
+    const [checklistMeta, setChecklistMeta] = useState<RegionalChecklistMeta | null>(null);
+    const [checklistStatus, setChecklistStatus] = useState<{ busy: boolean; error: string }>({ busy: false, error: '' });
     const dropdownRef = useRef<HTMLDivElement>(null);
+    const taxrefInputRef = useRef<HTMLInputElement>(null);
+    const regulatoryInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        void getTaxrefMeta().then(meta => {
+            if (!cancelled) setTaxrefMeta(meta);
+        });
+        void getRegulatoryListMeta().then(meta => {
+            if (!cancelled) setRegulatoryMeta(meta);
+        });
+        void getRegionalChecklistMeta().then(meta => {
+            if (!cancelled) setChecklistMeta(meta);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen]);
 
     // Close dropdown when clicking outside
     useEffect(() => {
@@ -22,6 +57,57 @@ const UserProfile: React.FC = () => {
 
     if (!user) return null;
 
+    const handleTaxrefImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setTaxrefStatus({ busy: true, error: '' });
+        try {
+            setTaxrefMeta(await importTaxrefFile(file));
+            await onTaxrefImported?.();
+            setTaxrefStatus({ busy: false, error: '' });
+        } catch (error) {
+            console.error('TAXREF import error:', error);
+            setTaxrefStatus({ busy: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    const handleRegulatoryImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setRegulatoryStatus({ busy: true, error: '' });
+        try {
+            setRegulatoryMeta(await importRegulatoryListFile(file));
+            await onRegulatoryListImported?.();
+            setRegulatoryStatus({ busy: false, error: '' });
+        } catch (error) {
+            console.error('Regulatory lists import error:', error);
+            setRegulatoryStatus({ busy: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    const handleChecklistDownload = () => {
+        if (!navigator.geolocation) {
+            setChecklistStatus({ busy: false, error: 'Géolocalisation indisponible sur cet appareil.' });
+            return;
+        }
+        setChecklistStatus({ busy: true, error: '' });
+        navigator.geolocation.getCurrentPosition(
+            async (position) => {
+                try {
+                    setChecklistMeta(await downloadRegionalChecklist(position.coords.latitude, position.coords.longitude));
+                    setChecklistStatus({ busy: false, error: '' });
+                } catch (error) {
+                    console.error('Regional checklist download error:', error);
+                    setChecklistStatus({ busy: false, error: error instanceof Error ? error.message : String(error) });
+                }
+            },
+            () => setChecklistStatus({ busy: false, error: 'Position introuvable : autorisez la géolocalisation.' }),
+            { enableHighAccuracy: false, timeout: 15000 }
+        );
+    };
+
     const email = user.email || 'Utilisateur';
     const initial = email.charAt(0).toUpperCase();
 
@@ -54,6 +140,54 @@ const UserProfile: React.FC = () => {
                         <p className="text-sm font-bold text-nature-dark dark:text-white truncate" title={email}>{email}</p>
                     </div>
 
+                    <div className="p-4 border-b border-gray-100 dark:border-gray-700 space-y-2">
+                        <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Référentiels hors-ligne</p>
+                        <p className="text-xs text-gray-600 dark:text-gray-300">
+                            {taxrefMeta
+                                ? `TAXREF : ${taxrefMeta.taxonCount} taxons (${taxrefMeta.fileName})`
+                                : 'Aucun référentiel importé : téléchargez TAXREF sur le site de l’INPN.'}
+                        </p>
+                        {taxrefStatus.error && <p className="text-xs text-red-600">{taxrefStatus.error}</p>}
+                        <input ref={taxrefInputRef} type="file" accept=".txt,.csv,.tsv" onChange={handleTaxrefImport} className="hidden" />
+                        <button
+                            type="button"
+                            onClick={() => taxrefInputRef.current?.click()}
+                            disabled={taxrefStatus.busy}
+                            className="w-full px-3 py-2 text-sm font-medium rounded-xl bg-nature-green/10 text-nature-dark dark:text-white hover:bg-nature-green/20 transition-colors disabled:opacity-60"
+                        >
+                            {taxrefStatus.busy ? 'Import en cours...' : taxrefMeta ? 'Remplacer le fichier TAXREF' : 'Importer un fichier TAXREF'}
+                        </button>
+                        <p className="text-xs text-gray-600 dark:text-gray-300 pt-2">
+                            {regulatoryMeta
+                                ? `Statuts réglementaires : ${regulatoryMeta.taxonCount} taxons (${regulatoryMeta.fileName})`
+                                : 'Statuts réglementaires : protection, directives, ZNIEFF (export « statuts » de l’INPN).'}
+                        </p>
+                        {regulatoryStatus.error && <p className="text-xs text-red-600">{regulatoryStatus.error}</p>}
+                        <input ref={regulatoryInputRef} type="file" accept=".txt,.csv,.tsv" onChange={handleRegulatoryImport} className="hidden" />
+                        <button
+                            type="button"
+                            onClick={() => regulatoryInputRef.current?.click()}
+                            disabled={regulatoryStatus.busy}
+                            className="w-full px-3 py-2 text-sm font-medium rounded-xl bg-nature-green/10 text-nature-dark dark:text-white hover:bg-nature-green/20 transition-colors disabled:opacity-60"
+                        >
+                            {regulatoryStatus.busy ? 'Import en cours...' : regulatoryMeta ? 'Remplacer les statuts réglementaires' : 'Importer les statuts réglementaires'}
+                        </button>
+                        <p className="text-xs text-gray-600 dark:text-gray-300 pt-2">
+                            {checklistMeta
+                                ? `Liste régionale : ${checklistMeta.taxonCount} espèces (${checklistMeta.radiusKm} km, ${new Date(checklistMeta.downloadedAt).toLocaleDateString('fr-FR')})`
+                                : `Liste régionale : espèces observées à moins de ${REGIONAL_CHECKLIST_RADIUS_KM} km, pour la saisie hors-ligne.`}
+                        </p>
+                        {checklistStatus.error && <p className="text-xs text-red-600">{checklistStatus.error}</p>}
+                        <button
+                            type="button"
+                            onClick={handleChecklistDownload}
+                            disabled={checklistStatus.busy}
+                            className="w-full px-3 py-2 text-sm font-medium rounded-xl bg-nature-green/10 text-nature-dark dark:text-white hover:bg-nature-green/20 transition-colors disabled:opacity-60"
+                        >
+                            {checklistStatus.busy ? 'Téléchargement...' : checklistMeta ? 'Mettre à jour la liste régionale' : 'Télécharger la liste régionale'}
+                        </button>
+                    </div>
+
                     <div className="p-2">
                         <button
                             onClick={() => {
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View } from '../types';
 
 interface BottomNavigationProps {
@@ -7,6 +7,8 @@ interface BottomNavigationProps {
 }
 
 const BottomNavigation: React.FC<BottomNavigationProps> = ({ currentView, onViewChange }) => {
+    const [isMoreOpen, setIsMoreOpen] = useState(false);
+
     const tabs = [
         {
             id: View.LIST, label: 'Liste',
@@ -30,22 +32,81 @@ const BottomNavigation: React.FC<BottomNavigationProps> = ({ currentView, onView
         },
     ];
 
+    // Secondary screens behind "Plus": a tab each would not fit on a 360px screen.
+    const moreTabs = [
+        {
+            id: View.SESSIONS, label: 'Sorties',
+            icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+        },
+        {
+            id: View.QUALITY, label: 'Qualité',
+            icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
+        },
+        {
+            id: View.REVIEW, label: 'Validation',
+            icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
+        },
+        {
+            id: View.TRASH, label: 'Corbeille',
+            icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+        },
+    ];
+
+    const isMoreActive = moreTabs.some(tab => tab.id === currentView);
+
+    const selectView = (view: View) => {
+        setIsMoreOpen(false);
+        onViewChange(view);
+    };
+
+    const tabClass = (isActive: boolean) => `flex flex-col items-center p-2 transition-all duration-300 ${isActive
+        ? 'text-nature-green transform scale-110'
+        : 'text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300'
+        }`;
+
     return (
         <div className="fixed bottom-0 left-0 right-0 bg-white/90 dark:bg-nature-dark-surface/90 backdrop-blur-xl border-t border-gray-200 dark:border-white/10 pb-safe pt-2 px-4 z-50 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)]">
+            {isMoreOpen && (
+                <>
+                    <div className="fixed inset-0" onClick={() => setIsMoreOpen(false)} />
+                    <div className="absolute bottom-full right-2 mb-2 w-48 bg-white dark:bg-nature-dark-surface rounded-xl shadow-xl border border-gray-200 dark:border-white/10 py-1">
+                        {moreTabs.map(tab => (
+                            <button
+                                key={tab.id}
+                                onClick={() => selectView(tab.id)}
+                                className={`w-full flex items-center gap-3 px-4 py-3 text-sm font-medium ${currentView === tab.id
+                                    ? 'text-nature-green'
+                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-white/5'
+                                    }`}
+                            >
+                                {tab.icon}
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
             <div className="flex justify-around items-center">
                 {tabs.map((tab) => (
                     <button
                         key={tab.id}
-                        onClick={() => onViewChange(tab.id)}
-                        className={`flex flex-col items-center p-2 transition-all duration-300 ${currentView === tab.id
-                                ? 'text-nature-green transform scale-110'
-                                : 'text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300'
-                            }`}
+                        onClick={() => selectView(tab.id)}
+                        className={tabClass(currentView === tab.id)}
                     >
                         <span className="mb-1">{tab.icon}</span>
                         <span className="text-[10px] font-medium uppercase tracking-wide">{tab.label}</span>
                     </button>
                 ))}
+                <button
+                    onClick={() => setIsMoreOpen(open => !open)}
+                    aria-expanded={isMoreOpen}
+                    className={tabClass(isMoreActive || isMoreOpen)}
+                >
+                    <span className="mb-1">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M5 12h.01M12 12h.01M19 12h.01M6 12a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0z" /></svg>
+                    </span>
+                    <span className="text-[10px] font-medium uppercase tracking-wide">Plus</span>
+                </button>
             </div>
         </div>
     );
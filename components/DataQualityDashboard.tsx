@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Observation } from '../types';
+import { TAXON_LOGOS } from '../constants';
+import { isoToFrDisplay } from '../utils/dateUtils';
+import {
+    DATA_QUALITY_ISSUE_LABELS,
+    DATA_QUALITY_ISSUE_TYPES,
+    DataQualityIssue,
+    DataQualityIssueType,
+    applyDataQualityFix,
+    findDataQualityIssues,
+    getDataQualityIssueKey,
+    isDataQualityFixApplied,
+    mergeDataQualityIssues
+} from '../utils/dataQualityUtils';
+import { DataQualityAuditProgress, auditObservationsWithReferences } from '../services/dataQualityService';
+
+interface DataQualityDashboardProps {
+    observations: Observation[];
+    isApplying: boolean;
+    // Resolves to true once the corrected observations are saved.
+    onApplyFixes: (observations: Observation[]) => Promise<boolean>;
+    onEdit: (id: string) => void;
+    isMobileView?: boolean;
+}
+
+const DataQualityDashboard: React.FC<DataQualityDashboardProps> = ({
+    observations,
+    isApplying,
+    onApplyFixes,
+    onEdit,
+    isMobileView = false
+}) => {
+    const [typeFilter, setTypeFilter] = useState<DataQualityIssueType | 'all'>('all');
+    const [referenceIssues, setReferenceIssues] = useState<DataQualityIssue[] | null>(null);
+    const [auditProgress, setAuditProgress] = useState<DataQualityAuditProgress | null>(null);
+
+    const observationsById = useMemo(() => new Map(observations.map(obs => [obs.id, obs])), [observations]);
+
+    // Reference issues are dropped once their observation is gone or already corrected.
+    const issues = useMemo(() => mergeDataQualityIssues(
+        findDataQualityIssues(observations),
+        (referenceIssues ?? []).filter(issue => {
+            const obs = observationsById.get(issue.observationId);
+            return !!obs && !(issue.fix && isDataQualityFixApplied(obs, issue.fix));
+        })
+    ), [observations, observationsById, referenceIssues]);
+
+    const countsByType = useMemo(() => {
+        const counts = new Map<DataQualityIssueType, number>();
+        issues.forEach(issue => counts.set(issue.type, (counts.get(issue.type) ?? 0) + 1));
+        return counts;
+    }, [issues]);
+
+    const visibleIssues = typeFilter === 'all' ? issues : issues.filter(issue => issue.type === typeFilter);
+    const fixableIssues = visibleIssues.filter(issue => issue.fix);
+    const isAuditing = auditProgress !== null;
+
+    const handleAudit = async () => {
+        if (isAuditing) return;
+        setAuditProgress({ done: 0, total: 0 });
+        try {
+            setReferenceIssues(await auditObservationsWithReferences(observations, setAuditProgress));
+        } finally {
+            setAuditProgress(null);
+        }
+    };
+
+    const applyFixes = (selected: DataQualityIssue[]) => {
+        // Several fixes of the same observation are applied together.
+        const fixed = new Map<string, Observation>();
+        selected.forEach(issue => {
+            const obs = fixed.get(issue.observationId) ?? observationsById.get(issue.observationId);
+            if (obs && issue.fix) fixed.set(obs.id, applyDataQualityFix(obs, issue.fix));
+        });
+        if (fixed.size > 0) void onApplyFixes(Array.from(fixed.values()));
+    };
+
+    const chipClass = (active: boolean) => `px-3 py-1.5 rounded-full text-xs font-semibold transition-colors ${active
+        ? 'bg-nature-green text-white'
+        : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-white/10 dark:text-gray-200'}`;
+
+    return (
+        <div className={`space-y-6 animate-fadeIn ${isMobileView ? 'pb-24' : ''}`}>
+            <div className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-3xl shadow-ios border border-white/20 dark:border-white/5 p-6">
+                <h2 className="text-2xl font-bold text-nature-dark dark:text-white">Qualité des données</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                    Groupes incohérents, noms latins manquants, statuts inconnus, effectifs détaillés faux et points GPS hors du département saisi.
+                    Les contrôles de groupe, de nom latin et de département interrogent TAXREF, GBIF, iNaturalist et l'API Découpage administratif.
+                </p>
+
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <button type="button" onClick={() => setTypeFilter('all')} className={chipClass(typeFilter === 'all')}>
+                        Tout ({issues.length})
+                    </button>
+                    {DATA_QUALITY_ISSUE_TYPES.map(type => (
+                        <button key={type} type="button" onClick={() => setTypeFilter(type)} className={chipClass(typeFilter === type)}>
+                            {DATA_QUALITY_ISSUE_LABELS[type]} ({countsByType.get(type) ?? 0})
+                        </button>
+                    ))}
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                    <button
+                        type="button"
+                        onClick={() => void handleAudit()}
+                        disabled={isAuditing || !navigator.onLine}
+                        title={navigator.onLine ? undefined : 'Nécessite une connexion'}
+                        className="px-4 py-2 rounded-full text-sm font-semibold text-white bg-blue-500 hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isAuditing
+                            ? `Vérification... ${auditProgress.done}/${auditProgress.total}`
+                            : referenceIssues ? 'Relancer la vérification' : 'Vérifier avec les référentiels'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => applyFixes(fixableIssues)}
+                        disabled={fixableIssues.length === 0 || isApplying}
+                        className="px-4 py-2 rounded-full text-sm font-semibold text-white bg-nature-green hover:bg-nature-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed ml-auto"
+                    >
+                        {isApplying ? 'Correction...' : `Tout corriger (${fixableIssues.length})`}
+                    </button>
+                </div>
+            </div>
+
+            {visibleIssues.length === 0 ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-12">
+                    {referenceIssues ? 'Aucun problème détecté.' : 'Aucun problème détecté localement. Lancez la vérification pour contrôler groupes, noms latins et départements.'}
+                </p>
+            ) : (
+                <ul className="space-y-3">
+                    {visibleIssues.map(issue => {
+                        const obs = observationsById.get(issue.observationId);
+                        if (!obs) return null;
+                        const logo = TAXON_LOGOS[obs.taxonomicGroup as keyof typeof TAXON_LOGOS];
+
+                        return (
+                            <li
+                                key={getDataQualityIssueKey(issue)}
+                                className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-2xl shadow-ios border border-white/20 dark:border-white/5 p-4 flex items-center gap-4"
+                            >
+                                {logo && <img src={logo} alt={obs.taxonomicGroup} className="w-8 h-8 object-contain flex-shrink-0" />}
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-nature-dark dark:text-white truncate">
+                                        {obs.speciesName}
+                                        <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full font-medium bg-amber-100 text-amber-800 dark:bg-amber-500/10 dark:text-amber-300">
+                                            {DATA_QUALITY_ISSUE_LABELS[issue.type]}
+                                        </span>
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                        {isoToFrDisplay(obs.date, { year: 'numeric', month: '2-digit', day: '2-digit' })}
+                                        {obs.municipality && ` · ${obs.municipality}`}
+                                    </p>
+                                    <p className="text-sm text-gray-700 dark:text-gray-200 mt-0.5">{issue.message}</p>
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    {issue.fix && (
+                                        <button
+                                            type="button"
+                                            onClick={() => applyFixes([issue])}
+                                            disabled={isApplying}
+                                            className="px-3 py-1.5 rounded-full text-xs font-semibold bg-nature-green/10 text-nature-green hover:bg-nature-green/20 transition-colors disabled:opacity-50"
+                                        >
+                                            {issue.fix.label}
+                                        </button>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => onEdit(obs.id)}
+                                        className="px-3 py-1.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-white/10 dark:text-gray-200 transition-colors"
+                                    >
+                                        Modifier
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default DataQualityDashboard;
@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Observation, SamplingSession, TaxonomicGroup } from '../types';
+import {
+    EPOC_DURATION_SECONDS,
+    EpocSpecies,
+    EpocTally,
+    addEpocTally,
+    buildEpocCandidates,
+    selectEpocHistory
+} from '../services/epocService';
+import { formatCountdown } from '../services/stocService';
+import { MONTHS_ORDER } from '../utils/statsReportData';
+import { buildTaxonSpeciesCards } from '../utils/observationStatsUtils';
+import { getMonthIndexFromIsoDate } from '../utils/dateUtils';
+import { normalizeSearchText } from '../utils/textUtils';
+import { ToastType } from './ToastContainer';
+
+interface EpocChecklistProps {
+    session: SamplingSession;
+    observations: Observation[];
+    isSaving: boolean;
+    onSubmit: (session: SamplingSession, tallies: EpocTally[]) => Promise<boolean>;
+    onClose: () => void;
+    onToast: (type: ToastType, message: string, durationMs?: number) => void;
+}
+
+const currentTime = () => new Date().toTimeString().substring(0, 5);
+
+const EpocChecklist: React.FC<EpocChecklistProps> = ({ session, observations, isSaving, onSubmit, onClose, onToast }) => {
+    const [tallies, setTallies] = useState<EpocTally[]>([]);
+    const [completeList, setCompleteList] = useState(session.completeList ?? true);
+    const [startedAt, setStartedAt] = useState<number | null>(null);
+    const [startTime, setStartTime] = useState(session.startTime);
+    const [elapsed, setElapsed] = useState(0);
+    const [speciesInput, setSpeciesInput] = useState('');
+
+    const history = useMemo(() => selectEpocHistory(observations, session), [observations, session]);
+    const historyCards = useMemo(() => buildTaxonSpeciesCards(history), [history]);
+    const candidates = useMemo(() => buildEpocCandidates(history), [history]);
+    const monthIndex = getMonthIndexFromIsoDate(session.date);
+
+    // Every bird of the notebook can be typed, not only the prefilled ones.
+    const knownBirds = useMemo(() => buildEpocCandidates(observations), [observations]);
+
+    useEffect(() => {
+        if (startedAt === null) return;
+        let notified = false;
+        const tick = () => {
+            const seconds = Math.floor((Date.now() - startedAt) / 1000);
+            setElapsed(seconds);
+            if (!notified && seconds >= EPOC_DURATION_SECONDS) {
+                notified = true;
+                navigator.vibrate?.([300, 150, 300]);
+            }
+        };
+        tick();
+        const interval = window.setInterval(tick, 1000);
+        return () => window.clearInterval(interval);
+    }, [startedAt]);
+
+    const listed = useMemo(() => {
+        const extra = tallies.filter(tally => !candidates.some(candidate => normalizeSearchText(candidate.speciesName) === normalizeSearchText(tally.speciesName)));
+        return [...candidates, ...extra];
+    }, [candidates, tallies]);
+
+    const getCount = (species: EpocSpecies) => {
+        return tallies.find(tally => normalizeSearchText(tally.speciesName) === normalizeSearchText(species.speciesName))?.count ?? 0;
+    };
+
+    const handleStart = () => {
+        setStartTime(prev => prev || currentTime());
+        setStartedAt(Date.now());
+    };
+
+    const handleTap = (species: EpocSpecies, delta = 1) => {
+        if (startedAt === null && delta > 0) handleStart();
+        setTallies(prev => addEpocTally(prev, species, delta));
+    };
+
+    const handleAddTypedSpecies = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = speciesInput.trim();
+        if (!name) return;
+        const known = knownBirds.find(bird => normalizeSearchText(bird.speciesName) === normalizeSearchText(name));
+        handleTap(known ?? { speciesName: name, latinName: '', taxonomicGroup: TaxonomicGroup.BIRD });
+        setSpeciesInput('');
+    };
+
+    const handleSubmit = async () => {
+        if (tallies.length === 0 && !completeList) {
+            onToast('error', 'Une liste incomplète sans espèce ne peut pas être enregistrée.');
+            return;
+        }
+        const done = await onSubmit({ ...session, startTime: startTime || currentTime(), endTime: currentTime(), completeList }, tallies);
+        if (done) onClose();
+    };
+
+    const totalIndividuals = tallies.reduce((sum, tally) => sum + tally.count, 0);
+    const secondaryButtonClass = "px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-60 disabled:cursor-not-allowed";
+    const inputClass = "w-full p-3 bg-nature-beige dark:bg-black/20 border-none rounded-xl focus:ring-2 focus:ring-nature-green transition-all dark:text-white placeholder-gray-400";
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm p-2 md:p-4 flex items-center justify-center">
+            <div className="w-full max-w-3xl max-h-[95vh] overflow-y-auto bg-white dark:bg-nature-dark-surface rounded-2xl shadow-2xl border border-white/20 dark:border-white/10 p-4 md:p-6 space-y-5">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-2xl font-bold text-nature-dark dark:text-white">Liste EPOC</h3>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {[session.location || session.municipality, monthIndex !== null ? MONTHS_ORDER[monthIndex] : ''].filter(Boolean).join(' · ')}
+                        </p>
+                    </div>
+                    <button type="button" onClick={onClose} disabled={isSaving} className={secondaryButtonClass}>Fermer</button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 rounded-2xl bg-nature-beige/60 dark:bg-black/20 p-4">
+                    <span
+                        className={`text-5xl font-mono font-bold tabular-nums ${elapsed >= EPOC_DURATION_SECONDS ? 'text-nature-green' : 'text-nature-dark dark:text-white'}`}
+                        aria-live="polite"
+                    >
+                        {formatCountdown(elapsed)}
+                    </span>
+                    <div className="flex-1 text-sm text-gray-600 dark:text-gray-300">
+                        {startTime ? `Début ${startTime}` : 'Chronomètre à lancer'}
+                        {elapsed >= EPOC_DURATION_SECONDS && ' · 5 minutes atteintes'}
+                        <br />
+                        {tallies.length} espèce(s) · {totalIndividuals} individu(s)
+                    </div>
+                    {startedAt === null && (
+                        <button
+                            type="button"
+                            onClick={handleStart}
+                            className="px-5 py-2.5 rounded-full font-semibold text-white bg-nature-green hover:bg-nature-dark transition-colors"
+                        >
+                            Démarrer
+                        </button>
+                    )}
+                </div>
+
+                {historyCards.length > 0 ? (
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                        <span>Historique du lieu pour ce mois :</span>
+                        {historyCards.map(card => (
+                            <span key={card.taxonomicGroup} className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-gray-100 dark:bg-white/10">
+                                <img src={card.logo} alt="" className="w-4 h-4 object-contain" />
+                                {card.taxonomicGroup} : {card.speciesCount}
+                            </span>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Aucune observation passée pour ce lieu et ce mois : saisissez les espèces ci-dessous.</p>
+                )}
+
+                <form onSubmit={handleAddTypedSpecies} className="flex gap-2">
+                    <input
+                        value={speciesInput}
+                        onChange={e => setSpeciesInput(e.target.value)}
+                        list="epoc-species-options"
+                        placeholder="Autre espèce (Entrée pour ajouter)"
+                        aria-label="Autre espèce"
+                        className={inputClass}
+                    />
+                    <datalist id="epoc-species-options">
+                        {knownBirds.map(bird => <option key={bird.speciesName} value={bird.speciesName} />)}
+                    </datalist>
+                    <button type="submit" className={secondaryButtonClass}>+1</button>
+                </form>
+
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {listed.map(species => {
+                        const count = getCount(species);
+                        return (
+                            <li key={species.speciesName} className="flex items-center gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => handleTap(species)}
+                                    className={`flex-1 flex items-center justify-between gap-2 px-3 py-2.5 rounded-xl text-left text-sm transition-colors ${count > 0
+                                        ? 'bg-nature-green text-white'
+                                        : 'bg-gray-100 text-gray-700 hover:bg-nature-green/10 dark:bg-white/10 dark:text-gray-200'}`}
+                                >
+                                    <span className="truncate">{species.speciesName}</span>
+                                    <span className="font-bold tabular-nums">{count > 0 ? count : '+'}</span>
+                                </button>
+                                {count > 0 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => handleTap(species, -1)}
+                                        aria-label={`${species.speciesName} -1`}
+                                        className="w-9 h-9 rounded-full bg-gray-100 text-gray-700 dark:bg-white/10 dark:text-gray-200 font-bold"
+                                    >
+                                        −
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                <label className="flex items-start gap-3 text-sm text-gray-700 dark:text-gray-200">
+                    <input
+                        type="checkbox"
+                        checked={completeList}
+                        onChange={e => setCompleteList(e.target.checked)}
+                        className="mt-1 w-4 h-4 accent-nature-green"
+                    />
+                    <span>
+                        <strong>Liste complète</strong> : toutes les espèces détectées ont été notées.
+                        Les espèces absentes de la liste comptent alors comme non détectées.
+                    </span>
+                </label>
+
+                <div className="flex flex-wrap justify-end gap-3 border-t border-gray-100 dark:border-white/10 pt-4">
+                    <button
+                        type="button"
+                        onClick={handleSubmit}
+                        disabled={isSaving}
+                        className={`px-4 py-2 rounded-lg text-white font-semibold ${isSaving ? 'bg-gray-400 cursor-not-allowed' : 'bg-nature-green hover:bg-green-700'}`}
+                    >
+                        {isSaving ? 'Enregistrement...' : 'Valider la liste'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EpocChecklist;
@@ -1,5 +1,9 @@
 import React from 'react';
 import { Status } from '../types';
+import { STATUS_SCALES, STATUS_SCALE_LABELS, StatusScale } from '../utils/redListUtils';
+import { REGULATORY_FILTERS, REGULATORY_FILTER_LABELS, RegulatoryFilter } from '../utils/regulatoryStatusUtils';
+import { VALIDATION_FILTERS, VALIDATION_FILTER_LABELS, ValidationFilter } from '../utils/validationUtils';
+import { AtlasSquareFilter } from '../utils/atlasGridUtils';
 
 interface FilterBarProps {
     searchTerm: string;
@@ -8,7 +12,16 @@ interface FilterBarProps {
     onYearChange: (value: string) => void;
     statusFilter: Status | 'all';
     onStatusChange: (value: Status | 'all') => void;
+    statusScale: StatusScale;
+    onStatusScaleChange: (value: StatusScale) => void;
+    regulatoryFilter: RegulatoryFilter;
+    onRegulatoryFilterChange: (value: RegulatoryFilter) => void;
+    validationFilter: ValidationFilter;
+    onValidationFilterChange: (value: ValidationFilter) => void;
+    squareFilter: AtlasSquareFilter;
+    onSquareFilterChange: (value: AtlasSquareFilter) => void;
     availableYears: string[];
+    availableSquares: string[];
     isMobileView: boolean;
     searchId?: string;
 }
@@ -20,13 +33,22 @@ const FilterBar: React.FC<FilterBarProps> = ({
     onYearChange,
     statusFilter,
     onStatusChange,
+    statusScale,
+    onStatusScaleChange,
+    regulatoryFilter,
+    onRegulatoryFilterChange,
+    validationFilter,
+    onValidationFilterChange,
+    squareFilter,
+    onSquareFilterChange,
     availableYears,
+    availableSquares,
     isMobileView,
     searchId = 'search-input-filter'
 }) => {
     return (
         <div className={`${isMobileView ? 'p-3 bg-white/70 dark:bg-nature-dark-surface/70 backdrop-blur-md rounded-xl shadow-sm space-y-2' : 'p-6 bg-white/60 dark:bg-nature-dark-surface/60 backdrop-blur-sm rounded-xl shadow-lg space-y-6'}`}>
-            <div className={`grid ${isMobileView ? 'grid-cols-2 gap-2' : 'grid-cols-1 md:grid-cols-3 gap-6'} items-end`}>
+            <div className={`grid ${isMobileView ? 'grid-cols-2 gap-2' : 'grid-cols-1 md:grid-cols-6 gap-6'} items-end`}>
                 <div className={`relative ${isMobileView ? '' : 'md:col-span-1'}`}>
                     <label htmlFor={searchId} className={`block font-bold text-gray-700 dark:text-gray-300 mb-1 ${isMobileView ? 'text-xs' : 'text-sm'}`}>Recherche</label>
                     <input
@@ -54,14 +76,69 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 {!isMobileView && (
                     <div>
                         <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Statut</label>
+                        <div className="flex gap-2">
+                            <select
+                                value={statusScale}
+                                onChange={e => onStatusScaleChange(e.target.value as StatusScale)}
+                                aria-label="Échelle de la liste rouge"
+                                className="w-full border border-nature-light-gray dark:border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-nature-green focus:border-transparent transition dark:bg-nature-dark-bg dark:text-white"
+                            >
+                                {STATUS_SCALES.map(scale => (
+                                    <option key={scale} value={scale}>{STATUS_SCALE_LABELS[scale]}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={statusFilter}
+                                onChange={e => onStatusChange(e.target.value as Status | 'all')}
+                                className="w-full border border-nature-light-gray dark:border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-nature-green focus:border-transparent transition dark:bg-nature-dark-bg dark:text-white"
+                            >
+                                <option value="all">Tous</option>
+                                {Object.values(Status).map(status => (
+                                    <option key={status} value={status}>{status}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                )}
+                {!isMobileView && (
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Réglementation</label>
+                        <select
+                            value={regulatoryFilter}
+                            onChange={e => onRegulatoryFilterChange(e.target.value as RegulatoryFilter)}
+                            className="w-full border border-nature-light-gray dark:border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-nature-green focus:border-transparent transition dark:bg-nature-dark-bg dark:text-white"
+                        >
+                            {REGULATORY_FILTERS.map(filter => (
+                                <option key={filter} value={filter}>{REGULATORY_FILTER_LABELS[filter]}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                {!isMobileView && (
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Validation</label>
+                        <select
+                            value={validationFilter}
+                            onChange={e => onValidationFilterChange(e.target.value as ValidationFilter)}
+                            className="w-full border border-nature-light-gray dark:border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-nature-green focus:border-transparent transition dark:bg-nature-dark-bg dark:text-white"
+                        >
+                            {VALIDATION_FILTERS.map(filter => (
+                                <option key={filter} value={filter}>{VALIDATION_FILTER_LABELS[filter]}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                {!isMobileView && (
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Maille</label>
                         <select
-                            value={statusFilter}
-                            onChange={e => onStatusChange(e.target.value as Status | 'all')}
+                            value={squareFilter}
+                            onChange={e => onSquareFilterChange(e.target.value)}
                             className="w-full border border-nature-light-gray dark:border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-nature-green focus:border-transparent transition dark:bg-nature-dark-bg dark:text-white"
                         >
-                            <option value="all">Tous</option>
-                            {Object.values(Status).map(status => (
-                                <option key={status} value={status}>{status}</option>
+                            <option value="all">Toutes</option>
+                            {availableSquares.map(square => (
+                                <option key={square} value={square}>{square}</option>
                             ))}
                         </select>
                     </div>
@@ -1,7 +1,19 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { SearchResult, reverseGeocode, searchAddress } from '../services/locationService';
+import { createOfflineTileLayer } from '../services/offlineTileLayer';
+import { ObservationGeometry } from '../types';
+import { LatLon } from '../utils/geoUtils';
+import {
+    GEOMETRY_KIND_LABELS,
+    GeometryKind,
+    buildGeometry,
+    formatGeometrySummary,
+    getGeometryAnchor,
+    getGeometryVertices,
+    sanitizeGpsAccuracy
+} from '../utils/geometryUtils';
 
 // Fix for default marker icon (Vite breaks the default paths)
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -17,14 +29,105 @@ const DefaultIcon = L.icon({
 L.Marker.prototype.options.icon = DefaultIcon;
 
 interface MapInputProps {
-    onLocationChange: (lat: number, lon: number, municipality: string, location: string, department: string, country: string) => void;
+    // accuracy: radius in metres when the point comes from the device GPS, undefined when placed by hand.
+    onLocationChange: (lat: number, lon: number, municipality: string, location: string, department: string, country: string, accuracy?: number) => void;
     onToast: (type: 'warning' | 'error' | 'info' | 'success', message: string, durationMs?: number) => void;
+    // Line or polygon already recorded on the observation.
+    geometry?: ObservationGeometry;
+    onGeometryChange?: (geometry: ObservationGeometry | undefined) => void;
 }
 
-const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
+const SHAPE_STYLE: L.PathOptions = { color: '#5D7B45', weight: 3, fillOpacity: 0.2 };
+
+const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast, geometry, onGeometryChange }) => {
     const mapContainerRef = useRef<HTMLDivElement>(null);
     const mapRef = useRef<L.Map | null>(null);
     const markerRef = useRef<L.Marker | null>(null);
+    const accuracyCircleRef = useRef<L.Circle | null>(null);
+    const [drawMode, setDrawMode] = useState<GeometryKind>(() => geometry?.type ?? 'Point');
+    const [vertices, setVertices] = useState<LatLon[]>(() => (geometry ? getGeometryVertices(geometry) : []));
+    const drawModeRef = useRef(drawMode);
+    drawModeRef.current = drawMode;
+
+    // Debounce + AbortController for reverse geocoding
+    const geocodeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const geocodeAbortRef = useRef<AbortController | null>(null);
+
+    const placeMarker = (lat: number, lon: number) => {
+        if (!mapRef.current) return;
+        if (markerRef.current) {
+            markerRef.current.setLatLng([lat, lon]);
+        } else {
+            markerRef.current = L.marker([lat, lon]).addTo(mapRef.current);
+        }
+    };
+
+    const showAccuracy = (lat: number, lon: number, accuracy?: number) => {
+        accuracyCircleRef.current?.remove();
+        accuracyCircleRef.current = null;
+        if (mapRef.current && accuracy) {
+            accuracyCircleRef.current = L.circle([lat, lon], { radius: accuracy, color: '#007AFF', weight: 1, fillOpacity: 0.1, interactive: false }).addTo(mapRef.current);
+        }
+    };
+
+    const scheduleReverseGeocode = (lat: number, lon: number) => {
+        // Cancel previous pending request
+        if (geocodeTimerRef.current) clearTimeout(geocodeTimerRef.current);
+        if (geocodeAbortRef.current) geocodeAbortRef.current.abort();
+
+        geocodeTimerRef.current = setTimeout(() => {
+            const abortCtrl = new AbortController();
+            geocodeAbortRef.current = abortCtrl;
+            reverseGeocode(lat, lon, abortCtrl.signal).then(result => {
+                if (result) {
+                    onLocationChange(lat, lon, result.address?.municipality || '', result.address?.location || '', result.address?.department || '', result.address?.country || '');
+                } else {
+                    onLocationChange(lat, lon, '', '', '', '');
+                }
+            }).catch(err => {
+                if (err.name !== 'AbortError') {
+                    console.error(err);
+                    onToast('warning', "Impossible de récupérer l'adresse exacte pour ce point.");
+                }
+            });
+        }, 300);
+    };
+
+    // A drawn shape moves the observation point to its representative point.
+    const updateVertices = (next: LatLon[]) => {
+        setVertices(next);
+        if (drawModeRef.current === 'Point') return;
+        const shape = buildGeometry(drawModeRef.current, next);
+        onGeometryChange?.(shape);
+        if (!shape) return;
+        const anchor = getGeometryAnchor(shape);
+        placeMarker(anchor.lat, anchor.lon);
+        scheduleReverseGeocode(anchor.lat, anchor.lon);
+    };
+
+    const handleMapClickRef = useRef<(latlng: L.LatLng) => void>(() => undefined);
+    handleMapClickRef.current = (latlng: L.LatLng) => {
+        if (drawModeRef.current === 'Point') {
+            placeMarker(latlng.lat, latlng.lng);
+            showAccuracy(latlng.lat, latlng.lng);
+            scheduleReverseGeocode(latlng.lat, latlng.lng);
+            return;
+        }
+        updateVertices([...vertices, { lat: latlng.lat, lon: latlng.lng }]);
+    };
+
+    const handleDrawModeChange = (mode: GeometryKind) => {
+        if (mode === drawMode) return;
+        setDrawMode(mode);
+        drawModeRef.current = mode;
+        if (mode === 'Point') {
+            setVertices([]);
+            onGeometryChange?.(undefined);
+            return;
+        }
+        // The same vertices are kept when switching between line and polygon.
+        updateVertices(vertices);
+    };
 
     useEffect(() => {
         if (mapContainerRef.current && !mapRef.current) {
@@ -38,43 +141,15 @@ const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
 
             mapRef.current = map;
 
-            L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-                attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            }).addTo(map);
-
-            // Debounce + AbortController for reverse geocoding
-            let clickTimer: ReturnType<typeof setTimeout> | null = null;
-            let abortCtrl: AbortController | null = null;
-
-            map.on('click', (e: L.LeafletMouseEvent) => {
-                const { lat, lng } = e.latlng;
+            // Served from the offline tile cache inside downloaded areas.
+            createOfflineTileLayer('osm').addTo(map);
 
-                if (markerRef.current) {
-                    markerRef.current.setLatLng(e.latlng);
-                } else {
-                    markerRef.current = L.marker(e.latlng).addTo(map);
-                }
+            map.on('click', (e: L.LeafletMouseEvent) => handleMapClickRef.current(e.latlng));
 
-                // Cancel previous pending request
-                if (clickTimer) clearTimeout(clickTimer);
-                if (abortCtrl) abortCtrl.abort();
-
-                clickTimer = setTimeout(() => {
-                    abortCtrl = new AbortController();
-                    reverseGeocode(lat, lng, abortCtrl?.signal).then(result => {
-                        if (result) {
-                            onLocationChange(lat, lng, result.address?.municipality || '', result.address?.location || '', result.address?.department || '', result.address?.country || '');
-                        } else {
-                            onLocationChange(lat, lng, '', '', '', '');
-                        }
-                    }).catch(err => {
-                        if (err.name !== 'AbortError') {
-                            console.error(err);
-                            onToast('warning', "Impossible de récupérer l'adresse exacte pour ce point.");
-                        }
-                    });
-                }, 300);
-            });
+            if (geometry) {
+                const shapeBounds = L.latLngBounds(getGeometryVertices(geometry).map(vertex => [vertex.lat, vertex.lon] as L.LatLngTuple));
+                map.fitBounds(shapeBounds, { padding: [30, 30], maxZoom: 17 });
+            }
         }
 
         // Fix gray map issue
@@ -95,6 +170,8 @@ const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
 
         return () => {
             clearTimeout(timer);
+            if (geocodeTimerRef.current) clearTimeout(geocodeTimerRef.current);
+            geocodeAbortRef.current?.abort();
             if (markerRef.current && mapRef.current) {
                 markerRef.current.removeFrom(mapRef.current);
                 markerRef.current = null;
@@ -110,6 +187,25 @@ const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
         };
     }, []);
 
+    useEffect(() => {
+        if (!mapRef.current || drawMode === 'Point' || vertices.length === 0) return;
+
+        const latLngs = vertices.map(vertex => [vertex.lat, vertex.lon] as L.LatLngTuple);
+        const shape = drawMode === 'Polygon' && vertices.length >= 3
+            ? L.polygon(latLngs, { ...SHAPE_STYLE, interactive: false })
+            : L.polyline(latLngs, { ...SHAPE_STYLE, dashArray: drawMode === 'Polygon' ? '6 4' : undefined, interactive: false });
+        const layer = L.layerGroup([
+            shape,
+            ...latLngs.map(latLng => L.circleMarker(latLng, { radius: 4, color: '#5D7B45', fillColor: '#ffffff', fillOpacity: 1, weight: 2, interactive: false }))
+        ]).addTo(mapRef.current);
+
+        return () => {
+            layer.remove();
+        };
+    }, [vertices, drawMode]);
+
+    const currentGeometry = drawMode === 'Point' ? undefined : buildGeometry(drawMode, vertices);
+
     const [searchQuery, setSearchQuery] = React.useState('');
     const [searchResults, setSearchResults] = React.useState<SearchResult[]>([]);
     const [isSearching, setIsSearching] = React.useState(false);
@@ -136,12 +232,12 @@ const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
     const handleSelectLocation = (result: SearchResult) => {
         if (mapRef.current) {
             mapRef.current.flyTo([result.lat, result.lon], 16);
-            if (markerRef.current) {
-                markerRef.current.setLatLng([result.lat, result.lon]);
-            } else {
-                markerRef.current = L.marker([result.lat, result.lon]).addTo(mapRef.current);
+            // While drawing a shape the search only moves the view.
+            if (drawModeRef.current === 'Point') {
+                placeMarker(result.lat, result.lon);
+                showAccuracy(result.lat, result.lon);
+                onLocationChange(result.lat, result.lon, result.address?.municipality || '', result.address?.location || '', result.address?.department || '', result.address?.country || '');
             }
-            onLocationChange(result.lat, result.lon, result.address?.municipality || '', result.address?.location || '', result.address?.department || '', result.address?.country || '');
             setSearchResults([]);
             setSearchQuery('');
         }
@@ -151,20 +247,20 @@ const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
         if ('geolocation' in navigator) {
             navigator.geolocation.getCurrentPosition((position) => {
                 const { latitude, longitude } = position.coords;
+                const accuracy = sanitizeGpsAccuracy(position.coords.accuracy);
                 if (mapRef.current) {
                     mapRef.current.flyTo([latitude, longitude], 16);
-                    if (markerRef.current) {
-                        markerRef.current.setLatLng([latitude, longitude]);
-                    } else {
-                        markerRef.current = L.marker([latitude, longitude]).addTo(mapRef.current);
-                    }
+                    showAccuracy(latitude, longitude, accuracy);
+                    // While drawing a shape the position only helps placing the vertices.
+                    if (drawModeRef.current !== 'Point') return;
+                    placeMarker(latitude, longitude);
 
                     // Reverse geocode to get address details
                     reverseGeocode(latitude, longitude).then(result => {
                         if (result) {
-                            onLocationChange(latitude, longitude, result.address?.municipality || '', result.address?.location || '', result.address?.department || '', result.address?.country || '');
+                            onLocationChange(latitude, longitude, result.address?.municipality || '', result.address?.location || '', result.address?.department || '', result.address?.country || '', accuracy);
                         } else {
-                            onLocationChange(latitude, longitude, '', '', '', '');
+                            onLocationChange(latitude, longitude, '', '', '', '', accuracy);
                         }
                     }).catch((error) => {
                         console.error(error);
@@ -174,7 +270,7 @@ const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
             }, (error) => {
                 console.error("Erreur de géolocalisation:", error);
                 onToast('warning', "Impossible de vous localiser. Vérifiez vos autorisations.");
-            });
+            }, { enableHighAccuracy: true, timeout: 20000 });
         } else {
             onToast('warning', "La géolocalisation n'est pas supportée par votre navigateur.");
         }
@@ -226,6 +322,34 @@ const MapInput: React.FC<MapInputProps> = ({ onLocationChange, onToast }) => {
                 )}
             </div>
 
+            {/* Geometry tools */}
+            <div className="absolute bottom-2 left-2 z-[1000] max-w-[70%] px-2 py-1.5 bg-white/90 dark:bg-nature-dark-surface/90 backdrop-blur-md rounded-xl shadow-md border border-gray-200 dark:border-white/10 text-xs dark:text-white space-y-1">
+                <div className="flex gap-1" role="group" aria-label="Type de localisation">
+                    {(['Point', 'LineString', 'Polygon'] as GeometryKind[]).map(mode => (
+                        <button
+                            type="button"
+                            key={mode}
+                            onClick={() => handleDrawModeChange(mode)}
+                            aria-pressed={drawMode === mode}
+                            className={`px-2 py-1 rounded-lg font-semibold transition-colors ${drawMode === mode ? 'bg-nature-green text-white' : 'hover:bg-gray-100 dark:hover:bg-white/10'}`}
+                        >
+                            {GEOMETRY_KIND_LABELS[mode]}
+                        </button>
+                    ))}
+                </div>
+                {drawMode !== 'Point' && (
+                    <div className="flex items-center gap-2">
+                        <span className="truncate">{currentGeometry ? formatGeometrySummary(currentGeometry) : 'Touchez la carte pour ajouter des sommets.'}</span>
+                        <button type="button" onClick={() => updateVertices(vertices.slice(0, -1))} disabled={vertices.length === 0} className="text-nature-green font-semibold disabled:opacity-40">
+                            Annuler
+                        </button>
+                        <button type="button" onClick={() => updateVertices([])} disabled={vertices.length === 0} className="text-red-600 font-semibold disabled:opacity-40">
+                            Effacer
+                        </button>
+                    </div>
+                )}
+            </div>
+
             {/* Locate Me Button */}
             <button
                 onClick={handleLocateMe}
@@ -1,7 +1,10 @@
 import React from 'react';
-import { Observation } from '../types';
+import { Observation, ValidationStatus } from '../types';
 import { TAXON_LOGOS } from '../constants';
 import { isoToFrDisplay } from '../utils/dateUtils';
+import { useMediaSource } from '../hooks/useMediaSource';
+import RedListBadges from './RedListBadges';
+import RegulatoryBadges from './RegulatoryBadges';
 
 interface ObservationCardProps {
     observation: Observation;
@@ -23,6 +26,8 @@ const getStatusBadgeClass = (status: string): string => {
 };
 
 const ObservationCard: React.FC<ObservationCardProps> = ({ observation, onEdit, onDelete, selected, onToggle }) => {
+    const photoSrc = useMediaSource(observation.photo);
+
     return (
         <div className={`bg-white/60 dark:bg-nature-dark-surface/60 backdrop-blur-md rounded-2xl p-4 shadow-sm border border-white/20 dark:border-white/5 mb-4 relative overflow-hidden group ${selected ? 'ring-2 ring-nature-green bg-nature-green/5' : ''}`}>
             <div className="flex items-start gap-4">
@@ -37,8 +42,8 @@ const ObservationCard: React.FC<ObservationCardProps> = ({ observation, onEdit,
                 </div>
                 {/* Image or Icon */}
                 <div className="w-20 h-20 rounded-xl overflow-hidden flex-shrink-0 bg-gray-100 dark:bg-black/20 relative">
-                    {observation.photo ? (
-                        <img src={observation.photo} alt={observation.speciesName} className="w-full h-full object-cover" />
+                    {photoSrc ? (
+                        <img src={photoSrc} alt={observation.speciesName} className="w-full h-full object-cover" />
                     ) : observation.wikipediaImage ? (
                         <img src={observation.wikipediaImage} alt={observation.speciesName} className="w-full h-full object-cover" />
                     ) : (
@@ -64,6 +69,23 @@ const ObservationCard: React.FC<ObservationCardProps> = ({ observation, onEdit,
                             {observation.status}
                         </span>
                     </div>
+                    <RedListBadges assessments={observation.redLists} className="mt-1" />
+                    <RegulatoryBadges statuses={observation.regulatoryStatuses} className="mt-1" />
+                    {observation.exceptional && (
+                        <span className="inline-block mt-1 text-[10px] px-2 py-0.5 rounded-full font-medium bg-amber-100 text-amber-800 dark:bg-amber-500/10 dark:text-amber-300">
+                            Donnée exceptionnelle
+                        </span>
+                    )}
+                    {observation.validationStatus === ValidationStatus.VALIDATED && (
+                        <span className="inline-block mt-1 text-[10px] px-2 py-0.5 rounded-full font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                            Validée
+                        </span>
+                    )}
+                    {observation.validationStatus === ValidationStatus.REJECTED && (
+                        <span className="inline-block mt-1 text-[10px] px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" title={observation.validationComment}>
+                            Invalidée
+                        </span>
+                    )}
 
                     <div className="mt-2 space-y-1">
                         <div className="flex items-center text-xs text-gray-600 dark:text-gray-300">
@@ -1,22 +1,42 @@
 import React, { Suspense, lazy, useState, useEffect, useRef } from 'react';
 import { TAXON_LOGOS } from '../constants';
-import { Observation, TaxonomicGroup, Status, Protocol, Sexe, Age, ObservationCondition, Comportement } from '../types';
-import { fetchSpeciesInfo, SpeciesInfo, SpeciesSuggestion, suggestSpeciesAutocomplete, mapINatIconicToTaxonomicGroup } from '../services/speciesService';
+import { Observation, TaxonomicGroup, Status, Protocol, Sexe, Age, ObservationCondition, Comportement, SamplingSession, IdentificationRank, IdentificationConfidence, ValidationStatus } from '../types';
+import { fetchSpeciesInfo, SpeciesInfo, SpeciesSuggestion, suggestLocalSpecies, suggestSpeciesAutocomplete, mapINatIconicToTaxonomicGroup } from '../services/speciesService';
 import { fetchAltitude } from '../services/locationService';
 import { compressImage } from '../utils/imageUtils';
 import { buildObservationFromForm, ObservationFormData, validateObservationForm } from '../services/observationFormService';
-import { uploadPhoto } from '../services/storageService';
+import { stashOfflineMedia, uploadPhoto } from '../services/storageService';
 import { dateToIsoLocal } from '../utils/dateUtils';
 import { normalizeSearchText } from '../utils/textUtils';
+import { selectRedListsForDepartment } from '../utils/redListUtils';
+import { useMediaSource } from '../hooks/useMediaSource';
+import { RevisionChange, revertRevisionChange } from '../services/observationHistoryService';
+import { buildSessionObservationDefaults, formatSessionLabel } from '../services/sessionService';
+import { resolveTaxonReference } from '../services/taxrefService';
+import { resolveRegulatoryStatuses } from '../services/regulatoryListService';
+import { isInRegionalChecklist } from '../services/localTaxonIndex';
+import { findPlausibilityWarnings, PlausibilityWarning } from '../utils/plausibilityUtils';
+import { getIdentificationRank, IDENTIFICATION_RANKS } from '../utils/identificationUtils';
+import { getValidationStatus, IDENTIFICATION_CONFIDENCES } from '../utils/validationUtils';
+import { ATLAS_CODES, BREEDING_EVIDENCE_LEVELS, formatAtlasCode } from '../utils/atlasCodeUtils';
+import { formatGeometrySummary } from '../utils/geometryUtils';
 import { ToastType } from './ToastContainer';
+import RedListBadges from './RedListBadges';
+import RegulatoryBadges from './RegulatoryBadges';
 
 const MapInput = lazy(() => import('./MapInput'));
+const ObservationHistoryTimeline = lazy(() => import('./ObservationHistoryTimeline'));
 
 interface ObservationFormProps {
     onSave: (observation: Observation) => Promise<void>;
     onCancel: () => void;
     initialData: Observation | null;
     onToast: (type: ToastType, message: string, durationMs?: number) => void;
+    sessions?: SamplingSession[];
+    // New observation started from "Continuer la sortie" in the sessions view.
+    initialSession?: SamplingSession | null;
+    // Notebook used for the plausibility checks on save.
+    observations?: Observation[];
 }
 
 const FormSection: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
@@ -34,6 +54,15 @@ const getObservationLookupKey = (speciesName: string, latinName: string): string
 
 const normalizeLookupKey = (value: string): string => normalizeSearchText(value || '');
 
+const EMPTY_TAXON_REFERENCE: Pick<Observation, 'cdNom' | 'cdRef' | 'gbifTaxonId' | 'inatTaxonId' | 'redLists' | 'regulatoryStatuses'> = {
+    cdNom: undefined,
+    cdRef: undefined,
+    gbifTaxonId: undefined,
+    inatTaxonId: undefined,
+    redLists: undefined,
+    regulatoryStatuses: undefined
+};
+
 const createEmptyFormData = (defaultTaxonomicGroup: TaxonomicGroup): ObservationFormData => ({
     speciesName: '',
     latinName: '',
@@ -69,9 +98,10 @@ const mapObservationToFormData = (observation: Observation): ObservationFormData
     maleCount: observation.maleCount ?? '',
     femaleCount: observation.femaleCount ?? '',
     unidentifiedCount: observation.unidentifiedCount ?? '',
+    candidateLatinNames: observation.candidateLatinNames?.join(' / ')
 });
 
-const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, initialData, onToast }) => {
+const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, initialData, onToast, sessions = [], initialSession = null, observations = [] }) => {
     const defaultTaxonomicGroup = TaxonomicGroup.BIRD;
     const [formData, setFormData] = useState<ObservationFormData>(() => createEmptyFormData(defaultTaxonomicGroup));
     const [errors, setErrors] = useState<Record<string, string>>({});
@@ -83,6 +113,7 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
     const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
     const [isFetchingInfo, setIsFetchingInfo] = useState(false);
     const [photoFile, setPhotoFile] = useState<Blob | null>(null);
+    const [plausibilityWarnings, setPlausibilityWarnings] = useState<PlausibilityWarning[]>([]);
 
     const [isUploading, setIsUploading] = useState(false);
     const latestSpeciesRequestRef = useRef(0);
@@ -97,7 +128,10 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
         taxonomicGroup: false,
         status: false
     });
+    const photoPreviewSrc = useMediaSource(formData.photo);
+    const soundSrc = useMediaSource(formData.sound);
     const lookupKey = getObservationLookupKey(formData.speciesName, formData.latinName);
+    const identificationRank = getIdentificationRank(formData);
     const normalizedLookupKey = normalizeLookupKey(lookupKey);
 
     useEffect(() => {
@@ -113,12 +147,15 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                 status: initialData.status !== Status.NE
             });
         } else {
-            setFormData(createEmptyFormData(defaultTaxonomicGroup));
+            setFormData({
+                ...createEmptyFormData(defaultTaxonomicGroup),
+                ...(initialSession ? buildSessionObservationDefaults(initialSession) : {})
+            });
             setFieldTouched({ latinName: false, taxonomicGroup: false, status: false });
         }
         lastAutoImageLookupKeyRef.current = '';
         lastAutoImageUrlRef.current = '';
-    }, [defaultTaxonomicGroup, initialData]);
+    }, [defaultTaxonomicGroup, initialData, initialSession]);
 
     // IntersectionObserver: show sticky bar when bottom buttons are out of view
     useEffect(() => {
@@ -132,7 +169,8 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
         return () => observer.disconnect();
     }, []);
 
-    // Debounce species autocomplete suggestions (French-first via iNaturalist).
+    // Debounce species autocomplete suggestions: the local index answers at once,
+    // the remote services (French-first via iNaturalist) complete the list when reachable.
     useEffect(() => {
         let cancelled = false;
         const query = formData.speciesName.trim();
@@ -151,13 +189,20 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
         }
 
         setIsFetchingSuggestions(true);
+        const showSpeciesSuggestions = (suggestions: SpeciesSuggestion[]) => {
+            setSpeciesSuggestions(suggestions);
+            setShowSuggestions(suggestions.length > 0);
+            setActiveSuggestionIndex(suggestions.length > 0 ? 0 : -1);
+        };
         const timeoutId = window.setTimeout(async () => {
+            const localSuggestions = await suggestLocalSpecies(query, 5);
+            if (cancelled) return;
+            if (localSuggestions.length > 0) showSpeciesSuggestions(localSuggestions);
+
             const suggestions = await suggestSpeciesAutocomplete(query, 5);
             if (cancelled) return;
 
-            setSpeciesSuggestions(suggestions);
-            setShowSuggestions(suggestions.length > 0);
-            setActiveSuggestionIndex(suggestions.length > 0 ? 0 : -1);
+            showSpeciesSuggestions(suggestions);
             setIsFetchingSuggestions(false);
         }, 300);
 
@@ -214,7 +259,7 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                 const requestId = latestSpeciesRequestRef.current + 1;
                 latestSpeciesRequestRef.current = requestId;
                 setIsFetchingInfo(true);
-                const info = await fetchSpeciesInfo(lookupForRequest);
+                const info = await fetchSpeciesInfo(lookupForRequest, formData.identificationRank);
                 if (cancelled || requestId !== latestSpeciesRequestRef.current) {
                     return;
                 }
@@ -273,7 +318,18 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
             cancelled = true;
             clearTimeout(timeoutId);
         };
-    }, [fieldTouched.latinName, fieldTouched.status, fieldTouched.taxonomicGroup, lookupKey, normalizedLookupKey]);
+    }, [fieldTouched.latinName, fieldTouched.status, fieldTouched.taxonomicGroup, formData.identificationRank, lookupKey, normalizedLookupKey]);
+
+    // Red lists follow the species and the department: only the regional list
+    // of the observation's région is kept.
+    useEffect(() => {
+        const assessments = speciesInfo?.redLists;
+        if (!assessments?.length) return;
+        setFormData(prev => {
+            const redLists = selectRedListsForDepartment(assessments, prev.department);
+            return JSON.stringify(redLists) === JSON.stringify(prev.redLists ?? []) ? prev : { ...prev, redLists };
+        });
+    }, [speciesInfo, formData.department]);
 
     useEffect(() => {
         return () => {
@@ -286,10 +342,11 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
         };
     }, [formData.photo, formData.sound]);
 
-    const handleLocationChange = async (lat: number, lon: number, municipality: string, location: string, department: string, country: string) => {
+    const handleLocationChange = async (lat: number, lon: number, municipality: string, location: string, department: string, country: string, accuracy?: number) => {
         setFormData(prev => ({
             ...prev,
             gps: { lat, lon },
+            gpsAccuracy: accuracy,
             municipality,
             location,
             department,
@@ -329,6 +386,10 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
             setFormData(prev => ({ ...prev, [name]: Number.isNaN(parsed) ? '' : parsed }));
         } else if (name === 'altitude') {
             setFormData(prev => ({ ...prev, altitude: value === '' ? null : parseFloat(value) }));
+        } else if (name === 'gpsAccuracy') {
+            setFormData(prev => ({ ...prev, gpsAccuracy: value === '' ? undefined : parseFloat(value) }));
+        } else if (name === 'confidence') {
+            setFormData(prev => ({ ...prev, confidence: (value || undefined) as IdentificationConfidence | undefined }));
         } else {
             if (name === 'latinName') {
                 setFieldTouched(prev => ({ ...prev, latinName: true }));
@@ -336,6 +397,21 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
             if (name === 'status') {
                 setFieldTouched(prev => ({ ...prev, status: true }));
             }
+            if (name === 'speciesName' || name === 'latinName') {
+                // A retyped name no longer matches the linked taxon: it is resolved again on save.
+                // A retyped latin name also gives the rank again ("Sympetrum sp." is a genus).
+                // A reviewer decision was about the previous name: it goes back to review.
+                setFormData(prev => ({
+                    ...prev,
+                    [name]: value,
+                    ...EMPTY_TAXON_REFERENCE,
+                    ...(name === 'latinName' ? { identificationRank: undefined } : {}),
+                    ...(getValidationStatus(prev) !== ValidationStatus.PENDING
+                        ? { validationStatus: ValidationStatus.PENDING, validatedBy: undefined, validatedAt: undefined }
+                        : {})
+                }));
+                return;
+            }
             setFormData(prev => ({ ...prev, [name]: value }));
         }
     };
@@ -364,16 +440,50 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
         });
     };
 
+    // Fills the form with the previous value; saving records the revert as a new revision.
+    const handleRevertRevisionChange = (change: RevisionChange) => {
+        if (!initialData) return;
+        const current = buildObservationFromForm(formData, initialData.id, formData.photo, formData.sound);
+        const reverted = revertRevisionChange(current, change);
+
+        if (change.column === 'species_name') skipNextSuggestionsFetchRef.current = true;
+        if (change.column === 'photo_url') setPhotoFile(null);
+        if (change.column === 'latin_name' || change.column === 'taxonomic_group' || change.column === 'status') {
+            setFieldTouched(prev => ({
+                ...prev,
+                latinName: prev.latinName || change.column === 'latin_name',
+                taxonomicGroup: prev.taxonomicGroup || change.column === 'taxonomic_group',
+                status: prev.status || change.column === 'status'
+            }));
+        }
+        setFormData(mapObservationToFormData(reverted));
+        onToast('info', `« ${change.label} » : valeur précédente rétablie. Sauvegardez pour valider.`);
+    };
+
+    const selectedSession = sessions.find(session => session.id === formData.sessionId) ?? null;
+
+    const handleSessionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const sessionId = e.target.value || undefined;
+        setFormData(prev => ({ ...prev, sessionId }));
+    };
+
+    // "Continuer la sortie": copies the fields the observation shares with its session.
+    const handleContinueSession = () => {
+        if (!selectedSession) return;
+        setFormData(prev => ({ ...prev, ...buildSessionObservationDefaults(selectedSession) }));
+        onToast('info', 'Date, lieu, GPS et protocole repris de la sortie.');
+    };
+
     const applySpeciesAutocompleteSuggestion = (suggestion: SpeciesSuggestion) => {
         skipNextSuggestionsFetchRef.current = true;
         setShowSuggestions(false);
         setSpeciesSuggestions([]);
         setActiveSuggestionIndex(-1);
 
-        // Immediately map iconic taxon name to taxonomic group
-        const suggestedGroup = suggestion.iconicTaxonName
+        // Immediately map the TAXREF classification or iconic taxon name to taxonomic group
+        const suggestedGroup = suggestion.taxonomicGroup ?? (suggestion.iconicTaxonName
             ? mapINatIconicToTaxonomicGroup(suggestion.iconicTaxonName)
-            : undefined;
+            : undefined);
 
         setFormData(prev => {
             const next = {
@@ -383,6 +493,10 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                 taxonomicGroup: !fieldTouched.taxonomicGroup && suggestedGroup
                     ? suggestedGroup
                     : prev.taxonomicGroup,
+                cdNom: suggestion.cdNom,
+                cdRef: suggestion.cdRef,
+                gbifTaxonId: suggestion.gbifTaxonId,
+                inatTaxonId: suggestion.inatTaxonId
             };
 
             if (!prev.photo) {
@@ -462,6 +576,17 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
         }
     };
 
+    const findFormPlausibilityWarnings = async (): Promise<PlausibilityWarning[]> => {
+        const candidate = buildObservationFromForm(formData, initialData?.id ?? '', formData.photo, formData.sound);
+        let inRegionalChecklist: boolean | null = null;
+        try {
+            inRegionalChecklist = await isInRegionalChecklist(candidate, candidate.gps);
+        } catch (error) {
+            console.warn('Regional checklist lookup failed', error);
+        }
+        return findPlausibilityWarnings(candidate, observations, { inRegionalChecklist });
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (isUploading) return;
@@ -469,10 +594,29 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
             return;
         }
 
+        // Unusual records are only saved once the observer confirms them as exceptional.
+        if (!formData.exceptional) {
+            const warnings = await findFormPlausibilityWarnings();
+            if (warnings.length > 0) {
+                setPlausibilityWarnings(warnings);
+                return;
+            }
+        }
+        await saveFormData(formData);
+    };
+
+    const handleConfirmExceptional = async () => {
+        const data = { ...formData, exceptional: true };
+        setFormData(data);
+        setPlausibilityWarnings([]);
+        await saveFormData(data);
+    };
+
+    const saveFormData = async (data: ObservationFormData) => {
         setIsUploading(true);
-        let photoUrl = formData.photo;
-        const soundUrl = formData.sound;
-        const strippedOfflineMedia: string[] = [];
+        let photoUrl = data.photo;
+        const soundUrl = data.sound;
+        let queuedOfflineMedia = false;
 
         try {
             if (navigator.onLine) {
@@ -481,21 +625,30 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                 }
             } else {
                 if (photoFile) {
-                    photoUrl = initialData?.photo || undefined;
-                    strippedOfflineMedia.push('photo');
+                    // Kept in IndexedDB and uploaded by the offline queue once the network is back.
+                    photoUrl = await stashOfflineMedia(photoFile, 'photo');
+                    queuedOfflineMedia = true;
                 }
             }
 
             const observationToSave: Observation = buildObservationFromForm(
-                formData,
+                data,
                 initialData?.id || crypto.randomUUID(),
                 photoUrl,
                 soundUrl
             );
+            if (observationToSave.cdNom === undefined) {
+                const reference = await resolveTaxonReference(observationToSave);
+                if (reference) Object.assign(observationToSave, reference);
+            }
+            const regulatoryStatuses = await resolveRegulatoryStatuses(observationToSave);
+            if (regulatoryStatuses) {
+                observationToSave.regulatoryStatuses = regulatoryStatuses.length ? regulatoryStatuses : undefined;
+            }
             await onSave(observationToSave);
 
-            if (strippedOfflineMedia.length > 0) {
-                onToast('warning', `Observation enregistrée, mais le nouveau ${strippedOfflineMedia.join(' et ')} n'a pas pu être envoyé hors-ligne. Réessayez en ligne.`, 7000);
+            if (queuedOfflineMedia) {
+                onToast('info', 'Photo conservée hors-ligne : elle sera envoyée à la prochaine synchronisation.', 7000);
             }
         } catch (error) {
             console.error("Erreur lors de l'envoi:", error);
@@ -518,6 +671,28 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
             <form onSubmit={handleSubmit} className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-3xl shadow-ios border border-white/20 dark:border-white/5 p-4 md:p-8 space-y-8 animate-fadeIn">
                 <h2 className="text-3xl font-bold tracking-tight text-nature-dark dark:text-white mb-6 text-center">{initialData ? 'Modifier' : 'Ajouter'} une observation</h2>
 
+                {sessions.length > 0 && (
+                    <div className="flex flex-wrap items-end gap-3 p-4 rounded-2xl bg-nature-green/5 border border-nature-green/20">
+                        <div className="flex-1 min-w-[220px]">
+                            <label htmlFor="sessionId" className={labelClass}>Sortie / relevé</label>
+                            <select id="sessionId" name="sessionId" value={formData.sessionId ?? ''} onChange={handleSessionChange} className={inputClass}>
+                                <option value="">Aucune sortie</option>
+                                {sessions.map(session => (
+                                    <option key={session.id} value={session.id}>{formatSessionLabel(session)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={handleContinueSession}
+                            disabled={!selectedSession}
+                            className="px-5 py-3 rounded-full font-semibold text-nature-green bg-nature-green/10 hover:bg-nature-green/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Continuer la sortie
+                        </button>
+                    </div>
+                )}
+
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                     <div className="lg:col-span-2 space-y-8">
                         <FormSection title="Identification">
@@ -578,7 +753,42 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                             <div className="lg:col-span-1">
                                 <label htmlFor="latinName" className={labelClass}>Nom latin</label>
                                 <input type="text" id="latinName" name="latinName" value={formData.latinName} onChange={handleChange} className={inputClass} />
+                                <p className="text-xs text-gray-500 mt-1 ml-1">« Sympetrum sp. » pour un genre, « Pipistrellus kuhlii/nathusii » pour une paire</p>
+                            </div>
+                            <div className="lg:col-span-1">
+                                <label htmlFor="identificationRank" className={labelClass}>Rang d'identification</label>
+                                <select id="identificationRank" name="identificationRank" value={identificationRank} onChange={handleChange} className={inputClass}>
+                                    {IDENTIFICATION_RANKS.map(rank => <option key={rank} value={rank}>{rank}</option>)}
+                                </select>
                             </div>
+                            <div className="lg:col-span-1">
+                                <label htmlFor="confidence" className={labelClass}>Certitude</label>
+                                <select id="confidence" name="confidence" value={formData.confidence ?? ''} onChange={handleChange} className={inputClass}>
+                                    <option value="">Non renseignée</option>
+                                    {IDENTIFICATION_CONFIDENCES.map(confidence => <option key={confidence} value={confidence}>{confidence}</option>)}
+                                </select>
+                                {getValidationStatus(formData) !== ValidationStatus.PENDING && (
+                                    <p className="text-xs text-gray-500 mt-1 ml-1">
+                                        {formData.validationStatus}{formData.validatedBy && ` par ${formData.validatedBy}`}
+                                        {formData.validationComment && ` : ${formData.validationComment}`}
+                                    </p>
+                                )}
+                            </div>
+                            {identificationRank === IdentificationRank.AGGREGATE && (
+                                <div className="lg:col-span-2">
+                                    <label htmlFor="candidateLatinNames" className={labelClass}>Espèces possibles</label>
+                                    <input
+                                        type="text"
+                                        id="candidateLatinNames"
+                                        name="candidateLatinNames"
+                                        value={formData.candidateLatinNames ?? ''}
+                                        onChange={handleChange}
+                                        placeholder="Pipistrellus kuhlii / Pipistrellus nathusii"
+                                        className={inputClass}
+                                    />
+                                    {errors.candidateLatinNames && <p className={errorClass}>{errors.candidateLatinNames}</p>}
+                                </div>
+                            )}
                             <div className="lg:col-span-3">
                                 <label className={labelClass}>Groupe taxonomique</label>
                                 <p className="text-xs text-gray-500 ml-1 mb-2">Choisissez le groupe le plus proche si la détection auto ne convient pas.</p>
@@ -697,14 +907,29 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                                 <label htmlFor="altitude" className={labelClass}>Altitude (m)</label>
                                 <input type="number" id="altitude" name="altitude" value={formData.altitude ?? ''} onChange={handleChange} className={inputClass} />
                             </div>
+                            <div>
+                                <label htmlFor="gpsAccuracy" className={labelClass}>Précision (m)</label>
+                                <input type="number" step="any" min="0" id="gpsAccuracy" name="gpsAccuracy" value={formData.gpsAccuracy ?? ''} onChange={handleChange} placeholder="Rayon d'incertitude" className={inputClass} />
+                                {errors.gpsAccuracy && <p className={errorClass}>{errors.gpsAccuracy}</p>}
+                            </div>
                             <div className="col-span-full">
                                 <button type="button" onClick={() => setShowMap(!showMap)} className={`${secondaryButtonClass} w-full bg-blue-500 hover:bg-blue-600`}>
                                     {showMap ? 'Cacher la carte' : '📍 Localiser sur la carte'}
                                 </button>
+                                {formData.geometry && (
+                                    <p className="text-xs text-gray-500 mt-2 ml-1">
+                                        {formatGeometrySummary(formData.geometry)} : la latitude et la longitude en sont le point représentatif.
+                                    </p>
+                                )}
                                 {showMap && (
                                     <div className="mt-4 rounded-2xl overflow-hidden shadow-inner ring-1 ring-black/5">
                                         <Suspense fallback={<div className="p-4 text-sm text-gray-500">Chargement de la carte...</div>}>
-                                            <MapInput onLocationChange={handleLocationChange} onToast={onToast} />
+                                            <MapInput
+                                                onLocationChange={handleLocationChange}
+                                                onToast={onToast}
+                                                geometry={formData.geometry}
+                                                onGeometryChange={geometry => setFormData(prev => ({ ...prev, geometry }))}
+                                            />
                                         </Suspense>
                                     </div>
                                 )}
@@ -717,11 +942,14 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                                 <select id="status" name="status" value={formData.status} onChange={handleChange} className={`${inputClass} appearance-none cursor-pointer`}>
                                     {Object.values(Status).map(s => <option key={s} value={s}>{s}</option>)}
                                 </select>
-                                {speciesInfo?.redListStatus && (
+                                {formData.redLists?.length ? (
+                                    <RedListBadges assessments={formData.redLists} className="mt-2 ml-1" />
+                                ) : speciesInfo?.redListStatus && (
                                     <p className="text-xs text-gray-500 mt-1 ml-1">
                                         {speciesInfo.redListSource === 'france' ? 'Liste Rouge France' : 'IUCN mondial'}: <span className="font-semibold">{speciesInfo.redListStatus}</span>
                                     </p>
                                 )}
+                                <RegulatoryBadges statuses={formData.regulatoryStatuses} className="mt-1 ml-1" />
                             </div>
                             <div>
                                 <label htmlFor="protocol" className={labelClass}>Protocole</label>
@@ -729,10 +957,25 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                                     {Object.values(Protocol).map(p => <option key={p} value={p}>{p}</option>)}
                                 </select>
                             </div>
-                            <div>
-                                <label htmlFor="atlasCode" className={labelClass}>Code atlas</label>
-                                <input type="text" id="atlasCode" name="atlasCode" value={formData.atlasCode} onChange={handleChange} className={inputClass} />
-                            </div>
+                            {(formData.taxonomicGroup === TaxonomicGroup.BIRD || formData.atlasCode) && (
+                                <div>
+                                    <label htmlFor="atlasCode" className={labelClass}>Code atlas</label>
+                                    <select id="atlasCode" name="atlasCode" value={formData.atlasCode} onChange={handleChange} className={`${inputClass} appearance-none cursor-pointer`}>
+                                        <option value="">Aucun</option>
+                                        {formData.atlasCode && !ATLAS_CODES.some(entry => String(entry.code) === formData.atlasCode) && (
+                                            <option value={formData.atlasCode}>{formData.atlasCode} (ancienne saisie)</option>
+                                        )}
+                                        {BREEDING_EVIDENCE_LEVELS.map(level => (
+                                            <optgroup key={level} label={level}>
+                                                {ATLAS_CODES.filter(entry => entry.evidence === level).map(entry => (
+                                                    <option key={entry.code} value={String(entry.code)}>{formatAtlasCode(entry)}</option>
+                                                ))}
+                                            </optgroup>
+                                        ))}
+                                    </select>
+                                    {errors.atlasCode && <p className={errorClass}>{errors.atlasCode}</p>}
+                                </div>
+                            )}
                             <div>
                                 <label htmlFor="sexe" className={labelClass}>Sexe</label>
                                 <select id="sexe" name="sexe" value={formData.sexe} onChange={handleChange} className={`${inputClass} appearance-none cursor-pointer`}>
@@ -767,17 +1010,37 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                             <div>
                                 <label htmlFor="photo" className={labelClass}>Photo (perso)</label>
                                 <input type="file" id="photo" name="photo" accept="image/*" onChange={handleFileChange} className="block w-full text-sm text-gray-500 file:mr-4 file:py-2.5 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-nature-green/10 file:text-nature-green hover:file:bg-nature-green/20 transition cursor-pointer" />
-                                {formData.photo && <img src={formData.photo} alt="Aperçu" className="mt-4 h-32 w-32 object-cover rounded-2xl shadow-md ring-1 ring-black/5" />}
+                                {photoPreviewSrc && <img src={photoPreviewSrc} alt="Aperçu" className="mt-4 h-32 w-32 object-cover rounded-2xl shadow-md ring-1 ring-black/5" />}
                             </div>
                             <div>
                                 <label className={labelClass}>Son</label>
-                                {formData.sound ? (
-                                    <audio controls src={formData.sound} className="mt-2 w-full rounded-full shadow-sm"></audio>
+                                {soundSrc ? (
+                                    <audio controls src={soundSrc} className="mt-2 w-full rounded-full shadow-sm"></audio>
                                 ) : (
                                     <p className="text-xs text-gray-400 italic mt-1">Fonctionnalité temporairement indisponible</p>
                                 )}
                             </div>
+                            <div className="md:col-span-3">
+                                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!formData.exceptional}
+                                        onChange={e => setFormData(prev => ({ ...prev, exceptional: e.target.checked || undefined }))}
+                                    />
+                                    Donnée exceptionnelle (date, lieu, altitude ou effectif inhabituels vérifiés)
+                                </label>
+                            </div>
                         </FormSection>
+
+                        {initialData && (
+                            <Suspense fallback={null}>
+                                <ObservationHistoryTimeline
+                                    observationId={initialData.id}
+                                    refreshKey={initialData.updatedAt}
+                                    onRevert={handleRevertRevisionChange}
+                                />
+                            </Suspense>
+                        )}
                     </div>
 
                     {/* Sidebar for Species Info */}
@@ -816,6 +1079,41 @@ const ObservationForm: React.FC<ObservationFormProps> = ({ onSave, onCancel, ini
                 </div>
             </form>
 
+            {plausibilityWarnings.length > 0 && (
+                <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm p-4 flex items-center justify-center">
+                    <div role="alertdialog" aria-labelledby="plausibility-title" className="w-full max-w-lg bg-white dark:bg-nature-dark-surface rounded-2xl shadow-2xl border border-white/20 dark:border-white/10 p-6">
+                        <h3 id="plausibility-title" className="text-xl font-bold text-nature-dark dark:text-white mb-2">Observation inhabituelle</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                            Vérifiez la saisie. Si elle est juste, enregistrez-la comme donnée exceptionnelle.
+                        </p>
+                        <ul className="space-y-2 mb-6">
+                            {plausibilityWarnings.map(warning => (
+                                <li key={warning.type} className="text-sm px-3 py-2 rounded-lg bg-amber-50 text-amber-800 dark:bg-amber-500/10 dark:text-amber-300">
+                                    {warning.message}
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={() => setPlausibilityWarnings([])}
+                                className="px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800"
+                            >
+                                Corriger la saisie
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => void handleConfirmExceptional()}
+                                disabled={isUploading}
+                                className="px-4 py-2 rounded-lg text-white font-semibold bg-nature-green hover:bg-green-700 disabled:bg-gray-400"
+                            >
+                                Confirmer la donnée exceptionnelle
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Sticky Save/Cancel Bar */}
             {
                 showStickyBar && (
@@ -2,6 +2,7 @@ import React from 'react';
 import { Observation } from '../types';
 import { TAXON_LOGOS } from '../constants';
 import { isoToFrDisplay } from '../utils/dateUtils';
+import { isPendingMediaRef } from '../services/storageQueueUtils';
 
 interface ObservationGalleryProps {
     observations: Observation[];
@@ -13,7 +14,8 @@ const ObservationGallery: React.FC<ObservationGalleryProps> = ({ observations, o
     return (
         <div className={`grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-8 animate-fadeIn ${isMobileView ? 'pb-24' : ''}`}>
             {observations.map(obs => {
-                const imageSrc = obs.photo || obs.wikipediaImage;
+                // Photos still waiting for sync are only shown in the list and the form.
+                const imageSrc = (isPendingMediaRef(obs.photo) ? undefined : obs.photo) || obs.wikipediaImage;
                 const logo = TAXON_LOGOS[obs.taxonomicGroup as keyof typeof TAXON_LOGOS];
 
                 return (
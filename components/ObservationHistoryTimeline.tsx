@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import {
+    ObservationRevision,
+    RevisionChange,
+    formatRevisionValue,
+    getObservationHistory
+} from '../services/observationHistoryService';
+import { isTempId } from '../services/storageQueueUtils';
+
+interface ObservationHistoryTimelineProps {
+    observationId: string;
+    // Changes when the observation is saved, so the new revision shows up.
+    refreshKey?: string;
+    onRevert: (change: RevisionChange) => void;
+}
+
+const formatDateTime = (value?: string): string => {
+    if (!value) return '';
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return value;
+    return date.toLocaleString('fr-FR', { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const describeSource = (revision: ObservationRevision): string => {
+    if (revision.source !== 'offline') return formatDateTime(revision.editedAt ?? revision.revisedAt);
+
+    const merged = revision.offlineEditCount && revision.offlineEditCount > 1
+        ? ` (${revision.offlineEditCount} modifications regroupées)`
+        : '';
+    return `${formatDateTime(revision.editedAt)} hors-ligne${merged}, synchronisé le ${formatDateTime(revision.revisedAt)}`;
+};
+
+const ObservationHistoryTimeline: React.FC<ObservationHistoryTimelineProps> = ({ observationId, refreshKey, onRevert }) => {
+    const [revisions, setRevisions] = useState<ObservationRevision[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const isAvailable = navigator.onLine && !isTempId(observationId);
+
+    useEffect(() => {
+        if (!isAvailable) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        setLoadError(null);
+        getObservationHistory(observationId)
+            .then(history => {
+                if (!cancelled) setRevisions(history);
+            })
+            .catch(error => {
+                if (!cancelled) setLoadError(error instanceof Error ? error.message : String(error));
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isAvailable, observationId, refreshKey]);
+
+    const renderValue = (change: RevisionChange, value: unknown) => {
+        const text = formatRevisionValue(change, value);
+        return text || <span className="italic opacity-60">vide</span>;
+    };
+
+    return (
+        <div className="bg-white/80 dark:bg-nature-dark-surface/80 p-6 rounded-lg shadow-md">
+            <h3 className="text-xl font-serif font-bold text-nature-dark dark:text-white mb-4 border-b-2 border-nature-green/30 pb-2">Historique des modifications</h3>
+            {!isAvailable ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    L'historique est disponible en ligne, une fois l'observation synchronisée.
+                </p>
+            ) : isLoading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Chargement de l'historique...</p>
+            ) : loadError ? (
+                <p className="text-sm text-red-500">Historique indisponible : {loadError}</p>
+            ) : revisions.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Aucune modification depuis la création.</p>
+            ) : (
+                <ol className="relative border-l-2 border-nature-green/30 ml-2 space-y-6">
+                    {revisions.map(revision => (
+                        <li key={revision.id} className="ml-4">
+                            <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-nature-green" />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{describeSource(revision)}</p>
+                            <ul className="space-y-1">
+                                {revision.changes.map(change => (
+                                    <li key={change.column} className="flex flex-wrap items-center gap-2 text-sm">
+                                        <span className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{change.label}</span>
+                                        <span className="text-gray-500 dark:text-gray-400 line-through">{renderValue(change, change.oldValue)}</span>
+                                        <span className="text-gray-400">→</span>
+                                        <span className="text-nature-dark dark:text-white">{renderValue(change, change.newValue)}</span>
+                                        {change.revertible && (
+                                            <button
+                                                type="button"
+                                                onClick={() => onRevert(change)}
+                                                className="ml-auto px-3 py-1 rounded-full text-xs font-semibold bg-nature-green/10 text-nature-green hover:bg-nature-green/20 transition-colors"
+                                            >
+                                                Rétablir
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default ObservationHistoryTimeline;
@@ -5,10 +5,16 @@ import ObservationCard from './ObservationCard';
 import { TAXON_LOGOS } from '../constants';
 import { ImportResult } from '../services/excelImportService';
 import { parseJsonImport } from '../services/jsonImportValidation';
+import { isGeoJson, parseGeoJsonImport, parseGpxImport } from '../services/geoImportService';
 import ImportPreviewDialog from './ImportPreviewDialog';
 import { ToastType } from './ToastContainer';
 import ExportScopeDialog from './ExportScopeDialog';
-import { ObservationExportType, runObservationExport } from '../services/observationExportService';
+import ReidentificationDialog from './ReidentificationDialog';
+import { ObservationExportContext, ObservationExportType, runObservationExport } from '../services/observationExportService';
+import { STATUS_SCALES, STATUS_SCALE_LABELS, StatusScale } from '../utils/redListUtils';
+import { REGULATORY_FILTERS, REGULATORY_FILTER_LABELS, RegulatoryFilter } from '../utils/regulatoryStatusUtils';
+import { VALIDATION_FILTERS, VALIDATION_FILTER_LABELS, ValidationFilter } from '../utils/validationUtils';
+import { AtlasSquareFilter } from '../utils/atlasGridUtils';
 
 interface ObservationListProps {
     observations: Observation[];
@@ -17,6 +23,8 @@ interface ObservationListProps {
     onEdit: (id: string) => void;
     onDelete: (id: string) => void;
     onBulkDelete: (ids: string[]) => void;
+    // Resolves to true once the re-identified observations are saved.
+    onReidentify: (observations: Observation[]) => Promise<boolean>;
     onImport: (result: ImportResult) => Promise<void>;
     onToast: (type: ToastType, message: string) => void;
     searchTerm: string;
@@ -31,12 +39,24 @@ interface ObservationListProps {
     onTaxonomicGroupChange: (group: TaxonomicGroup | 'all') => void;
     statusFilter: Status | 'all';
     onStatusChange: (status: Status | 'all') => void;
+    statusScale: StatusScale;
+    onStatusScaleChange: (scale: StatusScale) => void;
+    regulatoryFilter: RegulatoryFilter;
+    onRegulatoryFilterChange: (filter: RegulatoryFilter) => void;
+    validationFilter: ValidationFilter;
+    onValidationFilterChange: (filter: ValidationFilter) => void;
+    squareFilter: AtlasSquareFilter;
+    onSquareFilterChange: (filter: AtlasSquareFilter) => void;
     availableYears: string[];
+    availableSquares: string[];
     sortConfig: { key: keyof Observation | ''; direction: 'ascending' | 'descending' };
     requestSort: (key: keyof Observation) => void;
     isMobileView: boolean;
     isBulkDeleting?: boolean;
+    isReidentifying?: boolean;
     isImporting: boolean;
+    // Observers and sessions for the SINP export.
+    exportContext?: ObservationExportContext;
 }
 
 const ObservationList: React.FC<ObservationListProps> = ({
@@ -46,6 +66,7 @@ const ObservationList: React.FC<ObservationListProps> = ({
     onEdit,
     onDelete,
     onBulkDelete,
+    onReidentify,
     onImport,
     onToast,
     searchTerm,
@@ -60,12 +81,23 @@ const ObservationList: React.FC<ObservationListProps> = ({
     onTaxonomicGroupChange,
     statusFilter,
     onStatusChange,
+    statusScale,
+    onStatusScaleChange,
+    regulatoryFilter,
+    onRegulatoryFilterChange,
+    validationFilter,
+    onValidationFilterChange,
+    squareFilter,
+    onSquareFilterChange,
     availableYears,
+    availableSquares,
     sortConfig,
     requestSort,
     isMobileView,
     isBulkDeleting = false,
-    isImporting
+    isReidentifying = false,
+    isImporting,
+    exportContext
 }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const tableRef = useRef<HTMLDivElement>(null);
@@ -74,6 +106,7 @@ const ObservationList: React.FC<ObservationListProps> = ({
     const [previewImportFileName, setPreviewImportFileName] = React.useState('');
     const [pendingExportType, setPendingExportType] = React.useState<ObservationExportType | null>(null);
     const [isExporting, setIsExporting] = React.useState(false);
+    const [isReidentifyOpen, setIsReidentifyOpen] = React.useState(false);
 
     // FAB visibility on scroll
     const [showFab, setShowFab] = useState(false);
@@ -97,7 +130,16 @@ const ObservationList: React.FC<ObservationListProps> = ({
         setPendingExportType(null);
         setIsExporting(true);
         try {
-            await runObservationExport(pendingExportType, exportData);
+            const { incompleteRows, excludedRows, skippedRows } = await runObservationExport(pendingExportType, exportData, exportContext);
+            if (incompleteRows > 0) {
+                onToast('warning', `Export SINP : ${incompleteRows} ligne(s) incomplète(s), voir rapport_validation.csv.`);
+            }
+            if (excludedRows > 0) {
+                onToast('warning', `Export SINP : ${excludedRows} observation(s) invalidée(s) exclue(s), voir rapport_validation.csv.`);
+            }
+            if (skippedRows > 0) {
+                onToast('warning', `${skippedRows} observation(s) sans localisation non exportée(s).`);
+            }
         } catch (error) {
             console.error('Erreur export:', error);
             onToast('error', "Impossible d'exporter les observations.");
@@ -122,15 +164,17 @@ const ObservationList: React.FC<ObservationListProps> = ({
                 let importResult: ImportResult;
 
                 const lowerName = file.name.toLowerCase();
-                if (lowerName.endsWith('.json')) {
+                if (lowerName.endsWith('.json') || lowerName.endsWith('.geojson')) {
                     const text = await file.text();
                     const parsed = JSON.parse(text) as unknown;
-                    importResult = parseJsonImport(parsed);
+                    importResult = isGeoJson(parsed) ? parseGeoJsonImport(parsed) : parseJsonImport(parsed);
+                } else if (lowerName.endsWith('.gpx')) {
+                    importResult = parseGpxImport(await file.text());
                 } else if (lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls')) {
                     const { parseExcel } = await import('../services/excelImportService');
                     importResult = await parseExcel(file);
                 } else {
-                    onToast('warning', "Format non supporté. Utilisez JSON ou Excel (.xlsx, .xls).");
+                    onToast('warning', "Format non supporté. Utilisez JSON, GeoJSON, GPX ou Excel (.xlsx, .xls).");
                     return;
                 }
 
@@ -224,6 +268,24 @@ const ObservationList: React.FC<ObservationListProps> = ({
         onBulkDelete(Array.from(selectedIds));
     };
 
+    const handleConfirmReidentify = async (changes: Observation[]) => {
+        if (await onReidentify(changes)) {
+            setIsReidentifyOpen(false);
+            setSelectedIds(new Set());
+        }
+    };
+
+    const reidentificationDialog = (
+        <ReidentificationDialog
+            isOpen={isReidentifyOpen}
+            observations={allObservations}
+            selectedIds={Array.from(selectedIds)}
+            isApplying={isReidentifying}
+            onCancel={() => setIsReidentifyOpen(false)}
+            onConfirm={changes => void handleConfirmReidentify(changes)}
+        />
+    );
+
     if (isMobileView) {
         return (
             <>
@@ -253,7 +315,7 @@ const ObservationList: React.FC<ObservationListProps> = ({
                             ref={fileInputRef}
                             onChange={handleFileChange}
                             className="hidden"
-                            accept=".json,.xlsx,.xls"
+                            accept=".json,.geojson,.gpx,.xlsx,.xls"
                         />
 
                         <div className="flex gap-2 overflow-x-auto no-scrollbar pb-0.5">
@@ -285,6 +347,40 @@ const ObservationList: React.FC<ObservationListProps> = ({
                             >
                                 {isExporting && pendingExportType === 'pdf' ? 'Export...' : 'PDF'}
                             </button>
+                            <button
+                                onClick={() => openExportDialog('sinp')}
+                                disabled={isExporting}
+                                className="h-8 px-3 rounded-lg text-xs font-medium bg-amber-600 text-white disabled:opacity-60 flex-shrink-0 inline-flex items-center"
+                            >
+                                {isExporting && pendingExportType === 'sinp' ? 'Export...' : 'SINP'}
+                            </button>
+                            <button
+                                onClick={() => openExportDialog('geojson')}
+                                disabled={isExporting}
+                                className="h-8 px-3 rounded-lg text-xs font-medium bg-teal-600 text-white disabled:opacity-60 flex-shrink-0 inline-flex items-center"
+                            >
+                                {isExporting && pendingExportType === 'geojson' ? 'Export...' : 'GeoJSON'}
+                            </button>
+                            <button
+                                onClick={() => openExportDialog('kml')}
+                                disabled={isExporting}
+                                className="h-8 px-3 rounded-lg text-xs font-medium bg-teal-600 text-white disabled:opacity-60 flex-shrink-0 inline-flex items-center"
+                            >
+                                {isExporting && pendingExportType === 'kml' ? 'Export...' : 'KML'}
+                            </button>
+                            <button
+                                onClick={() => openExportDialog('gpx')}
+                                disabled={isExporting}
+                                className="h-8 px-3 rounded-lg text-xs font-medium bg-teal-600 text-white disabled:opacity-60 flex-shrink-0 inline-flex items-center"
+                            >
+                                {isExporting && pendingExportType === 'gpx' ? 'Export...' : 'GPX'}
+                            </button>
+                            <button
+                                onClick={() => setIsReidentifyOpen(true)}
+                                className="h-8 px-3 rounded-lg text-xs font-medium bg-purple-500 text-white flex-shrink-0 inline-flex items-center"
+                            >
+                                Ré-identifier
+                            </button>
                         </div>
 
                         {/* Search Bar */}
@@ -317,6 +413,16 @@ const ObservationList: React.FC<ObservationListProps> = ({
                                     <option key={year} value={year}>{year}</option>
                                 ))}
                             </select>
+                            <select
+                                value={statusScale}
+                                onChange={e => onStatusScaleChange(e.target.value as StatusScale)}
+                                aria-label="Échelle de la liste rouge"
+                                className="bg-gray-100 dark:bg-white/10 px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap dark:text-white border-none outline-none"
+                            >
+                                {STATUS_SCALES.map(scale => (
+                                    <option key={scale} value={scale}>{STATUS_SCALE_LABELS[scale]}</option>
+                                ))}
+                            </select>
                             <select
                                 value={statusFilter}
                                 onChange={e => onStatusChange(e.target.value as Status | 'all')}
@@ -327,6 +433,37 @@ const ObservationList: React.FC<ObservationListProps> = ({
                                     <option key={status} value={status}>{status}</option>
                                 ))}
                             </select>
+                            <select
+                                value={regulatoryFilter}
+                                onChange={e => onRegulatoryFilterChange(e.target.value as RegulatoryFilter)}
+                                aria-label="Réglementation"
+                                className="bg-gray-100 dark:bg-white/10 px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap dark:text-white border-none outline-none"
+                            >
+                                {REGULATORY_FILTERS.map(filter => (
+                                    <option key={filter} value={filter}>{REGULATORY_FILTER_LABELS[filter]}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={validationFilter}
+                                onChange={e => onValidationFilterChange(e.target.value as ValidationFilter)}
+                                aria-label="Validation"
+                                className="bg-gray-100 dark:bg-white/10 px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap dark:text-white border-none outline-none"
+                            >
+                                {VALIDATION_FILTERS.map(filter => (
+                                    <option key={filter} value={filter}>{VALIDATION_FILTER_LABELS[filter]}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={squareFilter}
+                                onChange={e => onSquareFilterChange(e.target.value)}
+                                aria-label="Maille"
+                                className="bg-gray-100 dark:bg-white/10 px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap dark:text-white border-none outline-none"
+                            >
+                                <option value="all">Toutes les mailles</option>
+                                {availableSquares.map(square => (
+                                    <option key={square} value={square}>{square}</option>
+                                ))}
+                            </select>
                         </div>
                     </div>
 
@@ -369,6 +506,7 @@ const ObservationList: React.FC<ObservationListProps> = ({
                     onCancel={handleCancelPreview}
                     onConfirm={handleConfirmPreview}
                 />
+                {reidentificationDialog}
             </>
         );
     }
@@ -402,7 +540,7 @@ const ObservationList: React.FC<ObservationListProps> = ({
                                 ref={fileInputRef}
                                 onChange={handleFileChange}
                                 className="hidden"
-                                accept=".json,.xlsx,.xls"
+                                accept=".json,.geojson,.gpx,.xlsx,.xls"
                             />
                             <button
                                 onClick={handleImportClick}
@@ -414,6 +552,11 @@ const ObservationList: React.FC<ObservationListProps> = ({
                             <button onClick={() => openExportDialog('json')} disabled={isExporting} className={`${secondaryButtonClass} bg-blue-500/80 hover:bg-blue-600 backdrop-blur-md disabled:opacity-60`}>JSON</button>
                             <button onClick={() => openExportDialog('excel')} disabled={isExporting} className={`${secondaryButtonClass} bg-emerald-500/80 hover:bg-emerald-600 backdrop-blur-md disabled:opacity-60`}>Excel</button>
                             <button onClick={() => openExportDialog('pdf')} disabled={isExporting} className={`${secondaryButtonClass} bg-red-500/80 hover:bg-red-600 backdrop-blur-md disabled:opacity-60`}>PDF</button>
+                            <button onClick={() => openExportDialog('sinp')} disabled={isExporting} title="Occurrences de taxons (standard SINP)" className={`${secondaryButtonClass} bg-amber-600/80 hover:bg-amber-700 backdrop-blur-md disabled:opacity-60`}>SINP</button>
+                            <button onClick={() => openExportDialog('geojson')} disabled={isExporting} title="Carte web et SIG (QGIS, uMap)" className={`${secondaryButtonClass} bg-teal-600/80 hover:bg-teal-700 backdrop-blur-md disabled:opacity-60`}>GeoJSON</button>
+                            <button onClick={() => openExportDialog('kml')} disabled={isExporting} title="Google Earth" className={`${secondaryButtonClass} bg-teal-600/80 hover:bg-teal-700 backdrop-blur-md disabled:opacity-60`}>KML</button>
+                            <button onClick={() => openExportDialog('gpx')} disabled={isExporting} title="GPS de randonnée" className={`${secondaryButtonClass} bg-teal-600/80 hover:bg-teal-700 backdrop-blur-md disabled:opacity-60`}>GPX</button>
+                            <button onClick={() => setIsReidentifyOpen(true)} title="Changer l'espèce de plusieurs observations" className={`${secondaryButtonClass} bg-purple-500/80 hover:bg-purple-600 backdrop-blur-md`}>Ré-identifier</button>
                             <button onClick={onAdd} className={`${primaryButtonClass} shadow-lg shadow-nature-green/30`}>
                                 <span className="mr-1">+</span> Observation
                             </button>
@@ -476,8 +619,75 @@ const ObservationList: React.FC<ObservationListProps> = ({
                                     />
                                 </div>
                             </div>
+                            <div className="group">
+                                <label htmlFor="regulatory-filter" className="block text-xs font-bold uppercase tracking-widest text-gray-500 dark:text-gray-400 mb-3 ml-1 group-focus-within:text-nature-green transition-colors">Réglementation</label>
+                                <div className="relative">
+                                    <select
+                                        id="regulatory-filter"
+                                        value={regulatoryFilter}
+                                        onChange={e => onRegulatoryFilterChange(e.target.value as RegulatoryFilter)}
+                                        className="w-full py-4 px-5 glass-input rounded-2xl focus:ring-2 focus:ring-nature-green/50 focus:border-nature-green/50 transition-all dark:text-white appearance-none cursor-pointer outline-none"
+                                    >
+                                        {REGULATORY_FILTERS.map(filter => (
+                                            <option key={filter} value={filter} className="text-gray-900 dark:text-white bg-white dark:bg-nature-dark-surface">{REGULATORY_FILTER_LABELS[filter]}</option>
+                                        ))}
+                                    </select>
+                                    <div className="absolute inset-y-0 right-0 flex items-center px-4 pointer-events-none">
+                                        <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="group">
+                                <label htmlFor="validation-filter" className="block text-xs font-bold uppercase tracking-widest text-gray-500 dark:text-gray-400 mb-3 ml-1 group-focus-within:text-nature-green transition-colors">Validation</label>
+                                <div className="relative">
+                                    <select
+                                        id="validation-filter"
+                                        value={validationFilter}
+                                        onChange={e => onValidationFilterChange(e.target.value as ValidationFilter)}
+                                        className="w-full py-4 px-5 glass-input rounded-2xl focus:ring-2 focus:ring-nature-green/50 focus:border-nature-green/50 transition-all dark:text-white appearance-none cursor-pointer outline-none"
+                                    >
+                                        {VALIDATION_FILTERS.map(filter => (
+                                            <option key={filter} value={filter} className="text-gray-900 dark:text-white bg-white dark:bg-nature-dark-surface">{VALIDATION_FILTER_LABELS[filter]}</option>
+                                        ))}
+                                    </select>
+                                    <div className="absolute inset-y-0 right-0 flex items-center px-4 pointer-events-none">
+                                        <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="group">
+                                <label htmlFor="square-filter" className="block text-xs font-bold uppercase tracking-widest text-gray-500 dark:text-gray-400 mb-3 ml-1 group-focus-within:text-nature-green transition-colors">Maille</label>
+                                <div className="relative">
+                                    <select
+                                        id="square-filter"
+                                        value={squareFilter}
+                                        onChange={e => onSquareFilterChange(e.target.value)}
+                                        className="w-full py-4 px-5 glass-input rounded-2xl focus:ring-2 focus:ring-nature-green/50 focus:border-nature-green/50 transition-all dark:text-white appearance-none cursor-pointer outline-none"
+                                    >
+                                        <option value="all" className="text-gray-900 dark:text-white bg-white dark:bg-nature-dark-surface">Toutes</option>
+                                        {availableSquares.map(square => (
+                                            <option key={square} value={square} className="text-gray-900 dark:text-white bg-white dark:bg-nature-dark-surface">{square}</option>
+                                        ))}
+                                    </select>
+                                    <div className="absolute inset-y-0 right-0 flex items-center px-4 pointer-events-none">
+                                        <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+                                    </div>
+                                </div>
+                            </div>
                             <div className="group">
                                 <label htmlFor="status-filter" className="block text-xs font-bold uppercase tracking-widest text-gray-500 dark:text-gray-400 mb-3 ml-1 group-focus-within:text-nature-green transition-colors">Statut</label>
+                                <div className="relative mb-2">
+                                    <select
+                                        value={statusScale}
+                                        onChange={e => onStatusScaleChange(e.target.value as StatusScale)}
+                                        aria-label="Échelle de la liste rouge"
+                                        className="w-full py-2 px-5 glass-input rounded-2xl focus:ring-2 focus:ring-nature-green/50 focus:border-nature-green/50 transition-all dark:text-white appearance-none cursor-pointer outline-none text-xs"
+                                    >
+                                        {STATUS_SCALES.map(scale => (
+                                            <option key={scale} value={scale} className="text-gray-900 dark:text-white bg-white dark:bg-nature-dark-surface">{STATUS_SCALE_LABELS[scale]}</option>
+                                        ))}
+                                    </select>
+                                </div>
                                 <div className="relative">
                                     <select
                                         id="status-filter"
@@ -608,6 +818,7 @@ const ObservationList: React.FC<ObservationListProps> = ({
                 onSelectAll={() => void runExport('all')}
                 onSelectSelected={() => void runExport('selected')}
             />
+            {reidentificationDialog}
         </>
     );
 };
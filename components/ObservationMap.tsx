@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
@@ -8,6 +8,12 @@ import { Observation } from '../types';
 import { TAXON_LOGOS } from '../constants';
 import { SearchResult, searchAddress } from '../services/locationService';
 import { isoToFrDisplay } from '../utils/dateUtils';
+import { isPendingMediaRef } from '../services/storageQueueUtils';
+import { ATLAS_GRID_SIZES, AtlasGridSize, buildAtlasSquareSummaries, getAtlasSquareCorners } from '../utils/atlasGridUtils';
+import { TileBounds } from '../utils/tileUtils';
+import { formatGeometrySummary, getGeometryVertices } from '../utils/geometryUtils';
+import { createOfflineTileLayer } from '../services/offlineTileLayer';
+import OfflineAreasPanel from './OfflineAreasPanel';
 
 // Fix for default marker icon
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -28,8 +34,25 @@ interface ObservationMapProps {
     isMobileView?: boolean;
     onToast: (type: 'warning' | 'error' | 'info' | 'success', message: string, durationMs?: number) => void;
     onEdit?: (id: string) => void;
+    // Click on a grid square: filter the observations on it.
+    onSquareSelect?: (squareCode: string) => void;
 }
 
+// Species richness of a grid square, light to dark green.
+const RICHNESS_COLORS = ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'];
+
+const getRichnessColor = (speciesCount: number, maxSpeciesCount: number): string => {
+    const index = Math.floor(((speciesCount - 1) / Math.max(maxSpeciesCount, 1)) * RICHNESS_COLORS.length);
+    return RICHNESS_COLORS[Math.min(Math.max(index, 0), RICHNESS_COLORS.length - 1)];
+};
+
+const toTileBounds = (bounds: L.LatLngBounds): TileBounds => ({
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast()
+});
+
 const isSafeImageUrl = (value: string): boolean => {
     try {
         const url = new URL(value, window.location.origin);
@@ -44,7 +67,7 @@ const buildPopupContent = (obs: Observation, isDark: boolean, onEdit?: (id: stri
     root.style.minWidth = '200px';
     root.style.color = isDark ? '#e5e7eb' : '#1f2937';
 
-    const imageSrc = obs.photo || obs.wikipediaImage;
+    const imageSrc = (isPendingMediaRef(obs.photo) ? undefined : obs.photo) || obs.wikipediaImage;
     if (imageSrc && isSafeImageUrl(imageSrc)) {
         const img = document.createElement('img');
         img.src = imageSrc;
@@ -83,6 +106,12 @@ const buildPopupContent = (obs: Observation, isDark: boolean, onEdit?: (id: stri
     location.textContent = `Lieu: ${obs.location || obs.municipality}`;
     details.appendChild(location);
 
+    if (obs.geometry || obs.gpsAccuracy) {
+        const geometry = document.createElement('p');
+        geometry.textContent = obs.geometry ? `Tracé: ${formatGeometrySummary(obs.geometry)}` : `Précision: ± ${obs.gpsAccuracy} m`;
+        details.appendChild(geometry);
+    }
+
     const count = document.createElement('p');
     count.textContent = `Nombre: ${obs.count}`;
     details.appendChild(count);
@@ -109,11 +138,21 @@ const buildPopupContent = (obs: Observation, isDark: boolean, onEdit?: (id: stri
     return root;
 };
 
-const ObservationMap: React.FC<ObservationMapProps> = ({ observations, isDarkMode, isMobileView = false, onToast, onEdit }) => {
+const ObservationMap: React.FC<ObservationMapProps> = ({ observations, isDarkMode, isMobileView = false, onToast, onEdit, onSquareSelect }) => {
     const mapContainerRef = useRef<HTMLDivElement>(null);
+    const [gridSize, setGridSize] = useState<AtlasGridSize | null>(null);
+    const squareSummaries = useMemo(
+        () => (gridSize ? buildAtlasSquareSummaries(observations, gridSize) : []),
+        [observations, gridSize]
+    );
     const mapRef = useRef<L.Map | null>(null);
     const markersRef = useRef<L.Marker[]>([]);
     const userLocationMarkerRef = useRef<L.Marker | null>(null);
+    const [isOfflinePanelOpen, setIsOfflinePanelOpen] = useState(false);
+    const [isDrawingArea, setIsDrawingArea] = useState(false);
+    const [offlineBounds, setOfflineBounds] = useState<TileBounds | null>(null);
+    const isDrawingAreaRef = useRef(false);
+    isDrawingAreaRef.current = isDrawingArea;
 
     useEffect(() => {
         if (mapContainerRef.current && !mapRef.current) {
@@ -137,17 +176,8 @@ const ObservationMap: React.FC<ObservationMapProps> = ({ observations, isDarkMod
                 }
             });
 
-            const tileUrl = isDarkMode
-                ? 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png'
-                : 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png';
-
-            const attribution = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>';
-
-            L.tileLayer(tileUrl, {
-                attribution: attribution,
-                subdomains: 'abcd',
-                maxZoom: 20
-            }).addTo(mapRef.current);
+            // Downloaded areas are served from the offline tile cache.
+            createOfflineTileLayer(isDarkMode ? 'dark' : 'light', { maxZoom: 20 }).addTo(mapRef.current);
         }
 
         // Invalidate size to fix display issues when switching tabs
@@ -253,6 +283,126 @@ const ObservationMap: React.FC<ObservationMapProps> = ({ observations, isDarkMod
         };
     }, [observations, isDarkMode]);
 
+    // Lines and polygons drawn on the observations, and accuracy circles of the points.
+    useEffect(() => {
+        if (!mapRef.current) return;
+
+        const map = mapRef.current;
+        const shapes = L.layerGroup();
+        observations.forEach(obs => {
+            if (obs.geometry) {
+                const latLngs = getGeometryVertices(obs.geometry).map(vertex => [vertex.lat, vertex.lon] as L.LatLngTuple);
+                const style = { color: '#5D7B45', weight: 3, fillOpacity: 0.25 };
+                const shape = obs.geometry.type === 'Polygon' ? L.polygon(latLngs, style) : L.polyline(latLngs, style);
+                shape.bindPopup(buildPopupContent(obs, isDarkMode, onEdit));
+                shape.bindTooltip(`${obs.speciesName} · ${formatGeometrySummary(obs.geometry)}`, { sticky: true });
+                shapes.addLayer(shape);
+            } else if (obs.gpsAccuracy && obs.gps.lat !== null && obs.gps.lon !== null) {
+                shapes.addLayer(L.circle([obs.gps.lat, obs.gps.lon], { radius: obs.gpsAccuracy, color: '#007AFF', weight: 1, fillOpacity: 0.08, interactive: false }));
+            }
+        });
+        shapes.addTo(map);
+
+        return () => {
+            map.removeLayer(shapes);
+        };
+    }, [observations, isDarkMode, onEdit]);
+
+    useEffect(() => {
+        if (!mapRef.current || squareSummaries.length === 0) return;
+
+        const map = mapRef.current;
+        const maxSpeciesCount = Math.max(...squareSummaries.map(summary => summary.speciesCount));
+        const grid = L.layerGroup();
+        squareSummaries.forEach(summary => {
+            const corners = getAtlasSquareCorners(summary.squareCode);
+            if (!corners) return;
+            const square = L.polygon(corners.map(corner => [corner.lat, corner.lon] as L.LatLngTuple), {
+                color: isDarkMode ? '#e5e7eb' : '#1f2937',
+                weight: 1,
+                fillColor: getRichnessColor(summary.speciesCount, maxSpeciesCount),
+                fillOpacity: 0.55
+            });
+            square.bindTooltip(`${summary.squareCode} : ${summary.speciesCount} espèce(s), ${summary.observations} obs.`, { sticky: true });
+            if (onSquareSelect) {
+                square.on('click', () => {
+                    if (!isDrawingAreaRef.current) onSquareSelect(summary.squareCode);
+                });
+            }
+            grid.addLayer(square);
+        });
+        grid.addTo(map);
+
+        return () => {
+            map.removeLayer(grid);
+        };
+    }, [squareSummaries, isDarkMode, onSquareSelect]);
+
+    // Offline area drawing: a first tap sets one corner, the second one the opposite corner.
+    useEffect(() => {
+        if (!mapRef.current || !isDrawingArea) return;
+
+        const map = mapRef.current;
+        let firstCorner: L.LatLng | null = null;
+        let preview: L.Rectangle | null = null;
+        map.getContainer().style.cursor = 'crosshair';
+
+        const handleClick = (e: L.LeafletMouseEvent) => {
+            if (!firstCorner) {
+                firstCorner = e.latlng;
+                return;
+            }
+            setOfflineBounds(toTileBounds(L.latLngBounds(firstCorner, e.latlng)));
+            setIsDrawingArea(false);
+        };
+        const handleMouseMove = (e: L.LeafletMouseEvent) => {
+            if (!firstCorner) return;
+            const bounds = L.latLngBounds(firstCorner, e.latlng);
+            if (preview) {
+                preview.setBounds(bounds);
+            } else {
+                preview = L.rectangle(bounds, { color: '#5D7B45', weight: 2, dashArray: '6 4', fillOpacity: 0.1, interactive: false }).addTo(map);
+            }
+        };
+
+        map.on('click', handleClick);
+        map.on('mousemove', handleMouseMove);
+        return () => {
+            map.off('click', handleClick);
+            map.off('mousemove', handleMouseMove);
+            map.getContainer().style.cursor = '';
+            preview?.remove();
+        };
+    }, [isDrawingArea, isDarkMode]);
+
+    useEffect(() => {
+        if (!mapRef.current || !offlineBounds || !isOfflinePanelOpen) return;
+
+        const rectangle = L.rectangle(
+            [[offlineBounds.south, offlineBounds.west], [offlineBounds.north, offlineBounds.east]],
+            { color: '#5D7B45', weight: 2, fillOpacity: 0.1, interactive: false }
+        ).addTo(mapRef.current);
+
+        return () => {
+            rectangle.remove();
+        };
+    }, [offlineBounds, isOfflinePanelOpen, isDarkMode]);
+
+    const handleCloseOfflinePanel = () => {
+        setIsOfflinePanelOpen(false);
+        setIsDrawingArea(false);
+    };
+
+    const handleUseCurrentView = () => {
+        if (!mapRef.current) return;
+        setIsDrawingArea(false);
+        setOfflineBounds(toTileBounds(mapRef.current.getBounds()));
+    };
+
+    const handleShowOfflineArea = (bounds: TileBounds) => {
+        mapRef.current?.fitBounds([[bounds.south, bounds.west], [bounds.north, bounds.east]]);
+    };
+
     const [searchQuery, setSearchQuery] = React.useState('');
     const [searchResults, setSearchResults] = React.useState<SearchResult[]>([]);
     const [isSearching, setIsSearching] = React.useState(false);
@@ -351,6 +501,51 @@ const ObservationMap: React.FC<ObservationMapProps> = ({ observations, isDarkMod
                 )}
             </div>
 
+            {/* Atlas grid overlay */}
+            <div className={`absolute z-[1000] left-4 px-3 py-2 bg-white/90 dark:bg-nature-dark-surface/90 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200 dark:border-white/10 text-xs dark:text-white ${isMobileView ? 'bottom-8' : 'bottom-4'}`}>
+                <label className="flex items-center gap-2 font-semibold">
+                    Mailles L93
+                    <select
+                        value={gridSize ?? ''}
+                        onChange={e => setGridSize(e.target.value ? Number(e.target.value) as AtlasGridSize : null)}
+                        className="bg-transparent outline-none cursor-pointer"
+                    >
+                        <option value="">Masquées</option>
+                        {ATLAS_GRID_SIZES.map(size => <option key={size} value={size}>{size} km</option>)}
+                    </select>
+                </label>
+                {squareSummaries.length > 0 && (
+                    <div className="flex items-center gap-1 mt-1" aria-label="Richesse spécifique">
+                        <span>1</span>
+                        {RICHNESS_COLORS.map(color => <span key={color} className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />)}
+                        <span>{Math.max(...squareSummaries.map(summary => summary.speciesCount))} esp.</span>
+                    </div>
+                )}
+            </div>
+
+            {/* Offline maps */}
+            <button
+                type="button"
+                onClick={() => (isOfflinePanelOpen ? handleCloseOfflinePanel() : setIsOfflinePanelOpen(true))}
+                className={`absolute z-[1000] p-3 bg-white/90 dark:bg-nature-dark-surface/90 backdrop-blur-md rounded-full shadow-lg border border-gray-200 dark:border-white/10 hover:scale-110 transition-transform text-nature-accent ${isMobileView ? 'bottom-24 right-4' : 'top-20 right-4'}`}
+                title="Cartes hors ligne"
+            >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
+            </button>
+            {isOfflinePanelOpen && (
+                <OfflineAreasPanel
+                    selectedBounds={offlineBounds}
+                    isDrawing={isDrawingArea}
+                    onStartDrawing={() => setIsDrawingArea(prev => !prev)}
+                    onUseCurrentView={handleUseCurrentView}
+                    onShowArea={handleShowOfflineArea}
+                    onClose={handleCloseOfflinePanel}
+                    currentSource={isDarkMode ? 'dark' : 'light'}
+                    onToast={onToast}
+                    isMobileView={isMobileView}
+                />
+            )}
+
             {/* Locate Me Button */}
             <button
                 type="button"
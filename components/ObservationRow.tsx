@@ -1,7 +1,10 @@
 import React from 'react';
-import { Observation } from '../types';
+import { Observation, ValidationStatus } from '../types';
 import { TAXON_LOGOS } from '../constants';
 import { isoToFrDisplay } from '../utils/dateUtils';
+import { useMediaSource } from '../hooks/useMediaSource';
+import RedListBadges from './RedListBadges';
+import RegulatoryBadges from './RegulatoryBadges';
 
 const getStatusBadgeClass = (status: string): string => {
     switch (status) {
@@ -27,7 +30,8 @@ const ObservationRow: React.FC<ObservationRowProps> = ({ observation, onEdit, on
     const { id, speciesName, latinName, taxonomicGroup, location, date, count, photo, wikipediaImage } = observation;
 
     const logo = TAXON_LOGOS[taxonomicGroup as keyof typeof TAXON_LOGOS];
-    const imageSrc = photo || wikipediaImage;
+    const photoSrc = useMediaSource(photo);
+    const imageSrc = photoSrc || wikipediaImage;
 
     return (
         <tr className={`border-b border-gray-100/50 dark:border-white/5 hover:bg-white/40 dark:hover:bg-white/5 transition-all duration-300 group relative backdrop-blur-sm ${selected ? 'bg-nature-green/10 dark:bg-nature-green/20' : ''}`}>
@@ -78,6 +82,23 @@ const ObservationRow: React.FC<ObservationRowProps> = ({ observation, onEdit, on
                 <span className={`inline-flex items-center justify-center px-3 py-1 rounded-full text-xs font-bold backdrop-blur-md ${getStatusBadgeClass(observation.status)}`}>
                     {observation.status}
                 </span>
+                <RedListBadges assessments={observation.redLists} className="justify-center mt-2" />
+                <RegulatoryBadges statuses={observation.regulatoryStatuses} className="justify-center mt-1" />
+                {observation.exceptional && (
+                    <span className="inline-block mt-1 text-[10px] px-2 py-0.5 rounded-full font-medium bg-amber-100 text-amber-800 dark:bg-amber-500/10 dark:text-amber-300">
+                        Donnée exceptionnelle
+                    </span>
+                )}
+                {observation.validationStatus === ValidationStatus.VALIDATED && (
+                    <span className="inline-block mt-1 text-[10px] px-2 py-0.5 rounded-full font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                        Validée
+                    </span>
+                )}
+                {observation.validationStatus === ValidationStatus.REJECTED && (
+                    <span className="inline-block mt-1 text-[10px] px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" title={observation.validationComment}>
+                        Invalidée
+                    </span>
+                )}
             </td>
             <td className="p-6 align-middle text-center">
                 <div className="flex justify-center items-center gap-3 opacity-70 md:opacity-0 md:group-hover:opacity-100 transition-all duration-300 md:transform md:translate-y-2 md:group-hover:translate-y-0">
@@ -4,9 +4,12 @@ import {
     PieChart, Pie, Cell, Tooltip, ResponsiveContainer,
     BarChart, Bar, XAxis, YAxis, CartesianGrid
 } from 'recharts';
-import { Observation } from '../types';
+import { BreedingEvidence, Observation, SamplingSession } from '../types';
 import Badges from './Badges';
 import { buildStatsReportData } from '../utils/statsReportData';
+import { STATUS_SCALES, STATUS_SCALE_LABELS, StatusScale } from '../utils/redListUtils';
+import { buildChecklistStats } from '../utils/observationStatsUtils';
+import { isoToFrDisplay } from '../utils/dateUtils';
 
 const useCountUp = (target: number, duration = 800): number => {
     const [value, setValue] = useState(0);
@@ -39,10 +42,16 @@ const useCountUp = (target: number, duration = 800): number => {
 
 interface ObservationStatsProps {
     observations: Observation[];
+    sessions?: SamplingSession[];
     isMobileView?: boolean;
     onExportStats?: () => Promise<void>;
     isExportingStats?: boolean;
     statsRootRef?: React.RefObject<HTMLDivElement | null>;
+    statusScale?: StatusScale;
+    onStatusScaleChange?: (scale: StatusScale) => void;
+    // Atlas mode: stats and export restricted to validated observations.
+    validatedOnly?: boolean;
+    onValidatedOnlyChange?: (validatedOnly: boolean) => void;
 }
 
 const STATUS_MEDAL_COLORS = ['bg-amber-500', 'bg-stone-400', 'bg-orange-500'];
@@ -91,32 +100,51 @@ const MetricCard: React.FC<MetricCardProps> = ({ label, value, accent, note, isM
 
 const ObservationStats: React.FC<ObservationStatsProps> = ({
     observations,
+    sessions = [],
     isMobileView = false,
     onExportStats,
     isExportingStats = false,
-    statsRootRef
+    statsRootRef,
+    statusScale = 'observation',
+    onStatusScaleChange,
+    validatedOnly = false,
+    onValidatedOnlyChange
 }) => {
     const internalRef = useRef<HTMLDivElement>(null);
     const [groupTooltip, setGroupTooltip] = useState<{ text: string; x: number; y: number } | null>(null);
     const rootRef = (statsRootRef as React.RefObject<HTMLDivElement | null> | undefined) ?? internalRef;
 
-    const stats = useMemo(() => buildStatsReportData(observations), [observations]);
+    const stats = useMemo(() => buildStatsReportData(observations, statusScale), [observations, statusScale]);
+    const checklistStats = useMemo(() => buildChecklistStats(sessions, observations), [sessions, observations]);
 
     return (
         <div
             ref={rootRef as React.RefObject<HTMLDivElement>}
             className={`space-y-10 animate-fadeIn ${isMobileView ? 'pb-24' : ''}`}
         >
-            {onExportStats && (
-                <div className={`flex ${isMobileView ? 'justify-center' : 'justify-end'}`}>
-                    <button
-                        onClick={onExportStats}
-                        disabled={isExportingStats}
-                        className="flex items-center gap-2 px-5 py-3 rounded-full bg-white/85 dark:bg-nature-dark-surface/88 backdrop-blur-md shadow-ios border border-white/30 dark:border-white/10 text-nature-dark dark:text-white font-semibold text-sm transition-all duration-300 hover:shadow-ios-hover hover:scale-[1.02] disabled:opacity-60 disabled:cursor-not-allowed disabled:scale-100"
-                    >
-                        <span>{isExportingStats ? '⏳' : '📦'}</span>
-                        {isExportingStats ? 'Export en cours...' : 'Exporter Stats (ZIP: PDF statique + HTML interactif)'}
-                    </button>
+            {(onExportStats || onValidatedOnlyChange) && (
+                <div className={`flex flex-wrap items-center gap-4 ${isMobileView ? 'justify-center' : 'justify-end'}`}>
+                    {onValidatedOnlyChange && (
+                        <label className="flex items-center gap-2 text-sm font-medium text-nature-dark dark:text-white cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={validatedOnly}
+                                onChange={e => onValidatedOnlyChange(e.target.checked)}
+                                className="rounded text-nature-green focus:ring-nature-green"
+                            />
+                            Données validées uniquement
+                        </label>
+                    )}
+                    {onExportStats && (
+                        <button
+                            onClick={onExportStats}
+                            disabled={isExportingStats}
+                            className="flex items-center gap-2 px-5 py-3 rounded-full bg-white/85 dark:bg-nature-dark-surface/88 backdrop-blur-md shadow-ios border border-white/30 dark:border-white/10 text-nature-dark dark:text-white font-semibold text-sm transition-all duration-300 hover:shadow-ios-hover hover:scale-[1.02] disabled:opacity-60 disabled:cursor-not-allowed disabled:scale-100"
+                        >
+                            <span>{isExportingStats ? '⏳' : '📦'}</span>
+                            {isExportingStats ? 'Export en cours...' : 'Exporter Stats (ZIP: PDF statique + HTML interactif)'}
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -365,6 +393,18 @@ const ObservationStats: React.FC<ObservationStatsProps> = ({
                             <p className="text-sm text-[#756D62] dark:text-gray-300">
                                 Vue synthétique des statuts présents dans le carnet, avec détail numérique sous le graphique.
                             </p>
+                            {onStatusScaleChange && (
+                                <select
+                                    value={statusScale}
+                                    onChange={e => onStatusScaleChange(e.target.value as StatusScale)}
+                                    aria-label="Échelle de la liste rouge"
+                                    className="border border-nature-light-gray dark:border-gray-600 rounded-lg px-3 py-1.5 text-sm dark:bg-nature-dark-bg dark:text-white"
+                                >
+                                    {STATUS_SCALES.map(scale => (
+                                        <option key={scale} value={scale}>{STATUS_SCALE_LABELS[scale]}</option>
+                                    ))}
+                                </select>
+                            )}
                         </div>
 
                         <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_220px] gap-6 items-center">
@@ -417,6 +457,190 @@ const ObservationStats: React.FC<ObservationStatsProps> = ({
                 </section>
             </div>
 
+            <section className={`${cardShellClass} relative overflow-hidden ${isMobileView ? 'p-4' : 'p-8'}`}>
+                <div className="absolute inset-0 bg-[linear-gradient(180deg,_rgba(124,58,237,0.06),_transparent_45%)] pointer-events-none"></div>
+                <div className="relative space-y-6">
+                    <div className="space-y-2">
+                        <h3 className={sectionTitleClass}>Espèces patrimoniales</h3>
+                        <p className="text-sm text-[#756D62] dark:text-gray-300">
+                            Espèces protégées, inscrites aux directives Habitats et Oiseaux, déterminantes ZNIEFF ou menacées (listes rouges).
+                        </p>
+                    </div>
+
+                    {stats.heritageSpecies.length === 0 ? (
+                        <p className="text-sm text-[#756D62] dark:text-gray-300">
+                            Aucune espèce patrimoniale dans le carnet. Importez les statuts réglementaires de l&apos;INPN depuis le menu du compte.
+                        </p>
+                    ) : (
+                        <ul className="space-y-2" aria-label="Espèces patrimoniales">
+                            {stats.heritageSpecies.map(species => (
+                                <li
+                                    key={`${species.name}-${species.latinName}`}
+                                    className="flex items-center justify-between gap-4 px-4 py-3 rounded-[20px] bg-[#FAF6EE] dark:bg-[#211C17] border border-[#E4D7C5] dark:border-[#443B32]"
+                                >
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-nature-dark dark:text-white truncate">
+                                            {species.name}
+                                            {species.latinName && <span className="ml-2 text-xs italic font-normal text-[#897863] dark:text-[#CDB89D]">{species.latinName}</span>}
+                                        </p>
+                                        <p className="text-xs text-[#897863] dark:text-[#CDB89D]">{species.reasons.join(' • ')}</p>
+                                    </div>
+                                    <span className="text-sm font-bold text-[#5F5548] dark:text-gray-200 whitespace-nowrap">
+                                        {species.observations} obs. • {species.individuals} ind.
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </section>
+
+            {stats.squareData.length > 0 && (
+                <section className={`${cardShellClass} relative overflow-hidden ${isMobileView ? 'p-4' : 'p-8'}`}>
+                    <div className="absolute inset-0 bg-[linear-gradient(180deg,_rgba(47,124,193,0.06),_transparent_45%)] pointer-events-none"></div>
+                    <div className="relative space-y-6">
+                        <div className="space-y-2">
+                            <h3 className={sectionTitleClass}>Mailles 10 km</h3>
+                            <p className="text-sm text-[#756D62] dark:text-gray-300">
+                                Observations et espèces par maille Lambert-93, les plus riches d&apos;abord.
+                            </p>
+                        </div>
+
+                        <ul className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2" aria-label="Mailles 10 km">
+                            {stats.squareData.map(square => (
+                                <li
+                                    key={square.squareCode}
+                                    className="flex items-center justify-between gap-4 px-4 py-3 rounded-[20px] bg-[#FAF6EE] dark:bg-[#211C17] border border-[#E4D7C5] dark:border-[#443B32]"
+                                >
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-nature-dark dark:text-white truncate">{square.squareCode}</p>
+                                        <p className="text-xs text-[#897863] dark:text-[#CDB89D]">{square.observations} observation(s)</p>
+                                    </div>
+                                    <span className="text-sm font-bold text-[#5F5548] dark:text-gray-200 whitespace-nowrap">
+                                        {square.speciesCount} esp.
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </section>
+            )}
+
+            {stats.breedingAtlas.species.length > 0 && (
+                <section className={`${cardShellClass} relative overflow-hidden ${isMobileView ? 'p-4' : 'p-8'}`}>
+                    <div className="absolute inset-0 bg-[linear-gradient(180deg,_rgba(217,119,6,0.06),_transparent_45%)] pointer-events-none"></div>
+                    <div className="relative space-y-6">
+                        <div className="space-y-2">
+                            <h3 className={sectionTitleClass}>Oiseaux nicheurs</h3>
+                            <p className="text-sm text-[#756D62] dark:text-gray-300">
+                                Indice de nidification le plus fort (codes atlas), par espèce et par maille Lambert-93 de 10 km.
+                            </p>
+                        </div>
+
+                        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                            <ul className="space-y-2" aria-label="Nicheurs par espèce">
+                                {stats.breedingAtlas.species.map(species => (
+                                    <li
+                                        key={`${species.name}-${species.latinName}`}
+                                        className="flex items-center justify-between gap-4 px-4 py-3 rounded-[20px] bg-[#FAF6EE] dark:bg-[#211C17] border border-[#E4D7C5] dark:border-[#443B32]"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-nature-dark dark:text-white truncate">{species.name}</p>
+                                            <p className="text-xs text-[#897863] dark:text-[#CDB89D]" title={species.atlasCode.label}>
+                                                {species.atlasCode.evidence} • code {species.atlasCode.code}
+                                            </p>
+                                        </div>
+                                        <span className="text-sm font-bold text-[#5F5548] dark:text-gray-200 whitespace-nowrap">
+                                            {species.squareCount} maille(s)
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                            {stats.breedingAtlas.squares.length === 0 && (
+                                <p className="text-sm text-[#756D62] dark:text-gray-300">
+                                    Aucune observation géolocalisée en France métropolitaine.
+                                </p>
+                            )}
+                            <ul className="space-y-2" aria-label="Nicheurs par maille">
+                                {stats.breedingAtlas.squares.map(square => (
+                                    <li
+                                        key={square.squareCode}
+                                        className="flex items-center justify-between gap-4 px-4 py-3 rounded-[20px] bg-[#FAF6EE] dark:bg-[#211C17] border border-[#E4D7C5] dark:border-[#443B32]"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-nature-dark dark:text-white truncate">{square.squareCode}</p>
+                                            <p className="text-xs text-[#897863] dark:text-[#CDB89D]">
+                                                {square.counts[BreedingEvidence.CERTAIN]} certain(s) • {square.counts[BreedingEvidence.PROBABLE]} probable(s) • {square.counts[BreedingEvidence.POSSIBLE]} possible(s)
+                                            </p>
+                                        </div>
+                                        <span className="text-sm font-bold text-[#5F5548] dark:text-gray-200 whitespace-nowrap">
+                                            {square.species.length} esp.
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                </section>
+            )}
+
+            {checklistStats.lists.length > 0 && (
+                <section className={`${cardShellClass} relative overflow-hidden ${isMobileView ? 'p-4' : 'p-8'}`}>
+                    <div className="absolute inset-0 bg-[linear-gradient(180deg,_rgba(76,154,106,0.07),_transparent_45%)] pointer-events-none"></div>
+                    <div className="relative space-y-6">
+                        <div className="space-y-2">
+                            <h3 className={sectionTitleClass}>Listes EPOC</h3>
+                            <p className="text-sm text-[#756D62] dark:text-gray-300">
+                                {checklistStats.completeLists} liste(s) complète(s) sur {checklistStats.lists.length}
+                                {checklistStats.completeLists > 0 && ` • ${checklistStats.averageSpeciesPerCompleteList.toFixed(1)} espèces en moyenne par liste complète`}
+                            </p>
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <ul className="space-y-2" aria-label="Totaux par liste">
+                                {checklistStats.lists.slice(0, 10).map(({ session, speciesCount, individuals }) => (
+                                    <li
+                                        key={session.id}
+                                        className="flex items-center justify-between gap-4 px-4 py-3 rounded-[20px] bg-[#FAF6EE] dark:bg-[#211C17] border border-[#E4D7C5] dark:border-[#443B32]"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-nature-dark dark:text-white truncate">
+                                                {isoToFrDisplay(session.date, { year: 'numeric', month: '2-digit', day: '2-digit' })}
+                                                {(session.location || session.municipality) && ` • ${session.location || session.municipality}`}
+                                            </p>
+                                            <p className="text-xs text-[#897863] dark:text-[#CDB89D]">
+                                                {session.completeList ? 'Liste complète' : 'Liste incomplète'}
+                                            </p>
+                                        </div>
+                                        <span className="text-sm font-bold text-[#5F5548] dark:text-gray-200 whitespace-nowrap">
+                                            {speciesCount} esp. • {individuals} ind.
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+
+                            {checklistStats.completeLists > 0 && (
+                                <ul className="space-y-2" aria-label="Fréquence de détection">
+                                    {checklistStats.reportingRates.slice(0, 10).map(rate => (
+                                        <li key={rate.speciesName} className="space-y-1">
+                                            <div className="flex items-center justify-between gap-4 text-sm">
+                                                <span className="font-semibold text-nature-dark dark:text-white truncate">{rate.speciesName}</span>
+                                                <span className="text-[#6F6659] dark:text-gray-300 whitespace-nowrap">
+                                                    {Math.round(rate.rate * 100)} % • absente de {rate.absences} liste(s)
+                                                </span>
+                                            </div>
+                                            <div className="h-1.5 rounded-full bg-[#E9DECF] dark:bg-white/10 overflow-hidden">
+                                                <div className="h-full rounded-full bg-[#4C9A6A]" style={{ width: `${Math.round(rate.rate * 100)}%` }} />
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </div>
+                </section>
+            )}
+
             <Badges observations={observations} />
         </div>
     );
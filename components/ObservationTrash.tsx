@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Observation } from '../types';
+import { TAXON_LOGOS } from '../constants';
+import { isoToFrDisplay } from '../utils/dateUtils';
+
+interface ObservationTrashProps {
+    observations: Observation[];
+    retentionDays: number;
+    isLoading: boolean;
+    isProcessing: boolean;
+    onRestore: (ids: string[]) => void;
+    onPurge: (ids: string[]) => void;
+    isMobileView?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDaysBeforePurge = (deletedAt: string | undefined, retentionDays: number): number | null => {
+    if (!deletedAt) return null;
+    const deletedTime = new Date(deletedAt).getTime();
+    if (Number.isNaN(deletedTime)) return null;
+    return Math.max(0, Math.ceil((deletedTime + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+};
+
+const ObservationTrash: React.FC<ObservationTrashProps> = ({
+    observations,
+    retentionDays,
+    isLoading,
+    isProcessing,
+    onRestore,
+    onPurge,
+    isMobileView = false
+}) => {
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        // Drop selections for entries that were restored or purged.
+        const available = new Set(observations.map(obs => obs.id));
+        setSelectedIds(prev => new Set(Array.from(prev).filter(id => available.has(id))));
+    }, [observations]);
+
+    const allSelected = observations.length > 0 && selectedIds.size === observations.length;
+    const selection = useMemo(() => Array.from(selectedIds), [selectedIds]);
+
+    const toggleSelection = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelectedIds(allSelected ? new Set() : new Set(observations.map(obs => obs.id)));
+    };
+
+    return (
+        <div className={`space-y-6 animate-fadeIn ${isMobileView ? 'pb-24' : ''}`}>
+            <div className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-3xl shadow-ios border border-white/20 dark:border-white/5 p-6">
+                <h2 className="text-2xl font-bold text-nature-dark dark:text-white">Corbeille</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                    Les observations supprimées restent restaurables pendant {retentionDays} jours, puis sont effacées définitivement.
+                </p>
+
+                {observations.length > 0 && (
+                    <div className="mt-4 flex flex-wrap items-center gap-3">
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={allSelected}
+                                onChange={toggleAll}
+                                className="rounded text-nature-green focus:ring-nature-green"
+                            />
+                            Tout sélectionner ({observations.length})
+                        </label>
+                        <div className="flex gap-2 ml-auto">
+                            <button
+                                type="button"
+                                onClick={() => onRestore(selection)}
+                                disabled={selection.length === 0 || isProcessing}
+                                className="px-4 py-2 rounded-full text-sm font-semibold text-white bg-nature-green hover:bg-nature-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Restaurer{selection.length > 0 ? ` (${selection.length})` : ''}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onPurge(selection)}
+                                disabled={selection.length === 0 || isProcessing}
+                                className="px-4 py-2 rounded-full text-sm font-semibold text-white bg-red-600 hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Supprimer définitivement{selection.length > 0 ? ` (${selection.length})` : ''}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {isLoading ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-12">Chargement de la corbeille...</p>
+            ) : observations.length === 0 ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-12">La corbeille est vide.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {observations.map(obs => {
+                        const logo = TAXON_LOGOS[obs.taxonomicGroup as keyof typeof TAXON_LOGOS];
+                        const daysLeft = getDaysBeforePurge(obs.deletedAt, retentionDays);
+
+                        return (
+                            <li
+                                key={obs.id}
+                                className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-2xl shadow-ios border border-white/20 dark:border-white/5 p-4 flex items-center gap-4"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.has(obs.id)}
+                                    onChange={() => toggleSelection(obs.id)}
+                                    className="rounded text-nature-green focus:ring-nature-green"
+                                    aria-label={`Sélectionner ${obs.speciesName}`}
+                                />
+                                {logo && <img src={logo} alt={obs.taxonomicGroup} className="w-8 h-8 object-contain flex-shrink-0" />}
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-nature-dark dark:text-white truncate">{obs.speciesName}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                        {isoToFrDisplay(obs.date, { year: 'numeric', month: '2-digit', day: '2-digit' })}
+                                        {obs.municipality && ` · ${obs.municipality}`}
+                                        {` · ${obs.count} ind.`}
+                                    </p>
+                                    {daysLeft !== null && (
+                                        <p className="text-xs text-amber-700 dark:text-amber-300 mt-0.5">
+                                            Suppression définitive dans {daysLeft} jour(s)
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => onRestore([obs.id])}
+                                        disabled={isProcessing}
+                                        className="px-3 py-1.5 rounded-full text-xs font-semibold bg-nature-green/10 text-nature-green hover:bg-nature-green/20 transition-colors disabled:opacity-50"
+                                    >
+                                        Restaurer
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onPurge([obs.id])}
+                                        disabled={isProcessing}
+                                        className="px-3 py-1.5 rounded-full text-xs font-semibold bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-500/10 dark:text-red-300 transition-colors disabled:opacity-50"
+                                    >
+                                        Supprimer
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ObservationTrash;
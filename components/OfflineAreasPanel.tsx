@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    OfflineDownloadProgress,
+    OfflineMapArea,
+    countRequestTiles,
+    deleteOfflineArea,
+    downloadOfflineArea,
+    getStorageEstimate,
+    isOfflineTileCacheAvailable,
+    isRetinaDisplay,
+    listOfflineAreas
+} from '../services/offlineTileService';
+import {
+    MAX_OFFLINE_TILES,
+    OFFLINE_MAX_ZOOM,
+    OFFLINE_MIN_ZOOM,
+    TILE_SOURCES,
+    TILE_SOURCE_IDS,
+    TileBounds,
+    TileSourceId,
+    estimateTileBytes,
+    formatStorageSize
+} from '../utils/tileUtils';
+import { isoToFrDisplay } from '../utils/dateUtils';
+
+interface OfflineAreasPanelProps {
+    // Area drawn on the map, null until one is chosen.
+    selectedBounds: TileBounds | null;
+    isDrawing: boolean;
+    onStartDrawing: () => void;
+    onUseCurrentView: () => void;
+    onShowArea: (bounds: TileBounds) => void;
+    onClose: () => void;
+    // Base map displayed right now, ticked by default.
+    currentSource: TileSourceId;
+    onToast: (type: 'warning' | 'error' | 'info' | 'success', message: string, durationMs?: number) => void;
+    isMobileView?: boolean;
+}
+
+const ZOOM_LEVELS = Array.from({ length: OFFLINE_MAX_ZOOM - OFFLINE_MIN_ZOOM + 1 }, (_, index) => OFFLINE_MIN_ZOOM + index);
+
+const buttonClass = 'px-3 py-1.5 rounded-full text-xs font-semibold transition-colors disabled:opacity-50';
+const secondaryButtonClass = `${buttonClass} bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-white/10 dark:text-gray-200`;
+const selectClass = 'px-2 py-1 bg-gray-100 dark:bg-white/10 rounded-lg text-xs outline-none dark:text-white';
+
+const OfflineAreasPanel: React.FC<OfflineAreasPanelProps> = ({
+    selectedBounds,
+    isDrawing,
+    onStartDrawing,
+    onUseCurrentView,
+    onShowArea,
+    onClose,
+    currentSource,
+    onToast,
+    isMobileView = false
+}) => {
+    const [areas, setAreas] = useState<OfflineMapArea[]>([]);
+    const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+    const [name, setName] = useState('');
+    const [minZoom, setMinZoom] = useState(12);
+    const [maxZoom, setMaxZoom] = useState(15);
+    const [sources, setSources] = useState<TileSourceId[]>(() => Array.from(new Set<TileSourceId>([currentSource, 'osm'])));
+    const [progress, setProgress] = useState<OfflineDownloadProgress | null>(null);
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const refresh = async () => {
+        const [nextAreas, nextStorage] = await Promise.all([listOfflineAreas(), getStorageEstimate()]);
+        setAreas(nextAreas);
+        setStorage(nextStorage);
+    };
+
+    useEffect(() => {
+        void refresh();
+        return () => abortRef.current?.abort();
+    }, []);
+
+    const tileCount = useMemo(
+        () => (selectedBounds ? countRequestTiles({ bounds: selectedBounds, minZoom, maxZoom, sources }) : 0),
+        [selectedBounds, minZoom, maxZoom, sources]
+    );
+    const isTooLarge = tileCount > MAX_OFFLINE_TILES;
+    const isDownloading = progress !== null;
+
+    const toggleSource = (sourceId: TileSourceId) => {
+        setSources(prev => (prev.includes(sourceId) ? prev.filter(id => id !== sourceId) : [...prev, sourceId]));
+    };
+
+    const handleDownload = async () => {
+        if (!selectedBounds) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setProgress({ done: 0, total: tileCount, failed: 0, bytes: 0 });
+        try {
+            const area = await downloadOfflineArea({ name, bounds: selectedBounds, minZoom, maxZoom, sources }, setProgress, controller.signal);
+            const failed = area.tileCount - area.storedTiles;
+            if (failed > 0) {
+                onToast('warning', `Zone « ${area.name} » enregistrée, ${failed} tuile(s) n'ont pas pu être téléchargées.`);
+            } else {
+                onToast('success', `Zone « ${area.name} » disponible hors ligne (${formatStorageSize(area.bytes)}).`);
+            }
+            setName('');
+        } catch (error) {
+            if ((error as Error).name === 'AbortError') {
+                onToast('info', 'Téléchargement annulé.');
+            } else {
+                console.error(error);
+                onToast('error', (error as Error).message || 'Le téléchargement de la zone a échoué.');
+            }
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+            void refresh();
+        }
+    };
+
+    const handleDelete = async (area: OfflineMapArea) => {
+        setPendingDeleteId(null);
+        try {
+            await deleteOfflineArea(area.id);
+            onToast('success', `Zone « ${area.name} » supprimée.`);
+        } catch (error) {
+            console.error(error);
+            onToast('error', 'Impossible de supprimer la zone hors ligne.');
+        } finally {
+            void refresh();
+        }
+    };
+
+    return (
+        <div className={`absolute z-[1001] bg-white/95 dark:bg-nature-dark-surface/95 backdrop-blur-md rounded-2xl shadow-xl border border-gray-200 dark:border-white/10 p-4 space-y-4 overflow-y-auto text-sm dark:text-white ${isMobileView ? 'inset-x-4 top-20 bottom-24' : 'top-20 right-16 w-96 max-h-[calc(100%-6rem)]'}`}>
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold text-nature-dark dark:text-white">Cartes hors ligne</h3>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Fermer">
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                </button>
+            </div>
+
+            {!isOfflineTileCacheAvailable() ? (
+                <p className="text-xs text-red-600 dark:text-red-400">Ce navigateur ne permet pas d'enregistrer des cartes hors ligne.</p>
+            ) : (
+                <section className="space-y-3">
+                    <h4 className="font-semibold">Télécharger la zone</h4>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            type="button"
+                            onClick={onStartDrawing}
+                            disabled={isDownloading}
+                            className={`${buttonClass} ${isDrawing ? 'bg-nature-green text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-white/10 dark:text-gray-200'}`}
+                        >
+                            Dessiner la zone
+                        </button>
+                        <button type="button" onClick={onUseCurrentView} disabled={isDownloading} className={secondaryButtonClass}>
+                            Vue actuelle
+                        </button>
+                    </div>
+                    {isDrawing && <p className="text-xs text-gray-500 dark:text-gray-400">Touchez deux coins opposés de la zone sur la carte.</p>}
+
+                    {selectedBounds && (
+                        <>
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={e => setName(e.target.value)}
+                                placeholder="Nom de la zone (ex. Marais de Brière)"
+                                aria-label="Nom de la zone"
+                                className="w-full px-3 py-2 bg-gray-100 dark:bg-white/10 rounded-lg text-sm outline-none focus:ring-2 focus:ring-nature-green/50 dark:text-white"
+                            />
+                            <div className="flex items-center gap-2 text-xs">
+                                <span className="font-semibold">Zoom</span>
+                                <select value={minZoom} onChange={e => setMinZoom(Number(e.target.value))} aria-label="Zoom minimal" className={selectClass}>
+                                    {ZOOM_LEVELS.filter(level => level <= maxZoom).map(level => <option key={level} value={level}>{level}</option>)}
+                                </select>
+                                <span>à</span>
+                                <select value={maxZoom} onChange={e => setMaxZoom(Number(e.target.value))} aria-label="Zoom maximal" className={selectClass}>
+                                    {ZOOM_LEVELS.filter(level => level >= minZoom).map(level => <option key={level} value={level}>{level}</option>)}
+                                </select>
+                            </div>
+                            <div className="space-y-1">
+                                {TILE_SOURCE_IDS.map(sourceId => (
+                                    <label key={sourceId} className="flex items-center gap-2 text-xs cursor-pointer">
+                                        <input type="checkbox" checked={sources.includes(sourceId)} onChange={() => toggleSource(sourceId)} className="accent-nature-green" />
+                                        {TILE_SOURCES[sourceId].label}
+                                    </label>
+                                ))}
+                            </div>
+                            <p className={`text-xs ${isTooLarge ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'}`}>
+                                {tileCount} tuile(s), environ {formatStorageSize(estimateTileBytes(tileCount, isRetinaDisplay()))}
+                                {isTooLarge && ` : ${MAX_OFFLINE_TILES} tuiles au maximum, réduisez la zone ou le zoom maximal.`}
+                            </p>
+                            {progress ? (
+                                <div className="space-y-1">
+                                    <div className="h-2 rounded-full bg-gray-200 dark:bg-white/10 overflow-hidden">
+                                        <div className="h-full bg-nature-green transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+                                    </div>
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span>{progress.done} / {progress.total} · {formatStorageSize(progress.bytes)}</span>
+                                        <button type="button" onClick={() => abortRef.current?.abort()} className={secondaryButtonClass}>Annuler</button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    type="button"
+                                    onClick={() => void handleDownload()}
+                                    disabled={isTooLarge || tileCount === 0 || sources.length === 0}
+                                    className={`${buttonClass} bg-nature-green text-white hover:bg-nature-dark`}
+                                >
+                                    Télécharger la zone
+                                </button>
+                            )}
+                        </>
+                    )}
+                </section>
+            )}
+
+            <section className="space-y-2">
+                <h4 className="font-semibold">Zones enregistrées</h4>
+                {areas.length === 0 ? (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Aucune zone téléchargée.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {areas.map(area => (
+                            <li key={area.id} className="p-2 rounded-xl bg-gray-50 dark:bg-white/5 space-y-1">
+                                <p className="font-medium truncate">{area.name}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {isoToFrDisplay(area.createdAt.slice(0, 10))} · zoom {area.minZoom}-{area.maxZoom} · {area.storedTiles}/{area.tileCount} tuiles · {formatStorageSize(area.bytes)}
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{area.sources.map(sourceId => TILE_SOURCES[sourceId].label).join(', ')}</p>
+                                <div className="flex gap-2">
+                                    <button type="button" onClick={() => onShowArea(area.bounds)} className={secondaryButtonClass}>Afficher</button>
+                                    {pendingDeleteId === area.id ? (
+                                        <button
+                                            type="button"
+                                            onClick={() => void handleDelete(area)}
+                                            className={`${buttonClass} bg-red-600 text-white hover:bg-red-700`}
+                                        >
+                                            Confirmer la suppression
+                                        </button>
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            onClick={() => setPendingDeleteId(area.id)}
+                                            disabled={isDownloading}
+                                            className={`${buttonClass} bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300`}
+                                        >
+                                            Supprimer
+                                        </button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {storage && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Stockage de l'application : {formatStorageSize(storage.usage)} utilisés sur {formatStorageSize(storage.quota)} disponibles.
+                    </p>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default OfflineAreasPanel;
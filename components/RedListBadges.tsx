@@ -0,0 +1,40 @@
+import React from 'react';
+import { RedListAssessment } from '../types';
+import { formatRedListAssessment } from '../utils/redListUtils';
+
+interface RedListBadgesProps {
+    assessments?: RedListAssessment[];
+    className?: string;
+}
+
+const getStatusBadgeClass = (status: string): string => {
+    switch (status) {
+        case 'LC': return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
+        case 'NT': return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400';
+        case 'VU': return 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400';
+        case 'EN':
+        case 'CR': return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+        default: return 'bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400';
+    }
+};
+
+// One badge per red-list scale (monde, Europe, France, région), source in the tooltip.
+const RedListBadges: React.FC<RedListBadgesProps> = ({ assessments, className = '' }) => {
+    if (!assessments?.length) return null;
+
+    return (
+        <div className={`flex flex-wrap gap-1 ${className}`}>
+            {assessments.map(assessment => (
+                <span
+                    key={`${assessment.scale}-${assessment.region ?? ''}`}
+                    className={`text-[10px] px-2 py-0.5 rounded-full font-medium whitespace-nowrap ${getStatusBadgeClass(assessment.status)}`}
+                    title={`${assessment.source}${assessment.year ? `, ${assessment.year}` : ''}`}
+                >
+                    {formatRedListAssessment(assessment)}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+export default RedListBadges;
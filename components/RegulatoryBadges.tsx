@@ -0,0 +1,38 @@
+import React from 'react';
+import { RegulatoryListType, RegulatoryStatus } from '../types';
+import { formatRegulatoryStatus, getRegulatoryStatusKey } from '../utils/regulatoryStatusUtils';
+
+interface RegulatoryBadgesProps {
+    statuses?: RegulatoryStatus[];
+    className?: string;
+}
+
+const getTypeBadgeClass = (type: RegulatoryListType): string => {
+    switch (type) {
+        case RegulatoryListType.PROTECTION: return 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300';
+        case RegulatoryListType.HABITATS_DIRECTIVE:
+        case RegulatoryListType.BIRDS_DIRECTIVE: return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300';
+        default: return 'bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300';
+    }
+};
+
+// Protection, directive annexes and ZNIEFF lists of the observation, territory in the tooltip.
+const RegulatoryBadges: React.FC<RegulatoryBadgesProps> = ({ statuses, className = '' }) => {
+    if (!statuses?.length) return null;
+
+    return (
+        <div className={`flex flex-wrap gap-1 ${className}`}>
+            {statuses.map(status => (
+                <span
+                    key={getRegulatoryStatusKey(status)}
+                    className={`text-[10px] px-2 py-0.5 rounded-full font-medium whitespace-nowrap ${getTypeBadgeClass(status.type)}`}
+                    title={status.territory}
+                >
+                    {formatRegulatoryStatus(status)}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+export default RegulatoryBadges;
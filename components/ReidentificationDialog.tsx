@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Observation } from '../types';
+import {
+    ReidentificationPreview,
+    previewReidentification,
+    selectObservationsForReidentification
+} from '../services/reidentificationService';
+
+interface ReidentificationDialogProps {
+    isOpen: boolean;
+    observations: Observation[];
+    selectedIds: string[];
+    isApplying: boolean;
+    onCancel: () => void;
+    onConfirm: (changes: Observation[]) => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+const inputClass = "w-full px-3 py-2 bg-gray-100 dark:bg-white/10 rounded-lg text-sm outline-none focus:ring-2 focus:ring-nature-green/50 dark:text-white";
+const labelClass = "block text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1";
+
+// Prefills the current name when every selected observation has the same one.
+const getCommonName = (observations: Observation[]): string => {
+    const names = new Set(observations.map(obs => obs.latinName || obs.speciesName));
+    return names.size === 1 ? Array.from(names)[0] : '';
+};
+
+const ReidentificationDialog: React.FC<ReidentificationDialogProps> = ({
+    isOpen,
+    observations,
+    selectedIds,
+    isApplying,
+    onCancel,
+    onConfirm
+}) => {
+    const [onlySelected, setOnlySelected] = useState(false);
+    const [name, setName] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [targetSpeciesName, setTargetSpeciesName] = useState('');
+    const [targetLatinName, setTargetLatinName] = useState('');
+    const [preview, setPreview] = useState<ReidentificationPreview | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const selectedSet = new Set(selectedIds);
+        setOnlySelected(selectedIds.length > 0);
+        setName(getCommonName(observations.filter(obs => selectedSet.has(obs.id))));
+        setStartDate('');
+        setEndDate('');
+        setTargetSpeciesName('');
+        setTargetLatinName('');
+        setPreview(null);
+        setError(null);
+        // Reset only when the dialog opens, not when the notebook changes behind it.
+    }, [isOpen]);
+
+    // Any change to the selection or the target invalidates the preview.
+    useEffect(() => {
+        setPreview(null);
+    }, [onlySelected, name, startDate, endDate, targetSpeciesName, targetLatinName]);
+
+    const matching = useMemo(() => selectObservationsForReidentification(observations, {
+        name,
+        startDate,
+        endDate,
+        ids: onlySelected ? selectedIds : undefined
+    }), [observations, name, startDate, endDate, onlySelected, selectedIds]);
+
+    if (!isOpen) return null;
+
+    const canPreview = matching.length > 0 && targetSpeciesName.trim().length > 0 && !isPreviewing;
+
+    const handlePreview = async () => {
+        if (!canPreview) return;
+        setIsPreviewing(true);
+        setError(null);
+        try {
+            setPreview(await previewReidentification(matching, {
+                speciesName: targetSpeciesName,
+                latinName: targetLatinName
+            }));
+        } catch (err) {
+            console.error('Reidentification preview failed', err);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const previewRows = preview?.changes.slice(0, PREVIEW_ROWS) ?? [];
+    const hiddenRows = Math.max(0, (preview?.changes.length ?? 0) - previewRows.length);
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm p-4 flex items-center justify-center">
+            <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-nature-dark-surface rounded-2xl shadow-2xl border border-white/20 dark:border-white/10 p-6">
+                <h3 className="text-2xl font-bold text-nature-dark dark:text-white mb-2">Ré-identification groupée</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">
+                    Remplace l'espèce des observations choisies (séparation d'espèce, erreur d'identification répétée).
+                    Groupe, statuts, image et références taxonomiques sont recalculés pour la nouvelle espèce.
+                </p>
+
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-3">Observations concernées</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+                    <div>
+                        <label htmlFor="reidentify-name" className={labelClass}>Espèce actuelle</label>
+                        <input
+                            id="reidentify-name"
+                            type="text"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder="Nom latin ou français"
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="reidentify-start" className={labelClass}>Du</label>
+                        <input id="reidentify-start" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="reidentify-end" className={labelClass}>Au</label>
+                        <input id="reidentify-end" type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+                {selectedIds.length > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 mb-3">
+                        <input type="checkbox" checked={onlySelected} onChange={e => setOnlySelected(e.target.checked)} />
+                        Limiter aux {selectedIds.length} observation(s) sélectionnée(s)
+                    </label>
+                )}
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">
+                    <span className="font-semibold">{matching.length}</span> observation(s) correspondent.
+                </p>
+
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-3">Nouvelle espèce</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                    <div>
+                        <label htmlFor="reidentify-target-name" className={labelClass}>Nom français</label>
+                        <input
+                            id="reidentify-target-name"
+                            type="text"
+                            value={targetSpeciesName}
+                            onChange={e => setTargetSpeciesName(e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="reidentify-target-latin" className={labelClass}>Nom latin</label>
+                        <input
+                            id="reidentify-target-latin"
+                            type="text"
+                            value={targetLatinName}
+                            onChange={e => setTargetLatinName(e.target.value)}
+                            placeholder="Complété depuis la fiche si vide"
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+
+                <button
+                    type="button"
+                    onClick={() => void handlePreview()}
+                    disabled={!canPreview}
+                    className="px-4 py-2 rounded-lg font-semibold bg-nature-green/10 text-nature-green hover:bg-nature-green/20 disabled:opacity-50 disabled:cursor-not-allowed mb-6"
+                >
+                    {isPreviewing ? 'Recherche de la fiche...' : 'Prévisualiser'}
+                </button>
+
+                {error && <p className="text-sm text-red-600 dark:text-red-400 mb-6">{error}</p>}
+
+                {preview && (
+                    <div className="mb-6">
+                        {!preview.speciesInfo && (
+                            <p className="text-xs text-amber-700 dark:text-amber-300 mb-2">
+                                Fiche introuvable pour cette espèce : le groupe est conservé et le statut passe à NE.
+                            </p>
+                        )}
+                        <div className="overflow-x-auto rounded-xl border border-gray-200 dark:border-white/10">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-gray-50 dark:bg-white/5">
+                                    <tr>
+                                        <th className="text-left px-3 py-2">Date</th>
+                                        <th className="text-left px-3 py-2">Lieu</th>
+                                        <th className="text-left px-3 py-2">Avant</th>
+                                        <th className="text-left px-3 py-2">Après</th>
+                                        <th className="text-left px-3 py-2">Groupe</th>
+                                        <th className="text-left px-3 py-2">Statut</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {previewRows.map(({ before, after }) => (
+                                        <tr key={before.id} className="border-t border-gray-100 dark:border-white/5">
+                                            <td className="px-3 py-2 dark:text-white whitespace-nowrap">{before.date}</td>
+                                            <td className="px-3 py-2 dark:text-white">{before.municipality || before.location}</td>
+                                            <td className="px-3 py-2 dark:text-white">
+                                                {before.speciesName} <span className="italic text-gray-500">{before.latinName}</span>
+                                            </td>
+                                            <td className="px-3 py-2 dark:text-white">
+                                                {after.speciesName} <span className="italic text-gray-500">{after.latinName}</span>
+                                            </td>
+                                            <td className="px-3 py-2 dark:text-white">{after.taxonomicGroup}</td>
+                                            <td className="px-3 py-2 dark:text-white">{before.status} {'->'} {after.status}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {hiddenRows > 0 && (
+                            <p className="text-xs font-semibold text-gray-600 dark:text-gray-300 mt-2">
+                                + {hiddenRows} observation(s) supplémentaire(s)
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <div className="mt-8 flex justify-end gap-4 border-t border-gray-100 dark:border-white/10 pt-4">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        disabled={isApplying}
+                        className="px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-50"
+                    >
+                        Annuler
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => preview && onConfirm(preview.changes.map(change => change.after))}
+                        disabled={!preview || preview.changes.length === 0 || isApplying}
+                        className="px-4 py-2 rounded-lg text-white font-semibold bg-nature-green hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {isApplying ? 'Enregistrement...' : `Ré-identifier ${preview?.changes.length ?? 0} observation(s)`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReidentificationDialog;
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { IdentificationConfidence, Observation, ValidationStatus } from '../types';
+import { TAXON_LOGOS } from '../constants';
+import { isoToFrDisplay } from '../utils/dateUtils';
+import { applyValidationDecision, buildReviewQueue, getValidationStatus } from '../utils/validationUtils';
+
+interface ReviewQueueProps {
+    observations: Observation[];
+    // E-mail recorded with each decision.
+    reviewer?: string;
+    isApplying: boolean;
+    // Resolves to true once the decisions are saved.
+    onDecide: (observations: Observation[]) => Promise<boolean>;
+    onEdit: (id: string) => void;
+    isMobileView?: boolean;
+}
+
+const CONFIDENCE_BADGE_CLASSES: Record<IdentificationConfidence, string> = {
+    [IdentificationConfidence.CERTAIN]: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+    [IdentificationConfidence.PROBABLE]: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+    [IdentificationConfidence.POSSIBLE]: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400'
+};
+
+const badgeClass = 'text-[10px] px-2 py-0.5 rounded-full font-medium whitespace-nowrap';
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({
+    observations,
+    reviewer,
+    isApplying,
+    onDecide,
+    onEdit,
+    isMobileView = false
+}) => {
+    const [comments, setComments] = useState<Record<string, string>>({});
+
+    const queue = useMemo(() => buildReviewQueue(observations), [observations]);
+    const decidedCounts = useMemo(() => {
+        const counts = { validated: 0, rejected: 0 };
+        observations.forEach(obs => {
+            const status = getValidationStatus(obs);
+            if (status === ValidationStatus.VALIDATED) counts.validated += 1;
+            if (status === ValidationStatus.REJECTED) counts.rejected += 1;
+        });
+        return counts;
+    }, [observations]);
+
+    const decide = async (obs: Observation, status: ValidationStatus) => {
+        const comment = comments[obs.id] ?? obs.validationComment ?? '';
+        if (status === ValidationStatus.REJECTED && !comment.trim()) return;
+        const saved = await onDecide([applyValidationDecision(obs, status, comment, reviewer)]);
+        if (saved) {
+            setComments(prev => {
+                const next = { ...prev };
+                delete next[obs.id];
+                return next;
+            });
+        }
+    };
+
+    return (
+        <div className={`space-y-6 animate-fadeIn ${isMobileView ? 'pb-24' : ''}`}>
+            <div className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-3xl shadow-ios border border-white/20 dark:border-white/5 p-6">
+                <h2 className="text-2xl font-bold text-nature-dark dark:text-white">Validation</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                    Observations à relire, les identifications les moins certaines et les données exceptionnelles d'abord.
+                    Seules les observations validées entrent dans les rapports d'atlas.
+                </p>
+                <p className="text-sm text-gray-700 dark:text-gray-200 mt-3">
+                    <span className="font-semibold">{queue.length}</span> à relire ·{' '}
+                    <span className="font-semibold">{decidedCounts.validated}</span> validée(s) ·{' '}
+                    <span className="font-semibold">{decidedCounts.rejected}</span> invalidée(s)
+                </p>
+            </div>
+
+            {queue.length === 0 ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-12">Aucune observation en attente de validation.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {queue.map(obs => {
+                        const logo = TAXON_LOGOS[obs.taxonomicGroup as keyof typeof TAXON_LOGOS];
+                        const comment = comments[obs.id] ?? obs.validationComment ?? '';
+
+                        return (
+                            <li
+                                key={obs.id}
+                                className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-2xl shadow-ios border border-white/20 dark:border-white/5 p-4 space-y-3"
+                            >
+                                <div className="flex items-center gap-4">
+                                    {logo && <img src={logo} alt={obs.taxonomicGroup} className="w-8 h-8 object-contain flex-shrink-0" />}
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-semibold text-nature-dark dark:text-white truncate">
+                                            {obs.speciesName} <span className="italic font-normal text-gray-500">{obs.latinName}</span>
+                                        </p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                            {isoToFrDisplay(obs.date, { year: 'numeric', month: '2-digit', day: '2-digit' })}
+                                            {obs.municipality && ` · ${obs.municipality}`}
+                                            {` · ${obs.count} ind.`}
+                                        </p>
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                            {obs.confidence && (
+                                                <span className={`${badgeClass} ${CONFIDENCE_BADGE_CLASSES[obs.confidence]}`}>Identification {obs.confidence.toLowerCase()}</span>
+                                            )}
+                                            {obs.exceptional && (
+                                                <span className={`${badgeClass} bg-amber-100 text-amber-800 dark:bg-amber-500/10 dark:text-amber-300`}>Donnée exceptionnelle</span>
+                                            )}
+                                        </div>
+                                        {obs.comment && <p className="text-sm text-gray-700 dark:text-gray-200 mt-1">{obs.comment}</p>}
+                                    </div>
+                                    {obs.photo && <img src={obs.photo} alt={obs.speciesName} className="w-16 h-16 object-cover rounded-xl flex-shrink-0" />}
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <input
+                                        type="text"
+                                        value={comment}
+                                        onChange={e => setComments(prev => ({ ...prev, [obs.id]: e.target.value }))}
+                                        placeholder="Commentaire du relecteur (obligatoire pour invalider)"
+                                        aria-label={`Commentaire pour ${obs.speciesName}`}
+                                        className="flex-1 px-3 py-2 bg-gray-100 dark:bg-white/10 rounded-lg text-sm outline-none focus:ring-2 focus:ring-nature-green/50 dark:text-white"
+                                    />
+                                    <div className="flex gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => void decide(obs, ValidationStatus.VALIDATED)}
+                                            disabled={isApplying}
+                                            className="px-3 py-1.5 rounded-full text-xs font-semibold bg-nature-green text-white hover:bg-nature-dark transition-colors disabled:opacity-50"
+                                        >
+                                            Valider
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => void decide(obs, ValidationStatus.REJECTED)}
+                                            disabled={isApplying || !comment.trim()}
+                                            title={comment.trim() ? undefined : 'Indiquez la raison dans le commentaire'}
+                                            className="px-3 py-1.5 rounded-full text-xs font-semibold bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300 transition-colors disabled:opacity-50"
+                                        >
+                                            Invalider
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => onEdit(obs.id)}
+                                            className="px-3 py-1.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-white/10 dark:text-gray-200 transition-colors"
+                                        >
+                                            Modifier
+                                        </button>
+                                    </div>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ReviewQueue;
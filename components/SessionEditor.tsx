@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { Protocol, SamplingSession } from '../types';
+import { reverseGeocode } from '../services/locationService';
+import { ToastType } from './ToastContainer';
+
+interface SessionEditorProps {
+    session: SamplingSession | null;
+    isNew: boolean;
+    isSaving: boolean;
+    onSave: (session: SamplingSession) => void;
+    onCancel: () => void;
+    onToast: (type: ToastType, message: string, durationMs?: number) => void;
+}
+
+const getCurrentPosition = (): Promise<{ lat: number; lon: number }> => new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+        reject(new Error("La géolocalisation n'est pas supportée par votre navigateur."));
+        return;
+    }
+    navigator.geolocation.getCurrentPosition(
+        position => resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+        () => reject(new Error('Impossible de vous localiser. Vérifiez vos autorisations.'))
+    );
+});
+
+const SessionEditor: React.FC<SessionEditorProps> = ({ session, isNew, isSaving, onSave, onCancel, onToast }) => {
+    const [draft, setDraft] = useState<SamplingSession | null>(session);
+    const [observersInput, setObserversInput] = useState('');
+    const [isLocating, setIsLocating] = useState(false);
+
+    useEffect(() => {
+        setDraft(session);
+        setObserversInput(session?.observers.join(', ') ?? '');
+    }, [session]);
+
+    if (!draft) return null;
+
+    const update = (patch: Partial<SamplingSession>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        if (name === 'lat' || name === 'lon') {
+            update({ gps: { ...draft.gps, [name]: value === '' ? null : parseFloat(value) } });
+            return;
+        }
+        update({ [name]: value } as Partial<SamplingSession>);
+    };
+
+    const handleUsePosition = async () => {
+        setIsLocating(true);
+        try {
+            const position = await getCurrentPosition();
+            update({ gps: position });
+            if (!navigator.onLine) return;
+            const result = await reverseGeocode(position.lat, position.lon);
+            if (!result?.address) return;
+            setDraft(prev => prev && ({
+                ...prev,
+                location: prev.location || result.address?.location || '',
+                municipality: prev.municipality || result.address?.municipality || '',
+                department: prev.department || result.address?.department || '',
+                country: prev.country || result.address?.country || ''
+            }));
+        } catch (error) {
+            onToast('warning', error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsLocating(false);
+        }
+    };
+
+    const handleAddRoutePoint = async () => {
+        setIsLocating(true);
+        try {
+            const position = await getCurrentPosition();
+            setDraft(prev => prev && ({ ...prev, route: [...prev.route, position] }));
+        } catch (error) {
+            onToast('warning', error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsLocating(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.date) {
+            onToast('error', 'La date de la sortie est obligatoire.');
+            return;
+        }
+        if (draft.endTime && draft.startTime && draft.endTime < draft.startTime) {
+            onToast('error', "L'heure de fin doit être postérieure à l'heure de début.");
+            return;
+        }
+        onSave({
+            ...draft,
+            name: draft.name.trim(),
+            observers: observersInput.split(',').map(observer => observer.trim()).filter(Boolean)
+        });
+    };
+
+    const inputClass = "w-full p-3 bg-nature-beige dark:bg-black/20 border-none rounded-xl focus:ring-2 focus:ring-nature-green transition-all dark:text-white placeholder-gray-400";
+    const labelClass = "block text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-2 ml-1";
+    const secondaryButtonClass = "px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-60 disabled:cursor-not-allowed";
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm p-4 flex items-center justify-center">
+            <form
+                onSubmit={handleSubmit}
+                className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-nature-dark-surface rounded-2xl shadow-2xl border border-white/20 dark:border-white/10 p-6 space-y-6"
+            >
+                <h3 className="text-2xl font-bold text-nature-dark dark:text-white">{isNew ? 'Nouvelle sortie' : 'Modifier la sortie'}</h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="md:col-span-3">
+                        <label htmlFor="session-name" className={labelClass}>Nom</label>
+                        <input id="session-name" name="name" value={draft.name} onChange={handleChange} placeholder="Ex. Tour de l'étang" className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-date" className={labelClass}>Date *</label>
+                        <input id="session-date" type="date" name="date" value={draft.date} onChange={handleChange} className={inputClass} required />
+                    </div>
+                    <div>
+                        <label htmlFor="session-start" className={labelClass}>Début</label>
+                        <input id="session-start" type="time" name="startTime" value={draft.startTime} onChange={handleChange} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-end" className={labelClass}>Fin</label>
+                        <input id="session-end" type="time" name="endTime" value={draft.endTime} onChange={handleChange} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-protocol" className={labelClass}>Protocole</label>
+                        <select id="session-protocol" name="protocol" value={draft.protocol} onChange={handleChange} className={inputClass}>
+                            {Object.values(Protocol).map(protocol => <option key={protocol} value={protocol}>{protocol}</option>)}
+                        </select>
+                    </div>
+                    <div className="md:col-span-2">
+                        <label htmlFor="session-observers" className={labelClass}>Observateurs (séparés par des virgules)</label>
+                        <input id="session-observers" value={observersInput} onChange={e => setObserversInput(e.target.value)} className={inputClass} />
+                    </div>
+                    <div className="md:col-span-3">
+                        <label htmlFor="session-weather" className={labelClass}>Météo</label>
+                        <input id="session-weather" name="weather" value={draft.weather} onChange={handleChange} placeholder="Ex. Couvert, vent faible, 12 °C" className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-location" className={labelClass}>Lieu-dit</label>
+                        <input id="session-location" name="location" value={draft.location} onChange={handleChange} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-municipality" className={labelClass}>Commune</label>
+                        <input id="session-municipality" name="municipality" value={draft.municipality} onChange={handleChange} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-department" className={labelClass}>Département</label>
+                        <input id="session-department" name="department" value={draft.department} onChange={handleChange} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-lat" className={labelClass}>Latitude</label>
+                        <input id="session-lat" type="number" step="any" name="lat" value={draft.gps.lat ?? ''} onChange={handleChange} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="session-lon" className={labelClass}>Longitude</label>
+                        <input id="session-lon" type="number" step="any" name="lon" value={draft.gps.lon ?? ''} onChange={handleChange} className={inputClass} />
+                    </div>
+                    <div className="flex items-end">
+                        <button type="button" onClick={handleUsePosition} disabled={isLocating} className={`${secondaryButtonClass} w-full`}>
+                            {isLocating ? 'Localisation...' : 'Utiliser ma position'}
+                        </button>
+                    </div>
+                    <div className="md:col-span-3 flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+                        <span>Trajet : {draft.route.length} point(s)</span>
+                        <button type="button" onClick={handleAddRoutePoint} disabled={isLocating} className={secondaryButtonClass}>
+                            Ajouter ma position au trajet
+                        </button>
+                        {draft.route.length > 0 && (
+                            <button type="button" onClick={() => update({ route: [] })} className={secondaryButtonClass}>
+                                Effacer le trajet
+                            </button>
+                        )}
+                    </div>
+                    <div className="md:col-span-3">
+                        <label htmlFor="session-comment" className={labelClass}>Commentaire</label>
+                        <textarea id="session-comment" name="comment" value={draft.comment} onChange={handleChange} rows={3} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3 border-t border-gray-100 dark:border-white/10 pt-4">
+                    <button type="button" onClick={onCancel} disabled={isSaving} className={secondaryButtonClass}>Annuler</button>
+                    <button
+                        type="submit"
+                        disabled={isSaving}
+                        className={`px-4 py-2 rounded-lg text-white font-semibold ${isSaving ? 'bg-gray-400 cursor-not-allowed' : 'bg-nature-green hover:bg-green-700'}`}
+                    >
+                        {isSaving ? 'Enregistrement...' : 'Enregistrer la sortie'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default SessionEditor;
@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import { Observation, SamplingSession } from '../types';
+import { isSessionRunning } from '../services/sessionService';
+import { isoToFrDisplay } from '../utils/dateUtils';
+
+interface SessionListProps {
+    sessions: SamplingSession[];
+    observations: Observation[];
+    isLoading: boolean;
+    onCreate: () => void;
+    onCreateStoc: () => void;
+    onCreateEpoc: () => void;
+    onEdit: (session: SamplingSession) => void;
+    onContinue: (session: SamplingSession) => void;
+    onEnd: (session: SamplingSession) => void;
+    onDelete: (session: SamplingSession) => void;
+    onExportStoc: (session: SamplingSession) => void;
+    isMobileView?: boolean;
+}
+
+const SessionList: React.FC<SessionListProps> = ({
+    sessions,
+    observations,
+    isLoading,
+    onCreate,
+    onCreateStoc,
+    onCreateEpoc,
+    onEdit,
+    onContinue,
+    onEnd,
+    onDelete,
+    onExportStoc,
+    isMobileView = false
+}) => {
+    const statsBySession = useMemo(() => {
+        const stats = new Map<string, { observations: number; species: Set<string> }>();
+        for (const obs of observations) {
+            if (!obs.sessionId) continue;
+            const entry = stats.get(obs.sessionId) ?? { observations: 0, species: new Set<string>() };
+            entry.observations += 1;
+            entry.species.add((obs.latinName || obs.speciesName).trim().toLowerCase());
+            stats.set(obs.sessionId, entry);
+        }
+        return stats;
+    }, [observations]);
+
+    const actionClass = "px-3 py-1.5 rounded-full text-xs font-semibold transition-colors";
+
+    return (
+        <div className={`space-y-6 animate-fadeIn ${isMobileView ? 'pb-24' : ''}`}>
+            <div className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-3xl shadow-ios border border-white/20 dark:border-white/5 p-6 flex flex-wrap items-center gap-4">
+                <div className="flex-1 min-w-[220px]">
+                    <h2 className="text-2xl font-bold text-nature-dark dark:text-white">Sorties</h2>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                        Une sortie regroupe les observations d'un même relevé : horaires, observateurs, météo, protocole et lieu.
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        type="button"
+                        onClick={onCreateEpoc}
+                        className="px-5 py-2.5 rounded-full text-sm font-semibold text-nature-green bg-nature-green/10 hover:bg-nature-green/20 transition-colors"
+                    >
+                        Liste EPOC
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onCreateStoc}
+                        className="px-5 py-2.5 rounded-full text-sm font-semibold text-nature-green bg-nature-green/10 hover:bg-nature-green/20 transition-colors"
+                    >
+                        Points d'écoute STOC
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onCreate}
+                        className="px-5 py-2.5 rounded-full text-sm font-semibold text-white bg-nature-green hover:bg-nature-dark transition-colors"
+                    >
+                        Nouvelle sortie
+                    </button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-12">Chargement des sorties...</p>
+            ) : sessions.length === 0 ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-12">Aucune sortie enregistrée.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {sessions.map(session => {
+                        const stats = statsBySession.get(session.id);
+                        const running = isSessionRunning(session);
+                        const place = [session.location, session.municipality].filter(Boolean).join(', ');
+
+                        return (
+                            <li
+                                key={session.id}
+                                className="bg-white/80 dark:bg-nature-dark-surface/80 backdrop-blur-xl rounded-2xl shadow-ios border border-white/20 dark:border-white/5 p-4 flex flex-col md:flex-row md:items-center gap-4"
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-nature-dark dark:text-white truncate">
+                                        {session.name || 'Sortie sans nom'}
+                                        {session.completeList !== undefined && !running && (
+                                            <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-gray-100 text-gray-600 dark:bg-white/10 dark:text-gray-300 align-middle">
+                                                {session.completeList ? 'Liste complète' : 'Liste incomplète'}
+                                            </span>
+                                        )}
+                                        {running && (
+                                            <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-nature-green/15 text-nature-green align-middle">En cours</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        {isoToFrDisplay(session.date, { year: 'numeric', month: '2-digit', day: '2-digit' })}
+                                        {session.startTime && ` · ${session.startTime}${session.endTime ? `–${session.endTime}` : ''}`}
+                                        {` · ${session.protocol}`}
+                                        {place && ` · ${place}`}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                        {session.stoc && `Carré ${session.stoc.square || '?'} · passage ${session.stoc.passage} · ${session.stoc.points.length} point(s) · `}
+                                        {stats ? `${stats.observations} observation(s), ${stats.species.size} espèce(s)` : 'Aucune observation'}
+                                        {session.observers.length > 0 && ` · ${session.observers.join(', ')}`}
+                                        {session.weather && ` · ${session.weather}`}
+                                        {session.route.length > 0 && ` · trajet de ${session.route.length} point(s)`}
+                                    </p>
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => onContinue(session)}
+                                        className={`${actionClass} bg-nature-green text-white hover:bg-nature-dark`}
+                                    >
+                                        Continuer la sortie
+                                    </button>
+                                    {session.stoc && (
+                                        <button
+                                            type="button"
+                                            onClick={() => onExportStoc(session)}
+                                            disabled={session.stoc.points.length === 0}
+                                            className={`${actionClass} bg-nature-green/10 text-nature-green hover:bg-nature-green/20 disabled:opacity-50`}
+                                        >
+                                            Export STOC
+                                        </button>
+                                    )}
+                                    {running && (
+                                        <button
+                                            type="button"
+                                            onClick={() => onEnd(session)}
+                                            className={`${actionClass} bg-nature-green/10 text-nature-green hover:bg-nature-green/20`}
+                                        >
+                                            Terminer
+                                        </button>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => onEdit(session)}
+                                        className={`${actionClass} bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-white/10 dark:text-gray-200`}
+                                    >
+                                        Modifier
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onDelete(session)}
+                                        className={`${actionClass} bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-500/10 dark:text-red-300`}
+                                    >
+                                        Supprimer
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default SessionList;
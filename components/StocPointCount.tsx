@@ -0,0 +1,346 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SamplingSession, StocDistanceBand, StocPoint, StocSurvey } from '../types';
+import {
+    STOC_DISTANCE_BANDS,
+    STOC_POINT_DURATION_SECONDS,
+    STOC_POINT_NUMBERS,
+    StocSpeciesOption,
+    addStocContact,
+    createStocPoint,
+    formatCountdown,
+    getNextStocPointNumber,
+    getStocSpeciesTotal,
+    upsertStocPoint
+} from '../services/stocService';
+import { normalizeSearchText } from '../utils/textUtils';
+import { ToastType } from './ToastContainer';
+
+interface StocPointCountProps {
+    session: SamplingSession;
+    speciesOptions: StocSpeciesOption[];
+    isSaving: boolean;
+    onSave: (session: SamplingSession) => Promise<SamplingSession | null>;
+    onClose: () => void;
+    onToast: (type: ToastType, message: string, durationMs?: number) => void;
+}
+
+interface TapEntry {
+    species: StocSpeciesOption;
+    band: StocDistanceBand;
+}
+
+const QUICK_SPECIES_LIMIT = 12;
+
+const currentTime = () => new Date().toTimeString().substring(0, 5);
+
+const StocPointCount: React.FC<StocPointCountProps> = ({ session, speciesOptions, isSaving, onSave, onClose, onToast }) => {
+    const [survey, setSurvey] = useState<StocSurvey>(session.stoc ?? { square: '', passage: 1, points: [] });
+    const [pointNumber, setPointNumber] = useState(() => getNextStocPointNumber(session.stoc ?? { square: '', passage: 1, points: [] }));
+    const [point, setPoint] = useState<StocPoint>(() => createStocPoint(pointNumber, ''));
+    const [band, setBand] = useState<StocDistanceBand>(StocDistanceBand.UNDER_25);
+    const [startedAt, setStartedAt] = useState<number | null>(null);
+    const [remaining, setRemaining] = useState(STOC_POINT_DURATION_SECONDS);
+    const [speciesInput, setSpeciesInput] = useState('');
+    const [taps, setTaps] = useState<TapEntry[]>([]);
+
+    useEffect(() => {
+        if (startedAt === null) return;
+        const tick = () => {
+            const left = STOC_POINT_DURATION_SECONDS - Math.floor((Date.now() - startedAt) / 1000);
+            setRemaining(Math.max(0, left));
+            if (left <= 0) {
+                setStartedAt(null);
+                navigator.vibrate?.([300, 150, 300]);
+                onToast('info', `Fin des 5 minutes du point ${pointNumber}.`);
+            }
+        };
+        tick();
+        const interval = window.setInterval(tick, 1000);
+        return () => window.clearInterval(interval);
+    }, [startedAt, pointNumber, onToast]);
+
+    // Species counted on this square first, then the birds of the notebook.
+    const quickSpecies = useMemo(() => {
+        const seen = new Set<string>();
+        const options: StocSpeciesOption[] = [];
+        const candidates = [
+            ...survey.points.flatMap(existing => existing.species),
+            ...point.species,
+            ...speciesOptions
+        ];
+        for (const candidate of candidates) {
+            const key = normalizeSearchText(candidate.speciesName);
+            if (seen.has(key)) continue;
+            seen.add(key);
+            options.push({ speciesName: candidate.speciesName, latinName: candidate.latinName });
+        }
+        return options.slice(0, QUICK_SPECIES_LIMIT);
+    }, [survey.points, point.species, speciesOptions]);
+
+    const isRunning = startedAt !== null;
+    const isDone = (number: number) => survey.points.some(existing => existing.number === number);
+
+    const selectPoint = (number: number) => {
+        if (isRunning) return;
+        setPointNumber(number);
+        setPoint(survey.points.find(existing => existing.number === number) ?? createStocPoint(number, ''));
+        setRemaining(STOC_POINT_DURATION_SECONDS);
+        setTaps([]);
+    };
+
+    const handleStart = () => {
+        setPoint(prev => ({ ...prev, startTime: prev.startTime || currentTime() }));
+        setRemaining(STOC_POINT_DURATION_SECONDS);
+        setStartedAt(Date.now());
+    };
+
+    const countContact = (species: StocSpeciesOption, contactBand: StocDistanceBand = band) => {
+        setPoint(prev => addStocContact({ ...prev, startTime: prev.startTime || currentTime() }, species, contactBand));
+        setTaps(prev => [...prev, { species, band: contactBand }]);
+    };
+
+    const handleUndo = () => {
+        const last = taps[taps.length - 1];
+        if (!last) return;
+        setPoint(prev => addStocContact(prev, last.species, last.band, -1));
+        setTaps(prev => prev.slice(0, -1));
+    };
+
+    const handleAddTypedSpecies = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = speciesInput.trim();
+        if (!name) return;
+        const known = speciesOptions.find(option => normalizeSearchText(option.speciesName) === normalizeSearchText(name));
+        countContact(known ?? { speciesName: name, latinName: '' });
+        setSpeciesInput('');
+    };
+
+    const persist = async (nextSurvey: StocSurvey, patch: Partial<SamplingSession> = {}) => {
+        return onSave({ ...session, ...patch, stoc: nextSurvey });
+    };
+
+    const handleSavePoint = async () => {
+        if (!survey.square.trim()) {
+            onToast('error', 'Le numéro de carré est obligatoire.');
+            return;
+        }
+        const nextSurvey = upsertStocPoint(survey, { ...point, startTime: point.startTime || currentTime() });
+        const saved = await persist(nextSurvey);
+        if (!saved) return;
+        setSurvey(nextSurvey);
+        setStartedAt(null);
+        onToast('success', `Point ${point.number} enregistré${navigator.onLine ? '' : ' hors-ligne'}.`);
+        const next = getNextStocPointNumber(nextSurvey);
+        setPointNumber(next);
+        setPoint(nextSurvey.points.find(existing => existing.number === next) ?? createStocPoint(next, ''));
+        setRemaining(STOC_POINT_DURATION_SECONDS);
+        setTaps([]);
+    };
+
+    const handleFinish = async () => {
+        if (point.species.length > 0 && !isDone(point.number)) {
+            onToast('warning', `Enregistrez d'abord le point ${point.number}.`);
+            return;
+        }
+        const saved = await persist(survey, { endTime: session.endTime || currentTime() });
+        if (saved) onClose();
+    };
+
+    const inputClass = "w-full p-3 bg-nature-beige dark:bg-black/20 border-none rounded-xl focus:ring-2 focus:ring-nature-green transition-all dark:text-white placeholder-gray-400";
+    const labelClass = "block text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-2 ml-1";
+    const secondaryButtonClass = "px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-60 disabled:cursor-not-allowed";
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm p-2 md:p-4 flex items-center justify-center">
+            <div className="w-full max-w-3xl max-h-[95vh] overflow-y-auto bg-white dark:bg-nature-dark-surface rounded-2xl shadow-2xl border border-white/20 dark:border-white/10 p-4 md:p-6 space-y-5">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-2xl font-bold text-nature-dark dark:text-white">Point d'écoute STOC EPS</h3>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {survey.points.length} point(s) enregistré(s) · passage {survey.passage}
+                        </p>
+                    </div>
+                    <button type="button" onClick={onClose} disabled={isRunning || isSaving} className={secondaryButtonClass}>Fermer</button>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    <div>
+                        <label htmlFor="stoc-square" className={labelClass}>N° carré *</label>
+                        <input
+                            id="stoc-square"
+                            inputMode="numeric"
+                            value={survey.square}
+                            onChange={e => setSurvey(prev => ({ ...prev, square: e.target.value.trim() }))}
+                            placeholder="Ex. 780123"
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="stoc-passage" className={labelClass}>Passage</label>
+                        <select
+                            id="stoc-passage"
+                            value={survey.passage}
+                            onChange={e => setSurvey(prev => ({ ...prev, passage: Number(e.target.value) }))}
+                            className={inputClass}
+                        >
+                            <option value={1}>1er passage</option>
+                            <option value={2}>2e passage</option>
+                        </select>
+                    </div>
+                    <div className="col-span-2 md:col-span-1">
+                        <span className={labelClass}>N° point</span>
+                        <div className="flex flex-wrap gap-1.5">
+                            {STOC_POINT_NUMBERS.map(number => (
+                                <button
+                                    key={number}
+                                    type="button"
+                                    onClick={() => selectPoint(number)}
+                                    disabled={isRunning}
+                                    aria-pressed={number === pointNumber}
+                                    className={`w-8 h-8 rounded-full text-xs font-bold transition-colors ${number === pointNumber
+                                        ? 'bg-nature-green text-white'
+                                        : isDone(number)
+                                            ? 'bg-nature-green/15 text-nature-green'
+                                            : 'bg-gray-100 text-gray-600 dark:bg-white/10 dark:text-gray-300'}`}
+                                >
+                                    {number}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 rounded-2xl bg-nature-beige/60 dark:bg-black/20 p-4">
+                    <span
+                        className={`text-5xl font-mono font-bold tabular-nums ${remaining === 0 ? 'text-red-500' : 'text-nature-dark dark:text-white'}`}
+                        aria-live="polite"
+                    >
+                        {formatCountdown(remaining)}
+                    </span>
+                    <div className="flex-1 text-sm text-gray-600 dark:text-gray-300">
+                        Point {point.number}{point.startTime && ` · début ${point.startTime}`}
+                        {remaining === 0 && ' · 5 minutes écoulées'}
+                    </div>
+                    {isRunning ? (
+                        <button type="button" onClick={() => setStartedAt(null)} className={secondaryButtonClass}>Arrêter</button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={handleStart}
+                            className="px-5 py-2.5 rounded-full font-semibold text-white bg-nature-green hover:bg-nature-dark transition-colors"
+                        >
+                            {remaining < STOC_POINT_DURATION_SECONDS ? 'Relancer 5 min' : 'Démarrer 5 min'}
+                        </button>
+                    )}
+                </div>
+
+                <div>
+                    <span className={labelClass}>Distance du contact</span>
+                    <div className="grid grid-cols-4 gap-2">
+                        {STOC_DISTANCE_BANDS.map(entry => (
+                            <button
+                                key={entry}
+                                type="button"
+                                onClick={() => setBand(entry)}
+                                aria-pressed={entry === band}
+                                className={`py-2 rounded-xl text-sm font-semibold transition-colors ${entry === band
+                                    ? 'bg-nature-green text-white'
+                                    : 'bg-gray-100 text-gray-700 dark:bg-white/10 dark:text-gray-200'}`}
+                            >
+                                {entry}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    <form onSubmit={handleAddTypedSpecies} className="flex gap-2">
+                        <input
+                            value={speciesInput}
+                            onChange={e => setSpeciesInput(e.target.value)}
+                            list="stoc-species-options"
+                            placeholder="Espèce (Entrée pour compter)"
+                            aria-label="Espèce"
+                            className={inputClass}
+                        />
+                        <datalist id="stoc-species-options">
+                            {speciesOptions.map(option => <option key={option.speciesName} value={option.speciesName} />)}
+                        </datalist>
+                        <button type="submit" className={secondaryButtonClass}>+1</button>
+                    </form>
+                    {quickSpecies.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {quickSpecies.map(option => (
+                                <button
+                                    key={option.speciesName}
+                                    type="button"
+                                    onClick={() => countContact(option)}
+                                    className="px-3 py-2 rounded-full text-sm bg-nature-green/10 text-nature-dark dark:text-white hover:bg-nature-green/20 transition-colors"
+                                >
+                                    {option.speciesName}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                                <th className="py-2 pr-2">Espèce</th>
+                                {STOC_DISTANCE_BANDS.map(entry => <th key={entry} className="py-2 px-1 text-center">{entry}</th>)}
+                                <th className="py-2 pl-1 text-center">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {point.species.length === 0 ? (
+                                <tr>
+                                    <td colSpan={STOC_DISTANCE_BANDS.length + 2} className="py-4 text-center text-gray-500 dark:text-gray-400">
+                                        Aucun contact sur ce point.
+                                    </td>
+                                </tr>
+                            ) : point.species.map(entry => (
+                                <tr key={entry.speciesName} className="border-t border-gray-100 dark:border-white/10">
+                                    <td className="py-2 pr-2 font-medium text-nature-dark dark:text-white">{entry.speciesName}</td>
+                                    {STOC_DISTANCE_BANDS.map(entryBand => (
+                                        <td key={entryBand} className="py-1 px-1 text-center">
+                                            <button
+                                                type="button"
+                                                onClick={() => countContact(entry, entryBand)}
+                                                aria-label={`${entry.speciesName} ${entryBand} +1`}
+                                                className="w-10 h-8 rounded-lg bg-gray-50 dark:bg-white/5 hover:bg-nature-green/10 tabular-nums"
+                                            >
+                                                {entry.counts[entryBand] || ''}
+                                            </button>
+                                        </td>
+                                    ))}
+                                    <td className="py-2 pl-1 text-center font-semibold tabular-nums">{getStocSpeciesTotal(entry)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-3 border-t border-gray-100 dark:border-white/10 pt-4">
+                    <button type="button" onClick={handleUndo} disabled={taps.length === 0} className={secondaryButtonClass}>
+                        Annuler le dernier contact
+                    </button>
+                    <button type="button" onClick={handleFinish} disabled={isRunning || isSaving} className={secondaryButtonClass}>
+                        Terminer la sortie
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleSavePoint}
+                        disabled={isSaving}
+                        className={`px-4 py-2 rounded-lg text-white font-semibold ${isSaving ? 'bg-gray-400 cursor-not-allowed' : 'bg-nature-green hover:bg-green-700'}`}
+                    >
+                        {isSaving ? 'Enregistrement...' : `Enregistrer le point ${point.number}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StocPointCount;
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Observation } from '../types';
+import { SyncConflict } from '../services/storageService';
+import { ConflictSide, ObservationDiffField, getDefaultConflictSide, mergeObservationVersions } from '../utils/observationDiffUtils';
+
+interface SyncConflictDialogProps {
+    conflict: SyncConflict | null;
+    remainingCount: number;
+    isResolving: boolean;
+    onResolve: (resolved: Observation) => void;
+    onPostpone: () => void;
+}
+
+const formatUpdatedAt = (value?: string): string => {
+    if (!value) return 'date inconnue';
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return value;
+    return date.toLocaleString('fr-FR', { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({
+    conflict,
+    remainingCount,
+    isResolving,
+    onResolve,
+    onPostpone
+}) => {
+    const [choices, setChoices] = useState<Partial<Record<ObservationDiffField, ConflictSide>>>({});
+
+    useEffect(() => {
+        setChoices({});
+    }, [conflict?.queueItemId]);
+
+    if (!conflict) return null;
+
+    const { local, remote, diffs } = conflict;
+    const chooseAll = (side: ConflictSide) => {
+        // The server row as is, recycle bin included.
+        if (side === 'remote') {
+            onResolve(remote);
+            return;
+        }
+        onResolve(mergeObservationVersions(local, remote, Object.fromEntries(diffs.map(diff => [diff.field, side]))));
+    };
+
+    const cellClass = (selected: boolean) => `px-3 py-2 text-left align-top cursor-pointer transition-colors ${selected
+        ? 'bg-nature-green/15 text-nature-dark dark:text-white font-semibold'
+        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-white/5'
+        }`;
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm p-4 flex items-center justify-center">
+            <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-nature-dark-surface rounded-2xl shadow-2xl border border-white/20 dark:border-white/10 p-6">
+                <h3 className="text-2xl font-bold text-nature-dark dark:text-white mb-2">Conflit de synchronisation</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-1">
+                    <span className="font-semibold">{local.speciesName || remote.speciesName}</span> a été {remote.deletedAt ? 'placée dans la corbeille' : 'modifiée'} sur le serveur
+                    ({formatUpdatedAt(remote.updatedAt)}) pendant que vous la modifiiez hors-ligne.
+                    {remote.deletedAt && ' Garder votre version ou une fusion la restaure.'}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+                    Choisissez la valeur à conserver pour chaque champ, ou gardez une version entière.
+                    {remainingCount > 1 && ` ${remainingCount - 1} autre(s) conflit(s) en attente.`}
+                </p>
+
+                <div className="overflow-x-auto rounded-xl border border-gray-200 dark:border-white/10 mb-6">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 dark:bg-white/5">
+                            <tr>
+                                <th className="text-left px-3 py-2">Champ</th>
+                                <th className="text-left px-3 py-2">Ma version (hors-ligne)</th>
+                                <th className="text-left px-3 py-2">Version serveur</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {diffs.map(diff => {
+                                const side = choices[diff.field] ?? getDefaultConflictSide(diff.field);
+                                return (
+                                    <tr key={diff.field} className="border-t border-gray-100 dark:border-white/5">
+                                        <td className="px-3 py-2 text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{diff.label}</td>
+                                        <td
+                                            className={cellClass(side === 'local')}
+                                            onClick={() => setChoices(prev => ({ ...prev, [diff.field]: 'local' }))}
+                                        >
+                                            {diff.local || <span className="italic opacity-60">vide</span>}
+                                        </td>
+                                        <td
+                                            className={cellClass(side === 'remote')}
+                                            onClick={() => setChoices(prev => ({ ...prev, [diff.field]: 'remote' }))}
+                                        >
+                                            {diff.remote || <span className="italic opacity-60">vide</span>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="mt-8 flex flex-wrap justify-end gap-3 border-t border-gray-100 dark:border-white/10 pt-4">
+                    <button
+                        type="button"
+                        onClick={onPostpone}
+                        disabled={isResolving}
+                        className="px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                        Plus tard
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => chooseAll('remote')}
+                        disabled={isResolving}
+                        className="px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                        Garder le serveur
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => chooseAll('local')}
+                        disabled={isResolving}
+                        className="px-4 py-2 rounded-lg font-semibold bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                        Garder ma version
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onResolve(mergeObservationVersions(local, remote, choices))}
+                        disabled={isResolving}
+                        className={`px-4 py-2 rounded-lg text-white font-semibold ${isResolving
+                                ? 'bg-gray-400 cursor-not-allowed'
+                                : 'bg-nature-green hover:bg-green-700'
+                            }`}
+                    >
+                        {isResolving ? 'Enregistrement...' : 'Appliquer la fusion'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SyncConflictDialog;
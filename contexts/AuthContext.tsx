@@ -166,7 +166,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     const signOut = async () => {
         if (user?.id) {
-            clearScopedOfflineData(user.id);
+            await clearScopedOfflineData(user.id);
         }
         setStorageNamespace(null);
         cacheSession(null);
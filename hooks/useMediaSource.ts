@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { loadOfflineMedia } from '../services/storageService';
+import { isPendingMediaRef } from '../services/storageQueueUtils';
+
+/**
+ * Resolves a photo/sound value to something an <img>/<audio> can display:
+ * remote URLs pass through, `offline-media:` refs are read back from IndexedDB.
+ */
+export const useMediaSource = (value?: string): string | undefined => {
+    const [pendingObjectUrl, setPendingObjectUrl] = useState<string | undefined>(undefined);
+
+    useEffect(() => {
+        if (!value || !isPendingMediaRef(value)) {
+            setPendingObjectUrl(undefined);
+            return;
+        }
+
+        let cancelled = false;
+        let objectUrl: string | null = null;
+
+        loadOfflineMedia(value).then(blob => {
+            if (cancelled || !blob) return;
+            objectUrl = URL.createObjectURL(blob);
+            setPendingObjectUrl(objectUrl);
+        });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [value]);
+
+    return isPendingMediaRef(value) ? pendingObjectUrl : value;
+};
@@ -2,6 +2,10 @@ import { useMemo, useState } from 'react';
 import { Observation, Status, TaxonomicGroup } from '../types';
 import { compareIsoDate, getYearFromIsoDate } from '../utils/dateUtils';
 import { normalizeSearchText } from '../utils/textUtils';
+import { StatusScale, getObservationStatus } from '../utils/redListUtils';
+import { RegulatoryFilter, matchesRegulatoryFilter } from '../utils/regulatoryStatusUtils';
+import { ValidationFilter, matchesValidationFilter } from '../utils/validationUtils';
+import { AtlasSquareFilter, getAtlasSquareCode, matchesAtlasSquareFilter } from '../utils/atlasGridUtils';
 
 export type SortDirection = 'ascending' | 'descending';
 export type SortKey = keyof Observation | '';
@@ -11,6 +15,11 @@ export interface ObservationFilterState {
     yearFilter: string;
     taxonomicGroupFilter: TaxonomicGroup | 'all';
     statusFilter: Status | 'all';
+    // Red-list scale statusFilter applies to.
+    statusScale: StatusScale;
+    regulatoryFilter: RegulatoryFilter;
+    validationFilter: ValidationFilter;
+    squareFilter: AtlasSquareFilter;
     startDateFilter: string;
     endDateFilter: string;
 }
@@ -46,8 +55,11 @@ export const useObservationFilters = (
             })
             .filter(obs => {
                 if (filters.statusFilter === 'all') return true;
-                return obs.status === filters.statusFilter;
+                return getObservationStatus(obs, filters.statusScale) === filters.statusFilter;
             })
+            .filter(obs => matchesRegulatoryFilter(obs, filters.regulatoryFilter))
+            .filter(obs => matchesValidationFilter(obs, filters.validationFilter))
+            .filter(obs => matchesAtlasSquareFilter(obs, filters.squareFilter))
             .filter(obs => {
                 if (!filters.startDateFilter) return true;
                 return compareIsoDate(obs.date, filters.startDateFilter) >= 0;
@@ -103,10 +115,22 @@ export const useObservationFilters = (
         return Array.from(years).sort((a, b) => parseInt(b) - parseInt(a));
     }, [observations]);
 
+    // 10 km squares holding observations, plus the selected one (possibly a 5 or 1 km square picked on the map).
+    const availableSquares = useMemo(() => {
+        const squares = new Set(
+            observations
+                .map(obs => getAtlasSquareCode(obs.gps))
+                .filter((square): square is string => !!square)
+        );
+        if (filters.squareFilter !== 'all') squares.add(filters.squareFilter);
+        return Array.from(squares).sort();
+    }, [observations, filters.squareFilter]);
+
     return {
         sortConfig,
         requestSort,
         sortedAndFilteredObservations,
-        availableYears
+        availableYears,
+        availableSquares
     };
 };
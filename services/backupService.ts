@@ -2,6 +2,7 @@ import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 import { Observation } from '../types';
 import { dateToIsoLocal } from '../utils/dateUtils';
+import { isPendingMediaRef } from './storageQueueUtils';
 
 export interface BackupResult {
     fileName: string;
@@ -118,7 +119,8 @@ export const createBackup = async (observations: Observation[]): Promise<BackupR
 
         // Collect all unique image URLs
         observations.forEach(obs => {
-            if (obs.photo) uniqueImages.add(obs.photo);
+            // Photos not yet synced have no URL to download from.
+            if (obs.photo && !isPendingMediaRef(obs.photo)) uniqueImages.add(obs.photo);
             if (obs.wikipediaImage) uniqueImages.add(obs.wikipediaImage);
         });
 
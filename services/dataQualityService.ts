@@ -0,0 +1,122 @@
+import { Observation, TaxonomicGroup } from '../types';
+import { DataQualityIssue, isKnownTaxonomicGroup } from '../utils/dataQualityUtils';
+import { normalizeSearchText } from '../utils/textUtils';
+import { mapINatIconicToTaxonomicGroup } from './inatTaxonProvider';
+import { notebookTaxonProvider } from './localTaxonProviders';
+import { fetchDepartmentCode } from './locationService';
+import { fetchSpeciesInfo } from './speciesService';
+import { firstTaxonProviderResult, getTaxonProviders } from './taxonProvider';
+
+/**
+ * Data-quality checks that need a reference: the group of each species
+ * according to TAXREF, GBIF or iNaturalist, the latin name of species noted
+ * by their French name only, and the department containing the GPS point.
+ * Each distinct species or point is looked up once.
+ */
+
+export interface DataQualityAuditProgress {
+    done: number;
+    total: number;
+}
+
+const normalizeDepartmentCode = (code: string): string => {
+    const trimmed = code.trim().toUpperCase();
+    return /^\d$/.test(trimmed) ? `0${trimmed}` : trimmed;
+};
+
+const isInFrance = (obs: Observation): boolean => !obs.country?.trim() || normalizeSearchText(obs.country) === 'france';
+
+/**
+ * Group of a species in the references. The notebook is left out since it
+ * holds the groups being checked; "Autre" is too broad to contradict anything.
+ */
+export const fetchReferenceTaxonomicGroup = async (latinName: string): Promise<TaxonomicGroup | undefined> => {
+    const isVague = (group?: TaxonomicGroup) => !group || group === TaxonomicGroup.OTHER;
+    const match = await firstTaxonProviderResult(
+        getTaxonProviders('match').filter(provider => provider.id !== notebookTaxonProvider.id),
+        provider => provider.match!({ latinName }),
+        value => isVague(value.taxonomicGroup)
+    );
+    if (match) return match.value.taxonomicGroup;
+
+    const details = await firstTaxonProviderResult(getTaxonProviders('details'), provider => provider.details!(latinName));
+    const group = mapINatIconicToTaxonomicGroup(details?.value.iconicTaxonName);
+    return isVague(group) ? undefined : group;
+};
+
+const groupBy = (observations: Observation[], getKey: (obs: Observation) => string | null): Map<string, Observation[]> => {
+    const groups = new Map<string, Observation[]>();
+    observations.forEach(obs => {
+        const key = getKey(obs);
+        if (!key) return;
+        groups.set(key, [...(groups.get(key) ?? []), obs]);
+    });
+    return groups;
+};
+
+export const auditObservationsWithReferences = async (
+    observations: Observation[],
+    onProgress?: (progress: DataQualityAuditProgress) => void
+): Promise<DataQualityIssue[]> => {
+    const byLatinName = groupBy(observations, obs => obs.latinName?.trim() || null);
+    const bySpeciesName = groupBy(observations, obs => (!obs.latinName?.trim() && obs.speciesName.trim()) || null);
+    const byPoint = groupBy(observations, obs => (
+        obs.gps.lat !== null && obs.gps.lon !== null && obs.department?.trim() && isInFrance(obs)
+            ? `${obs.gps.lat.toFixed(4)},${obs.gps.lon.toFixed(4)}`
+            : null
+    ));
+
+    const total = byLatinName.size + bySpeciesName.size + byPoint.size;
+    let done = 0;
+    const step = () => onProgress?.({ done: ++done, total });
+    const issues: DataQualityIssue[] = [];
+
+    for (const [latinName, group] of byLatinName) {
+        const reference = await fetchReferenceTaxonomicGroup(latinName);
+        if (reference) {
+            group
+                .filter(obs => obs.taxonomicGroup !== reference)
+                .forEach(obs => issues.push({
+                    type: 'taxonomicGroup',
+                    observationId: obs.id,
+                    message: isKnownTaxonomicGroup(obs.taxonomicGroup)
+                        ? `Noté en ${obs.taxonomicGroup}, classé en ${reference} par les référentiels.`
+                        : `Groupe « ${obs.taxonomicGroup || 'vide'} » inconnu, classé en ${reference} par les référentiels.`,
+                    fix: { label: `Passer en ${reference}`, patch: { taxonomicGroup: reference } }
+                }));
+        }
+        step();
+    }
+
+    for (const [speciesName, group] of bySpeciesName) {
+        const info = await fetchSpeciesInfo(speciesName);
+        const latinName = info?.latinName;
+        group.forEach(obs => issues.push({
+            type: 'latinName',
+            observationId: obs.id,
+            message: latinName
+                ? `Aucun nom latin pour « ${speciesName} » ; les référentiels proposent ${latinName}.`
+                : `Aucun nom latin pour « ${speciesName} », espèce introuvable dans les référentiels.`,
+            ...(latinName && info.confidence !== 'low' ? { fix: { label: `Renseigner ${latinName}`, patch: { latinName } } } : {})
+        }));
+        step();
+    }
+
+    for (const [point, group] of byPoint) {
+        const [lat, lon] = point.split(',').map(Number);
+        const department = await fetchDepartmentCode(lat, lon);
+        if (department) {
+            group
+                .filter(obs => normalizeDepartmentCode(obs.department) !== normalizeDepartmentCode(department))
+                .forEach(obs => issues.push({
+                    type: 'department',
+                    observationId: obs.id,
+                    message: `Département ${obs.department} saisi, mais le point GPS est dans le ${department}.`,
+                    fix: { label: `Département ${department}`, patch: { department } }
+                }));
+        }
+        step();
+    }
+
+    return issues;
+};
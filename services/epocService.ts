@@ -0,0 +1,122 @@
+import { Age, Comportement, Observation, ObservationCondition, Protocol, SamplingSession, Sexe, Status, TaxonomicGroup } from '../types';
+import { getMonthIndexFromIsoDate } from '../utils/dateUtils';
+import { distanceKm } from '../utils/geoUtils';
+import { getObservationSpeciesKey } from '../utils/observationStatsUtils';
+import { normalizeSearchText } from '../utils/textUtils';
+import { buildSessionObservationDefaults, createEmptySession, isSessionRunning } from './sessionService';
+
+export const EPOC_DURATION_SECONDS = 5 * 60;
+
+// Past observations closer than this to the checklist point count as "same place".
+const NEARBY_RADIUS_KM = 2;
+
+export interface EpocSpecies {
+    speciesName: string;
+    latinName: string;
+    taxonomicGroup: TaxonomicGroup;
+}
+
+export interface EpocCandidate extends EpocSpecies {
+    visits: number; // Distinct dates the species was seen at this place and month
+}
+
+export interface EpocTally extends EpocSpecies {
+    count: number;
+}
+
+const isSameSpecies = (a: { speciesName: string }, b: { speciesName: string }): boolean => {
+    return normalizeSearchText(a.speciesName) === normalizeSearchText(b.speciesName);
+};
+
+export const createEpocSession = (now: Date = new Date()): SamplingSession => ({
+    ...createEmptySession(now),
+    name: 'EPOC',
+    protocol: Protocol.EPOC,
+    completeList: true
+});
+
+/** A running EPOC session opens the checklist screen; once ended, it is continued like any session. */
+export const isEpocChecklistPending = (session: SamplingSession): boolean => {
+    return session.protocol === Protocol.EPOC && isSessionRunning(session);
+};
+
+/**
+ * Past observations made in the checklist month at the same place: within
+ * NEARBY_RADIUS_KM of the session point, or in the same municipality without
+ * coordinates. Without any place on the session, the month alone is used.
+ */
+export const selectEpocHistory = (observations: Observation[], session: SamplingSession): Observation[] => {
+    const month = getMonthIndexFromIsoDate(session.date);
+    const { gps, municipality } = buildSessionObservationDefaults(session);
+    const point = gps && gps.lat !== null && gps.lon !== null ? { lat: gps.lat, lon: gps.lon } : null;
+    const municipalityKey = normalizeSearchText(municipality ?? '');
+
+    return observations.filter(obs => {
+        if (obs.sessionId === session.id || getMonthIndexFromIsoDate(obs.date) !== month) return false;
+        if (point && obs.gps.lat !== null && obs.gps.lon !== null) {
+            return distanceKm(point, { lat: obs.gps.lat, lon: obs.gps.lon }) <= NEARBY_RADIUS_KM;
+        }
+        if (municipalityKey) return normalizeSearchText(obs.municipality) === municipalityKey;
+        return !point;
+    });
+};
+
+/** Birds of the place history, the most regular first, to prefill the checklist. */
+export const buildEpocCandidates = (history: Observation[]): EpocCandidate[] => {
+    const bySpecies = new Map<string, EpocSpecies & { dates: Set<string> }>();
+    for (const obs of history) {
+        if (obs.taxonomicGroup !== TaxonomicGroup.BIRD) continue;
+        const key = getObservationSpeciesKey(obs);
+        if (!key) continue;
+        const entry = bySpecies.get(key) ?? {
+            speciesName: obs.speciesName || obs.latinName,
+            latinName: obs.latinName,
+            taxonomicGroup: obs.taxonomicGroup,
+            dates: new Set<string>()
+        };
+        entry.dates.add(obs.date);
+        if (!entry.latinName) entry.latinName = obs.latinName;
+        bySpecies.set(key, entry);
+    }
+    return Array.from(bySpecies.values())
+        .map(({ dates, ...species }) => ({ ...species, visits: dates.size }))
+        .sort((a, b) => b.visits - a.visits || a.speciesName.localeCompare(b.speciesName, 'fr'));
+};
+
+/** Adds (or removes, with a negative delta) individuals of a species; a species back to zero leaves the list. */
+export const addEpocTally = (tallies: EpocTally[], species: EpocSpecies, delta = 1): EpocTally[] => {
+    const existing = tallies.find(tally => isSameSpecies(tally, species));
+    const count = Math.max(0, (existing?.count ?? 0) + delta);
+    if (count === 0) return tallies.filter(tally => tally !== existing);
+    if (existing) return tallies.map(tally => (tally === existing ? { ...tally, count } : tally));
+    return [...tallies, { ...species, speciesName: species.speciesName.trim(), count }];
+};
+
+/** One observation per species of the checklist, attached to its session. */
+export const buildEpocObservations = (session: SamplingSession, tallies: EpocTally[]): Observation[] => {
+    const defaults = buildSessionObservationDefaults(session);
+    return tallies.map(tally => ({
+        id: crypto.randomUUID(),
+        speciesName: tally.speciesName,
+        latinName: tally.latinName,
+        taxonomicGroup: tally.taxonomicGroup,
+        date: session.date,
+        time: session.startTime,
+        count: tally.count,
+        location: session.location,
+        gps: defaults.gps ?? { lat: null, lon: null },
+        municipality: session.municipality,
+        department: session.department,
+        country: session.country,
+        altitude: null,
+        comment: '',
+        status: Status.NE,
+        atlasCode: '',
+        protocol: Protocol.EPOC,
+        sexe: Sexe.UNKNOWN,
+        age: Age.UNKNOWN,
+        observationCondition: ObservationCondition.UNKNOWN,
+        comportement: Comportement.UNKNOWN,
+        sessionId: session.id
+    }));
+};
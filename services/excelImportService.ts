@@ -2,6 +2,7 @@ import * as XLSX from 'xlsx';
 import { isUuid } from '../utils/uuidUtils';
 import { Observation, TaxonomicGroup, Status, Protocol, Sexe, Age, ObservationCondition, Comportement } from '../types';
 import { dateToIsoLocal, isIsoDateString } from '../utils/dateUtils';
+import { findAtlasCodeError, normalizeAtlasCode } from '../utils/atlasCodeUtils';
 
 // ─── Import Report Types ────────────────────────────────────────────────────
 
@@ -70,6 +71,11 @@ const parseFlexibleNumber = (value: unknown): number | null => {
     return Number.isFinite(parsed) ? parsed : null;
 };
 
+const toTaxonId = (value: unknown): number | undefined => {
+    const parsed = parseFlexibleNumber(value);
+    return parsed !== null && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
 const HEADER_ALIASES: Record<string, string[]> = {
     id: ['ID', 'Id', 'identifiant'],
     speciesName: ["Nom de l'espèce", 'Nom espece', 'Espèce', 'Espece', 'Species', 'Species Name'],
@@ -95,7 +101,9 @@ const HEADER_ALIASES: Record<string, string[]> = {
     age: ['Age', 'Âge'],
     observationCondition: ["Condition d'observation", 'Condition observation', 'Condition'],
     comportement: ['Comportement', 'Comportement observé', 'Behavior', 'Behaviour'],
-    comment: ['Commentaire', 'Commentaires', 'Comment', 'Notes', 'Note']
+    comment: ['Commentaire', 'Commentaires', 'Comment', 'Notes', 'Note'],
+    cdNom: ['cdNom', 'CD_NOM'],
+    cdRef: ['cdRef', 'CD_REF']
 };
 
 const buildNormalizedRow = (rawRow: Record<string, unknown>): Record<string, unknown> => {
@@ -258,6 +266,12 @@ export const parseExcel = async (file: File): Promise<ImportResult> => {
                         warnings.push({ row: rowNum, field: 'Non identifiés', message: 'Nombre invalide (<0), valeur annulée', original: String(unidentifiedCount), applied: 'null' });
                     }
 
+                    const rawAtlasCode = toText(getRowValue(row, HEADER_ALIASES.atlasCode));
+                    const atlasCodeError = findAtlasCodeError(rawAtlasCode, taxonomicGroup);
+                    if (atlasCodeError) {
+                        warnings.push({ row: rowNum, field: 'Code Atlas', message: `${atlasCodeError} Code ignoré`, original: rawAtlasCode, applied: '' });
+                    }
+
                     const hasCountBreakdown = safeMaleCount !== null || safeFemaleCount !== null || safeUnidentifiedCount !== null;
                     const breakdownSum = (safeMaleCount ?? 0) + (safeFemaleCount ?? 0) + (safeUnidentifiedCount ?? 0);
                     const hasValidBreakdown = !hasCountBreakdown || breakdownSum === safeCount;
@@ -290,7 +304,7 @@ export const parseExcel = async (file: File): Promise<ImportResult> => {
                         country: toText(getRowValue(row, HEADER_ALIASES.country)) || 'France',
                         altitude,
                         status,
-                        atlasCode: toText(getRowValue(row, HEADER_ALIASES.atlasCode)),
+                        atlasCode: atlasCodeError ? '' : normalizeAtlasCode(rawAtlasCode),
                         protocol,
                         sexe,
                         age,
@@ -299,7 +313,9 @@ export const parseExcel = async (file: File): Promise<ImportResult> => {
                         comment: toText(getRowValue(row, HEADER_ALIASES.comment)),
                         photo: undefined,
                         sound: undefined,
-                        wikipediaImage: undefined
+                        wikipediaImage: undefined,
+                        cdNom: toTaxonId(getRowValue(row, HEADER_ALIASES.cdNom)),
+                        cdRef: toTaxonId(getRowValue(row, HEADER_ALIASES.cdRef))
                     };
                 });
 
@@ -0,0 +1,260 @@
+import { RedListScale, Status, TaxonomicGroup } from '../types';
+import { SpeciesSuggestion, TaxonProvider, mapIucnStatusCodeToStatus } from './taxonProvider';
+
+// ---------------------------------------------------------------------------
+// GBIF Taxonomy API  (secondary — used for precise classification)
+// Docs: https://www.gbif.org/developer/species
+// ---------------------------------------------------------------------------
+
+interface GBIFMatchResult {
+    usageKey?: number;
+    scientificName?: string;
+    canonicalName?: string;
+    kingdom?: string;
+    phylum?: string;
+    class?: string;
+    order?: string;
+    family?: string;
+    matchType?: string;
+}
+
+interface GBIFSuggestResult {
+    key?: number;
+    canonicalName?: string;
+    scientificName?: string;
+    class?: string;
+    order?: string;
+    family?: string;
+    kingdom?: string;
+}
+
+const GBIF_BASE = 'https://api.gbif.org/v1/species';
+const GBIF_V2_SPECIES_MATCH = 'https://api.gbif.org/v2/species/match';
+
+/**
+ * Match a latin/scientific name to the GBIF backbone taxonomy.
+ * NOTE: GBIF does NOT support French common names — always pass a latin name.
+ */
+export const matchSpecies = async (latinName: string): Promise<GBIFMatchResult | null> => {
+    if (!latinName || latinName.trim().length < 2) return null;
+    try {
+        const url = `${GBIF_BASE}/match?name=${encodeURIComponent(latinName.trim())}&verbose=true`;
+        const res = await fetch(url);
+        if (!res.ok) return null;
+        const data: GBIFMatchResult = await res.json();
+        if (data.matchType === 'NONE') return null;
+        return data;
+    } catch (e) {
+        console.error('GBIF match error:', e);
+        return null;
+    }
+};
+
+/**
+ * Suggest species names for autocomplete (accepts partial latin names).
+ */
+export const suggestSpecies = async (query: string, limit = 5): Promise<GBIFSuggestResult[]> => {
+    if (!query || query.trim().length < 2) return [];
+    try {
+        const url = `${GBIF_BASE}/suggest?q=${encodeURIComponent(query.trim())}&limit=${limit}`;
+        const res = await fetch(url);
+        if (!res.ok) return [];
+        return await res.json();
+    } catch (e) {
+        console.error('GBIF suggest error:', e);
+        return [];
+    }
+};
+
+interface GBIFAdditionalStatusEntry {
+    datasetAlias?: string;
+    statusCode?: string;
+}
+
+interface GBIFV2MatchResult {
+    additionalStatus?: GBIFAdditionalStatusEntry[];
+}
+
+export const fetchGbifIucnStatus = async (latinName: string): Promise<Status | undefined> => {
+    if (!latinName || latinName.trim().length < 2) return undefined;
+
+    try {
+        const url = `${GBIF_V2_SPECIES_MATCH}?scientificName=${encodeURIComponent(latinName.trim())}`;
+        const response = await fetch(url);
+        if (!response.ok) return undefined;
+
+        const data: GBIFV2MatchResult = await response.json();
+        const additionalStatuses = Array.isArray(data.additionalStatus) ? data.additionalStatus : [];
+        const iucnEntry = additionalStatuses.find(entry => (entry.datasetAlias || '').trim().toUpperCase() === 'IUCN');
+
+        return mapIucnStatusCodeToStatus(iucnEntry?.statusCode);
+    } catch (error) {
+        console.error('GBIF v2 IUCN status error:', error);
+        return undefined;
+    }
+};
+
+// ---------------------------------------------------------------------------
+// GBIF class/order → TaxonomicGroup mapping
+// ---------------------------------------------------------------------------
+
+export const mapGBIFToTaxonomicGroup = (
+    gbifClass?: string,
+    order?: string,
+    family?: string,
+    kingdom?: string
+): TaxonomicGroup | undefined => {
+    if (!gbifClass && !kingdom) return undefined;
+
+    switch (gbifClass) {
+        case 'Aves':
+            return TaxonomicGroup.BIRD;
+
+        case 'Mammalia':
+            if (order === 'Chiroptera') return TaxonomicGroup.CHIROPTERA;
+            if (['Cetacea', 'Sirenia', 'Cetartiodactyla'].includes(order || '')) {
+                const marineFamilies = [
+                    'Balaenopteridae', 'Balaenidae', 'Delphinidae', 'Phocoenidae',
+                    'Physeteridae', 'Ziphiidae', 'Kogiidae', 'Eschrichtiidae',
+                    'Trichechidae', 'Dugongidae'
+                ];
+                if (order === 'Sirenia' || (family && marineFamilies.includes(family))) {
+                    return TaxonomicGroup.MARINE_MAMMAL;
+                }
+            }
+            return TaxonomicGroup.MAMMAL;
+
+        case 'Reptilia':
+            return TaxonomicGroup.REPTILE;
+
+        case 'Amphibia':
+            return TaxonomicGroup.AMPHIBIAN;
+
+        case 'Actinopterygii':
+        case 'Chondrichthyes':
+        case 'Cephalaspidomorphi':
+            return TaxonomicGroup.FISH;
+
+        case 'Insecta':
+            switch (order) {
+                case 'Lepidoptera':
+                    if (family && ['Nymphalidae', 'Papilionidae', 'Pieridae', 'Lycaenidae', 'Hesperiidae', 'Riodinidae'].includes(family)) {
+                        return TaxonomicGroup.BUTTERFLY;
+                    }
+                    return TaxonomicGroup.MOTH;
+                case 'Odonata':
+                    return TaxonomicGroup.ODONATE;
+                case 'Orthoptera':
+                    return TaxonomicGroup.ORTHOPTERA;
+                case 'Coleoptera':
+                    return TaxonomicGroup.COLEOPTERA;
+                case 'Hymenoptera':
+                    if (family === 'Formicidae') return TaxonomicGroup.ANT;
+                    return TaxonomicGroup.HYMENOPTERA;
+                case 'Mantodea':
+                    return TaxonomicGroup.MANTIS;
+                case 'Hemiptera':
+                    return TaxonomicGroup.HETEROPTERA;
+                case 'Diptera':
+                    return TaxonomicGroup.DIPTERA;
+                case 'Neuroptera':
+                    return TaxonomicGroup.NEUROPTERA;
+                case 'Phasmatodea':
+                    return TaxonomicGroup.PHASMID;
+                case 'Dermaptera':
+                    return TaxonomicGroup.DERMAPTERA;
+                default:
+                    return TaxonomicGroup.OTHER;
+            }
+
+        case 'Arachnida':
+            if (order === 'Scorpiones') return TaxonomicGroup.SCORPION;
+            return TaxonomicGroup.ARACHNID;
+
+        case 'Malacostraca':
+        case 'Maxillopoda':
+            return TaxonomicGroup.CRUSTACEAN;
+
+        case 'Branchiopoda':
+            return TaxonomicGroup.BRANCHIOPOD;
+
+        case 'Gastropoda':
+            return TaxonomicGroup.GASTROPOD;
+
+        case 'Bivalvia':
+            return TaxonomicGroup.BIVALVE;
+
+        case 'Magnoliopsida':
+        case 'Liliopsida':
+        case 'Polypodiopsida':
+        case 'Pinopsida':
+        case 'Gnetopsida':
+        case 'Cycadopsida':
+            if (family === 'Orchidaceae') return TaxonomicGroup.ORCHID;
+            return TaxonomicGroup.BOTANY;
+
+        case 'Bryopsida':
+        case 'Jungermanniopsida':
+        case 'Marchantiopsida':
+            return TaxonomicGroup.BOTANY;
+
+        case 'Agaricomycetes':
+        case 'Sordariomycetes':
+        case 'Eurotiomycetes':
+        case 'Pezizomycetes':
+            return TaxonomicGroup.MUSHROOM;
+
+        case 'Lecanoromycetes':
+        case 'Lichinomycetes':
+            return TaxonomicGroup.LICHEN;
+
+        default:
+            if (kingdom === 'Plantae') return TaxonomicGroup.BOTANY;
+            if (kingdom === 'Fungi') return TaxonomicGroup.MUSHROOM;
+            if (kingdom === 'Animalia') return TaxonomicGroup.OTHER;
+            return undefined;
+    }
+};
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+const toGbifSuggestions = (results: GBIFSuggestResult[]): SpeciesSuggestion[] => {
+    return results
+        .map((item): SpeciesSuggestion | null => {
+            const latinName = (item.scientificName || item.canonicalName || '').trim();
+            const displayName = (item.canonicalName || item.scientificName || '').trim();
+            if (!displayName || !latinName) return null;
+            return {
+                displayName,
+                latinName,
+                source: 'gbif',
+                gbifTaxonId: item.key
+            };
+        })
+        .filter((item): item is SpeciesSuggestion => item !== null);
+};
+
+export const gbifTaxonProvider: TaxonProvider = {
+    id: 'gbif',
+    label: 'GBIF',
+    priority: 20,
+    timeoutMs: 8000,
+    remote: true,
+    suggest: async (query, limit) => toGbifSuggestions(await suggestSpecies(query, limit)),
+    // GBIF does not know French common names: only the latin name is matched.
+    match: async ({ latinName }) => {
+        const gbif = await matchSpecies(latinName ?? '');
+        if (!gbif) return null;
+        return {
+            taxonomicGroup: mapGBIFToTaxonomicGroup(gbif.class, gbif.order, gbif.family, gbif.kingdom),
+            gbifTaxonId: gbif.usageKey
+        };
+    },
+    redLists: async ({ latinName }) => {
+        const status = await fetchGbifIucnStatus(latinName);
+        return status ? [{ scale: RedListScale.WORLD, status, source: 'UICN (via GBIF)' }] : [];
+    },
+    redListScales: [RedListScale.WORLD]
+};
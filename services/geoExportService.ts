@@ -0,0 +1,196 @@
+import { Observation, TaxonomicGroup } from '../types';
+import { TAXON_LOGOS } from '../constants';
+import { getValidationStatus } from '../utils/validationUtils';
+import { GeoJsonGeometry, toGeoJsonGeometry } from '../utils/geometryUtils';
+
+export interface GeoExport {
+    content: string;
+    // Observations without any location, left out of the file.
+    skipped: number;
+}
+
+// Same green as the shapes drawn on the observation map.
+const SHAPE_COLOR = '#5D7B45';
+
+/** Absolute URL of the group logo, so that GIS tools can fetch it. */
+export const getTaxonIconUrl = (group: TaxonomicGroup, baseUrl: string): string => {
+    return new URL(TAXON_LOGOS[group], baseUrl).href;
+};
+
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/** Local observation date and time as an ISO instant; noon when the time is missing. */
+const toIsoInstant = (obs: Observation): string | null => {
+    const instant = new Date(`${obs.date}T${obs.time || '12:00'}:00`);
+    return Number.isNaN(instant.getTime()) ? null : instant.toISOString();
+};
+
+const withGeometry = (observations: Observation[]) => {
+    const located = observations
+        .map(obs => ({ obs, geometry: toGeoJsonGeometry(obs) }))
+        .filter((entry): entry is { obs: Observation; geometry: GeoJsonGeometry } => entry.geometry !== null);
+    return { located, skipped: observations.length - located.length };
+};
+
+const describeObservation = (obs: Observation): string => {
+    return [
+        obs.latinName,
+        `${obs.count} ind.`,
+        [obs.location, obs.municipality].filter(Boolean).join(', '),
+        obs.comment
+    ].filter(Boolean).join(' - ');
+};
+
+export const buildGeoJson = (observations: Observation[], baseUrl: string): GeoExport => {
+    const { located, skipped } = withGeometry(observations);
+    const collection = {
+        type: 'FeatureCollection',
+        features: located.map(({ obs, geometry }) => ({
+            type: 'Feature',
+            id: obs.id,
+            geometry,
+            properties: {
+                id: obs.id,
+                speciesName: obs.speciesName,
+                latinName: obs.latinName,
+                taxonomicGroup: obs.taxonomicGroup,
+                date: obs.date,
+                time: obs.time,
+                count: obs.count,
+                location: obs.location,
+                municipality: obs.municipality,
+                department: obs.department,
+                altitude: obs.altitude,
+                gpsAccuracy: obs.gpsAccuracy ?? null,
+                status: obs.status,
+                atlasCode: obs.atlasCode,
+                validationStatus: getValidationStatus(obs),
+                comment: obs.comment,
+                // simplestyle-spec keys, read by most web maps.
+                icon: getTaxonIconUrl(obs.taxonomicGroup, baseUrl),
+                'marker-color': SHAPE_COLOR,
+                stroke: SHAPE_COLOR,
+                fill: SHAPE_COLOR
+            }
+        }))
+    };
+    return { content: JSON.stringify(collection, null, 2), skipped };
+};
+
+// KML colours are aabbggrr.
+const toKmlColor = (hex: string, alpha: string): string => `${alpha}${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`.toLowerCase();
+
+const getKmlStyleId = (group: TaxonomicGroup): string => {
+    return `groupe-${Object.values(TaxonomicGroup).indexOf(group)}`;
+};
+
+const formatKmlCoordinates = (positions: [number, number][]): string => positions.map(([lon, lat]) => `${lon},${lat}`).join(' ');
+
+const buildKmlGeometry = (geometry: GeoJsonGeometry): string => {
+    if (geometry.type === 'Point') return `<Point><coordinates>${formatKmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+    if (geometry.type === 'LineString') return `<LineString><tessellate>1</tessellate><coordinates>${formatKmlCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+    return `<Polygon><outerBoundaryIs><LinearRing><coordinates>${formatKmlCoordinates(geometry.coordinates[0])}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+};
+
+/** One style per taxonomic group present, with its logo as the placemark icon. */
+export const buildKml = (observations: Observation[], baseUrl: string): GeoExport => {
+    const { located, skipped } = withGeometry(observations);
+    const groups = Array.from(new Set(located.map(({ obs }) => obs.taxonomicGroup)));
+
+    const styles = groups.map(group => [
+        `    <Style id="${getKmlStyleId(group)}">`,
+        `      <IconStyle><Icon><href>${escapeXml(getTaxonIconUrl(group, baseUrl))}</href></Icon></IconStyle>`,
+        `      <LineStyle><color>${toKmlColor(SHAPE_COLOR, 'ff')}</color><width>3</width></LineStyle>`,
+        `      <PolyStyle><color>${toKmlColor(SHAPE_COLOR, '40')}</color></PolyStyle>`,
+        '    </Style>'
+    ].join('\n'));
+
+    const placemarks = located.map(({ obs, geometry }) => {
+        const instant = toIsoInstant(obs);
+        return [
+            `    <Placemark id="${escapeXml(obs.id)}">`,
+            `      <name>${escapeXml(obs.speciesName)}</name>`,
+            `      <description>${escapeXml(describeObservation(obs))}</description>`,
+            instant ? `      <TimeStamp><when>${instant}</when></TimeStamp>` : null,
+            `      <styleUrl>#${getKmlStyleId(obs.taxonomicGroup)}</styleUrl>`,
+            '      <ExtendedData>',
+            `        <Data name="taxonomicGroup"><value>${escapeXml(obs.taxonomicGroup)}</value></Data>`,
+            `        <Data name="count"><value>${obs.count}</value></Data>`,
+            '      </ExtendedData>',
+            `      ${buildKmlGeometry(geometry)}`,
+            '    </Placemark>'
+        ].filter(line => line !== null).join('\n');
+    });
+
+    const content = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        '    <name>Carnet naturaliste - Observations</name>',
+        ...styles,
+        ...placemarks,
+        '  </Document>',
+        '</kml>',
+        ''
+    ].join('\n');
+    return { content, skipped };
+};
+
+const formatGpxPoint = (tag: 'wpt' | 'trkpt', [lon, lat]: [number, number]): string => `<${tag} lat="${lat}" lon="${lon}"`;
+
+// GPX has no styling: the group goes in <type>/<sym> and its logo in <link>. <desc> keeps
+// the observer's comment alone, so that it round-trips through the waypoint importer.
+const buildGpxMetadata = (obs: Observation, baseUrl: string, withSymbol: boolean): string[] => [
+    `<name>${escapeXml(obs.speciesName)}</name>`,
+    `<cmt>${escapeXml(describeObservation(obs))}</cmt>`,
+    ...(obs.comment ? [`<desc>${escapeXml(obs.comment)}</desc>`] : []),
+    `<link href="${escapeXml(getTaxonIconUrl(obs.taxonomicGroup, baseUrl))}"><text>${escapeXml(obs.taxonomicGroup)}</text></link>`,
+    ...(withSymbol ? [`<sym>${escapeXml(obs.taxonomicGroup)}</sym>`] : []),
+    `<type>${escapeXml(obs.taxonomicGroup)}</type>`
+];
+
+/** Waypoints for points, tracks for lines and polygon outlines. */
+export const buildGpx = (observations: Observation[], baseUrl: string): GeoExport => {
+    const { located, skipped } = withGeometry(observations);
+
+    const waypoints = located.flatMap(({ obs, geometry }) => {
+        if (geometry.type !== 'Point') return [];
+        const instant = toIsoInstant(obs);
+        return [[
+            `  ${formatGpxPoint('wpt', geometry.coordinates)}>`,
+            obs.altitude !== null ? `    <ele>${obs.altitude}</ele>` : null,
+            instant ? `    <time>${instant}</time>` : null,
+            ...buildGpxMetadata(obs, baseUrl, true).map(line => `    ${line}`),
+            '  </wpt>'
+        ].filter(line => line !== null).join('\n')];
+    });
+
+    const tracks = located.flatMap(({ obs, geometry }) => {
+        if (geometry.type === 'Point') return [];
+        const positions = geometry.type === 'LineString' ? geometry.coordinates : geometry.coordinates[0];
+        return [[
+            '  <trk>',
+            ...buildGpxMetadata(obs, baseUrl, false).map(line => `    ${line}`),
+            '    <trkseg>',
+            ...positions.map(position => `      ${formatGpxPoint('trkpt', position)}/>`),
+            '    </trkseg>',
+            '  </trk>'
+        ].join('\n')];
+    });
+
+    const content = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gpx version="1.1" creator="Carnet naturaliste" xmlns="http://www.topografix.com/GPX/1/1">',
+        '  <metadata><name>Carnet naturaliste - Observations</name></metadata>',
+        ...waypoints,
+        ...tracks,
+        '</gpx>',
+        ''
+    ].join('\n');
+    return { content, skipped };
+};
@@ -0,0 +1,324 @@
+import {
+    Observation,
+    ObservationGeometry,
+    TaxonomicGroup,
+    Status,
+    Protocol,
+    Sexe,
+    Age,
+    ObservationCondition,
+    Comportement
+} from '../types';
+import { ImportError, ImportResult, ImportWarning } from './excelImportService';
+import { dateToIsoLocal, isIsoDateString } from '../utils/dateUtils';
+import { isUuid } from '../utils/uuidUtils';
+import { normalizeSearchText } from '../utils/textUtils';
+import { getGeometryAnchor, sanitizeGeometry, sanitizeGpsAccuracy } from '../utils/geometryUtils';
+
+const MAX_IMPORT_ROWS = 10_000;
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+// Same fallback as the Excel import when the file carries no time.
+const DEFAULT_TIME = '12:00';
+
+// Fields a waypoint or a feature can carry; everything else gets the form defaults.
+interface GeoDraftInput {
+    id?: string;
+    name: string;
+    latinName?: string;
+    group: string;
+    timestamp?: string;
+    date?: string;
+    time?: string;
+    count?: number;
+    lat: number;
+    lon: number;
+    altitude?: number;
+    gpsAccuracy?: unknown;
+    geometry?: ObservationGeometry;
+    location?: string;
+    municipality?: string;
+    comment?: string;
+}
+
+const createBlockingResult = (message: string, original: string, totalRows = 0): ImportResult => ({
+    observations: [],
+    report: {
+        totalRows,
+        validRows: 0,
+        warnings: [],
+        errors: [],
+        blockingErrors: [{ row: 0, field: 'Fichier', message, original }],
+        idCollisions: 0
+    }
+});
+
+const pushWarning = (warnings: ImportWarning[], row: number, field: string, message: string, original: unknown, applied: string) => {
+    warnings.push({ row, field, message, original: original === undefined ? '' : String(original), applied });
+};
+
+const mapTaxonomicGroup = (value: string, row: number, warnings: ImportWarning[]): TaxonomicGroup => {
+    const normalized = normalizeSearchText(value);
+    const group = Object.values(TaxonomicGroup).find(candidate => normalizeSearchText(candidate) === normalized);
+    if (group) return group;
+    pushWarning(warnings, row, 'Groupe taxonomique', value ? 'Groupe inconnu, fallback Autre' : 'Groupe absent, fallback Autre', value, TaxonomicGroup.OTHER);
+    return TaxonomicGroup.OTHER;
+};
+
+const padTime = (value: number): string => value.toString().padStart(2, '0');
+
+/** Local date and time of the observation, from explicit fields first, then from a timestamp. */
+const resolveDateTime = (input: GeoDraftInput, row: number, warnings: ImportWarning[]): { date: string; time: string } => {
+    if (input.date && isIsoDateString(input.date)) {
+        return { date: input.date, time: input.time && TIME_RE.test(input.time) ? input.time : DEFAULT_TIME };
+    }
+    if (input.timestamp) {
+        const instant = new Date(input.timestamp);
+        if (!Number.isNaN(instant.getTime())) {
+            return { date: dateToIsoLocal(instant), time: `${padTime(instant.getHours())}:${padTime(instant.getMinutes())}` };
+        }
+    }
+    const today = dateToIsoLocal(new Date());
+    if (input.date || input.timestamp) {
+        pushWarning(warnings, row, 'Date', 'Date invalide, fallback date du jour', input.date ?? input.timestamp, today);
+    }
+    return { date: today, time: DEFAULT_TIME };
+};
+
+const buildDraft = (input: GeoDraftInput, row: number, seenIds: Set<string>, warnings: ImportWarning[]): Observation => {
+    let id = input.id && isUuid(input.id) && !seenIds.has(input.id) ? input.id : '';
+    if (!id) {
+        if (input.id && seenIds.has(input.id)) {
+            pushWarning(warnings, row, 'id', 'ID en doublon, nouveau UUID généré', input.id, '(nouveau UUID)');
+        }
+        id = crypto.randomUUID();
+    }
+    seenIds.add(id);
+
+    const speciesName = input.name.trim();
+    if (!speciesName) {
+        pushWarning(warnings, row, "Nom de l'espèce", "Nom d'espèce vide", '', 'Espèce inconnue');
+    }
+
+    const count = input.count !== undefined && Number.isInteger(input.count) && input.count >= 1 ? input.count : 1;
+    if (input.count !== undefined && count !== input.count) {
+        pushWarning(warnings, row, 'Nombre', 'Nombre invalide (<1), fallback à 1', input.count, '1');
+    }
+
+    const gpsAccuracy = sanitizeGpsAccuracy(input.gpsAccuracy);
+    if (input.gpsAccuracy !== undefined && input.gpsAccuracy !== null && gpsAccuracy === undefined) {
+        pushWarning(warnings, row, 'gpsAccuracy', 'Précision GPS invalide, valeur ignorée', input.gpsAccuracy, '');
+    }
+
+    return {
+        id,
+        speciesName: speciesName || 'Espèce inconnue',
+        latinName: input.latinName?.trim() ?? '',
+        taxonomicGroup: mapTaxonomicGroup(input.group.trim(), row, warnings),
+        ...resolveDateTime(input, row, warnings),
+        count,
+        location: input.location?.trim() ?? '',
+        gps: { lat: input.lat, lon: input.lon },
+        gpsAccuracy,
+        geometry: input.geometry,
+        municipality: input.municipality?.trim() ?? '',
+        department: '',
+        country: 'France',
+        altitude: input.altitude ?? null,
+        comment: input.comment?.trim() ?? '',
+        status: Status.NE,
+        atlasCode: '',
+        protocol: Protocol.OPPORTUNIST,
+        sexe: Sexe.UNKNOWN,
+        age: Age.UNKNOWN,
+        observationCondition: ObservationCondition.UNKNOWN,
+        comportement: Comportement.UNKNOWN
+    };
+};
+
+const buildResult = (
+    drafts: { input: GeoDraftInput; row: number }[],
+    totalRows: number,
+    warnings: ImportWarning[],
+    errors: ImportError[]
+): ImportResult => {
+    const seenIds = new Set<string>();
+    const observations = drafts.map(({ input, row }) => buildDraft(input, row, seenIds, warnings));
+    return {
+        observations,
+        report: {
+            totalRows,
+            validRows: observations.length,
+            warnings,
+            errors,
+            blockingErrors: [],
+            idCollisions: warnings.filter(w => w.field === 'id' && w.message.includes('doublon')).length
+        }
+    };
+};
+
+const isValidLatLon = (lat: number, lon: number): boolean => {
+    return Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+};
+
+// ─── GPX ────────────────────────────────────────────────────────────────────
+
+const childText = (element: Element, name: string): string | undefined => {
+    const child = Array.from(element.children).find(node => node.localName === name);
+    const text = child?.textContent?.trim();
+    return text ? text : undefined;
+};
+
+const toOptionalNumber = (value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * GPX waypoints as observation drafts: <name> is the species, <time> the date,
+ * <ele> the altitude, <desc> the comment and <type> the taxonomic group.
+ * Tracks and routes are not observations and are left out.
+ */
+export const parseGpxImport = (text: string): ImportResult => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    const root = doc.documentElement;
+    if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'gpx') {
+        return createBlockingResult('Fichier GPX illisible (XML invalide ou racine <gpx> absente).', root.localName);
+    }
+
+    const waypoints = Array.from(root.children).filter(node => node.localName === 'wpt');
+    if (waypoints.length === 0) {
+        return createBlockingResult('Le fichier GPX ne contient aucun point de passage (<wpt>).', '');
+    }
+    if (waypoints.length > MAX_IMPORT_ROWS) {
+        return createBlockingResult(`Le fichier contient ${waypoints.length} points (max: ${MAX_IMPORT_ROWS}).`, '', waypoints.length);
+    }
+
+    const warnings: ImportWarning[] = [];
+    const errors: ImportError[] = [];
+    const ignoredTracks = Array.from(root.children).filter(node => node.localName === 'trk' || node.localName === 'rte').length;
+    if (ignoredTracks > 0) {
+        pushWarning(warnings, 0, 'Fichier', 'Traces et itinéraires ignorés, seuls les points de passage sont importés', ignoredTracks, '');
+    }
+
+    const drafts: { input: GeoDraftInput; row: number }[] = [];
+    waypoints.forEach((waypoint, index) => {
+        const row = index + 1;
+        const lat = Number(waypoint.getAttribute('lat'));
+        const lon = Number(waypoint.getAttribute('lon'));
+        if (!waypoint.hasAttribute('lat') || !waypoint.hasAttribute('lon') || !isValidLatLon(lat, lon)) {
+            errors.push({ row, field: 'Coordonnées', message: 'Point sans coordonnées valides, ignoré', original: `${waypoint.getAttribute('lat')}, ${waypoint.getAttribute('lon')}` });
+            return;
+        }
+        drafts.push({
+            row,
+            input: {
+                name: childText(waypoint, 'name') ?? '',
+                group: childText(waypoint, 'type') ?? '',
+                timestamp: childText(waypoint, 'time'),
+                lat,
+                lon,
+                altitude: toOptionalNumber(childText(waypoint, 'ele')),
+                comment: childText(waypoint, 'desc')
+            }
+        });
+    });
+
+    return buildResult(drafts, waypoints.length, warnings, errors);
+};
+
+// ─── GeoJSON ────────────────────────────────────────────────────────────────
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const asOptionalString = (value: unknown): string | undefined => {
+    return typeof value === 'string' && value.trim() ? value : undefined;
+};
+
+const asOptionalNumber = (value: unknown): number | undefined => {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+/** A GeoJSON FeatureCollection or Feature, as opposed to the app's JSON export. */
+export const isGeoJson = (value: unknown): boolean => {
+    return isRecord(value) && (value.type === 'FeatureCollection' || value.type === 'Feature');
+};
+
+const readFeaturePosition = (geometry: Record<string, unknown>): { lat: number; lon: number; altitude?: number; shape?: ObservationGeometry } | null => {
+    if (geometry.type === 'Point') {
+        const coordinates = geometry.coordinates;
+        if (!Array.isArray(coordinates) || typeof coordinates[0] !== 'number' || typeof coordinates[1] !== 'number') return null;
+        const [lon, lat] = coordinates;
+        if (!isValidLatLon(lat, lon)) return null;
+        return { lat, lon, altitude: asOptionalNumber(coordinates[2]) };
+    }
+    const shape = sanitizeGeometry(geometry);
+    if (!shape) return null;
+    return { ...getGeometryAnchor(shape), shape };
+};
+
+/**
+ * Point features as observation drafts, plus lines and polygons kept as the
+ * observation geometry. Properties written by the GeoJSON export are read
+ * back; `name`, `description` and `time` cover files from other tools.
+ */
+export const parseGeoJsonImport = (raw: unknown): ImportResult => {
+    if (!isGeoJson(raw)) {
+        return createBlockingResult('Le fichier doit contenir une FeatureCollection ou une Feature GeoJSON.', '');
+    }
+    const collection = raw as Record<string, unknown>;
+    const features: unknown[] = collection.type === 'Feature'
+        ? [collection]
+        : Array.isArray(collection.features) ? collection.features : [];
+
+    if (features.length === 0) {
+        return createBlockingResult('La FeatureCollection ne contient aucune entité.', '');
+    }
+    if (features.length > MAX_IMPORT_ROWS) {
+        return createBlockingResult(`Le fichier contient ${features.length} entités (max: ${MAX_IMPORT_ROWS}).`, '', features.length);
+    }
+
+    const warnings: ImportWarning[] = [];
+    const errors: ImportError[] = [];
+    const drafts: { input: GeoDraftInput; row: number }[] = [];
+
+    features.forEach((feature, index) => {
+        const row = index + 1;
+        const geometry = isRecord(feature) && isRecord(feature.geometry) ? feature.geometry : null;
+        const position = geometry ? readFeaturePosition(geometry) : null;
+        if (!position) {
+            errors.push({ row, field: 'geometry', message: 'Géométrie absente ou non gérée (Point, LineString, Polygon), entité ignorée', original: String(geometry?.type ?? '') });
+            return;
+        }
+
+        const properties = isRecord(feature) && isRecord(feature.properties) ? feature.properties : {};
+        // `time` is either the export's HH:MM or a full timestamp from another tool.
+        const rawTime = asOptionalString(properties.time);
+        const isClockTime = rawTime !== undefined && TIME_RE.test(rawTime);
+        drafts.push({
+            row,
+            input: {
+                id: asOptionalString(properties.id) ?? (isRecord(feature) ? asOptionalString(feature.id) : undefined),
+                name: asOptionalString(properties.speciesName) ?? asOptionalString(properties.name) ?? '',
+                latinName: asOptionalString(properties.latinName),
+                group: asOptionalString(properties.taxonomicGroup) ?? '',
+                date: asOptionalString(properties.date),
+                time: isClockTime ? rawTime : undefined,
+                timestamp: isClockTime ? asOptionalString(properties.timestamp) : rawTime ?? asOptionalString(properties.timestamp),
+                count: asOptionalNumber(properties.count),
+                lat: position.lat,
+                lon: position.lon,
+                altitude: asOptionalNumber(properties.altitude) ?? position.altitude,
+                gpsAccuracy: properties.gpsAccuracy,
+                geometry: position.shape,
+                location: asOptionalString(properties.location),
+                municipality: asOptionalString(properties.municipality),
+                comment: asOptionalString(properties.comment) ?? asOptionalString(properties.description)
+            }
+        });
+    });
+
+    return buildResult(drafts, features.length, warnings, errors);
+};
@@ -0,0 +1,317 @@
+import { RedListAssessment, RedListScale, TaxonomicGroup } from '../types';
+import { resolveRegionName } from '../utils/redListUtils';
+import { SpeciesSuggestion, TaxonDetails, TaxonProvider, mapIucnStatusCodeToStatus } from './taxonProvider';
+
+// ---------------------------------------------------------------------------
+// iNaturalist API  (primary source — supports French common names)
+// Docs: https://api.inaturalist.org/v1/docs/
+// ---------------------------------------------------------------------------
+
+interface INatTaxonResult {
+    id?: number;                    // iNaturalist taxon ID
+    name?: string;                  // Scientific name (e.g. "Cyanistes caeruleus")
+    rank?: string;                  // "species", "genus", "family", etc.
+    rank_level?: number;            // 10 = species, 20 = genus, etc.
+    matched_term?: string;          // iNat matched term when available
+    iconic_taxon_name?: string;     // "Aves", "Mammalia", "Insecta", etc.
+    preferred_common_name?: string; // Localized common name
+    default_photo?: {
+        medium_url?: string;
+        square_url?: string;
+    };
+    wikipedia_summary?: string;
+    wikipedia_url?: string;
+}
+
+const normalizeTaxonText = (value?: string): string => {
+    return (value || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .trim()
+        .replace(/\s+/g, ' ');
+};
+
+const isSpeciesRank = (rank?: string): boolean => rank === 'species' || rank === 'subspecies';
+
+const compareScoreTuples = (left: number[], right: number[]): number => {
+    const length = Math.max(left.length, right.length);
+    for (let index = 0; index < length; index += 1) {
+        const l = left[index] || 0;
+        const r = right[index] || 0;
+        if (l !== r) return l - r;
+    }
+    return 0;
+};
+
+const scoreINatTaxonResult = (item: INatTaxonResult, query: string, genusLevel: boolean): number[] => {
+    const normalizedQuery = normalizeTaxonText(query);
+    const latin = normalizeTaxonText(item.name);
+    const common = normalizeTaxonText(item.preferred_common_name);
+    const matchedTerm = normalizeTaxonText(item.matched_term);
+
+    const exactLatin = normalizedQuery.length > 0 && latin === normalizedQuery ? 1 : 0;
+    const exactCommon = normalizedQuery.length > 0 && (common === normalizedQuery || matchedTerm === normalizedQuery) ? 1 : 0;
+    const startsWith = normalizedQuery.length > 0
+        && [latin, common, matchedTerm].some(value => value.length > 0 && value.startsWith(normalizedQuery))
+        ? 1
+        : 0;
+
+    return [
+        (genusLevel ? item.rank === 'genus' : isSpeciesRank(item.rank)) ? 1 : 0,
+        exactLatin,
+        exactCommon,
+        startsWith
+    ];
+};
+
+const pickBestINatTaxonResult = (results: INatTaxonResult[], query: string, genusLevel = false): INatTaxonResult | null => {
+    if (results.length === 0) return null;
+
+    let best = results[0];
+    let bestScore = scoreINatTaxonResult(best, query, genusLevel);
+
+    for (let index = 1; index < results.length; index += 1) {
+        const candidate = results[index];
+        const candidateScore = scoreINatTaxonResult(candidate, query, genusLevel);
+        if (compareScoreTuples(candidateScore, bestScore) > 0) {
+            best = candidate;
+            bestScore = candidateScore;
+        }
+    }
+
+    return best;
+};
+
+const resolveSpeciesMatchMeta = (
+    query: string,
+    inat: INatTaxonResult
+): { matchedBy: 'latin' | 'common'; confidence: 'high' | 'medium' | 'low' } => {
+    const normalizedQuery = normalizeTaxonText(query);
+    const latin = normalizeTaxonText(inat.name);
+    const common = normalizeTaxonText(inat.preferred_common_name);
+    const matchedTerm = normalizeTaxonText(inat.matched_term);
+
+    if (normalizedQuery.length > 0 && latin === normalizedQuery) {
+        return { matchedBy: 'latin', confidence: 'high' };
+    }
+
+    if (normalizedQuery.length > 0 && (common === normalizedQuery || matchedTerm === normalizedQuery)) {
+        return { matchedBy: 'common', confidence: 'high' };
+    }
+
+    if (normalizedQuery.length > 0 && latin.startsWith(normalizedQuery)) {
+        return { matchedBy: 'latin', confidence: 'medium' };
+    }
+
+    if (normalizedQuery.length > 0 && (common.startsWith(normalizedQuery) || matchedTerm.startsWith(normalizedQuery))) {
+        return { matchedBy: 'common', confidence: 'medium' };
+    }
+
+    if (common.length > 0) {
+        return { matchedBy: 'common', confidence: 'low' };
+    }
+
+    return { matchedBy: 'latin', confidence: 'low' };
+};
+
+/**
+ * Search iNaturalist for a species by common or scientific name.
+ * Returns the best match with photo, description, and scientific name.
+ */
+const fetchINatTaxon = async (query: string, genusLevel = false): Promise<INatTaxonResult | null> => {
+    try {
+        const url = `https://api.inaturalist.org/v1/taxa/autocomplete?q=${encodeURIComponent(query.trim())}&per_page=8&locale=fr`;
+        const res = await fetch(url);
+        if (!res.ok) return null;
+        const data = await res.json();
+        const results: INatTaxonResult[] = data?.results ?? [];
+        return pickBestINatTaxonResult(results, query, genusLevel);
+    } catch (e) {
+        console.error('iNaturalist fetch error:', e);
+        return null;
+    }
+};
+
+const fetchINatSuggestions = async (query: string, limit: number): Promise<INatTaxonResult[]> => {
+    try {
+        const url = `https://api.inaturalist.org/v1/taxa/autocomplete?q=${encodeURIComponent(query.trim())}&per_page=${limit}&locale=fr`;
+        const res = await fetch(url);
+        if (!res.ok) return [];
+        const data = await res.json();
+        return Array.isArray(data?.results) ? data.results : [];
+    } catch (e) {
+        console.error('iNaturalist suggest error:', e);
+        return [];
+    }
+};
+
+// ---------------------------------------------------------------------------
+// iNaturalist place-specific conservation status (France = place_id 6753)
+// ---------------------------------------------------------------------------
+
+const INAT_FRANCE_PLACE_ID = 6753;
+
+interface INatConservationStatusEntry {
+    status?: string;
+    authority?: string;             // e.g. "UICN France", "IUCN Red List"
+    description?: string;
+    place?: { id?: number; display_name?: string; } | null; // null: global assessment
+}
+
+interface INatTaxonDetail {
+    conservation_statuses?: INatConservationStatusEntry[];
+    taxon_photos?: { photo?: { medium_url?: string } }[];
+}
+
+const DEFAULT_RED_LIST_SOURCES: Record<RedListScale, string> = {
+    [RedListScale.WORLD]: 'UICN',
+    [RedListScale.EUROPE]: 'UICN Europe',
+    [RedListScale.FRANCE]: 'UICN France',
+    [RedListScale.REGION]: 'Liste rouge régionale'
+};
+
+// iNat has no assessment year field; lists usually carry it in their authority or description.
+const extractAssessmentYear = (entry: INatConservationStatusEntry): number | undefined => {
+    const match = `${entry.authority ?? ''} ${entry.description ?? ''}`.match(/\b(19|20)\d{2}\b/);
+    return match ? Number(match[0]) : undefined;
+};
+
+const toRedListAssessment = (entry: INatConservationStatusEntry): RedListAssessment | null => {
+    const status = mapIucnStatusCodeToStatus(entry.status);
+    if (!status) return null;
+
+    const placeName = entry.place?.display_name ?? '';
+    const region = resolveRegionName(placeName);
+    const scale = !entry.place
+        ? RedListScale.WORLD
+        : entry.place.id === INAT_FRANCE_PLACE_ID
+            ? RedListScale.FRANCE
+            : normalizeTaxonText(placeName) === 'europe'
+                ? RedListScale.EUROPE
+                : region ? RedListScale.REGION : null;
+    if (!scale) return null;
+
+    return {
+        scale,
+        status,
+        source: entry.authority?.trim() || DEFAULT_RED_LIST_SOURCES[scale],
+        year: extractAssessmentYear(entry),
+        region: scale === RedListScale.REGION ? placeName.replace(/,\s*(FR|France)\s*$/i, '').trim() : undefined
+    };
+};
+
+/**
+ * Fetch the red-list assessments of a taxon from iNaturalist: global IUCN,
+ * Europe, France (place_id=6753) and French régions, read from the
+ * conservation_statuses (plural) array. Other countries are ignored.
+ */
+const fetchINatRedLists = async (taxonId: number): Promise<RedListAssessment[]> => {
+    try {
+        const url = `https://api.inaturalist.org/v1/taxa/${taxonId}?place_id=${INAT_FRANCE_PLACE_ID}`;
+        const res = await fetch(url);
+        if (!res.ok) return [];
+        const data = await res.json();
+        const results: INatTaxonDetail[] = data?.results ?? [];
+        if (results.length === 0) return [];
+
+        return (results[0].conservation_statuses ?? [])
+            .map(toRedListAssessment)
+            .filter((assessment): assessment is RedListAssessment => assessment !== null);
+    } catch (e) {
+        console.error('iNaturalist conservation statuses error:', e);
+        return [];
+    }
+};
+
+const stripHtml = (html: string): string =>
+    html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Fallback: map iNaturalist iconic_taxon_name to TaxonomicGroup.
+ * Less precise than GBIF (no order/family info) but always available.
+ */
+export const mapINatIconicToTaxonomicGroup = (iconicName?: string): TaxonomicGroup | undefined => {
+    switch (iconicName) {
+        case 'Aves': return TaxonomicGroup.BIRD;
+        case 'Mammalia': return TaxonomicGroup.MAMMAL;
+        case 'Reptilia': return TaxonomicGroup.REPTILE;
+        case 'Amphibia': return TaxonomicGroup.AMPHIBIAN;
+        case 'Actinopterygii': return TaxonomicGroup.FISH;
+        case 'Insecta': return TaxonomicGroup.OTHER; // Too broad without order
+        case 'Arachnida': return TaxonomicGroup.ARACHNID;
+        case 'Mollusca': return TaxonomicGroup.OTHER;
+        case 'Plantae': return TaxonomicGroup.BOTANY;
+        case 'Fungi': return TaxonomicGroup.MUSHROOM;
+        default: return undefined;
+    }
+};
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+const fetchINatTaxonPhotos = async (taxonId: number, limit: number): Promise<string[]> => {
+    const res = await fetch(`https://api.inaturalist.org/v1/taxa/${taxonId}`);
+    if (!res.ok) return [];
+    const data = await res.json();
+    const results: INatTaxonDetail[] = data?.results ?? [];
+    return (results[0]?.taxon_photos ?? [])
+        .map(entry => entry.photo?.medium_url)
+        .filter((url): url is string => !!url)
+        .slice(0, limit);
+};
+
+const toINatSuggestions = (results: INatTaxonResult[]): SpeciesSuggestion[] => {
+    // Prioritize species/subspecies; if none found keep everything
+    const speciesOnly = results.filter(r => r.rank === 'species' || r.rank === 'subspecies');
+    const bestResults = speciesOnly.length > 0 ? speciesOnly : results;
+    return bestResults
+        .map((item): SpeciesSuggestion | null => {
+            const latinName = (item.name || '').trim();
+            const commonName = item.preferred_common_name?.trim();
+            const displayName = commonName || latinName;
+            if (!displayName || !latinName) return null;
+            return {
+                displayName,
+                latinName,
+                commonName,
+                source: 'inat',
+                iconicTaxonName: item.iconic_taxon_name,
+                imageUrl: item.default_photo?.medium_url,
+                inatTaxonId: item.id
+            };
+        })
+        .filter((item): item is SpeciesSuggestion => item !== null);
+};
+
+const toINatDetails = (query: string, inat: INatTaxonResult): TaxonDetails => {
+    const description = inat.wikipedia_summary
+        ? stripHtml(inat.wikipedia_summary).substring(0, 300) + '...'
+        : '';
+    return {
+        latinName: inat.name || undefined,
+        description,
+        imageUrl: inat.default_photo?.medium_url ?? inat.default_photo?.square_url ?? null,
+        sourceUrl: inat.wikipedia_url || '',
+        ...resolveSpeciesMatchMeta(query, inat),
+        iconicTaxonName: inat.iconic_taxon_name,
+        inatTaxonId: inat.id
+    };
+};
+
+export const inatTaxonProvider: TaxonProvider = {
+    id: 'inat',
+    label: 'iNaturalist',
+    priority: 10,
+    timeoutMs: 8000,
+    remote: true,
+    suggest: async (query, limit) => toINatSuggestions(await fetchINatSuggestions(query, limit)),
+    details: async (query, options) => {
+        const inat = await fetchINatTaxon(query, options?.genusLevel);
+        return inat ? toINatDetails(query, inat) : null;
+    },
+    redLists: async ({ inatTaxonId }) => (inatTaxonId ? fetchINatRedLists(inatTaxonId) : []),
+    redListScales: [RedListScale.WORLD, RedListScale.EUROPE, RedListScale.FRANCE, RedListScale.REGION],
+    images: async ({ inatTaxonId }, limit) => (inatTaxonId ? fetchINatTaxonPhotos(inatTaxonId, limit) : [])
+};
@@ -6,11 +6,20 @@ import {
     Sexe,
     Age,
     ObservationCondition,
-    Comportement
+    Comportement,
+    IdentificationRank,
+    IdentificationConfidence,
+    ValidationStatus,
+    RedListAssessment,
+    RedListScale,
+    RegulatoryListType,
+    RegulatoryStatus
 } from '../types';
 import { ImportError, ImportResult, ImportWarning } from './excelImportService';
 import { isIsoDateString } from '../utils/dateUtils';
 import { isUuid } from '../utils/uuidUtils';
+import { findAtlasCodeError, normalizeAtlasCode } from '../utils/atlasCodeUtils';
+import { sanitizeGeometry, sanitizeGpsAccuracy } from '../utils/geometryUtils';
 
 const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
@@ -34,6 +43,63 @@ const asNumberOrNull = (value: unknown): number | null | undefined => {
     return undefined;
 };
 
+// Taxon identifiers are optional: anything but a positive integer is dropped.
+const asOptionalTaxonId = (value: unknown): number | undefined => {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+};
+
+// Malformed red-list entries are dropped, the rest of the row is kept.
+const asOptionalRedLists = (value: unknown): RedListAssessment[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const scales = Object.values(RedListScale) as string[];
+    const statuses = Object.values(Status) as string[];
+    const redLists = value
+        .filter(isRecord)
+        .filter(entry => scales.includes(String(entry.scale)) && statuses.includes(String(entry.status)) && typeof entry.source === 'string')
+        .map(entry => ({
+            scale: entry.scale as RedListScale,
+            status: entry.status as Status,
+            source: entry.source as string,
+            year: typeof entry.year === 'number' && Number.isInteger(entry.year) ? entry.year : undefined,
+            region: asOptionalString(entry.region)
+        }));
+    return redLists.length ? redLists : undefined;
+};
+
+const asOptionalRegulatoryStatuses = (value: unknown): RegulatoryStatus[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const types = Object.values(RegulatoryListType) as string[];
+    const statuses = value
+        .filter(isRecord)
+        .filter(entry => types.includes(String(entry.type)) && typeof entry.list === 'string' && typeof entry.territory === 'string')
+        .map(entry => ({
+            type: entry.type as RegulatoryListType,
+            list: entry.list as string,
+            label: asString(entry.label) ?? '',
+            code: asOptionalString(entry.code),
+            territory: entry.territory as string
+        }));
+    return statuses.length ? statuses : undefined;
+};
+
+const asOptionalIdentificationRank = (value: unknown): IdentificationRank | undefined => {
+    return (Object.values(IdentificationRank) as unknown[]).includes(value) ? value as IdentificationRank : undefined;
+};
+
+const asOptionalConfidence = (value: unknown): IdentificationConfidence | undefined => {
+    return (Object.values(IdentificationConfidence) as unknown[]).includes(value) ? value as IdentificationConfidence : undefined;
+};
+
+const asOptionalValidationStatus = (value: unknown): ValidationStatus | undefined => {
+    return (Object.values(ValidationStatus) as unknown[]).includes(value) ? value as ValidationStatus : undefined;
+};
+
+const asOptionalLatinNames = (value: unknown): string[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const names = value.filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+    return names.length ? names : undefined;
+};
+
 const pushError = (errors: ImportError[], row: number, field: string, message: string, original: unknown) => {
     errors.push({
         row,
@@ -220,6 +286,16 @@ const buildObservationFromRow = (
         return null;
     }
 
+    const atlasCodeError = findAtlasCodeError(atlasCode, taxonomicGroup);
+    if (atlasCodeError) {
+        pushWarning(warnings, rowNum, 'atlasCode', `${atlasCodeError} Code ignoré`, atlasCode, '');
+    }
+
+    const geometry = sanitizeGeometry(rawRow.geometry);
+    if (rawRow.geometry != null && !geometry) {
+        pushWarning(warnings, rowNum, 'geometry', 'Tracé GeoJSON invalide (LineString ou Polygon attendu), ignoré', rawRow.geometry, 'point seul');
+    }
+
     const photo = asOptionalString(rawRow.photo);
     const sound = asOptionalString(rawRow.sound);
     const wikipediaImage = asOptionalString(rawRow.wikipediaImage);
@@ -237,13 +313,15 @@ const buildObservationFromRow = (
         unidentifiedCount: unidentifiedCount ?? undefined,
         location,
         gps: { lat, lon },
+        gpsAccuracy: sanitizeGpsAccuracy(rawRow.gpsAccuracy),
+        geometry,
         municipality,
         department,
         country,
         altitude,
         comment,
         status,
-        atlasCode,
+        atlasCode: atlasCodeError ? '' : normalizeAtlasCode(atlasCode),
         protocol,
         sexe,
         age,
@@ -251,7 +329,21 @@ const buildObservationFromRow = (
         comportement,
         photo,
         sound,
-        wikipediaImage
+        wikipediaImage,
+        cdNom: asOptionalTaxonId(rawRow.cdNom),
+        cdRef: asOptionalTaxonId(rawRow.cdRef),
+        gbifTaxonId: asOptionalTaxonId(rawRow.gbifTaxonId),
+        inatTaxonId: asOptionalTaxonId(rawRow.inatTaxonId),
+        redLists: asOptionalRedLists(rawRow.redLists),
+        regulatoryStatuses: asOptionalRegulatoryStatuses(rawRow.regulatoryStatuses),
+        exceptional: rawRow.exceptional === true ? true : undefined,
+        identificationRank: asOptionalIdentificationRank(rawRow.identificationRank),
+        candidateLatinNames: asOptionalLatinNames(rawRow.candidateLatinNames),
+        confidence: asOptionalConfidence(rawRow.confidence),
+        validationStatus: asOptionalValidationStatus(rawRow.validationStatus),
+        validationComment: asOptionalString(rawRow.validationComment),
+        validatedBy: asOptionalString(rawRow.validatedBy),
+        validatedAt: asOptionalString(rawRow.validatedAt)
     };
 };
 
@@ -0,0 +1,207 @@
+import { Observation, TaxonomicGroup } from '../types';
+import { distanceKm } from '../utils/geoUtils';
+import { getObservationSpeciesKey } from '../utils/observationStatsUtils';
+import { normalizeSearchText, scoreNameMatch } from '../utils/textUtils';
+import { isOfflineDatabaseAvailable, readOfflineRecord, writeOfflineRecord } from './offlineDatabase';
+
+/**
+ * Local species index answering autocomplete without network. It is seeded from
+ * the notebook (species already observed, most frequent first) and from a
+ * regional checklist downloaded from iNaturalist around a position.
+ */
+
+export type LocalTaxonSource = 'history' | 'checklist';
+
+export interface LocalTaxon {
+    speciesName: string;
+    latinName: string;
+    source: LocalTaxonSource;
+    taxonomicGroup?: TaxonomicGroup;
+    iconicTaxonName?: string; // Checklist only, e.g. "Aves"
+    cdNom?: number;
+    cdRef?: number;
+    inatTaxonId?: number;
+    // Observations in the notebook, or in the checklist area.
+    occurrences: number;
+}
+
+export interface RegionalChecklistMeta {
+    downloadedAt: string;
+    lat: number;
+    lon: number;
+    radiusKm: number;
+    taxonCount: number;
+}
+
+interface RegionalChecklistRecord {
+    meta: RegionalChecklistMeta;
+    taxa: LocalTaxon[];
+}
+
+interface INatSpeciesCount {
+    count?: number;
+    taxon?: {
+        id?: number;
+        name?: string;
+        rank?: string;
+        iconic_taxon_name?: string;
+        preferred_common_name?: string;
+    };
+}
+
+const REGIONAL_CHECKLIST_KEY = 'taxon_index:regional_checklist';
+const CHECKLIST_PAGE_SIZE = 500;
+const CHECKLIST_MAX_PAGES = 4;
+export const REGIONAL_CHECKLIST_RADIUS_KM = 50;
+
+let historyTaxa: LocalTaxon[] = [];
+let checklistPromise: Promise<RegionalChecklistRecord | null> | null = null;
+
+const getTaxonKey = (taxon: Pick<LocalTaxon, 'speciesName' | 'latinName'>): string => {
+    return normalizeSearchText(taxon.latinName || taxon.speciesName);
+};
+
+/** Species of the notebook, one per taxon, with their last known names and ids. */
+export const buildHistoryTaxa = (observations: Observation[]): LocalTaxon[] => {
+    const bySpecies = new Map<string, LocalTaxon>();
+    for (const obs of observations) {
+        const key = getObservationSpeciesKey(obs);
+        if (!key || obs.deletedAt) continue;
+        const entry = bySpecies.get(key) ?? {
+            speciesName: obs.speciesName.trim(),
+            latinName: obs.latinName.trim(),
+            source: 'history' as const,
+            taxonomicGroup: obs.taxonomicGroup,
+            occurrences: 0
+        };
+        entry.occurrences += 1;
+        if (!entry.latinName) entry.latinName = obs.latinName.trim();
+        entry.cdNom = entry.cdNom ?? obs.cdNom;
+        entry.cdRef = entry.cdRef ?? obs.cdRef;
+        entry.inatTaxonId = entry.inatTaxonId ?? obs.inatTaxonId;
+        bySpecies.set(key, entry);
+    }
+    return Array.from(bySpecies.values());
+};
+
+/** Called whenever the notebook changes. */
+export const setTaxonHistory = (observations: Observation[]): void => {
+    historyTaxa = buildHistoryTaxa(observations);
+};
+
+/** Species of the notebook recorded under this latin or French name. */
+export const findHistoryTaxon = (names: { latinName?: string; speciesName?: string }): LocalTaxon | undefined => {
+    const latinKey = normalizeSearchText(names.latinName ?? '');
+    const speciesKey = normalizeSearchText(names.speciesName ?? '');
+    return historyTaxa.find(taxon => (latinKey && normalizeSearchText(taxon.latinName) === latinKey)
+        || (speciesKey && normalizeSearchText(taxon.speciesName) === speciesKey));
+};
+
+const toChecklistTaxon = (result: INatSpeciesCount): LocalTaxon | null => {
+    const taxon = result.taxon;
+    const latinName = (taxon?.name || '').trim();
+    if (!taxon || !latinName || (taxon.rank !== 'species' && taxon.rank !== 'subspecies')) return null;
+    return {
+        speciesName: taxon.preferred_common_name?.trim() || latinName,
+        latinName,
+        source: 'checklist',
+        iconicTaxonName: taxon.iconic_taxon_name,
+        inatTaxonId: taxon.id,
+        occurrences: result.count ?? 0
+    };
+};
+
+/**
+ * Downloads the species observed on iNaturalist within `radiusKm` of a position
+ * and keeps them in IndexedDB, replacing the previous checklist.
+ */
+export const downloadRegionalChecklist = async (
+    lat: number,
+    lon: number,
+    radiusKm = REGIONAL_CHECKLIST_RADIUS_KM
+): Promise<RegionalChecklistMeta> => {
+    const taxa: LocalTaxon[] = [];
+    for (let page = 1; page <= CHECKLIST_MAX_PAGES; page += 1) {
+        const url = `https://api.inaturalist.org/v1/observations/species_counts?lat=${lat}&lng=${lon}&radius=${radiusKm}`
+            + `&verifiable=true&locale=fr&per_page=${CHECKLIST_PAGE_SIZE}&page=${page}`;
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`Téléchargement de la liste régionale impossible (${res.status}).`);
+        const data = await res.json();
+        const results: INatSpeciesCount[] = Array.isArray(data?.results) ? data.results : [];
+        taxa.push(...results.map(toChecklistTaxon).filter((taxon): taxon is LocalTaxon => taxon !== null));
+        if (results.length < CHECKLIST_PAGE_SIZE) break;
+    }
+
+    const record: RegionalChecklistRecord = {
+        meta: { downloadedAt: new Date().toISOString(), lat, lon, radiusKm, taxonCount: taxa.length },
+        taxa
+    };
+    await writeOfflineRecord(REGIONAL_CHECKLIST_KEY, record);
+    checklistPromise = Promise.resolve(record);
+    return record.meta;
+};
+
+const loadRegionalChecklist = (): Promise<RegionalChecklistRecord | null> => {
+    if (!checklistPromise) {
+        checklistPromise = (async () => {
+            if (!isOfflineDatabaseAvailable()) return null;
+            try {
+                return (await readOfflineRecord<RegionalChecklistRecord>(REGIONAL_CHECKLIST_KEY)) ?? null;
+            } catch (error) {
+                console.error('Error loading regional checklist:', error);
+                return null;
+            }
+        })();
+    }
+    return checklistPromise;
+};
+
+export const getRegionalChecklistMeta = async (): Promise<RegionalChecklistMeta | null> => {
+    return (await loadRegionalChecklist())?.meta ?? null;
+};
+
+/**
+ * Whether a species appears in the regional checklist, for a point inside the
+ * checklist area. Null when no checklist was downloaded or the point is outside it.
+ */
+export const isInRegionalChecklist = async (
+    names: { latinName?: string; speciesName?: string },
+    gps: { lat: number | null; lon: number | null }
+): Promise<boolean | null> => {
+    const checklist = await loadRegionalChecklist();
+    if (!checklist || gps.lat === null || gps.lon === null) return null;
+    if (distanceKm(checklist.meta, { lat: gps.lat, lon: gps.lon }) > checklist.meta.radiusKm) return null;
+    const latinKey = normalizeSearchText(names.latinName ?? '');
+    const speciesKey = normalizeSearchText(names.speciesName ?? '');
+    return checklist.taxa.some(taxon => (latinKey && normalizeSearchText(taxon.latinName) === latinKey)
+        || (speciesKey && normalizeSearchText(taxon.speciesName) === speciesKey));
+};
+
+/**
+ * Accent-insensitive search on French and latin names. Species already
+ * observed come before checklist ones at equal match quality.
+ */
+export const searchLocalTaxa = async (query: string, limit = 5): Promise<LocalTaxon[]> => {
+    const normalizedQuery = normalizeSearchText(query);
+    if (normalizedQuery.length < 2) return [];
+
+    const checklist = await loadRegionalChecklist();
+    const seen = new Set<string>();
+    const scored: { taxon: LocalTaxon; score: number; rank: number }[] = [];
+    [...historyTaxa, ...(checklist?.taxa ?? [])].forEach((taxon, rank) => {
+        const key = getTaxonKey(taxon);
+        if (!key || seen.has(key)) return;
+        const score = Math.max(scoreNameMatch(taxon.speciesName, normalizedQuery), scoreNameMatch(taxon.latinName, normalizedQuery));
+        if (score === 0) return;
+        seen.add(key);
+        scored.push({ taxon, score, rank });
+    });
+
+    return scored
+        .sort((a, b) => b.score - a.score
+            || (a.taxon.source === b.taxon.source ? 0 : a.taxon.source === 'history' ? -1 : 1)
+            || b.taxon.occurrences - a.taxon.occurrences
+            || a.rank - b.rank)
+        .slice(0, limit)
+        .map(entry => entry.taxon);
+};
@@ -0,0 +1,73 @@
+import { mapGBIFToTaxonomicGroup } from './gbifTaxonProvider';
+import { mapINatIconicToTaxonomicGroup } from './inatTaxonProvider';
+import { LocalTaxon, findHistoryTaxon, searchLocalTaxa } from './localTaxonIndex';
+import { SpeciesSuggestion, TaxonProvider } from './taxonProvider';
+import { TaxrefEntry, getValidTaxrefEntry, loadTaxrefIndex, matchTaxref, searchTaxref } from './taxrefService';
+
+const toLocalSuggestion = (taxon: LocalTaxon): SpeciesSuggestion => {
+    const latinName = taxon.latinName;
+    return {
+        displayName: taxon.speciesName || latinName,
+        latinName,
+        commonName: taxon.speciesName !== latinName ? taxon.speciesName : undefined,
+        source: taxon.source,
+        iconicTaxonName: taxon.iconicTaxonName,
+        taxonomicGroup: taxon.taxonomicGroup ?? mapINatIconicToTaxonomicGroup(taxon.iconicTaxonName),
+        inatTaxonId: taxon.inatTaxonId,
+        ...(taxon.cdNom && taxon.cdRef ? { cdNom: taxon.cdNom, cdRef: taxon.cdRef } : {})
+    };
+};
+
+const getTaxrefGroup = (entry: TaxrefEntry) => {
+    const { kingdom, order, family } = entry.classification ?? {};
+    return mapGBIFToTaxonomicGroup(entry.classification?.class, order, family, kingdom);
+};
+
+const toTaxrefSuggestion = (entry: TaxrefEntry): SpeciesSuggestion => {
+    const commonName = entry.frenchNames[0];
+    return {
+        displayName: commonName || entry.latinName,
+        latinName: entry.latinName,
+        commonName,
+        source: 'taxref',
+        taxonomicGroup: getTaxrefGroup(entry),
+        cdNom: entry.cdNom,
+        cdRef: entry.cdRef
+    };
+};
+
+/** Species of the notebook and of the downloaded regional checklist. */
+export const notebookTaxonProvider: TaxonProvider = {
+    id: 'local',
+    label: 'Carnet et liste régionale',
+    priority: 0,
+    timeoutMs: 2000,
+    remote: false,
+    suggest: async (query, limit) => (await searchLocalTaxa(query, limit)).map(toLocalSuggestion),
+    match: async (names) => {
+        const taxon = findHistoryTaxon(names);
+        if (!taxon) return null;
+        return {
+            taxonomicGroup: taxon.taxonomicGroup,
+            inatTaxonId: taxon.inatTaxonId,
+            ...(taxon.cdNom && taxon.cdRef ? { cdNom: taxon.cdNom, cdRef: taxon.cdRef } : {})
+        };
+    }
+};
+
+/** TAXREF reference imported on the device (see taxrefService). */
+export const taxrefTaxonProvider: TaxonProvider = {
+    id: 'taxref',
+    label: 'TAXREF',
+    priority: 5,
+    timeoutMs: 2000,
+    remote: false,
+    suggest: async (query, limit) => searchTaxref(await loadTaxrefIndex(), query, limit).map(toTaxrefSuggestion),
+    match: async (names) => {
+        const index = await loadTaxrefIndex();
+        const reference = matchTaxref(index, names);
+        const entry = reference ? index.byCdNom.get(reference.cdNom) : undefined;
+        if (!reference || !entry) return null;
+        return { ...reference, taxonomicGroup: getTaxrefGroup(getValidTaxrefEntry(index, entry)) };
+    }
+};
@@ -97,6 +97,19 @@ export const fetchAltitude = async (lat: number, lon: number): Promise<number |
     }
 };
 
+// Code of the French department containing a point (API Découpage administratif); null outside France.
+export const fetchDepartmentCode = async (lat: number, lon: number): Promise<string | null> => {
+    try {
+        const response = await fetchJsonWithTimeout(`https://geo.api.gouv.fr/communes?lat=${lat}&lon=${lon}&fields=codeDepartement&format=json`, {}, 5000);
+        if (!response.ok) return null;
+        const data = await response.json();
+        return Array.isArray(data) && data[0]?.codeDepartement ? String(data[0].codeDepartement) : null;
+    } catch (error) {
+        console.error('Erreur lors de la recherche du département:', error);
+        return null;
+    }
+};
+
 export const searchAddress = async (query: string): Promise<SearchResult[]> => {
     if (!query || query.length < 3) return [];
     try {
@@ -1,26 +1,62 @@
 import { Observation } from '../types';
+import { getValidationStatus } from '../utils/validationUtils';
+import { getAtlasSquareCode } from '../utils/atlasGridUtils';
+import { toWkt } from '../utils/geometryUtils';
+import { GeoExport, buildGeoJson, buildGpx, buildKml } from './geoExportService';
+import { SinpExportContext, SinpValidationReport, buildSinpCsv, buildSinpOccurrences, buildSinpReportCsv } from './sinpExportService';
 
-export type ObservationExportType = 'json' | 'excel' | 'pdf';
+export type ObservationExportType = 'json' | 'excel' | 'pdf' | 'sinp' | 'geojson' | 'kml' | 'gpx';
 
-const exportJson = (exportData: Observation[]) => {
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json;charset=utf-8' });
+export type ObservationExportContext = SinpExportContext;
+
+export interface ObservationExportResult {
+    // SINP only: rows missing mandatory fields, listed in the validation report.
+    incompleteRows: number;
+    // SINP only: observations invalidated by a reviewer, left out and listed in the report.
+    excludedRows: number;
+    // GeoJSON, KML and GPX only: observations without a location, left out of the file.
+    skippedRows: number;
+}
+
+const downloadTextFile = (content: string, mimeType: string, fileName: string) => {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.setAttribute('href', url);
-    link.setAttribute('download', 'observations.json');
+    link.setAttribute('download', fileName);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
 };
 
+const exportJson = (exportData: Observation[]) => {
+    downloadTextFile(JSON.stringify(exportData, null, 2), 'application/json', 'observations.json');
+};
+
+const GEO_EXPORTS: Record<'geojson' | 'kml' | 'gpx', { build: (observations: Observation[], baseUrl: string) => GeoExport; mimeType: string; fileName: string }> = {
+    geojson: { build: buildGeoJson, mimeType: 'application/geo+json', fileName: 'observations.geojson' },
+    kml: { build: buildKml, mimeType: 'application/vnd.google-earth.kml+xml', fileName: 'observations.kml' },
+    gpx: { build: buildGpx, mimeType: 'application/gpx+xml', fileName: 'observations.gpx' }
+};
+
+// Logos are referenced by absolute URL, resolved against the deployed app.
+const exportGeo = (type: keyof typeof GEO_EXPORTS, exportData: Observation[]): number => {
+    const { build, mimeType, fileName } = GEO_EXPORTS[type];
+    const { content, skipped } = build(exportData, window.location.origin);
+    downloadTextFile(content, mimeType, fileName);
+    return skipped;
+};
+
 const exportExcel = async (exportData: Observation[]) => {
     const XLSX = await import('xlsx');
     const headers = [
         "ID", "Nom de l'espèce", "Nom latin", "Groupe taxonomique", "Date", "Heure",
-        "Nombre", "Mâles", "Femelles", "Non identifiés", "Lieu-dit", "Latitude", "Longitude", "Commune", "Département",
+        "Nombre", "Mâles", "Femelles", "Non identifiés", "Lieu-dit", "Latitude", "Longitude", "Précision GPS (m)", "Commune", "Département",
         "Pays", "Altitude", "Statut", "Code Atlas", "Protocole", "Sexe", "Age",
-        "Condition d'observation", "Comportement", "Commentaire"
+        "Condition d'observation", "Comportement", "Commentaire", "cdNom", "cdRef",
+        "Certitude", "Validation", "Commentaire de validation",
+        "Maille 10 km", "Maille 5 km", "Maille 1 km", "Géométrie (WKT)"
     ];
 
     const data = exportData.map(obs => ({
@@ -37,6 +73,7 @@ const exportExcel = async (exportData: Observation[]) => {
         "Lieu-dit": obs.location,
         Latitude: obs.gps.lat ?? '',
         Longitude: obs.gps.lon ?? '',
+        "Précision GPS (m)": obs.gpsAccuracy ?? '',
         Commune: obs.municipality,
         Département: obs.department,
         Pays: obs.country,
@@ -48,7 +85,16 @@ const exportExcel = async (exportData: Observation[]) => {
         Age: obs.age,
         "Condition d'observation": obs.observationCondition,
         Comportement: obs.comportement,
-        Commentaire: obs.comment
+        Commentaire: obs.comment,
+        cdNom: obs.cdNom ?? '',
+        cdRef: obs.cdRef ?? '',
+        Certitude: obs.confidence ?? '',
+        Validation: getValidationStatus(obs),
+        "Commentaire de validation": obs.validationComment ?? '',
+        "Maille 10 km": getAtlasSquareCode(obs.gps, 10) ?? '',
+        "Maille 5 km": getAtlasSquareCode(obs.gps, 5) ?? '',
+        "Maille 1 km": getAtlasSquareCode(obs.gps, 1) ?? '',
+        "Géométrie (WKT)": toWkt(obs)
     }));
 
     const worksheet = XLSX.utils.json_to_sheet(data, { header: headers });
@@ -103,16 +149,43 @@ const exportPdf = async (exportData: Observation[]) => {
     pdf.save('carnet-naturaliste-observations.pdf');
 };
 
-export const runObservationExport = async (type: ObservationExportType, exportData: Observation[]) => {
+// Occurrences and validation report in one archive, ready to send to a regional platform.
+const exportSinp = async (exportData: Observation[], context: ObservationExportContext): Promise<SinpValidationReport> => {
+    const [{ default: JSZip }, { saveAs }] = await Promise.all([import('jszip'), import('file-saver')]);
+    const { rows, report } = buildSinpOccurrences(exportData, context);
+    const zip = new JSZip();
+    // BOM so that spreadsheet tools read the accents correctly.
+    zip.file('occurrences_taxons.csv', `\uFEFF${buildSinpCsv(rows)}`);
+    zip.file('rapport_validation.csv', `\uFEFF${buildSinpReportCsv(report)}`);
+    const content = await zip.generateAsync({ type: 'blob' });
+    saveAs(content, 'export_sinp_occtax.zip');
+    return report;
+};
+
+export const runObservationExport = async (
+    type: ObservationExportType,
+    exportData: Observation[],
+    context: ObservationExportContext = {}
+): Promise<ObservationExportResult> => {
     if (type === 'json') {
         exportJson(exportData);
-        return;
+        return { incompleteRows: 0, excludedRows: 0, skippedRows: 0 };
     }
 
     if (type === 'excel') {
         await exportExcel(exportData);
-        return;
+        return { incompleteRows: 0, excludedRows: 0, skippedRows: 0 };
+    }
+
+    if (type === 'sinp') {
+        const report = await exportSinp(exportData, context);
+        return { incompleteRows: report.issues.length, excludedRows: report.excluded.length, skippedRows: 0 };
+    }
+
+    if (type === 'geojson' || type === 'kml' || type === 'gpx') {
+        return { incompleteRows: 0, excludedRows: 0, skippedRows: exportGeo(type, exportData) };
     }
 
     await exportPdf(exportData);
+    return { incompleteRows: 0, excludedRows: 0, skippedRows: 0 };
 };
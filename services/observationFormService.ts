@@ -1,10 +1,28 @@
-import { Observation } from '../types';
+import { IdentificationRank, Observation } from '../types';
+import { getIdentificationRank, parseCandidateLatinNames, parseIdentification } from '../utils/identificationUtils';
+import { findAtlasCodeError } from '../utils/atlasCodeUtils';
+import { sanitizeGpsAccuracy } from '../utils/geometryUtils';
 
-export type ObservationFormData = Omit<Observation, 'id' | 'count' | 'maleCount' | 'femaleCount' | 'unidentifiedCount'> & {
+export type ObservationFormData = Omit<Observation, 'id' | 'count' | 'maleCount' | 'femaleCount' | 'unidentifiedCount' | 'candidateLatinNames'> & {
     count: number | '';
     maleCount: number | '';
     femaleCount: number | '';
     unidentifiedCount: number | '';
+    // As typed, e.g. "Pipistrellus kuhlii / nathusii".
+    candidateLatinNames?: string;
+};
+
+// Aggregate members typed in the form, or read from a latin name such as "Pipistrellus kuhlii/nathusii".
+const getFormCandidateLatinNames = (formData: ObservationFormData): string[] => {
+    const typed = parseCandidateLatinNames(formData.candidateLatinNames ?? '');
+    return typed.length > 0 ? typed : parseIdentification(formData.latinName)?.candidates ?? [];
+};
+
+// The rank is recorded explicitly on save; older records fall back to their latin name.
+const getFormIdentification = (formData: ObservationFormData): { identificationRank: IdentificationRank; candidateLatinNames: string[] | undefined } => {
+    const identificationRank = getIdentificationRank(formData);
+    const candidates = identificationRank === IdentificationRank.AGGREGATE ? getFormCandidateLatinNames(formData) : [];
+    return { identificationRank, candidateLatinNames: candidates.length ? candidates : undefined };
 };
 
 const parseOptionalInteger = (value: number | ''): number | null => {
@@ -38,8 +56,14 @@ export const validateObservationForm = (formData: ObservationFormData): Record<s
     ) {
         errors.countBreakdown = 'La somme mâle + femelle + non identifié doit être égale au total.';
     }
+    if (getIdentificationRank(formData) === IdentificationRank.AGGREGATE && getFormCandidateLatinNames(formData).length === 1) {
+        errors.candidateLatinNames = 'Indiquez au moins deux espèces possibles.';
+    }
+    const atlasCodeError = findAtlasCodeError(formData.atlasCode, formData.taxonomicGroup);
+    if (atlasCodeError) errors.atlasCode = atlasCodeError;
     if (formData.gps.lat !== null && (formData.gps.lat < -90 || formData.gps.lat > 90)) errors.lat = 'La latitude doit être entre -90 et 90.';
     if (formData.gps.lon !== null && (formData.gps.lon < -180 || formData.gps.lon > 180)) errors.lon = 'La longitude doit être entre -180 et 180.';
+    if (formData.gpsAccuracy !== undefined && !(formData.gpsAccuracy > 0)) errors.gpsAccuracy = 'La précision doit être un nombre de mètres positif.';
 
     return errors;
 };
@@ -52,6 +76,7 @@ export const buildObservationFromForm = (
 ): Observation => ({
     id,
     ...formData,
+    ...getFormIdentification(formData),
     photo: photoUrl,
     sound: soundUrl,
     count: Number(formData.count),
@@ -59,6 +84,7 @@ export const buildObservationFromForm = (
     femaleCount: formData.femaleCount === '' ? undefined : Number(formData.femaleCount),
     unidentifiedCount: formData.unidentifiedCount === '' ? undefined : Number(formData.unidentifiedCount),
     altitude: formData.altitude !== null ? Number(formData.altitude) : null,
+    gpsAccuracy: sanitizeGpsAccuracy(formData.gpsAccuracy),
     gps: {
         lat: formData.gps.lat !== null ? Number(formData.gps.lat) : null,
         lon: formData.gps.lon !== null ? Number(formData.gps.lon) : null
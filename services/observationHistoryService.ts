@@ -0,0 +1,171 @@
+import { supabase } from '../supabaseClient';
+import { Observation, RedListAssessment, RegulatoryStatus } from '../types';
+import { OBSERVATION_DIFF_FIELDS, ObservationDiffField } from '../utils/observationDiffUtils';
+import { formatGeometrySummary, getGeometryVertices, sanitizeGeometry } from '../utils/geometryUtils';
+import { formatRedListAssessment } from '../utils/redListUtils';
+import { formatRegulatoryStatus } from '../utils/regulatoryStatusUtils';
+
+export type RevisionSource = 'online' | 'offline';
+
+export interface RevisionChange {
+    column: string;
+    label: string;
+    oldValue: unknown;
+    newValue: unknown;
+    // False for columns the form cannot edit (recycle bin moves, unknown columns).
+    revertible: boolean;
+}
+
+export interface ObservationRevision {
+    id: string;
+    revisedAt: string;
+    // Device time of the edit; differs from `revisedAt` for edits synced from the offline queue.
+    editedAt?: string;
+    source?: RevisionSource;
+    offlineEditCount?: number;
+    changes: RevisionChange[];
+}
+
+const COLUMN_FIELDS: Record<string, ObservationDiffField> = {
+    species_name: 'speciesName',
+    latin_name: 'latinName',
+    taxonomic_group: 'taxonomicGroup',
+    date: 'date',
+    time: 'time',
+    count: 'count',
+    male_count: 'maleCount',
+    female_count: 'femaleCount',
+    unidentified_count: 'unidentifiedCount',
+    location: 'location',
+    municipality: 'municipality',
+    department: 'department',
+    country: 'country',
+    altitude: 'altitude',
+    comment: 'comment',
+    status: 'status',
+    atlas_code: 'atlasCode',
+    protocol: 'protocol',
+    sexe: 'sexe',
+    age: 'age',
+    observation_condition: 'observationCondition',
+    comportement: 'comportement',
+    photo_url: 'photo',
+    wikipedia_image: 'wikipediaImage',
+    sound_url: 'sound',
+    session_id: 'sessionId',
+    cd_nom: 'cdNom',
+    cd_ref: 'cdRef',
+    gbif_taxon_id: 'gbifTaxonId',
+    inat_taxon_id: 'inatTaxonId'
+};
+
+const GPS_COLUMNS: Record<string, { coordinate: 'lat' | 'lon'; label: string }> = {
+    gps_lat: { coordinate: 'lat', label: 'Latitude' },
+    gps_lon: { coordinate: 'lon', label: 'Longitude' }
+};
+
+// Labels of the columns outside COLUMN_FIELDS.
+const EXTRA_COLUMN_LABELS: Record<string, string> = {
+    deleted_at: 'Corbeille',
+    red_lists: 'Listes rouges',
+    regulatory_statuses: 'Statuts réglementaires',
+    exceptional: 'Donnée exceptionnelle',
+    identification_rank: "Rang d'identification",
+    candidate_latin_names: 'Espèces candidates',
+    confidence: 'Certitude',
+    validation_status: 'Validation',
+    validation_comment: 'Commentaire de validation',
+    validated_by: 'Validée par',
+    validated_at: 'Date de validation',
+    gps_accuracy: 'Précision GPS',
+    geometry: 'Tracé'
+};
+
+const OPTIONAL_NUMBER_FIELDS = new Set<ObservationDiffField>([
+    'maleCount', 'femaleCount', 'unidentifiedCount', 'cdNom', 'cdRef', 'gbifTaxonId', 'inatTaxonId'
+]);
+const OPTIONAL_TEXT_FIELDS = new Set<ObservationDiffField>(['photo', 'sound', 'wikipediaImage', 'sessionId']);
+
+const getColumnLabel = (column: string): string => {
+    const field = COLUMN_FIELDS[column];
+    const diffLabel = field ? OBSERVATION_DIFF_FIELDS.find(entry => entry.field === field)?.label : undefined;
+    return diffLabel ?? GPS_COLUMNS[column]?.label ?? EXTRA_COLUMN_LABELS[column] ?? column;
+};
+
+const toRevisionChanges = (changes: Record<string, { old?: unknown; new?: unknown }> | null): RevisionChange[] => {
+    return Object.entries(changes ?? {}).map(([column, values]) => ({
+        column,
+        label: getColumnLabel(column),
+        oldValue: values?.old ?? null,
+        newValue: values?.new ?? null,
+        revertible: column in COLUMN_FIELDS || column in GPS_COLUMNS
+    }));
+};
+
+const mapToRevision = (row: any): ObservationRevision => ({
+    id: row.id,
+    revisedAt: row.revised_at,
+    editedAt: row.edited_at ?? undefined,
+    source: row.edit_source ?? undefined,
+    offlineEditCount: row.offline_edit_count ?? undefined,
+    changes: toRevisionChanges(row.changes)
+});
+
+/**
+ * Revisions of an observation, newest first. Needs the network and the phase 9
+ * migration; temporary (not yet synced) observations have no history.
+ */
+export const getObservationHistory = async (observationId: string): Promise<ObservationRevision[]> => {
+    const { data, error } = await supabase
+        .from('observation_revisions')
+        .select('*')
+        .eq('observation_id', observationId)
+        .order('revised_at', { ascending: false });
+
+    if (error) {
+        console.error('Error loading observation history:', error);
+        throw new Error(error.message);
+    }
+
+    return (data || []).map(mapToRevision);
+};
+
+export const formatRevisionValue = (change: RevisionChange, value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (change.column === 'time' && typeof value === 'string') return value.slice(0, 5);
+    if (change.column === 'red_lists' && Array.isArray(value)) return (value as RedListAssessment[]).map(formatRedListAssessment).join(', ');
+    if (change.column === 'regulatory_statuses' && Array.isArray(value)) return (value as RegulatoryStatus[]).map(formatRegulatoryStatus).join(', ');
+    if (change.column === 'exceptional' && typeof value === 'boolean') return value ? 'Oui' : 'Non';
+    if (change.column === 'candidate_latin_names' && Array.isArray(value)) return value.join(' / ');
+    if (change.column === 'geometry') {
+        const geometry = sanitizeGeometry(value);
+        if (geometry) return `${formatGeometrySummary(geometry)} (${getGeometryVertices(geometry).length} sommets)`;
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const toFieldValue = (field: ObservationDiffField, value: unknown): unknown => {
+    const isEmpty = value === null || value === undefined;
+    if (field === 'count') return isEmpty ? 1 : Number(value);
+    if (field === 'altitude') return isEmpty ? null : Number(value);
+    if (OPTIONAL_NUMBER_FIELDS.has(field)) return isEmpty ? undefined : Number(value);
+    if (OPTIONAL_TEXT_FIELDS.has(field)) return isEmpty ? undefined : value;
+    if (field === 'time' && typeof value === 'string') return value.slice(0, 5);
+    return isEmpty ? '' : value;
+};
+
+/**
+ * Puts back the value a field had before the given revision. The result still
+ * has to be saved, which records the revert as a new revision.
+ */
+export const revertRevisionChange = (observation: Observation, change: RevisionChange): Observation => {
+    const gpsColumn = GPS_COLUMNS[change.column];
+    if (gpsColumn) {
+        const previous = change.oldValue === null || change.oldValue === undefined ? null : Number(change.oldValue);
+        return { ...observation, gps: { ...observation.gps, [gpsColumn.coordinate]: previous } };
+    }
+
+    const field = COLUMN_FIELDS[change.column];
+    if (!field) return observation;
+    return { ...observation, [field]: toFieldValue(field, change.oldValue) };
+};
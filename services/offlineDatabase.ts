@@ -0,0 +1,88 @@
+const OFFLINE_DB_NAME = 'carnet-naturaliste-offline';
+const OFFLINE_DB_VERSION = 1;
+const SCOPED_RECORDS_STORE = 'scoped_records';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction IndexedDB annulée.'));
+    });
+};
+
+export const isOfflineDatabaseAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openOfflineDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) return databasePromise;
+
+    if (!isOfflineDatabaseAvailable()) {
+        return Promise.reject(new Error('IndexedDB indisponible sur ce navigateur.'));
+    }
+
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SCOPED_RECORDS_STORE)) {
+                db.createObjectStore(SCOPED_RECORDS_STORE);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgraded the schema: drop our handle so the next call reopens it.
+            db.onversionchange = () => {
+                db.close();
+                databasePromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            databasePromise = null;
+            reject(request.error);
+        };
+    });
+
+    return databasePromise;
+};
+
+export const readOfflineRecord = async <T,>(key: string): Promise<T | undefined> => {
+    const db = await openOfflineDatabase();
+    const transaction = db.transaction(SCOPED_RECORDS_STORE, 'readonly');
+    const value = await requestToPromise(transaction.objectStore(SCOPED_RECORDS_STORE).get(key));
+    return value as T | undefined;
+};
+
+export const writeOfflineRecord = async (key: string, value: unknown): Promise<void> => {
+    const db = await openOfflineDatabase();
+    const transaction = db.transaction(SCOPED_RECORDS_STORE, 'readwrite');
+    transaction.objectStore(SCOPED_RECORDS_STORE).put(value, key);
+    await transactionDone(transaction);
+};
+
+export const deleteOfflineRecords = async (keys: string[]): Promise<void> => {
+    if (keys.length === 0) return;
+    const db = await openOfflineDatabase();
+    const transaction = db.transaction(SCOPED_RECORDS_STORE, 'readwrite');
+    const store = transaction.objectStore(SCOPED_RECORDS_STORE);
+    for (const key of keys) {
+        store.delete(key);
+    }
+    await transactionDone(transaction);
+};
+
+export const listOfflineRecordKeys = async (prefix: string): Promise<string[]> => {
+    const db = await openOfflineDatabase();
+    const transaction = db.transaction(SCOPED_RECORDS_STORE, 'readonly');
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+    const keys = await requestToPromise(transaction.objectStore(SCOPED_RECORDS_STORE).getAllKeys(range));
+    return keys.map(key => String(key));
+};
@@ -0,0 +1,38 @@
+import L from 'leaflet';
+import { TILE_SOURCES, TileSourceId, buildTileUrl } from '../utils/tileUtils';
+import { isRetinaDisplay, readOfflineTile } from './offlineTileService';
+
+/**
+ * Tile layer serving downloaded tiles from the offline cache and falling back
+ * to the tile server for the others, so downloaded areas work with no signal.
+ */
+class OfflineTileLayer extends L.TileLayer {
+    private readonly sourceId: TileSourceId;
+
+    constructor(sourceId: TileSourceId, options: L.TileLayerOptions) {
+        const source = TILE_SOURCES[sourceId];
+        super(source.url, { attribution: source.attribution, subdomains: source.subdomains, ...options });
+        this.sourceId = sourceId;
+    }
+
+    createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+        const tile = document.createElement('img');
+        tile.alt = '';
+        tile.setAttribute('role', 'presentation');
+        tile.onload = () => {
+            if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src);
+            done(undefined, tile);
+        };
+        tile.onerror = () => done(new Error(`Tuile indisponible (${coords.z}/${coords.x}/${coords.y})`), tile);
+
+        const url = buildTileUrl(TILE_SOURCES[this.sourceId], coords, isRetinaDisplay());
+        void readOfflineTile(url).then(blob => {
+            tile.src = blob ? URL.createObjectURL(blob) : url;
+        });
+        return tile;
+    }
+}
+
+export const createOfflineTileLayer = (sourceId: TileSourceId, options: L.TileLayerOptions = {}): L.TileLayer => {
+    return new OfflineTileLayer(sourceId, options);
+};
@@ -0,0 +1,204 @@
+import {
+    MAX_OFFLINE_TILES,
+    TILE_SOURCES,
+    TileBounds,
+    TileSourceId,
+    buildTileUrl,
+    countAreaTiles,
+    listAreaTiles
+} from '../utils/tileUtils';
+import { readOfflineRecord, writeOfflineRecord } from './offlineDatabase';
+
+// Dedicated Cache Storage bucket, separate from the service worker runtime caches.
+export const OFFLINE_TILE_CACHE = 'offline-map-tiles';
+
+// Areas are device-wide: tiles are public, so they are not scoped to the signed-in user.
+const OFFLINE_AREAS_KEY = 'offline_map_areas';
+
+// Parallel tile requests, low enough not to hammer the tile servers.
+const DOWNLOAD_CONCURRENCY = 4;
+
+export interface OfflineMapArea {
+    id: string;
+    name: string;
+    bounds: TileBounds;
+    minZoom: number;
+    maxZoom: number;
+    sources: TileSourceId[];
+    retina: boolean;
+    tileCount: number;
+    // Tiles actually stored; lower than tileCount when some downloads failed.
+    storedTiles: number;
+    bytes: number;
+    createdAt: string;
+}
+
+export interface OfflineAreaRequest {
+    name: string;
+    bounds: TileBounds;
+    minZoom: number;
+    maxZoom: number;
+    sources: TileSourceId[];
+}
+
+export interface OfflineDownloadProgress {
+    done: number;
+    total: number;
+    failed: number;
+    bytes: number;
+}
+
+export const isOfflineTileCacheAvailable = (): boolean => typeof caches !== 'undefined';
+
+// Same test as Leaflet's Browser.retina, so downloaded URLs match the ones the map asks for.
+export const isRetinaDisplay = (): boolean => typeof window !== 'undefined' && (window.devicePixelRatio || 1) > 1;
+
+const listAreaTileUrls = (area: Pick<OfflineMapArea, 'bounds' | 'minZoom' | 'maxZoom' | 'sources' | 'retina'>): string[] => {
+    const tiles = listAreaTiles(area.bounds, area.minZoom, area.maxZoom);
+    return area.sources.flatMap(sourceId => tiles.map(tile => buildTileUrl(TILE_SOURCES[sourceId], tile, area.retina)));
+};
+
+export const countRequestTiles = (request: Pick<OfflineAreaRequest, 'bounds' | 'minZoom' | 'maxZoom' | 'sources'>): number => {
+    return countAreaTiles(request.bounds, request.minZoom, request.maxZoom) * request.sources.length;
+};
+
+export const listOfflineAreas = async (): Promise<OfflineMapArea[]> => {
+    try {
+        const value = await readOfflineRecord<OfflineMapArea[]>(OFFLINE_AREAS_KEY);
+        return Array.isArray(value) ? value : [];
+    } catch (e) {
+        console.warn('IndexedDB read failed for offline map areas:', e);
+        return [];
+    }
+};
+
+const saveOfflineAreas = (areas: OfflineMapArea[]): Promise<void> => writeOfflineRecord(OFFLINE_AREAS_KEY, areas);
+
+/** Tile from the offline cache, undefined when the area holding it was never downloaded. */
+export const readOfflineTile = async (url: string): Promise<Blob | undefined> => {
+    if (!isOfflineTileCacheAvailable()) return undefined;
+    try {
+        const cache = await caches.open(OFFLINE_TILE_CACHE);
+        const response = await cache.match(url);
+        return response ? await response.blob() : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Downloads every tile of the area into the offline cache and records the area.
+ * Tiles already cached by another area are reused. Failed tiles are counted, not
+ * fatal; aborting through the signal keeps what was stored and records nothing.
+ */
+export const downloadOfflineArea = async (
+    request: OfflineAreaRequest,
+    onProgress?: (progress: OfflineDownloadProgress) => void,
+    signal?: AbortSignal
+): Promise<OfflineMapArea> => {
+    if (!isOfflineTileCacheAvailable()) {
+        throw new Error('Le stockage hors ligne des cartes n\'est pas disponible sur ce navigateur.');
+    }
+    if (request.sources.length === 0) {
+        throw new Error('Choisissez au moins un fond de carte.');
+    }
+    if (request.minZoom > request.maxZoom) {
+        throw new Error('Le zoom minimal doit être inférieur au zoom maximal.');
+    }
+    const tileCount = countRequestTiles(request);
+    if (tileCount > MAX_OFFLINE_TILES) {
+        throw new Error(`Zone trop grande : ${tileCount} tuiles pour ${MAX_OFFLINE_TILES} au maximum. Réduisez la zone ou le zoom maximal.`);
+    }
+
+    // Ask the browser not to evict the tiles under storage pressure; refusal is not fatal.
+    await navigator.storage?.persist?.().catch(() => false);
+
+    const retina = isRetinaDisplay();
+    const urls = listAreaTileUrls({ ...request, retina });
+    const cache = await caches.open(OFFLINE_TILE_CACHE);
+    const progress: OfflineDownloadProgress = { done: 0, total: urls.length, failed: 0, bytes: 0 };
+    let nextIndex = 0;
+
+    const storeTile = async (url: string) => {
+        const cached = await cache.match(url);
+        if (cached) {
+            progress.bytes += (await cached.blob()).size;
+            return;
+        }
+        const response = await fetch(url, { signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.blob();
+        await cache.put(url, new Response(blob, { headers: { 'Content-Type': blob.type || 'image/png' } }));
+        progress.bytes += blob.size;
+    };
+
+    const worker = async () => {
+        while (nextIndex < urls.length) {
+            if (signal?.aborted) return;
+            const url = urls[nextIndex++];
+            try {
+                await storeTile(url);
+            } catch (e) {
+                if (signal?.aborted) return;
+                console.warn(`Offline tile download failed for ${url}:`, e);
+                progress.failed += 1;
+            }
+            progress.done += 1;
+            onProgress?.({ ...progress });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, urls.length) }, worker));
+    if (signal?.aborted) {
+        throw new DOMException('Téléchargement annulé.', 'AbortError');
+    }
+
+    const area: OfflineMapArea = {
+        id: crypto.randomUUID(),
+        name: request.name.trim() || 'Zone sans nom',
+        bounds: request.bounds,
+        minZoom: request.minZoom,
+        maxZoom: request.maxZoom,
+        sources: request.sources,
+        retina,
+        tileCount,
+        storedTiles: progress.done - progress.failed,
+        bytes: progress.bytes,
+        createdAt: new Date().toISOString()
+    };
+    await saveOfflineAreas([area, ...(await listOfflineAreas())]);
+    return area;
+};
+
+/** Forgets the area and drops its tiles, except those another downloaded area still covers. */
+export const deleteOfflineArea = async (id: string): Promise<void> => {
+    const areas = await listOfflineAreas();
+    const area = areas.find(candidate => candidate.id === id);
+    if (!area) return;
+    const remaining = areas.filter(candidate => candidate.id !== id);
+
+    if (isOfflineTileCacheAvailable()) {
+        const keptUrls = new Set(remaining.flatMap(listAreaTileUrls));
+        const cache = await caches.open(OFFLINE_TILE_CACHE);
+        await Promise.all(listAreaTileUrls(area).filter(url => !keptUrls.has(url)).map(url => cache.delete(url)));
+    }
+    await saveOfflineAreas(remaining);
+};
+
+export const clearOfflineAreas = async (): Promise<void> => {
+    if (isOfflineTileCacheAvailable()) {
+        await caches.delete(OFFLINE_TILE_CACHE);
+    }
+    await saveOfflineAreas([]);
+};
+
+/** Storage used by the whole application (data, photos, tiles) and the quota granted to it. */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        return { usage, quota };
+    } catch {
+        return null;
+    }
+};
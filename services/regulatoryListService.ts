@@ -0,0 +1,253 @@
+import { Observation, RegulatoryListType, RegulatoryStatus } from '../types';
+import { parseCsvId, parseDelimitedText } from '../utils/csvUtils';
+import { getRegionForDepartment, resolveRegionName } from '../utils/redListUtils';
+import { getRegulatoryStatusKey } from '../utils/regulatoryStatusUtils';
+import { normalizeSearchText } from '../utils/textUtils';
+import { isOfflineDatabaseAvailable, readOfflineRecord, writeOfflineRecord } from './offlineDatabase';
+
+/**
+ * Offline regulatory lists: protected species, Habitats and Birds directive
+ * annexes, ZNIEFF determinant species. The lists are imported by the user from
+ * the INPN "statuts" export (BDC_STATUTS) or a CSV with the same headers, and
+ * kept in IndexedDB. Observations are tagged with the statuses that apply where
+ * they were made (regional and departmental lists only apply locally).
+ */
+
+export interface RegulatoryListEntry {
+    cdRef?: number;
+    latinName: string;
+    status: RegulatoryStatus;
+    // Set for regional and departmental lists only.
+    region?: string;
+    department?: string;
+}
+
+export interface RegulatoryListMeta {
+    fileName: string;
+    importedAt: string;
+    entryCount: number;
+    taxonCount: number;
+}
+
+export interface RegulatoryListIndex {
+    byCdRef: Map<number, RegulatoryListEntry[]>;
+    byLatinName: Map<string, RegulatoryListEntry[]>;
+    entryCount: number;
+}
+
+const REGULATORY_ENTRIES_KEY = 'regulatory_lists:entries';
+const REGULATORY_META_KEY = 'regulatory_lists:meta';
+
+// CD_TYPE_STATUT of the INPN statuses kept; the red lists come from the taxon providers.
+const STATUS_TYPES: Record<string, RegulatoryListType> = {
+    PN: RegulatoryListType.PROTECTION,
+    PR: RegulatoryListType.PROTECTION,
+    PD: RegulatoryListType.PROTECTION,
+    POM: RegulatoryListType.PROTECTION,
+    DH: RegulatoryListType.HABITATS_DIRECTIVE,
+    DO: RegulatoryListType.BIRDS_DIRECTIVE,
+    ZDET: RegulatoryListType.ZNIEFF
+};
+
+const DEFAULT_LIST_NAMES: Record<RegulatoryListType, string> = {
+    [RegulatoryListType.PROTECTION]: 'Protection',
+    [RegulatoryListType.HABITATS_DIRECTIVE]: 'Directive Habitats',
+    [RegulatoryListType.BIRDS_DIRECTIVE]: 'Directive Oiseaux',
+    [RegulatoryListType.ZNIEFF]: 'Déterminante ZNIEFF'
+};
+
+let indexPromise: Promise<RegulatoryListIndex> | null = null;
+
+// "FR-21" → "21"; region codes such as "FR-BFC" are not departments.
+const parseDepartmentCode = (isoCode: string): string | undefined => {
+    const match = isoCode.trim().toUpperCase().match(/^FR-(\d{2,3}|2A|2B)$/);
+    return match?.[1];
+};
+
+// NIVEAU_ADMIN of lists in force throughout France (directives and conventions included).
+const NATIONAL_LEVELS = new Set(['etat', 'pays', 'national', 'europe', 'union europeenne', 'monde']);
+
+/**
+ * Where a list applies. Returns null for a list whose level or territory
+ * cannot be placed, as it would otherwise tag observations everywhere.
+ */
+const resolveTerritory = (
+    level: string,
+    territory: string,
+    isoCode: string
+): Pick<RegulatoryListEntry, 'region' | 'department'> | null => {
+    const normalizedLevel = normalizeSearchText(level);
+    if (NATIONAL_LEVELS.has(normalizedLevel)) return {};
+    if (normalizedLevel === 'departement') {
+        const department = parseDepartmentCode(isoCode);
+        return department ? { department } : null;
+    }
+    const region = resolveRegionName(territory);
+    if (normalizedLevel === 'region' || normalizedLevel === 'ancienne region') {
+        return region ? { region } : null;
+    }
+    if (level) return null;
+    // No level column: a territory named after a région is regional, one named after France national.
+    if (region) return { region };
+    return !territory || normalizeSearchText(territory).startsWith('france') ? {} : null;
+};
+
+/**
+ * Parses an INPN statuses export (tab, semicolon or comma separated).
+ * CD_TYPE_STATUT and CD_REF or LB_NOM are required; LB_TYPE_STATUT,
+ * LABEL_STATUT, CODE_STATUT, LB_ADM_TR, NIVEAU_ADMIN and CD_ISO3166_2 are
+ * used when present. Statuses other than protection, directives and ZNIEFF
+ * are ignored.
+ */
+export const parseRegulatoryListText = (text: string): RegulatoryListEntry[] => {
+    const [headerCells, ...rows] = parseDelimitedText(text);
+    if (!headerCells) return [];
+
+    const headers = headerCells.map(header => header.toUpperCase());
+    const column = (name: string) => headers.indexOf(name);
+    const typeIndex = column('CD_TYPE_STATUT');
+    const cdRefIndex = column('CD_REF');
+    const latinIndex = column('LB_NOM');
+    if (typeIndex < 0 || (cdRefIndex < 0 && latinIndex < 0)) {
+        throw new Error('Fichier de statuts invalide : colonnes CD_TYPE_STATUT et CD_REF ou LB_NOM attendues.');
+    }
+    const cell = (cells: string[], name: string): string => {
+        const index = column(name);
+        return index >= 0 ? (cells[index] ?? '') : '';
+    };
+
+    const entries: RegulatoryListEntry[] = [];
+    for (const cells of rows) {
+        const type = STATUS_TYPES[(cells[typeIndex] ?? '').toUpperCase()];
+        const cdRef = cdRefIndex >= 0 ? parseCsvId(cells[cdRefIndex]) : undefined;
+        const latinName = latinIndex >= 0 ? (cells[latinIndex] ?? '') : '';
+        if (!type || (!cdRef && !latinName)) continue;
+
+        const territory = cell(cells, 'LB_ADM_TR');
+        const place = resolveTerritory(cell(cells, 'NIVEAU_ADMIN'), territory, cell(cells, 'CD_ISO3166_2'));
+        if (!place) continue;
+
+        entries.push({
+            ...(cdRef ? { cdRef } : {}),
+            latinName,
+            status: {
+                type,
+                list: cell(cells, 'LB_TYPE_STATUT') || DEFAULT_LIST_NAMES[type],
+                label: cell(cells, 'LABEL_STATUT'),
+                ...(cell(cells, 'CODE_STATUT') ? { code: cell(cells, 'CODE_STATUT') } : {}),
+                territory: territory || 'France'
+            },
+            ...place
+        });
+    }
+    return entries;
+};
+
+const addToIndex = <K,>(map: Map<K, RegulatoryListEntry[]>, key: K, entry: RegulatoryListEntry) => {
+    const entries = map.get(key);
+    if (entries) entries.push(entry);
+    else map.set(key, [entry]);
+};
+
+export const buildRegulatoryListIndex = (entries: RegulatoryListEntry[]): RegulatoryListIndex => {
+    const byCdRef = new Map<number, RegulatoryListEntry[]>();
+    const byLatinName = new Map<string, RegulatoryListEntry[]>();
+    for (const entry of entries) {
+        if (entry.cdRef) addToIndex(byCdRef, entry.cdRef, entry);
+        if (entry.latinName) addToIndex(byLatinName, normalizeSearchText(entry.latinName), entry);
+    }
+    return { byCdRef, byLatinName, entryCount: entries.length };
+};
+
+const appliesAt = (entry: RegulatoryListEntry, department: string): boolean => {
+    if (entry.department) return entry.department === department.trim().toUpperCase().padStart(2, '0');
+    if (entry.region) return entry.region === getRegionForDepartment(department);
+    return true;
+};
+
+/**
+ * Statuses of an observation: by TAXREF cdRef when known, by latin name
+ * otherwise, restricted to the lists in force in its department.
+ */
+export const findRegulatoryStatuses = (
+    index: RegulatoryListIndex,
+    obs: Pick<Observation, 'cdRef' | 'latinName' | 'department'>
+): RegulatoryStatus[] => {
+    const byRef = obs.cdRef ? index.byCdRef.get(obs.cdRef) : undefined;
+    const candidates = byRef ?? index.byLatinName.get(normalizeSearchText(obs.latinName ?? '')) ?? [];
+    const statuses = new Map<string, RegulatoryStatus>();
+    candidates
+        .filter(entry => appliesAt(entry, obs.department ?? ''))
+        .forEach(entry => statuses.set(getRegulatoryStatusKey(entry.status), entry.status));
+    return Array.from(statuses.values());
+};
+
+/** Imported lists, loaded once; empty when nothing was imported or IndexedDB is unavailable. */
+export const loadRegulatoryListIndex = (): Promise<RegulatoryListIndex> => {
+    if (!indexPromise) {
+        indexPromise = (async () => {
+            if (!isOfflineDatabaseAvailable()) return buildRegulatoryListIndex([]);
+            try {
+                return buildRegulatoryListIndex((await readOfflineRecord<RegulatoryListEntry[]>(REGULATORY_ENTRIES_KEY)) ?? []);
+            } catch (error) {
+                console.error('Error loading regulatory lists:', error);
+                return buildRegulatoryListIndex([]);
+            }
+        })();
+    }
+    return indexPromise;
+};
+
+export const getRegulatoryListMeta = async (): Promise<RegulatoryListMeta | null> => {
+    if (!isOfflineDatabaseAvailable()) return null;
+    try {
+        return (await readOfflineRecord<RegulatoryListMeta>(REGULATORY_META_KEY)) ?? null;
+    } catch (error) {
+        console.error('Error loading regulatory lists metadata:', error);
+        return null;
+    }
+};
+
+export const importRegulatoryListFile = async (file: File): Promise<RegulatoryListMeta> => {
+    const entries = parseRegulatoryListText(await file.text());
+    if (entries.length === 0) {
+        throw new Error('Aucun statut de protection, de directive ou ZNIEFF trouvé dans ce fichier.');
+    }
+
+    const meta: RegulatoryListMeta = {
+        fileName: file.name,
+        importedAt: new Date().toISOString(),
+        entryCount: entries.length,
+        taxonCount: new Set(entries.map(entry => entry.cdRef ?? normalizeSearchText(entry.latinName))).size
+    };
+    await writeOfflineRecord(REGULATORY_ENTRIES_KEY, entries);
+    await writeOfflineRecord(REGULATORY_META_KEY, meta);
+    indexPromise = Promise.resolve(buildRegulatoryListIndex(entries));
+    return meta;
+};
+
+/**
+ * Statuses of an observation from the imported lists, or null when no list
+ * was imported (the statuses already recorded are then kept).
+ */
+export const resolveRegulatoryStatuses = async (
+    obs: Pick<Observation, 'cdRef' | 'latinName' | 'department'>
+): Promise<RegulatoryStatus[] | null> => {
+    const index = await loadRegulatoryListIndex();
+    return index.entryCount === 0 ? null : findRegulatoryStatuses(index, obs);
+};
+
+/** Observations whose statuses change with the imported lists, already re-tagged. */
+export const retagObservations = async (observations: Observation[]): Promise<Observation[]> => {
+    const index = await loadRegulatoryListIndex();
+    if (index.entryCount === 0) return [];
+    return observations
+        .map((obs): Observation | null => {
+            const statuses = findRegulatoryStatuses(index, obs);
+            const regulatoryStatuses = statuses.length ? statuses : undefined;
+            return JSON.stringify(regulatoryStatuses ?? []) === JSON.stringify(obs.regulatoryStatuses ?? [])
+                ? null
+                : { ...obs, regulatoryStatuses };
+        })
+        .filter((obs): obs is Observation => obs !== null);
+};
@@ -0,0 +1,97 @@
+import { Observation, Status } from '../types';
+import { selectRedListsForDepartment } from '../utils/redListUtils';
+import { normalizeSearchText } from '../utils/textUtils';
+import { resolveRegulatoryStatuses } from './regulatoryListService';
+import { SpeciesInfo, fetchSpeciesInfo } from './speciesService';
+import { resolveTaxonReference } from './taxrefService';
+
+/**
+ * Bulk re-identification: moves a set of observations to another species after
+ * a taxonomic split or a systematic misidentification, and refreshes what
+ * follows from the species (group, statuses, image, taxon references).
+ */
+
+export interface ReidentificationCriteria {
+    // Current latin or French name; blank matches every species.
+    name: string;
+    startDate: string;
+    endDate: string;
+    // Restricts the selection to these observations (rows selected in the list).
+    ids?: string[];
+}
+
+export interface ReidentificationTarget {
+    speciesName: string;
+    latinName: string;
+}
+
+export interface ReidentificationChange {
+    before: Observation;
+    after: Observation;
+}
+
+export interface ReidentificationPreview {
+    speciesInfo: SpeciesInfo | null;
+    changes: ReidentificationChange[];
+}
+
+export const selectObservationsForReidentification = (
+    observations: Observation[],
+    criteria: ReidentificationCriteria
+): Observation[] => {
+    const name = normalizeSearchText(criteria.name);
+    const ids = criteria.ids ? new Set(criteria.ids) : null;
+    return observations.filter(obs => {
+        if (ids && !ids.has(obs.id)) return false;
+        if (name && normalizeSearchText(obs.latinName || '') !== name && normalizeSearchText(obs.speciesName) !== name) return false;
+        if (criteria.startDate && obs.date < criteria.startDate) return false;
+        if (criteria.endDate && obs.date > criteria.endDate) return false;
+        return true;
+    });
+};
+
+/**
+ * New version of an observation for the target species. Everything derived
+ * from the former species is reset: references and regulatory statuses are
+ * resolved again by `previewReidentification`, the status falls back to NE
+ * when no red list evaluates the new species. Photos and counts are kept.
+ */
+export const reidentifyObservation = (
+    obs: Observation,
+    target: ReidentificationTarget,
+    speciesInfo: SpeciesInfo | null
+): Observation => {
+    const redLists = selectRedListsForDepartment(speciesInfo?.redLists ?? [], obs.department);
+    return {
+        ...obs,
+        speciesName: target.speciesName.trim(),
+        latinName: target.latinName.trim() || speciesInfo?.latinName || '',
+        taxonomicGroup: speciesInfo?.taxonomicGroup ?? obs.taxonomicGroup,
+        status: speciesInfo?.redListStatus ?? Status.NE,
+        wikipediaImage: speciesInfo?.imageUrl || undefined,
+        redLists: redLists.length ? redLists : undefined,
+        cdNom: undefined,
+        cdRef: undefined,
+        gbifTaxonId: undefined,
+        inatTaxonId: undefined,
+        regulatoryStatuses: undefined
+    };
+};
+
+/** Looks the target species up once and builds the change of every observation, not saved yet. */
+export const previewReidentification = async (
+    observations: Observation[],
+    target: ReidentificationTarget
+): Promise<ReidentificationPreview> => {
+    const speciesInfo = await fetchSpeciesInfo(target.latinName.trim() || target.speciesName.trim());
+    const changes: ReidentificationChange[] = [];
+    for (const before of observations) {
+        const after = reidentifyObservation(before, target, speciesInfo);
+        const reference = await resolveTaxonReference(after);
+        if (reference) Object.assign(after, reference);
+        const regulatoryStatuses = await resolveRegulatoryStatuses(after);
+        if (regulatoryStatuses?.length) after.regulatoryStatuses = regulatoryStatuses;
+        changes.push({ before, after });
+    }
+    return { speciesInfo, changes };
+};
@@ -0,0 +1,340 @@
+import { supabase } from '../supabaseClient';
+import { Observation, Protocol, SamplingSession } from '../types';
+import { dateToIsoLocal, isoToFrDisplay } from '../utils/dateUtils';
+import { readOfflineRecord, writeOfflineRecord } from './offlineDatabase';
+import { ensureStorageNamespace } from './storageNamespace';
+
+const SESSION_CACHE_KEY_PREFIX = 'local_sessions_cache';
+const SESSION_QUEUE_KEY_PREFIX = 'session_sync_queue';
+
+type SessionQueueAction = 'UPSERT' | 'DELETE';
+
+// Sessions always get a client-side UUID, so queued actions never need id remapping.
+interface SessionQueueItem {
+    id: string;
+    action: SessionQueueAction;
+    payload: SamplingSession | { id: string };
+    timestamp: number;
+}
+
+export interface SessionSyncResult {
+    processed: number;
+    failed: number;
+    failureReasons: string[];
+}
+
+let sessionWriteChain: Promise<void> = Promise.resolve();
+
+const withSessionWriteLock = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = sessionWriteChain.then(task, task);
+    sessionWriteChain = run.then(() => undefined, () => undefined);
+    return run;
+};
+
+const getSessionCacheKey = (userId: string): string => `${SESSION_CACHE_KEY_PREFIX}:${userId}`;
+const getSessionQueueKey = (userId: string): string => `${SESSION_QUEUE_KEY_PREFIX}:${userId}`;
+
+export const getSessionScopedKeys = (userId: string): string[] => [getSessionCacheKey(userId), getSessionQueueKey(userId)];
+
+const mapToSession = (row: any): SamplingSession => ({
+    id: row.id,
+    name: row.name ?? '',
+    date: row.date,
+    startTime: row.start_time ? String(row.start_time).slice(0, 5) : '',
+    endTime: row.end_time ? String(row.end_time).slice(0, 5) : '',
+    observers: Array.isArray(row.observers) ? row.observers : [],
+    weather: row.weather ?? '',
+    protocol: row.protocol ?? Protocol.OPPORTUNIST,
+    location: row.location ?? '',
+    municipality: row.municipality ?? '',
+    department: row.department ?? '',
+    country: row.country ?? '',
+    gps: { lat: row.gps_lat ?? null, lon: row.gps_lon ?? null },
+    route: Array.isArray(row.route) ? row.route : [],
+    comment: row.comment ?? '',
+    stoc: row.stoc ?? undefined,
+    completeList: row.complete_list ?? undefined,
+    updatedAt: row.updated_at ?? undefined
+});
+
+const mapToSessionRow = (session: SamplingSession, userId: string): Record<string, any> => ({
+    id: session.id,
+    user_id: userId,
+    name: session.name,
+    date: session.date,
+    start_time: session.startTime || null,
+    end_time: session.endTime || null,
+    observers: session.observers,
+    weather: session.weather,
+    protocol: session.protocol,
+    location: session.location,
+    municipality: session.municipality,
+    department: session.department,
+    country: session.country,
+    gps_lat: session.gps.lat,
+    gps_lon: session.gps.lon,
+    route: session.route.length > 0 ? session.route : null,
+    comment: session.comment,
+    // Only STOC sessions and EPOC checklists need the phase 11 and 12 columns.
+    ...(session.stoc ? { stoc: session.stoc } : {}),
+    ...(session.completeList !== undefined ? { complete_list: session.completeList } : {})
+});
+
+const readScopedArray = async <T,>(key: string): Promise<T[]> => {
+    try {
+        const value = await readOfflineRecord<T[]>(key);
+        return Array.isArray(value) ? value : [];
+    } catch (e) {
+        console.warn(`IndexedDB read failed for ${key}:`, e);
+        return [];
+    }
+};
+
+const writeScopedArray = async (key: string, value: unknown[]): Promise<void> => {
+    try {
+        await writeOfflineRecord(key, value);
+    } catch (e) {
+        console.warn(`IndexedDB write failed for ${key}:`, e);
+        window.dispatchEvent(new CustomEvent('storage-quota-exceeded'));
+    }
+};
+
+const sortSessions = (sessions: SamplingSession[]): SamplingSession[] => {
+    return [...sessions].sort((a, b) => (
+        b.date.localeCompare(a.date) || b.startTime.localeCompare(a.startTime)
+    ));
+};
+
+const getSessionCache = (userId: string) => readScopedArray<SamplingSession>(getSessionCacheKey(userId));
+const getSessionQueue = (userId: string) => readScopedArray<SessionQueueItem>(getSessionQueueKey(userId));
+
+const upsertSessionInCache = (userId: string, session: SamplingSession): Promise<void> => withSessionWriteLock(async () => {
+    const cache = await getSessionCache(userId);
+    await writeScopedArray(getSessionCacheKey(userId), sortSessions([session, ...cache.filter(cached => cached.id !== session.id)]));
+});
+
+const removeSessionFromCache = (userId: string, id: string): Promise<void> => withSessionWriteLock(async () => {
+    const cache = await getSessionCache(userId);
+    await writeScopedArray(getSessionCacheKey(userId), cache.filter(cached => cached.id !== id));
+});
+
+const queueSessionAction = (userId: string, action: SessionQueueAction, payload: SessionQueueItem['payload']): Promise<void> => withSessionWriteLock(async () => {
+    const queue = await getSessionQueue(userId);
+    queue.push({ id: crypto.randomUUID(), action, payload, timestamp: Date.now() });
+    await writeScopedArray(getSessionQueueKey(userId), queue);
+});
+
+// A direct write supersedes whatever was queued for the same session.
+const dropQueuedSessionActions = (userId: string, sessionId: string): Promise<void> => withSessionWriteLock(async () => {
+    const queue = await getSessionQueue(userId);
+    const remaining = queue.filter(item => item.payload.id !== sessionId);
+    if (remaining.length !== queue.length) {
+        await writeScopedArray(getSessionQueueKey(userId), remaining);
+    }
+});
+
+// Every UPSERT carries the whole session, so the last action per session is the only one that matters.
+const reduceSessionQueue = (queue: SessionQueueItem[]): SessionQueueItem[] => {
+    const latest = new Map<string, SessionQueueItem>();
+    for (const item of queue) {
+        latest.set(item.payload.id, item);
+    }
+    return Array.from(latest.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const createEmptySession = (now: Date = new Date()): SamplingSession => ({
+    id: crypto.randomUUID(),
+    name: '',
+    date: dateToIsoLocal(now),
+    startTime: now.toTimeString().substring(0, 5),
+    endTime: '',
+    observers: [],
+    weather: '',
+    protocol: Protocol.OPPORTUNIST,
+    location: '',
+    municipality: '',
+    department: '',
+    country: 'France',
+    gps: { lat: null, lon: null },
+    route: [],
+    comment: ''
+});
+
+export const isSessionRunning = (session: SamplingSession): boolean => !session.endTime;
+
+export const formatSessionLabel = (session: SamplingSession): string => {
+    const date = isoToFrDisplay(session.date, { year: 'numeric', month: '2-digit', day: '2-digit' });
+    const place = session.location || session.municipality;
+    return [session.name || 'Sortie', date, session.startTime, place].filter(Boolean).join(' · ');
+};
+
+/**
+ * Fields an observation shares with its session ("continuer la sortie"). The
+ * session point wins over the route; without a point, the last route position is used.
+ */
+export const buildSessionObservationDefaults = (session: SamplingSession): Pick<Observation, 'sessionId' | 'date' | 'protocol' | 'location' | 'municipality' | 'department' | 'country' | 'gps'> => {
+    const lastRoutePoint = session.route[session.route.length - 1];
+    const gps = session.gps.lat !== null && session.gps.lon !== null
+        ? { ...session.gps }
+        : lastRoutePoint
+            ? { lat: lastRoutePoint.lat, lon: lastRoutePoint.lon }
+            : { lat: null, lon: null };
+
+    return {
+        sessionId: session.id,
+        date: session.date,
+        protocol: session.protocol,
+        location: session.location,
+        municipality: session.municipality,
+        department: session.department,
+        country: session.country,
+        gps
+    };
+};
+
+/**
+ * Sessions newest first. Online, the server list replaces the cache except for
+ * sessions with queued offline changes, which keep their local version.
+ */
+export const getSessions = async (): Promise<SamplingSession[]> => {
+    const userId = ensureStorageNamespace();
+    const cached = await getSessionCache(userId);
+    if (!navigator.onLine) return sortSessions(cached);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return sortSessions(cached);
+
+    const { data, error } = await supabase
+        .from('sampling_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('date', { ascending: false });
+
+    if (error) {
+        console.warn('Loading sessions failed, using the local cache:', error);
+        return sortSessions(cached);
+    }
+
+    const queue = await getSessionQueue(userId);
+    const pendingIds = new Set(queue.map(item => item.payload.id));
+    const sessions = sortSessions([
+        ...cached.filter(session => pendingIds.has(session.id)),
+        ...(data || []).map(mapToSession).filter(session => !pendingIds.has(session.id))
+    ]);
+    await withSessionWriteLock(() => writeScopedArray(getSessionCacheKey(userId), sessions));
+    return sessions;
+};
+
+export const saveSession = async (session: SamplingSession): Promise<SamplingSession> => {
+    const userId = ensureStorageNamespace();
+
+    if (!navigator.onLine) {
+        await queueSessionAction(userId, 'UPSERT', session);
+        await upsertSessionInCache(userId, session);
+        return session;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+        .from('sampling_sessions')
+        .upsert(mapToSessionRow(session, user.id), { onConflict: 'id' })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error saving session:', error);
+        throw new Error(error.message);
+    }
+
+    const saved = mapToSession(data);
+    await dropQueuedSessionActions(userId, saved.id);
+    await upsertSessionInCache(userId, saved);
+    return saved;
+};
+
+/** Observations of a deleted session are kept; the database detaches them (`on delete set null`). */
+export const deleteSession = async (id: string): Promise<void> => {
+    const userId = ensureStorageNamespace();
+
+    if (!navigator.onLine) {
+        await queueSessionAction(userId, 'DELETE', { id });
+        await removeSessionFromCache(userId, id);
+        return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+        .from('sampling_sessions')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+    if (error) {
+        console.error('Error deleting session:', error);
+        throw new Error(error.message);
+    }
+
+    await dropQueuedSessionActions(userId, id);
+    await removeSessionFromCache(userId, id);
+};
+
+/**
+ * Replays sessions created, edited or deleted offline. Runs before the
+ * observation queue, whose rows may reference these sessions.
+ */
+export const processSessionQueue = async (): Promise<SessionSyncResult> => {
+    const userId = ensureStorageNamespace();
+    const queue = await getSessionQueue(userId);
+    if (queue.length === 0 || !navigator.onLine) {
+        return { processed: 0, failed: 0, failureReasons: [] };
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { processed: queue.length, failed: queue.length, failureReasons: ['User not authenticated'] };
+    }
+
+    const reducedQueue = reduceSessionQueue(queue);
+    const failedItems: SessionQueueItem[] = [];
+    const failureReasons = new Map<string, number>();
+
+    for (const item of reducedQueue) {
+        try {
+            const { error } = item.action === 'UPSERT'
+                ? await supabase
+                    .from('sampling_sessions')
+                    .upsert(mapToSessionRow(item.payload as SamplingSession, user.id), { onConflict: 'id' })
+                : await supabase
+                    .from('sampling_sessions')
+                    .delete()
+                    .eq('id', item.payload.id)
+                    .eq('user_id', user.id);
+            if (error) throw new Error(error.message);
+        } catch (error) {
+            console.error('Error processing session queue item:', error);
+            failedItems.push(item);
+            const reason = error instanceof Error ? error.message : String(error);
+            failureReasons.set(reason, (failureReasons.get(reason) || 0) + 1);
+        }
+    }
+
+    // Keep actions queued while this sync was running (they were not part of the snapshot).
+    const snapshotIds = new Set(queue.map(item => item.id));
+    await withSessionWriteLock(async () => {
+        const latestQueue = await getSessionQueue(userId);
+        await writeScopedArray(getSessionQueueKey(userId), [
+            ...failedItems,
+            ...latestQueue.filter(item => !snapshotIds.has(item.id))
+        ]);
+    });
+
+    return {
+        processed: reducedQueue.length,
+        failed: failedItems.length,
+        failureReasons: Array.from(failureReasons.entries()).map(([reason, count]) => `${count}x ${reason}`)
+    };
+};
@@ -0,0 +1,187 @@
+import { Age, Comportement, Observation, SamplingSession, Sexe, ValidationStatus } from '../types';
+import { isUuid } from '../utils/uuidUtils';
+import { getValidationStatus } from '../utils/validationUtils';
+import { parseAtlasCode } from '../utils/atlasCodeUtils';
+import { toWkt } from '../utils/geometryUtils';
+
+/**
+ * Export to the SINP "Occurrences de taxons" standard (v2). Coded columns use the
+ * SINP nomenclatures (STATUT_OBS, OBJ_DENBR, TYP_DENBR, STATUT_BIO,
+ * OCC_COMPORTEMENT, SEXE, STADE_VIE, ETA_BIO, NAT_OBJ_GEO).
+ */
+
+export const SINP_COLUMNS = [
+    'idSINPOccTax', 'statutObservation', 'nomCite', 'cdNom', 'cdRef',
+    'dateDebut', 'dateFin', 'heureDebut', 'heureFin',
+    'denombrementMin', 'denombrementMax', 'objetDenombrement', 'typeDenombrement',
+    'occStatutBiologique', 'occComportement', 'occSexe', 'occStadeDeVie', 'occEtatBiologique',
+    'geometrie', 'natureObjetGeo', 'precisionGeometrie', 'nomCommune', 'codeDepartement',
+    'altitudeMin', 'altitudeMax', 'identiteObservateur', 'commentaire'
+] as const;
+
+export type SinpColumn = typeof SINP_COLUMNS[number];
+export type SinpOccurrence = Record<SinpColumn, string | number>;
+
+export interface SinpRowIssue {
+    rowNumber: number;
+    observationId: string;
+    speciesName: string;
+    missing: string[];
+}
+
+// An observation left out of the occurrences file, with the reason.
+export interface SinpExcludedObservation {
+    observationId: string;
+    speciesName: string;
+    reason: string;
+}
+
+export interface SinpValidationReport {
+    totalRows: number;
+    validRows: number;
+    issues: SinpRowIssue[];
+    excluded: SinpExcludedObservation[];
+}
+
+export interface SinpExportContext {
+    sessions?: SamplingSession[];
+    // Used when the observation is not attached to a session with observers.
+    observer?: string;
+}
+
+const SEXE_CODES: Record<Sexe, string> = {
+    [Sexe.UNKNOWN]: '6', // Non renseigné
+    [Sexe.MALE]: '3',
+    [Sexe.FEMALE]: '2'
+};
+
+const STADE_VIE_CODES: Record<Age, string> = {
+    [Age.UNKNOWN]: '0', // Inconnu
+    [Age.CHICK_NON_FLYING]: '3', // Juvénile
+    [Age.CHICK_FLYING]: '3',
+    [Age.FIRST_YEAR]: '3',
+    [Age.IMMATURE]: '4',
+    [Age.SECOND_YEAR]: '4',
+    [Age.THIRD_YEAR]: '4',
+    [Age.FOURTH_YEAR]: '4',
+    [Age.FIFTH_YEAR]: '4',
+    [Age.ADULT]: '2'
+};
+
+const COMPORTEMENT_CODES: Record<Comportement, string> = {
+    [Comportement.UNKNOWN]: '1', // Non renseigné
+    [Comportement.ACTIVE_MIGRATION]: '7',
+    [Comportement.HUNTING]: '5',
+    [Comportement.ROOST]: '13', // Dortoir
+    [Comportement.IN_TRANSIT]: '8' // Passage en vol
+};
+
+// Atlas codes 1 to 19 are breeding evidence (possible, probable, certain).
+const toStatutBiologique = (atlasCode: string): string => {
+    if (!atlasCode.trim()) return '1'; // Non renseigné
+    return parseAtlasCode(atlasCode) ? '3' : '2'; // Reproduction, sinon non déterminé
+};
+
+const toSexeCode = (obs: Observation): string => {
+    const males = obs.maleCount ?? 0;
+    const females = obs.femaleCount ?? 0;
+    if (males > 0 && females > 0) return '5'; // Mixte
+    if (males > 0 && males === obs.count) return SEXE_CODES[Sexe.MALE];
+    if (females > 0 && females === obs.count) return SEXE_CODES[Sexe.FEMALE];
+    return SEXE_CODES[obs.sexe] ?? SEXE_CODES[Sexe.UNKNOWN];
+};
+
+const toObserver = (obs: Observation, sessionsById: Map<string, SamplingSession>, fallback: string): string => {
+    const session = obs.sessionId ? sessionsById.get(obs.sessionId) : undefined;
+    return session && session.observers.length > 0 ? session.observers.join(', ') : fallback;
+};
+
+const toOccurrence = (obs: Observation, observer: string): SinpOccurrence => {
+    const geometrie = toWkt(obs);
+    return {
+        idSINPOccTax: isUuid(obs.id) ? obs.id : '',
+        statutObservation: 'Pr',
+        nomCite: obs.speciesName || obs.latinName,
+        cdNom: obs.cdNom ?? '',
+        cdRef: obs.cdRef ?? '',
+        dateDebut: obs.date,
+        dateFin: obs.date,
+        heureDebut: obs.time,
+        heureFin: obs.time,
+        denombrementMin: obs.count,
+        denombrementMax: obs.count,
+        objetDenombrement: 'IND',
+        typeDenombrement: 'Co',
+        occStatutBiologique: toStatutBiologique(obs.atlasCode),
+        occComportement: COMPORTEMENT_CODES[obs.comportement] ?? COMPORTEMENT_CODES[Comportement.UNKNOWN],
+        occSexe: toSexeCode(obs),
+        occStadeDeVie: STADE_VIE_CODES[obs.age] ?? STADE_VIE_CODES[Age.UNKNOWN],
+        occEtatBiologique: '2', // Observé vivant
+        geometrie,
+        natureObjetGeo: geometrie ? 'St' : '',
+        // Metres, whole number as the standard expects.
+        precisionGeometrie: obs.gpsAccuracy ? Math.ceil(obs.gpsAccuracy) : '',
+        nomCommune: obs.municipality,
+        codeDepartement: obs.department,
+        altitudeMin: obs.altitude ?? '',
+        altitudeMax: obs.altitude ?? '',
+        identiteObservateur: observer,
+        commentaire: obs.comment
+    };
+};
+
+const findMissingMandatoryFields = (row: SinpOccurrence): string[] => {
+    const missing: string[] = [];
+    if (!row.idSINPOccTax) missing.push('idSINPOccTax (observation non synchronisée)');
+    if (!row.nomCite) missing.push('nomCite');
+    if (!row.cdNom) missing.push('cdNom');
+    if (!row.dateDebut) missing.push('dateDebut / dateFin');
+    if (!row.geometrie && !row.nomCommune && !row.codeDepartement) missing.push('géoréférencement (point, commune ou département)');
+    if (!row.identiteObservateur) missing.push('identiteObservateur');
+    return missing;
+};
+
+// Observations invalidated by a reviewer are never sent to the SINP; the report lists them.
+export const buildSinpOccurrences = (
+    selected: Observation[],
+    context: SinpExportContext = {}
+): { rows: SinpOccurrence[]; report: SinpValidationReport } => {
+    const isRejected = (obs: Observation) => getValidationStatus(obs) === ValidationStatus.REJECTED;
+    const observations = selected.filter(obs => !isRejected(obs));
+    const excluded = selected.filter(isRejected).map(obs => ({
+        observationId: obs.id,
+        speciesName: obs.speciesName || obs.latinName,
+        reason: 'exclue : donnée invalidée'
+    }));
+    const sessionsById = new Map((context.sessions ?? []).map(session => [session.id, session]));
+    const rows = observations.map(obs => toOccurrence(obs, toObserver(obs, sessionsById, context.observer ?? '')));
+
+    const issues = rows.flatMap((row, index) => {
+        const missing = findMissingMandatoryFields(row);
+        if (missing.length === 0) return [];
+        return [{ rowNumber: index + 1, observationId: observations[index].id, speciesName: String(row.nomCite), missing }];
+    });
+
+    return {
+        rows,
+        report: { totalRows: rows.length, validRows: rows.length - issues.length, issues, excluded }
+    };
+};
+
+const esc = (v: unknown) => `"${String(v ?? '').replace(/"/g, '""')}"`;
+
+export const buildSinpCsv = (rows: SinpOccurrence[]): string => {
+    return [
+        SINP_COLUMNS.map(esc).join(';'),
+        ...rows.map(row => SINP_COLUMNS.map(column => esc(row[column])).join(';'))
+    ].join('\r\n');
+};
+
+// Excluded observations have no line in the occurrences file, hence an empty "Ligne".
+export const buildSinpReportCsv = (report: SinpValidationReport): string => {
+    return [
+        ['Ligne', 'ID observation', 'Espèce', 'Champs obligatoires manquants ou exclusion'].map(esc).join(';'),
+        ...report.issues.map(issue => [issue.rowNumber, issue.observationId, issue.speciesName, issue.missing.join(', ')].map(esc).join(';')),
+        ...report.excluded.map(entry => ['', entry.observationId, entry.speciesName, entry.reason].map(esc).join(';'))
+    ].join('\r\n');
+};
@@ -1,4 +1,20 @@
-import { Status, TaxonomicGroup } from '../types';
+import { IdentificationRank, RedListAssessment, RedListScale, Status, TaxonomicGroup } from '../types';
+import { parseIdentification } from '../utils/identificationUtils';
+import { gbifTaxonProvider } from './gbifTaxonProvider';
+import { inatTaxonProvider, mapINatIconicToTaxonomicGroup } from './inatTaxonProvider';
+import { notebookTaxonProvider, taxrefTaxonProvider } from './localTaxonProviders';
+import {
+    SpeciesSuggestion,
+    TaxonProvider,
+    TaxonReferenceQuery,
+    callTaxonProvider,
+    firstTaxonProviderResult,
+    getTaxonProviders,
+    registerTaxonProvider
+} from './taxonProvider';
+
+export type { SpeciesSuggestion } from './taxonProvider';
+export { mapINatIconicToTaxonomicGroup } from './inatTaxonProvider';
 
 export interface SpeciesInfo {
     description: string;
@@ -8,587 +24,190 @@ export interface SpeciesInfo {
     taxonomicGroup?: TaxonomicGroup;
     redListStatus?: Status;
     redListSource?: 'france' | 'global';
+    // Every scale found, regional lists of all régions included: see selectRedListsForDepartment.
+    redLists: RedListAssessment[];
     matchedBy: 'latin' | 'common';
     confidence: 'high' | 'medium' | 'low';
 }
 
-export interface SpeciesSuggestion {
-    displayName: string;
-    latinName: string;
-    commonName?: string;
-    source: 'inat' | 'gbif';
-    iconicTaxonName?: string;   // e.g. "Aves", "Mammalia" (iNat only)
-    imageUrl?: string;          // medium_url from iNaturalist
-}
+// Default sources, by priority: the device first, then iNaturalist (French
+// common names), then GBIF. See configureTaxonProviders to change the order.
+[notebookTaxonProvider, taxrefTaxonProvider, inatTaxonProvider, gbifTaxonProvider].forEach(registerTaxonProvider);
 
-// ---------------------------------------------------------------------------
-// iNaturalist API  (primary source — supports French common names)
-// Docs: https://api.inaturalist.org/v1/docs/
-// ---------------------------------------------------------------------------
-
-interface INatTaxonResult {
-    id?: number;                    // iNaturalist taxon ID
-    name?: string;                  // Scientific name (e.g. "Cyanistes caeruleus")
-    rank?: string;                  // "species", "genus", "family", etc.
-    rank_level?: number;            // 10 = species, 20 = genus, etc.
-    matched_term?: string;          // iNat matched term when available
-    iconic_taxon_name?: string;     // "Aves", "Mammalia", "Insecta", etc.
-    preferred_common_name?: string; // Localized common name
-    default_photo?: {
-        medium_url?: string;
-        square_url?: string;
-    };
-    wikipedia_summary?: string;
-    wikipedia_url?: string;
-}
-
-const normalizeTaxonText = (value?: string): string => {
-    return (value || '')
-        .normalize('NFD')
-        .replace(/[\u0300-\u036f]/g, '')
-        .toLowerCase()
-        .trim()
-        .replace(/\s+/g, ' ');
-};
+const normalizeSuggestionKey = (value: string): string => value.trim().toLowerCase();
 
-const isSpeciesRank = (rank?: string): boolean => rank === 'species' || rank === 'subspecies';
+const dedupeAndLimitSuggestions = (suggestions: SpeciesSuggestion[], limit: number): SpeciesSuggestion[] => {
+    const seen = new Set<string>();
+    const deduped: SpeciesSuggestion[] = [];
 
-const compareScoreTuples = (left: number[], right: number[]): number => {
-    const length = Math.max(left.length, right.length);
-    for (let index = 0; index < length; index += 1) {
-        const l = left[index] || 0;
-        const r = right[index] || 0;
-        if (l !== r) return l - r;
+    for (const suggestion of suggestions) {
+        const key = normalizeSuggestionKey(suggestion.latinName || suggestion.displayName);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        deduped.push(suggestion);
+        if (deduped.length >= limit) break;
     }
-    return 0;
-};
 
-const scoreINatTaxonResult = (item: INatTaxonResult, query: string): number[] => {
-    const normalizedQuery = normalizeTaxonText(query);
-    const latin = normalizeTaxonText(item.name);
-    const common = normalizeTaxonText(item.preferred_common_name);
-    const matchedTerm = normalizeTaxonText(item.matched_term);
-
-    const exactLatin = normalizedQuery.length > 0 && latin === normalizedQuery ? 1 : 0;
-    const exactCommon = normalizedQuery.length > 0 && (common === normalizedQuery || matchedTerm === normalizedQuery) ? 1 : 0;
-    const startsWith = normalizedQuery.length > 0
-        && [latin, common, matchedTerm].some(value => value.length > 0 && value.startsWith(normalizedQuery))
-        ? 1
-        : 0;
-
-    return [
-        isSpeciesRank(item.rank) ? 1 : 0,
-        exactLatin,
-        exactCommon,
-        startsWith
-    ];
+    return deduped;
 };
 
-const pickBestINatTaxonResult = (results: INatTaxonResult[], query: string): INatTaxonResult | null => {
-    if (results.length === 0) return null;
-
-    let best = results[0];
-    let bestScore = scoreINatTaxonResult(best, query);
-
-    for (let index = 1; index < results.length; index += 1) {
-        const candidate = results[index];
-        const candidateScore = scoreINatTaxonResult(candidate, query);
-        if (compareScoreTuples(candidateScore, bestScore) > 0) {
-            best = candidate;
-            bestScore = candidateScore;
-        }
-    }
-
-    return best;
+const withoutUndefined = <T extends object>(value: T): Partial<T> => {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
 };
 
-const resolveSpeciesMatchMeta = (
-    query: string,
-    inat: INatTaxonResult
-): { matchedBy: 'latin' | 'common'; confidence: 'high' | 'medium' | 'low' } => {
-    const normalizedQuery = normalizeTaxonText(query);
-    const latin = normalizeTaxonText(inat.name);
-    const common = normalizeTaxonText(inat.preferred_common_name);
-    const matchedTerm = normalizeTaxonText(inat.matched_term);
-
-    if (normalizedQuery.length > 0 && latin === normalizedQuery) {
-        return { matchedBy: 'latin', confidence: 'high' };
-    }
-
-    if (normalizedQuery.length > 0 && (common === normalizedQuery || matchedTerm === normalizedQuery)) {
-        return { matchedBy: 'common', confidence: 'high' };
-    }
-
-    if (normalizedQuery.length > 0 && latin.startsWith(normalizedQuery)) {
-        return { matchedBy: 'latin', confidence: 'medium' };
-    }
-
-    if (normalizedQuery.length > 0 && (common.startsWith(normalizedQuery) || matchedTerm.startsWith(normalizedQuery))) {
-        return { matchedBy: 'common', confidence: 'medium' };
-    }
-
-    if (common.length > 0) {
-        return { matchedBy: 'common', confidence: 'low' };
-    }
-
-    return { matchedBy: 'latin', confidence: 'low' };
-};
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
 
 /**
- * Search iNaturalist for a species by common or scientific name.
- * Returns the best match with photo, description, and scientific name.
+ * Completes a suggestion with what the local providers know of the taxon
+ * (TAXREF ids, group). Values already on the suggestion are kept.
  */
-const fetchINatTaxon = async (query: string): Promise<INatTaxonResult | null> => {
-    try {
-        const url = `https://api.inaturalist.org/v1/taxa/autocomplete?q=${encodeURIComponent(query.trim())}&per_page=8&locale=fr`;
-        const res = await fetch(url);
-        if (!res.ok) return null;
-        const data = await res.json();
-        const results: INatTaxonResult[] = data?.results ?? [];
-        return pickBestINatTaxonResult(results, query);
-    } catch (e) {
-        console.error('iNaturalist fetch error:', e);
-        return null;
+const enrichSuggestion = async (suggestion: SpeciesSuggestion, providers: TaxonProvider[]): Promise<SpeciesSuggestion> => {
+    let enriched = suggestion;
+    for (const provider of providers) {
+        const match = await callTaxonProvider(provider, () => provider.match!({
+            latinName: suggestion.latinName,
+            speciesName: suggestion.commonName ?? suggestion.displayName
+        }), null);
+        if (match) enriched = { ...enriched, ...match, ...withoutUndefined(enriched) };
     }
+    return enriched;
 };
 
-const fetchINatSuggestions = async (query: string, limit: number): Promise<INatTaxonResult[]> => {
-    try {
-        const url = `https://api.inaturalist.org/v1/taxa/autocomplete?q=${encodeURIComponent(query.trim())}&per_page=${limit}&locale=fr`;
-        const res = await fetch(url);
-        if (!res.ok) return [];
-        const data = await res.json();
-        return Array.isArray(data?.results) ? data.results : [];
-    } catch (e) {
-        console.error('iNaturalist suggest error:', e);
-        return [];
-    }
-};
-
-// ---------------------------------------------------------------------------
-// GBIF Taxonomy API  (secondary — used for precise classification)
-// Docs: https://www.gbif.org/developer/species
-// ---------------------------------------------------------------------------
-
-interface GBIFMatchResult {
-    usageKey?: number;
-    scientificName?: string;
-    canonicalName?: string;
-    kingdom?: string;
-    phylum?: string;
-    class?: string;
-    order?: string;
-    family?: string;
-    matchType?: string;
-}
-
-interface GBIFSuggestResult {
-    key?: number;
-    canonicalName?: string;
-    scientificName?: string;
-    class?: string;
-    order?: string;
-    family?: string;
-    kingdom?: string;
-}
-
-const GBIF_BASE = 'https://api.gbif.org/v1/species';
-const GBIF_V2_SPECIES_MATCH = 'https://api.gbif.org/v2/species/match';
-
-/**
- * Match a latin/scientific name to the GBIF backbone taxonomy.
- * NOTE: GBIF does NOT support French common names — always pass a latin name.
- */
-export const matchSpecies = async (latinName: string): Promise<GBIFMatchResult | null> => {
-    if (!latinName || latinName.trim().length < 2) return null;
-    try {
-        const url = `${GBIF_BASE}/match?name=${encodeURIComponent(latinName.trim())}&verbose=true`;
-        const res = await fetch(url);
-        if (!res.ok) return null;
-        const data: GBIFMatchResult = await res.json();
-        if (data.matchType === 'NONE') return null;
-        return data;
-    } catch (e) {
-        console.error('GBIF match error:', e);
-        return null;
-    }
+const enrichSuggestions = async (suggestions: SpeciesSuggestion[]): Promise<SpeciesSuggestion[]> => {
+    const localMatchers = getTaxonProviders('match').filter(provider => !provider.remote);
+    return Promise.all(suggestions.map(suggestion => enrichSuggestion(suggestion, localMatchers)));
 };
 
 /**
- * Suggest species names for autocomplete (accepts partial latin names).
+ * Suggestions from the device only (notebook, regional checklist, TAXREF),
+ * merged in provider priority. Needs no network.
  */
-export const suggestSpecies = async (query: string, limit = 5): Promise<GBIFSuggestResult[]> => {
+export const suggestLocalSpecies = async (query: string, limit = 5): Promise<SpeciesSuggestion[]> => {
     if (!query || query.trim().length < 2) return [];
-    try {
-        const url = `${GBIF_BASE}/suggest?q=${encodeURIComponent(query.trim())}&limit=${limit}`;
-        const res = await fetch(url);
-        if (!res.ok) return [];
-        return await res.json();
-    } catch (e) {
-        console.error('GBIF suggest error:', e);
-        return [];
-    }
-};
-
-interface GBIFAdditionalStatusEntry {
-    datasetAlias?: string;
-    statusCode?: string;
-}
-
-interface GBIFV2MatchResult {
-    additionalStatus?: GBIFAdditionalStatusEntry[];
-}
-
-// ---------------------------------------------------------------------------
-// iNaturalist place-specific conservation status (France = place_id 6753)
-// ---------------------------------------------------------------------------
-
-const INAT_FRANCE_PLACE_ID = 6753;
-
-interface INatConservationStatusEntry {
-    status?: string;
-    place?: { id?: number; display_name?: string; } | null;
-}
-
-interface INatTaxonDetail {
-    conservation_statuses?: INatConservationStatusEntry[];
-}
-
-const mapIucnStatusCodeToStatus = (code?: string): Status | undefined => {
-    const normalizedCode = (code || '').trim().toUpperCase();
-    if (!normalizedCode) return undefined;
-
-    switch (normalizedCode) {
-        case 'NE': return Status.NE;
-        case 'DD': return Status.DD;
-        case 'LC': return Status.LC;
-        case 'NT': return Status.NT;
-        case 'VU': return Status.VU;
-        case 'EN': return Status.EN;
-        case 'CR': return Status.CR;
-        case 'EW': return Status.EW;
-        case 'EX': return Status.EX;
-        default: return undefined;
-    }
-};
-
-/**
- * Fetch France-specific conservation status from iNaturalist using the taxon ID.
- * Uses place_id=6753 (France) and reads conservation_statuses (plural) array.
- * Returns undefined if no France-specific status is found.
- */
-const fetchINatFranceStatus = async (taxonId: number): Promise<Status | undefined> => {
-    try {
-        const url = `https://api.inaturalist.org/v1/taxa/${taxonId}?place_id=${INAT_FRANCE_PLACE_ID}`;
-        const res = await fetch(url);
-        if (!res.ok) return undefined;
-        const data = await res.json();
-        const results: INatTaxonDetail[] = data?.results ?? [];
-        if (results.length === 0) return undefined;
-
-        const statuses = results[0].conservation_statuses ?? [];
-        const frenchEntry = statuses.find(s => s.place?.id === INAT_FRANCE_PLACE_ID);
-        if (frenchEntry?.status) return mapIucnStatusCodeToStatus(frenchEntry.status);
-
-        return undefined;
-    } catch (e) {
-        console.error('iNaturalist France conservation status error:', e);
-        return undefined;
-    }
-};
-
-export const fetchGbifIucnStatus = async (latinName: string): Promise<Status | undefined> => {
-    if (!latinName || latinName.trim().length < 2) return undefined;
-
-    try {
-        const url = `${GBIF_V2_SPECIES_MATCH}?scientificName=${encodeURIComponent(latinName.trim())}`;
-        const response = await fetch(url);
-        if (!response.ok) return undefined;
-
-        const data: GBIFV2MatchResult = await response.json();
-        const additionalStatuses = Array.isArray(data.additionalStatus) ? data.additionalStatus : [];
-        const iucnEntry = additionalStatuses.find(entry => (entry.datasetAlias || '').trim().toUpperCase() === 'IUCN');
-
-        return mapIucnStatusCodeToStatus(iucnEntry?.statusCode);
-    } catch (error) {
-        console.error('GBIF v2 IUCN status error:', error);
-        return undefined;
-    }
-};
-
-const normalizeSuggestionKey = (value: string): string => value.trim().toLowerCase();
-
-const dedupeAndLimitSuggestions = (suggestions: SpeciesSuggestion[], limit: number): SpeciesSuggestion[] => {
-    const seen = new Set<string>();
-    const deduped: SpeciesSuggestion[] = [];
-
-    for (const suggestion of suggestions) {
-        const key = normalizeSuggestionKey(suggestion.latinName || suggestion.displayName);
-        if (!key || seen.has(key)) continue;
-        seen.add(key);
-        deduped.push(suggestion);
-        if (deduped.length >= limit) break;
-    }
-
-    return deduped;
+    const safeLimit = Math.max(1, Math.min(limit, 10));
+    const providers = getTaxonProviders('suggest').filter(provider => !provider.remote);
+    const results = await Promise.all(providers.map(provider => callTaxonProvider(provider, () => provider.suggest!(query, safeLimit), [])));
+    return enrichSuggestions(dedupeAndLimitSuggestions(results.flat(), safeLimit));
 };
 
 /**
  * Unified autocomplete suggestions for the species field.
- * Strategy: iNaturalist first (French common names), then GBIF fallback.
+ * Strategy: local providers first; when they do not fill the list and the
+ * network is up, the first remote provider with results (iNaturalist, then
+ * GBIF by default) completes it.
  */
 export const suggestSpeciesAutocomplete = async (query: string, limit = 5): Promise<SpeciesSuggestion[]> => {
     if (!query || query.trim().length < 2) return [];
     const safeLimit = Math.max(1, Math.min(limit, 10));
 
-    const inatSuggestions = await fetchINatSuggestions(query, safeLimit);
-    if (inatSuggestions.length > 0) {
-        // Prioritize species/subspecies; if none found keep everything
-        const speciesOnly = inatSuggestions.filter(r => r.rank === 'species' || r.rank === 'subspecies');
-        const bestResults = speciesOnly.length > 0 ? speciesOnly : inatSuggestions;
-        const normalized = bestResults
-            .map((item): SpeciesSuggestion | null => {
-                const latinName = (item.name || '').trim();
-                const commonName = item.preferred_common_name?.trim();
-                const displayName = commonName || latinName;
-                if (!displayName || !latinName) return null;
-                return {
-                    displayName,
-                    latinName,
-                    commonName,
-                    source: 'inat',
-                    iconicTaxonName: item.iconic_taxon_name,
-                    imageUrl: item.default_photo?.medium_url
-                };
-            })
-            .filter((item): item is SpeciesSuggestion => item !== null);
-
-        return dedupeAndLimitSuggestions(normalized, safeLimit);
-    }
+    const local = await suggestLocalSpecies(query, safeLimit);
+    if (isOffline() || local.length >= safeLimit) return local;
 
-    const gbifSuggestions = await suggestSpecies(query, safeLimit);
-    const normalized = gbifSuggestions
-        .map((item): SpeciesSuggestion | null => {
-            const latinName = (item.scientificName || item.canonicalName || '').trim();
-            const displayName = (item.canonicalName || item.scientificName || '').trim();
-            if (!displayName || !latinName) return null;
-            return {
-                displayName,
-                latinName,
-                source: 'gbif'
-            };
-        })
-        .filter((item): item is SpeciesSuggestion => item !== null);
-
-    return dedupeAndLimitSuggestions(normalized, safeLimit);
+    const remote = await firstTaxonProviderResult(
+        getTaxonProviders('suggest').filter(provider => provider.remote),
+        provider => provider.suggest!(query, safeLimit),
+        suggestions => suggestions.length === 0
+    );
+    const remoteSuggestions = await enrichSuggestions(remote?.value ?? []);
+    return dedupeAndLimitSuggestions([...local, ...remoteSuggestions], safeLimit);
 };
 
-// ---------------------------------------------------------------------------
-// Strip HTML tags
-// ---------------------------------------------------------------------------
-
-const stripHtml = (html: string): string =>
-    html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
-
-// ---------------------------------------------------------------------------
-// GBIF class/order → TaxonomicGroup mapping
-// ---------------------------------------------------------------------------
-
-const mapGBIFToTaxonomicGroup = (
-    gbifClass?: string,
-    order?: string,
-    family?: string,
-    kingdom?: string
-): TaxonomicGroup | undefined => {
-    if (!gbifClass && !kingdom) return undefined;
-
-    switch (gbifClass) {
-        case 'Aves':
-            return TaxonomicGroup.BIRD;
-
-        case 'Mammalia':
-            if (order === 'Chiroptera') return TaxonomicGroup.CHIROPTERA;
-            if (['Cetacea', 'Sirenia', 'Cetartiodactyla'].includes(order || '')) {
-                const marineFamilies = [
-                    'Balaenopteridae', 'Balaenidae', 'Delphinidae', 'Phocoenidae',
-                    'Physeteridae', 'Ziphiidae', 'Kogiidae', 'Eschrichtiidae',
-                    'Trichechidae', 'Dugongidae'
-                ];
-                if (order === 'Sirenia' || (family && marineFamilies.includes(family))) {
-                    return TaxonomicGroup.MARINE_MAMMAL;
-                }
-            }
-            return TaxonomicGroup.MAMMAL;
-
-        case 'Reptilia':
-            return TaxonomicGroup.REPTILE;
-
-        case 'Amphibia':
-            return TaxonomicGroup.AMPHIBIAN;
-
-        case 'Actinopterygii':
-        case 'Chondrichthyes':
-        case 'Cephalaspidomorphi':
-            return TaxonomicGroup.FISH;
-
-        case 'Insecta':
-            switch (order) {
-                case 'Lepidoptera':
-                    if (family && ['Nymphalidae', 'Papilionidae', 'Pieridae', 'Lycaenidae', 'Hesperiidae', 'Riodinidae'].includes(family)) {
-                        return TaxonomicGroup.BUTTERFLY;
-                    }
-                    return TaxonomicGroup.MOTH;
-                case 'Odonata':
-                    return TaxonomicGroup.ODONATE;
-                case 'Orthoptera':
-                    return TaxonomicGroup.ORTHOPTERA;
-                case 'Coleoptera':
-                    return TaxonomicGroup.COLEOPTERA;
-                case 'Hymenoptera':
-                    if (family === 'Formicidae') return TaxonomicGroup.ANT;
-                    return TaxonomicGroup.HYMENOPTERA;
-                case 'Mantodea':
-                    return TaxonomicGroup.MANTIS;
-                case 'Hemiptera':
-                    return TaxonomicGroup.HETEROPTERA;
-                case 'Diptera':
-                    return TaxonomicGroup.DIPTERA;
-                case 'Neuroptera':
-                    return TaxonomicGroup.NEUROPTERA;
-                case 'Phasmatodea':
-                    return TaxonomicGroup.PHASMID;
-                case 'Dermaptera':
-                    return TaxonomicGroup.DERMAPTERA;
-                default:
-                    return TaxonomicGroup.OTHER;
-            }
-
-        case 'Arachnida':
-            if (order === 'Scorpiones') return TaxonomicGroup.SCORPION;
-            return TaxonomicGroup.ARACHNID;
-
-        case 'Malacostraca':
-        case 'Maxillopoda':
-            return TaxonomicGroup.CRUSTACEAN;
-
-        case 'Branchiopoda':
-            return TaxonomicGroup.BRANCHIOPOD;
-
-        case 'Gastropoda':
-            return TaxonomicGroup.GASTROPOD;
-
-        case 'Bivalvia':
-            return TaxonomicGroup.BIVALVE;
-
-        case 'Magnoliopsida':
-        case 'Liliopsida':
-        case 'Polypodiopsida':
-        case 'Pinopsida':
-        case 'Gnetopsida':
-        case 'Cycadopsida':
-            if (family === 'Orchidaceae') return TaxonomicGroup.ORCHID;
-            return TaxonomicGroup.BOTANY;
-
-        case 'Bryopsida':
-        case 'Jungermanniopsida':
-        case 'Marchantiopsida':
-            return TaxonomicGroup.BOTANY;
-
-        case 'Agaricomycetes':
-        case 'Sordariomycetes':
-        case 'Eurotiomycetes':
-        case 'Pezizomycetes':
-            return TaxonomicGroup.MUSHROOM;
-
-        case 'Lecanoromycetes':
-        case 'Lichinomycetes':
-            return TaxonomicGroup.LICHEN;
-
-        default:
-            if (kingdom === 'Plantae') return TaxonomicGroup.BOTANY;
-            if (kingdom === 'Fungi') return TaxonomicGroup.MUSHROOM;
-            if (kingdom === 'Animalia') return TaxonomicGroup.OTHER;
-            return undefined;
+/** Photos of a taxon from the providers that have some, in priority order. */
+export const fetchSpeciesImages = async (taxon: TaxonReferenceQuery, limit = 6): Promise<string[]> => {
+    const images: string[] = [];
+    for (const provider of getTaxonProviders('images')) {
+        if (images.length >= limit) break;
+        const urls = await callTaxonProvider(provider, () => provider.images!(taxon, limit - images.length), []);
+        images.push(...urls.filter(url => !images.includes(url)));
     }
+    return images.slice(0, limit);
+};
+
+const getRedListKey = (assessment: RedListAssessment): string => {
+    return assessment.scale === RedListScale.REGION ? `${assessment.scale}:${assessment.region ?? ''}` : assessment.scale;
 };
 
 /**
- * Fallback: map iNaturalist iconic_taxon_name to TaxonomicGroup.
- * Less precise than GBIF (no order/family info) but always available.
+ * Red-list assessments from every provider, in priority order; the first one
+ * met wins for each scale (and each région). A provider is skipped when all
+ * the scales it declares are already known.
  */
-export const mapINatIconicToTaxonomicGroup = (iconicName?: string): TaxonomicGroup | undefined => {
-    switch (iconicName) {
-        case 'Aves': return TaxonomicGroup.BIRD;
-        case 'Mammalia': return TaxonomicGroup.MAMMAL;
-        case 'Reptilia': return TaxonomicGroup.REPTILE;
-        case 'Amphibia': return TaxonomicGroup.AMPHIBIAN;
-        case 'Actinopterygii': return TaxonomicGroup.FISH;
-        case 'Insecta': return TaxonomicGroup.OTHER; // Too broad without order
-        case 'Arachnida': return TaxonomicGroup.ARACHNID;
-        case 'Mollusca': return TaxonomicGroup.OTHER;
-        case 'Plantae': return TaxonomicGroup.BOTANY;
-        case 'Fungi': return TaxonomicGroup.MUSHROOM;
-        default: return undefined;
+const fetchRedLists = async (taxon: TaxonReferenceQuery): Promise<RedListAssessment[]> => {
+    const assessments = new Map<string, RedListAssessment>();
+    const knownScales = (): Set<RedListScale> => new Set(Array.from(assessments.values()).map(assessment => assessment.scale));
+
+    for (const provider of getTaxonProviders('redLists')) {
+        const known = knownScales();
+        if (provider.redListScales && provider.redListScales.every(scale => known.has(scale))) continue;
+        const results = await callTaxonProvider(provider, () => provider.redLists!(taxon), []);
+        results.forEach(assessment => {
+            const key = getRedListKey(assessment);
+            if (!assessments.has(key)) assessments.set(key, assessment);
+        });
     }
+    return Array.from(assessments.values());
 };
 
 // ---------------------------------------------------------------------------
 // fetchSpeciesInfo — main public function (drop-in replacement)
-// Strategy: iNaturalist first (handles French names), then GBIF for taxonomy
+// Strategy: details from the first provider that knows the name (iNaturalist
+// by default, handles French names), classification and red-list statuses
+// from the providers in priority order
 // ---------------------------------------------------------------------------
 
-export const fetchSpeciesInfo = async (speciesName: string): Promise<SpeciesInfo | null> => {
+export const fetchSpeciesInfo = async (speciesName: string, rank?: IdentificationRank): Promise<SpeciesInfo | null> => {
     if (!speciesName || speciesName.trim().length < 2) return null;
 
-    try {
-        // Step 1: Query iNaturalist (supports French common names)
-        const inat = await fetchINatTaxon(speciesName);
-        if (!inat) return null;
-
-        const latinName = inat.name || undefined;
-        const imageUrl = inat.default_photo?.medium_url ?? inat.default_photo?.square_url ?? null;
-        const description = inat.wikipedia_summary
-            ? stripHtml(inat.wikipedia_summary).substring(0, 300) + '...'
-            : '';
-        const sourceUrl = inat.wikipedia_url || '';
-        const matchMeta = resolveSpeciesMatchMeta(speciesName, inat);
+    // Genus-level and aggregate records ("Sympetrum sp.", "Pipistrellus kuhlii/nathusii")
+    // are looked up by their genus, which has no red-list status.
+    const identification = parseIdentification(speciesName);
+    const identificationRank = rank ?? identification?.rank;
+    const genusLevel = identificationRank === IdentificationRank.GENUS || identificationRank === IdentificationRank.AGGREGATE;
+    const query = genusLevel && identification ? identification.genus : speciesName;
 
-        // Step 2: If we got a latin name from iNaturalist, enrich with GBIF taxonomy
+    try {
+        // Step 1: name resolution, description and photo
+        const detailsResult = await firstTaxonProviderResult(
+            getTaxonProviders('details'),
+            provider => provider.details!(query, { genusLevel })
+        );
+        if (!detailsResult) return null;
+        const details = detailsResult.value;
+        const latinName = details.latinName;
+
+        // Step 2: If we got a latin name, classify it (local reference, then GBIF taxonomy)
         let taxonomicGroup: TaxonomicGroup | undefined;
-
         if (latinName) {
-            const gbif = await matchSpecies(latinName);
-            if (gbif) {
-                taxonomicGroup = mapGBIFToTaxonomicGroup(gbif.class, gbif.order, gbif.family, gbif.kingdom);
-            }
+            const match = await firstTaxonProviderResult(
+                getTaxonProviders('match'),
+                provider => provider.match!({ latinName }),
+                value => !value.taxonomicGroup
+            );
+            taxonomicGroup = match?.value.taxonomicGroup;
         }
 
-        let redListStatus: Status | undefined;
-        let redListSource: 'france' | 'global' | undefined;
-        if (inat.id) {
-            redListStatus = await fetchINatFranceStatus(inat.id);
-            if (redListStatus) redListSource = 'france';
-        }
-        if (!redListStatus && latinName) {
-            redListStatus = await fetchGbifIucnStatus(latinName);
-            if (redListStatus) redListSource = 'global';
-        }
+        // Step 3: red lists at every scale; the France status first, global IUCN
+        // status otherwise, stays the default status of the observation
+        const redLists = genusLevel ? [] : await fetchRedLists({ latinName: latinName ?? '', inatTaxonId: details.inatTaxonId });
+        const france = redLists.find(assessment => assessment.scale === RedListScale.FRANCE);
+        const world = redLists.find(assessment => assessment.scale === RedListScale.WORLD);
 
-        // Fallback: use iNaturalist iconic_taxon_name if GBIF didn't yield a group
-        if (!taxonomicGroup && inat.iconic_taxon_name) {
-            taxonomicGroup = mapINatIconicToTaxonomicGroup(inat.iconic_taxon_name);
+        // Fallback: use iNaturalist iconic_taxon_name if no provider yielded a group
+        if (!taxonomicGroup && details.iconicTaxonName) {
+            taxonomicGroup = mapINatIconicToTaxonomicGroup(details.iconicTaxonName);
         }
 
         return {
-            description: description || 'Aucune description disponible.',
-            imageUrl,
-            sourceUrl,
+            description: details.description || 'Aucune description disponible.',
+            imageUrl: details.imageUrl,
+            sourceUrl: details.sourceUrl,
             latinName,
             taxonomicGroup,
-            redListStatus,
-            redListSource,
-            matchedBy: matchMeta.matchedBy,
-            confidence: matchMeta.confidence
+            redListStatus: (france ?? world)?.status,
+            redListSource: france ? 'france' : world ? 'global' : undefined,
+            redLists,
+            matchedBy: details.matchedBy,
+            confidence: details.confidence
         };
     } catch (error) {
         console.error('Erreur lors de la récupération des infos espèce:', error);
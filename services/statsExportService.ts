@@ -5,12 +5,15 @@ import html2canvas from 'html2canvas';
 import { Observation } from '../types';
 import { buildStatsReportData, StatsReportData } from '../utils/statsReportData';
 import { dateToIsoLocal } from '../utils/dateUtils';
+import { STATUS_SCALE_LABELS, StatusScale } from '../utils/redListUtils';
+import { BREEDING_EVIDENCE_LEVELS } from '../utils/atlasCodeUtils';
 
 export interface StatsExportOptions {
     observations: Observation[];
     statsRootElement: HTMLElement;
     isDarkMode: boolean;
     exportedAt?: Date;
+    statusScale?: StatusScale;
 }
 
 export interface StatsExportResult {
@@ -35,6 +38,12 @@ function escHtml(value: string): string {
         .replace(/'/g, '&#39;');
 }
 
+function describeStatusScale(scale: StatusScale): string {
+    return scale === 'observation'
+        ? 'Répartition des statuts présents dans le carnet.'
+        : `Répartition des statuts de la liste rouge, échelle : ${STATUS_SCALE_LABELS[scale]}.`;
+}
+
 function chunkArray<T>(items: T[], chunkSize: number): T[][] {
     if (chunkSize <= 0) return [items];
     const chunks: T[][] = [];
@@ -167,6 +176,60 @@ function buildTopSpeciesHtml(topSpecies: ExportStatsData['topSpecies']): string
     }).join('')}</ul>`;
 }
 
+function buildHeritageSpeciesHtml(heritageSpecies: ExportStatsData['heritageSpecies']): string {
+    if (heritageSpecies.length === 0) return '<p class="no-data">Aucune espèce patrimoniale</p>';
+
+    return `<ul class="top-species">${heritageSpecies.map(species => `<li>
+  <div class="top-species-main">
+    <div class="species-copy">
+      <span class="species-name">${escHtml(species.name)}${species.latinName ? ` <em>${escHtml(species.latinName)}</em>` : ''}</span>
+      <span class="heritage-reasons">${escHtml(species.reasons.join(' • '))}</span>
+    </div>
+  </div>
+  <span class="species-count">${species.observations} obs.</span>
+</li>`).join('')}</ul>`;
+}
+
+function buildBreedingSpeciesHtml(species: ExportStatsData['breedingAtlas']['species']): string {
+    return `<ul class="top-species">${species.map(entry => `<li>
+  <div class="top-species-main">
+    <div class="species-copy">
+      <span class="species-name">${escHtml(entry.name)}${entry.latinName ? ` <em>${escHtml(entry.latinName)}</em>` : ''}</span>
+      <span class="heritage-reasons">${escHtml(`${entry.atlasCode.evidence} • code ${entry.atlasCode.code} – ${entry.atlasCode.label}`)}</span>
+    </div>
+  </div>
+  <span class="species-count">${entry.squareCount} maille(s)</span>
+</li>`).join('')}</ul>`;
+}
+
+function buildBreedingSquaresHtml(squares: ExportStatsData['breedingAtlas']['squares']): string {
+    if (squares.length === 0) return '<p class="no-data">Aucune observation géolocalisée en France métropolitaine</p>';
+
+    return `<ul class="top-species">${squares.map(square => `<li>
+  <div class="top-species-main">
+    <div class="species-copy">
+      <span class="species-name">${escHtml(square.squareCode)}</span>
+      <span class="heritage-reasons">${escHtml(BREEDING_EVIDENCE_LEVELS.slice().reverse().map(level => `${level} : ${square.counts[level]}`).join(' • '))}</span>
+    </div>
+  </div>
+  <span class="species-count">${square.species.length} esp.</span>
+</li>`).join('')}</ul>`;
+}
+
+function buildSquareDataHtml(squares: ExportStatsData['squareData']): string {
+    if (squares.length === 0) return '<p class="no-data">Aucune observation géolocalisée en France métropolitaine</p>';
+
+    return `<ul class="top-species">${squares.map(square => `<li>
+  <div class="top-species-main">
+    <div class="species-copy">
+      <span class="species-name">${escHtml(square.squareCode)}</span>
+      <span class="heritage-reasons">${square.observations} observation(s)</span>
+    </div>
+  </div>
+  <span class="species-count">${square.speciesCount} esp.</span>
+</li>`).join('')}</ul>`;
+}
+
 function generateStatusPieSvg(statusData: ExportStatsData['statusData']): string {
     const total = statusData.reduce((sum, entry) => sum + entry.value, 0);
     if (total === 0 || statusData.length === 0) {
@@ -260,13 +323,23 @@ function buildPdfSectionsHtml(data: ExportStatsData, logoDataUrls: Map<string, s
         minute: '2-digit'
     });
 
+    const heritageSections = chunkArray(data.heritageSpecies, 10).map((chunk, index) => `<section class="pdf-section"><div class="section-heading"><h2>Espèces patrimoniales${index > 0 ? ' (suite)' : ''}</h2><p>Espèces protégées, inscrites aux directives Habitats et Oiseaux, déterminantes ZNIEFF ou menacées.</p></div>${buildHeritageSpeciesHtml(chunk)}</section>`).join('');
+
+    const squareSections = chunkArray(data.squareData, 10).map((chunk, index) => `<section class="pdf-section"><div class="section-heading"><h2>Mailles 10 km${index > 0 ? ' (suite)' : ''}</h2><p>Observations et espèces par maille Lambert-93, les plus riches d'abord.</p></div>${buildSquareDataHtml(chunk)}</section>`).join('');
+    const breedingSpeciesSections = chunkArray(data.breedingAtlas.species, 10).map((chunk, index) => `<section class="pdf-section"><div class="section-heading"><h2>Oiseaux nicheurs${index > 0 ? ' (suite)' : ''}</h2><p>Indice de nidification le plus fort de chaque espèce (codes atlas).</p></div>${buildBreedingSpeciesHtml(chunk)}</section>`).join('');
+    const breedingSquareSections = data.breedingAtlas.species.length === 0 ? '' : chunkArray(data.breedingAtlas.squares, 10).map((chunk, index) => `<section class="pdf-section"><div class="section-heading"><h2>Nicheurs par maille 10 km${index > 0 ? ' (suite)' : ''}</h2><p>Espèces de chaque maille Lambert-93 selon leur indice le plus fort.</p></div>${buildBreedingSquaresHtml(chunk)}</section>`).join('');
+
     const taxonSections = chunkArray(data.taxonSpeciesCards, 8).map((chunk, index) => `<section class="pdf-section"><div class="section-heading"><h2>Espèces observées par taxon${index > 0 ? ' (suite)' : ''}</h2><p>Nombre d'espèces distinctes par grand groupe.</p></div><div class="taxon-grid">${buildTaxonCardsHtml(chunk, logoDataUrls)}</div></section>`).join('');
 
     return `<section class="pdf-section pdf-header"><p class="eyebrow">Rapport PDF statique</p><h1>Rapport Statistiques Naturaliste</h1><p class="meta">Généré le ${escHtml(dateLabel)} • ${data.totalObservations} observation(s)</p></section>
 <section class="pdf-section">${buildMetricCardsHtml(data)}</section>
 ${taxonSections}
 <section class="pdf-section chart-split"><article class="chart-card"><div class="section-heading"><h2>Répartition par groupe</h2><p>Classement des groupes les plus représentés.</p></div>${buildRankedGroupBarsHtml(data.rankedGroupData)}</article><article class="chart-card"><div class="section-heading"><h2>Activité mensuelle</h2><p>Volume d'observations sur l'année.</p></div>${generateMonthlyBarSvg(data.activityData)}</article></section>
-<section class="pdf-section chart-split"><article class="chart-card"><div class="section-heading"><h2>Top 5 espèces</h2><p>Classement par nombre d'individus observés.</p></div>${buildTopSpeciesHtml(data.topSpecies)}</article><article class="chart-card"><div class="section-heading"><h2>Statut de protection</h2><p>Répartition des statuts présents dans le carnet.</p></div><div class="status-layout">${generateStatusPieSvg(data.statusData)}<div class="status-legend">${buildStatusLegendHtml(data.statusData)}</div></div></article></section>`;
+<section class="pdf-section chart-split"><article class="chart-card"><div class="section-heading"><h2>Top 5 espèces</h2><p>Classement par nombre d'individus observés.</p></div>${buildTopSpeciesHtml(data.topSpecies)}</article><article class="chart-card"><div class="section-heading"><h2>Statut de protection</h2><p>${escHtml(describeStatusScale(data.statusScale))}</p></div><div class="status-layout">${generateStatusPieSvg(data.statusData)}<div class="status-legend">${buildStatusLegendHtml(data.statusData)}</div></div></article></section>
+${heritageSections}
+${squareSections}
+${breedingSpeciesSections}
+${breedingSquareSections}`;
 }
 
 function createPdfSandbox(html: string): { sandbox: HTMLDivElement; sections: HTMLElement[] } {
@@ -302,6 +375,7 @@ body{margin:0}
 .top-species li{display:flex;align-items:center;justify-content:space-between;gap:14px;padding:14px 16px;border-radius:20px;border:1px solid #e4d7c5;background:#faf6ee}
 .top-species-main{display:flex;align-items:center;gap:12px;min-width:0}.species-rank{width:34px;height:34px;border-radius:999px;display:flex;align-items:center;justify-content:center;color:#fff;font-size:13px;font-weight:700;flex-shrink:0}
 .species-copy{min-width:0}.species-name{display:block;font-size:18px;font-weight:700;white-space:nowrap;overflow:hidden;text-overflow:ellipsis}.species-subtitle{display:block;margin-top:4px;font-size:11px;font-weight:700;letter-spacing:.14em;text-transform:uppercase;color:#8a775e}
+.heritage-reasons{display:block;margin-top:4px;font-size:11px;color:#8a775e}
 .species-count{padding:8px 14px;border-radius:999px;border:1px solid #e6dccd;background:#fff;font-size:13px;font-weight:700;color:#5f5548;white-space:nowrap}
 .status-layout{display:flex;flex-direction:column;align-items:center;gap:18px}.pie-svg{max-width:240px}
 .status-legend{display:grid;grid-template-columns:1fr;gap:10px;width:100%}.status-legend-item{display:flex;align-items:flex-start;gap:10px;padding:12px 14px;border-radius:18px;border:1px solid #e4d7c5;background:#faf6ee}
@@ -413,6 +487,7 @@ header h1{margin:0;font-size:2.4rem;line-height:1.08;font-family:Georgia,'Times
 .pie-svg .chart-slice{cursor:pointer;transition:opacity .15s ease}.pie-svg .chart-slice:hover,.bar-svg .chart-bar:hover{opacity:.82}.bar-svg .chart-bar{cursor:pointer;transition:opacity .15s ease}
 .top-species{list-style:none;margin:0;padding:0;display:flex;flex-direction:column;gap:10px}.top-species li{display:flex;align-items:center;justify-content:space-between;gap:14px;padding:14px 16px;border-radius:22px;border:1px solid #e4d7c5;background:#faf6ee}
 .top-species-main{display:flex;align-items:center;gap:12px;min-width:0}.species-rank{width:34px;height:34px;border-radius:999px;display:flex;align-items:center;justify-content:center;color:#fff;font-size:.82rem;font-weight:700;flex-shrink:0}.species-copy{min-width:0}
+.heritage-reasons{display:block;margin-top:4px;font-size:.75rem;color:#8a775e}
 .species-name{display:block;font-size:1.02rem;font-weight:700;white-space:nowrap;overflow:hidden;text-overflow:ellipsis}.species-subtitle{display:block;margin-top:4px;font-size:.7rem;font-weight:700;letter-spacing:.16em;text-transform:uppercase;color:#8a775e}
 .species-count{padding:8px 14px;border-radius:999px;border:1px solid #e6dccd;background:#fff;font-size:.82rem;font-weight:700;color:#5f5548;white-space:nowrap}
 .status-layout{display:grid;grid-template-columns:minmax(0,1fr) 240px;gap:18px;align-items:center}.status-legend{display:grid;grid-template-columns:1fr;gap:10px}.status-legend-item{display:flex;align-items:flex-start;gap:10px;padding:12px 14px;border-radius:18px;border:1px solid #e4d7c5;background:#faf6ee}
@@ -449,8 +524,14 @@ ${taxonSection}
   <article class="chart-card"><h2>Répartition par groupe</h2><p class="helper">Classement des groupes les plus représentés.</p><div style="margin-top:18px">${buildRankedGroupBarsHtml(data.rankedGroupData)}</div></article>
   <article class="chart-card"><h2>Activité mensuelle</h2><p class="helper">Volume d'observations sur l'année.</p><div style="margin-top:18px">${generateMonthlyBarSvg(data.activityData)}</div></article>
   <article class="chart-card"><h2>Top 5 espèces</h2><p class="helper">Classement par nombre d'individus observés.</p><div style="margin-top:18px">${buildTopSpeciesHtml(data.topSpecies)}</div></article>
-  <article class="chart-card"><h2>Statut de protection</h2><p class="helper">Répartition des statuts présents dans le carnet.</p><div class="status-layout" style="margin-top:18px"><div>${generateStatusPieSvg(data.statusData)}</div><div class="status-legend">${buildStatusLegendHtml(data.statusData)}</div></div></article>
+  <article class="chart-card"><h2>Statut de protection</h2><p class="helper">${escHtml(describeStatusScale(data.statusScale))}</p><div class="status-layout" style="margin-top:18px"><div>${generateStatusPieSvg(data.statusData)}</div><div class="status-legend">${buildStatusLegendHtml(data.statusData)}</div></div></article>
 </div>
+<article class="chart-card" style="margin-top:24px"><h2>Espèces patrimoniales</h2><p class="helper">Espèces protégées, inscrites aux directives Habitats et Oiseaux, déterminantes ZNIEFF ou menacées.</p><div style="margin-top:18px">${buildHeritageSpeciesHtml(data.heritageSpecies)}</div></article>
+${data.squareData.length > 0 ? `<article class="chart-card" style="margin-top:24px"><h2>Mailles 10 km</h2><p class="helper">Observations et espèces par maille Lambert-93, les plus riches d'abord.</p><div style="margin-top:18px">${buildSquareDataHtml(data.squareData)}</div></article>` : ''}
+${data.breedingAtlas.species.length > 0 ? `<div class="charts-grid" style="margin-top:24px">
+  <article class="chart-card"><h2>Oiseaux nicheurs</h2><p class="helper">Indice de nidification le plus fort de chaque espèce (codes atlas).</p><div style="margin-top:18px">${buildBreedingSpeciesHtml(data.breedingAtlas.species)}</div></article>
+  <article class="chart-card"><h2>Nicheurs par maille 10 km</h2><p class="helper">Espèces de chaque maille Lambert-93 selon leur indice le plus fort.</p><div style="margin-top:18px">${buildBreedingSquaresHtml(data.breedingAtlas.squares)}</div></article>
+</div>` : ''}
 </div>
 <div class="tt" id="tt"></div>
 <script>${tooltipScript}</script>
@@ -459,9 +540,9 @@ ${taxonSection}
 }
 
 export async function exportStatsBundle(options: StatsExportOptions): Promise<StatsExportResult> {
-    const { observations, exportedAt = new Date() } = options;
+    const { observations, exportedAt = new Date(), statusScale } = options;
 
-    const rawStatsData = buildStatsReportData(observations);
+    const rawStatsData = buildStatsReportData(observations, statusScale);
     const statsData = stripBadgesForExport(rawStatsData);
     const logoDataUrls = await loadLogoDataUrls(statsData.taxonSpeciesCards);
 
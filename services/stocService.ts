@@ -0,0 +1,142 @@
+import { saveAs } from 'file-saver';
+import { Observation, Protocol, SamplingSession, StocDistanceBand, StocPoint, StocSpeciesCount, StocSurvey, TaxonomicGroup } from '../types';
+import { isoToFrDisplay } from '../utils/dateUtils';
+import { normalizeSearchText } from '../utils/textUtils';
+import { createEmptySession } from './sessionService';
+
+export const STOC_POINT_DURATION_SECONDS = 5 * 60;
+export const STOC_POINT_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+export const STOC_DISTANCE_BANDS: StocDistanceBand[] = Object.values(StocDistanceBand);
+
+// Column order of the national STOC-EPS entry sheet.
+const STOC_EXPORT_HEADERS = [
+    'N° carré', 'Année', 'Passage', 'N° point', 'Date', 'Heure', 'Observateur',
+    'Espèce', 'Nom scientifique', 'Distance 0-25 m', 'Distance 25-100 m', 'Distance > 100 m', 'En vol', 'Total'
+];
+
+export interface StocSpeciesOption {
+    speciesName: string;
+    latinName: string;
+}
+
+const esc = (v: unknown) => `"${String(v ?? '').replace(/"/g, '""')}"`;
+
+const emptyCounts = (): Record<StocDistanceBand, number> => ({
+    [StocDistanceBand.UNDER_25]: 0,
+    [StocDistanceBand.FROM_25_TO_100]: 0,
+    [StocDistanceBand.OVER_100]: 0,
+    [StocDistanceBand.FLYING]: 0
+});
+
+const isSameSpecies = (entry: StocSpeciesCount, species: StocSpeciesOption): boolean => {
+    return normalizeSearchText(entry.speciesName) === normalizeSearchText(species.speciesName);
+};
+
+export const createStocSession = (now: Date = new Date()): SamplingSession => ({
+    ...createEmptySession(now),
+    name: 'STOC EPS',
+    protocol: Protocol.STOC_EPS,
+    stoc: { square: '', passage: 1, points: [] }
+});
+
+export const createStocPoint = (number: number, startTime: string): StocPoint => ({ number, startTime, species: [] });
+
+export const getStocSpeciesTotal = (entry: StocSpeciesCount): number => {
+    return STOC_DISTANCE_BANDS.reduce((sum, band) => sum + (entry.counts[band] ?? 0), 0);
+};
+
+/**
+ * Adds (or, with a negative delta, removes) contacts of a species in one
+ * distance band. A species left without any contact is dropped from the point.
+ */
+export const addStocContact = (
+    point: StocPoint,
+    species: StocSpeciesOption,
+    band: StocDistanceBand,
+    delta = 1
+): StocPoint => {
+    const existing = point.species.find(entry => isSameSpecies(entry, species));
+    const base: StocSpeciesCount = existing ?? { speciesName: species.speciesName.trim(), latinName: species.latinName, counts: emptyCounts() };
+    const updated: StocSpeciesCount = {
+        ...base,
+        latinName: base.latinName || species.latinName,
+        counts: { ...base.counts, [band]: Math.max(0, (base.counts[band] ?? 0) + delta) }
+    };
+
+    const others = point.species.filter(entry => entry !== existing);
+    if (getStocSpeciesTotal(updated) === 0) {
+        return { ...point, species: others };
+    }
+    return { ...point, species: existing ? point.species.map(entry => (entry === existing ? updated : entry)) : [...others, updated] };
+};
+
+export const upsertStocPoint = (survey: StocSurvey, point: StocPoint): StocSurvey => ({
+    ...survey,
+    points: [...survey.points.filter(existing => existing.number !== point.number), point]
+        .sort((a, b) => a.number - b.number)
+});
+
+export const getNextStocPointNumber = (survey: StocSurvey): number => {
+    const done = new Set(survey.points.map(point => point.number));
+    return STOC_POINT_NUMBERS.find(number => !done.has(number)) ?? STOC_POINT_NUMBERS[STOC_POINT_NUMBERS.length - 1];
+};
+
+export const formatCountdown = (seconds: number): string => {
+    const safe = Math.max(0, Math.floor(seconds));
+    return `${Math.floor(safe / 60)}:${String(safe % 60).padStart(2, '0')}`;
+};
+
+/** Birds already in the notebook, most observed first, for quick-tap entry. */
+export const buildStocSpeciesOptions = (observations: Observation[]): StocSpeciesOption[] => {
+    const bySpecies = new Map<string, StocSpeciesOption & { occurrences: number }>();
+    for (const obs of observations) {
+        if (obs.taxonomicGroup !== TaxonomicGroup.BIRD || !obs.speciesName.trim()) continue;
+        const key = normalizeSearchText(obs.speciesName);
+        const entry = bySpecies.get(key) ?? { speciesName: obs.speciesName.trim(), latinName: obs.latinName, occurrences: 0 };
+        entry.occurrences += 1;
+        if (!entry.latinName) entry.latinName = obs.latinName;
+        bySpecies.set(key, entry);
+    }
+    return Array.from(bySpecies.values())
+        .sort((a, b) => b.occurrences - a.occurrences || a.speciesName.localeCompare(b.speciesName, 'fr'))
+        .map(({ speciesName, latinName }) => ({ speciesName, latinName }));
+};
+
+/**
+ * One row per species and point, in the layout of the national STOC-EPS entry
+ * sheet. A point without contact still gets a row so the visit is recorded.
+ */
+export const buildStocExportRows = (session: SamplingSession): (string | number)[][] => {
+    if (!session.stoc) return [];
+    const { square, passage, points } = session.stoc;
+    const year = session.date.slice(0, 4);
+    const date = isoToFrDisplay(session.date, { year: 'numeric', month: '2-digit', day: '2-digit' });
+    const observer = session.observers[0] ?? '';
+
+    return points.flatMap(point => {
+        const prefix = [square, year, passage, point.number, date, point.startTime, observer];
+        if (point.species.length === 0) {
+            return [[...prefix, '', '', 0, 0, 0, 0, 0]];
+        }
+        return point.species.map(entry => [
+            ...prefix,
+            entry.speciesName,
+            entry.latinName,
+            ...STOC_DISTANCE_BANDS.map(band => entry.counts[band] ?? 0),
+            getStocSpeciesTotal(entry)
+        ]);
+    });
+};
+
+export const buildStocCsv = (sessions: SamplingSession[]): string => {
+    const rows = sessions.flatMap(buildStocExportRows);
+    return [STOC_EXPORT_HEADERS, ...rows].map(row => row.map(esc).join(';')).join('\r\n');
+};
+
+export const exportStocSessions = (sessions: SamplingSession[]): void => {
+    const stocSessions = sessions.filter(session => session.stoc);
+    // BOM so that Excel opens the accents correctly.
+    const blob = new Blob(['\uFEFF', buildStocCsv(stocSessions)], { type: 'text/csv;charset=utf-8' });
+    const single = stocSessions.length === 1 ? stocSessions[0] : null;
+    saveAs(blob, single ? `stoc_eps_${single.stoc?.square || 'carre'}_${single.date}.csv` : 'stoc_eps.csv');
+};
@@ -1,4 +1,8 @@
-const MAX_PERSISTED_DATA_URL_LENGTH = 250_000;
+import { isPendingMediaRef } from './storageQueueUtils';
+
+// The offline cache lives in IndexedDB (no 5 MB localStorage budget), so inline
+// media only gets dropped when a single value is unreasonably large.
+export const MAX_PERSISTED_DATA_URL_LENGTH = 5_000_000;
 
 const isStableRemoteUrl = (value: string): boolean => {
     try {
@@ -10,7 +14,7 @@ const isStableRemoteUrl = (value: string): boolean => {
 };
 
 const isPersistableDataUrl = (value: string): boolean => {
-    return value.startsWith('data:') && value.length <= MAX_PERSISTED_DATA_URL_LENGTH;
+    return value.length <= MAX_PERSISTED_DATA_URL_LENGTH;
 };
 
 export interface SanitizationResult {
@@ -21,7 +25,13 @@ export interface SanitizationResult {
 export const sanitizeCachedMediaValueWithTracking = (value?: string): SanitizationResult => {
     if (!value) return { value: undefined, stripped: false };
     if (value.startsWith('blob:')) return { value: undefined, stripped: true };
-    if (isStableRemoteUrl(value) || isPersistableDataUrl(value)) {
+    // Media queued for upload: the blob itself is kept in IndexedDB.
+    if (isPendingMediaRef(value)) return { value, stripped: false };
+    // Check inline media first: parsing a multi-megabyte data URL with `new URL` is slow.
+    if (value.startsWith('data:')) {
+        return isPersistableDataUrl(value) ? { value, stripped: false } : { value: undefined, stripped: true };
+    }
+    if (isStableRemoteUrl(value)) {
         return { value, stripped: false };
     }
     return { value: undefined, stripped: true };
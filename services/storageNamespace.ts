@@ -0,0 +1,17 @@
+const STORAGE_NAMESPACE_ERROR = "Storage namespace absent. Réessayez après authentification.";
+
+// User id that scopes every offline key (`<prefix>:<userId>`), shared by the storage services.
+let storageNamespace: string | null = null;
+
+export const setStorageNamespace = (userId: string | null): void => {
+    storageNamespace = userId?.trim() || null;
+};
+
+export const getStorageNamespace = (): string | null => storageNamespace;
+
+export const ensureStorageNamespace = (): string => {
+    if (!storageNamespace) {
+        throw new Error(STORAGE_NAMESPACE_ERROR);
+    }
+    return storageNamespace;
+};
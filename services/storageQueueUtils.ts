@@ -1,23 +1,78 @@
 import { Observation } from '../types';
 
-export type OfflineAction = 'INSERT' | 'UPDATE' | 'DELETE';
+export type OfflineAction = 'INSERT' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE';
+
+// Actions that only move an observation in or out of the recycle bin; their payload is `{ id }`.
+export type OfflineLifecycleAction = Extract<OfflineAction, 'DELETE' | 'RESTORE' | 'PURGE'>;
+
+export type PendingMediaField = 'photo' | 'sound';
+
+/**
+ * Photo or sound captured offline: the blob lives in IndexedDB under `mediaId`
+ * and the observation field holds an `offline-media:<mediaId>` reference until sync.
+ */
+export interface PendingMediaAttachment {
+    field: PendingMediaField;
+    mediaId: string;
+}
+
+/**
+ * Server version found during sync when a queued UPDATE was based on an older
+ * `updated_at`. The item stays queued until the conflict is resolved.
+ */
+export interface QueueItemConflict {
+    remote: Observation;
+    detectedAt: number;
+}
 
 export interface OfflineQueueItem {
     id: string;
     action: OfflineAction;
     payload: Observation | { id: string };
     timestamp: number;
+    media?: PendingMediaAttachment[];
+    // `updated_at` of the server row the offline edit started from.
+    baseUpdatedAt?: string;
+    conflict?: QueueItemConflict;
+    // Offline edits folded into this UPDATE by `reduceQueue` (1 when absent).
+    editCount?: number;
 }
 
+export const PENDING_MEDIA_PREFIX = 'offline-media:';
+
 export const isTempId = (value: string): boolean => value.startsWith('temp-');
 
-const getItemTargetId = (item: OfflineQueueItem): string => {
-    if (item.action === 'DELETE') {
+export const isLifecycleAction = (action: OfflineAction): action is OfflineLifecycleAction => (
+    action === 'DELETE' || action === 'RESTORE' || action === 'PURGE'
+);
+
+export const isPendingMediaRef = (value?: string): boolean => !!value && value.startsWith(PENDING_MEDIA_PREFIX);
+
+export const toPendingMediaRef = (mediaId: string): string => `${PENDING_MEDIA_PREFIX}${mediaId}`;
+
+export const getPendingMediaId = (ref: string): string => ref.slice(PENDING_MEDIA_PREFIX.length);
+
+export const collectPendingMedia = (observation: Observation): PendingMediaAttachment[] => {
+    const attachments: PendingMediaAttachment[] = [];
+    const fields: PendingMediaField[] = ['photo', 'sound'];
+    for (const field of fields) {
+        const value = observation[field];
+        if (value && isPendingMediaRef(value)) {
+            attachments.push({ field, mediaId: getPendingMediaId(value) });
+        }
+    }
+    return attachments;
+};
+
+export const getItemTargetId = (item: OfflineQueueItem): string => {
+    if (isLifecycleAction(item.action)) {
         return String((item.payload as { id: string }).id || '');
     }
     return String((item.payload as Observation).id || '');
 };
 
+export const getQueueItemEditCount = (item: OfflineQueueItem): number => item.editCount ?? 1;
+
 const mergeObservation = (base: Observation, next: Observation): Observation => ({
     ...base,
     ...next,
@@ -27,52 +82,79 @@ const mergeObservation = (base: Observation, next: Observation): Observation =>
     }
 });
 
+/**
+ * Collapses the queue to one data action (INSERT/UPDATE) and one recycle-bin
+ * action (DELETE/RESTORE/PURGE) per observation. Deletions are soft, so edits
+ * made before a deletion are kept; data actions run first so a row always
+ * exists before it is moved to or from the bin. Merged edits keep the timestamp
+ * of the latest one and their count, which the edit history records on sync.
+ */
 export const reduceQueue = (queue: OfflineQueueItem[]): OfflineQueueItem[] => {
-    const reduced = new Map<string, OfflineQueueItem>();
+    const dataActions = new Map<string, OfflineQueueItem>();
+    const lifecycleActions = new Map<string, OfflineQueueItem>();
 
     for (const item of queue) {
         const key = getItemTargetId(item);
         if (!key) continue;
 
-        const existing = reduced.get(key);
-        if (!existing) {
-            reduced.set(key, item);
-            continue;
-        }
+        if (isLifecycleAction(item.action)) {
+            const existingLifecycle = lifecycleActions.get(key);
 
-        if (item.action === 'INSERT') {
-            reduced.set(key, item);
-            continue;
-        }
+            if (item.action === 'PURGE') {
+                const pendingData = dataActions.get(key);
+                dataActions.delete(key);
+                if (pendingData?.action === 'INSERT') {
+                    // Created and purged offline: the server never needs to hear about it.
+                    lifecycleActions.delete(key);
+                } else {
+                    lifecycleActions.set(key, item);
+                }
+                continue;
+            }
 
-        if (item.action === 'UPDATE') {
-            if (existing.action === 'INSERT' || existing.action === 'UPDATE') {
-                const mergedPayload = mergeObservation(existing.payload as Observation, item.payload as Observation);
-                reduced.set(key, {
-                    ...item,
-                    action: existing.action,
-                    payload: mergedPayload
-                });
+            if (existingLifecycle?.action === 'PURGE') continue;
+
+            if (existingLifecycle && existingLifecycle.action !== item.action) {
+                // A restore cancels a pending deletion (and vice versa).
+                lifecycleActions.delete(key);
             } else {
-                reduced.set(key, item);
+                lifecycleActions.set(key, item);
             }
             continue;
         }
 
-        if (item.action === 'DELETE') {
-            if (existing.action === 'INSERT') {
-                reduced.delete(key);
-            } else {
-                reduced.set(key, item);
-            }
+        const existing = dataActions.get(key);
+        if (!existing || item.action === 'INSERT') {
+            dataActions.set(key, item);
+            continue;
         }
+
+        const mergedPayload = mergeObservation(existing.payload as Observation, item.payload as Observation);
+        const media = collectPendingMedia(mergedPayload);
+        dataActions.set(key, {
+            ...item,
+            action: existing.action,
+            payload: mergedPayload,
+            media: media.length > 0 ? media : undefined,
+            // The first edit carries the server version all later edits build on.
+            baseUpdatedAt: existing.baseUpdatedAt ?? item.baseUpdatedAt,
+            conflict: existing.conflict,
+            // Edits merged into a pending insert are part of the creation, not revisions.
+            editCount: existing.action === 'UPDATE'
+                ? getQueueItemEditCount(existing) + getQueueItemEditCount(item)
+                : undefined
+        });
     }
 
-    return Array.from(reduced.values()).sort((a, b) => a.timestamp - b.timestamp);
+    const byTimestamp = (a: OfflineQueueItem, b: OfflineQueueItem) => a.timestamp - b.timestamp;
+    return [
+        ...Array.from(dataActions.values()).sort(byTimestamp),
+        ...Array.from(lifecycleActions.values()).sort(byTimestamp)
+    ];
 };
 
 export const mapQueueItemIds = (item: OfflineQueueItem, idMap: Map<string, string>): OfflineQueueItem => {
-    if (item.action === 'DELETE') {
+    if (isLifecycleAction(item.action)) {
         const deletePayload = item.payload as { id: string };
         return {
             ...item,
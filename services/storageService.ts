@@ -1,14 +1,47 @@
 import { supabase } from '../supabaseClient';
-import { Observation } from '../types';
+import { Observation, ValidationStatus } from '../types';
 import { sanitizeCachedMediaValue, sanitizeCachedMediaValueWithTracking } from './storageCacheUtils';
-import { OfflineAction, OfflineQueueItem, isTempId, mapQueueItemIds, reduceQueue } from './storageQueueUtils';
+import {
+    OfflineAction,
+    OfflineQueueItem,
+    PendingMediaAttachment,
+    PendingMediaField,
+    collectPendingMedia,
+    getItemTargetId,
+    getPendingMediaId,
+    getQueueItemEditCount,
+    isLifecycleAction,
+    isPendingMediaRef,
+    isTempId,
+    mapQueueItemIds,
+    reduceQueue,
+    toPendingMediaRef
+} from './storageQueueUtils';
 import { isUuid } from '../utils/uuidUtils';
+import { ObservationFieldDiff, diffObservations } from '../utils/observationDiffUtils';
+import { sanitizeGeometry } from '../utils/geometryUtils';
+import { deleteOfflineRecords, isOfflineDatabaseAvailable, listOfflineRecordKeys, readOfflineRecord, writeOfflineRecord } from './offlineDatabase';
+import { ensureStorageNamespace, getStorageNamespace } from './storageNamespace';
+import { getSessionScopedKeys, processSessionQueue } from './sessionService';
+
+export { setStorageNamespace } from './storageNamespace';
 
 const LEGACY_QUEUE_KEY = 'offline_sync_queue';
 const LEGACY_LOCAL_CACHE_KEY = 'local_observations_cache';
 const QUEUE_KEY_PREFIX = 'offline_sync_queue';
 const LOCAL_CACHE_KEY_PREFIX = 'local_observations_cache';
-const STORAGE_NAMESPACE_ERROR = "Storage namespace absent. Réessayez après authentification.";
+const TRASH_CACHE_KEY_PREFIX = 'local_trash_cache';
+const OFFLINE_MEDIA_KEY_PREFIX = 'offline_media';
+const SYNC_CURSOR_KEY_PREFIX = 'observations_sync_cursor';
+// updated_at is set when a transaction starts, so rows committed slightly later can
+// carry an older timestamp than the cursor: re-read a small window on every delta.
+const DELTA_SYNC_OVERLAP_MS = 5 * 60 * 1000;
+// A periodic full reload catches anything a delta cannot see (rows purged server-side).
+const FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+// Unreferenced media younger than this may belong to a form that is still being saved.
+const ORPHAN_MEDIA_GRACE_MS = 60 * 60 * 1000;
+export const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
 
 export interface ObservationLoadResult {
     observations: Observation[];
@@ -19,41 +52,85 @@ export interface ObservationLoadResult {
 export interface OfflineSyncResult {
     processed: number;
     failed: number;
+    conflicts: number;
     failureReasons: string[];
 }
 
+export interface SyncConflict {
+    queueItemId: string;
+    local: Observation;
+    remote: Observation;
+    diffs: ObservationFieldDiff[];
+}
+
+export interface BulkUpdateResult {
+    updated: Observation[];
+    failed: Observation[];
+}
+
 interface PersistenceOptions {
     skipCache?: boolean;
 }
 
-let storageNamespace: string | null = null;
+interface SyncCursor {
+    lastUpdatedAt: string;
+    fullSyncAt: number;
+}
+
+interface OfflineMediaRecord {
+    data: ArrayBuffer;
+    contentType: string;
+    field: PendingMediaField;
+}
+
+const localStorageMigrations = new Map<string, Promise<void>>();
+let offlineWriteChain: Promise<void> = Promise.resolve();
 
 const scopedKey = (keyPrefix: string, userId: string): string => `${keyPrefix}:${userId}`;
 const getQueueScopedKey = (userId: string): string => scopedKey(QUEUE_KEY_PREFIX, userId);
 const getCacheScopedKey = (userId: string): string => scopedKey(LOCAL_CACHE_KEY_PREFIX, userId);
-
-const ensureStorageNamespace = (): string => {
-    if (!storageNamespace) {
-        throw new Error(STORAGE_NAMESPACE_ERROR);
-    }
-    return storageNamespace;
-};
+const getTrashScopedKey = (userId: string): string => scopedKey(TRASH_CACHE_KEY_PREFIX, userId);
+const getSyncCursorScopedKey = (userId: string): string => scopedKey(SYNC_CURSOR_KEY_PREFIX, userId);
+const getMediaScopedPrefix = (userId: string): string => `${scopedKey(OFFLINE_MEDIA_KEY_PREFIX, userId)}:`;
+const getMediaScopedKey = (userId: string, mediaId: string): string => `${getMediaScopedPrefix(userId)}${mediaId}`;
 
 const COUNT_BREAKDOWN_COLUMNS = ['male_count', 'female_count', 'unidentified_count'] as const;
-
-const stripCountBreakdownColumns = (row: Record<string, any>): Record<string, any> => {
+// Phase 9: tells the edit-history trigger when and how a write was made.
+const EDIT_ATTRIBUTION_COLUMNS = ['edited_at', 'edit_source', 'offline_edit_count'] as const;
+// Phase 10: link to the sampling session (sortie).
+const SESSION_COLUMNS = ['session_id'] as const;
+// Phase 13: TAXREF / GBIF / iNaturalist taxon identifiers.
+const TAXON_REFERENCE_COLUMNS = ['cd_nom', 'cd_ref', 'gbif_taxon_id', 'inat_taxon_id'] as const;
+// Phase 14: red-list statuses per scale.
+const RED_LIST_COLUMNS = ['red_lists'] as const;
+// Phase 15: protection, directive annexes and ZNIEFF lists.
+const REGULATORY_COLUMNS = ['regulatory_statuses'] as const;
+// Phase 16: exceptional-record flag.
+const EXCEPTIONAL_COLUMNS = ['exceptional'] as const;
+// Phase 17: identification rank and aggregate members.
+const IDENTIFICATION_COLUMNS = ['identification_rank', 'candidate_latin_names'] as const;
+// Phase 18: identification confidence and review.
+const VALIDATION_COLUMNS = ['confidence', 'validation_status', 'validation_comment', 'validated_by', 'validated_at'] as const;
+// Phase 19: GPS accuracy radius and line / polygon geometry.
+const GEOMETRY_COLUMNS = ['gps_accuracy', 'geometry'] as const;
+const OPTIONAL_COLUMN_GROUPS: readonly (readonly string[])[] = [
+    COUNT_BREAKDOWN_COLUMNS, EDIT_ATTRIBUTION_COLUMNS, SESSION_COLUMNS, TAXON_REFERENCE_COLUMNS, RED_LIST_COLUMNS, REGULATORY_COLUMNS,
+    EXCEPTIONAL_COLUMNS, IDENTIFICATION_COLUMNS, VALIDATION_COLUMNS, GEOMETRY_COLUMNS
+];
+
+const stripColumns = (row: Record<string, any>, columns: readonly string[]): Record<string, any> => {
     const next = { ...row };
-    for (const key of COUNT_BREAKDOWN_COLUMNS) {
+    for (const key of columns) {
         delete next[key];
     }
     return next;
 };
 
-const isMissingCountBreakdownColumnError = (error: any): boolean => {
+const isMissingColumnError = (error: any, columns: readonly string[]): boolean => {
     const combined = `${error?.message || ''} ${error?.details || ''} ${error?.hint || ''}`.toLowerCase();
     const code = String(error?.code || '').toUpperCase();
-    const mentionsCountColumn = COUNT_BREAKDOWN_COLUMNS.some(column => combined.includes(column));
-    if (!mentionsCountColumn) return false;
+    const mentionsColumn = columns.some(column => combined.includes(column));
+    if (!mentionsColumn) return false;
 
     return (
         code === '42703' // undefined_column
@@ -64,6 +141,46 @@ const isMissingCountBreakdownColumnError = (error: any): boolean => {
     );
 };
 
+/**
+ * Runs an insert/update/upsert, retrying without each optional column group
+ * the database does not have yet (older schemas without the migrations).
+ */
+const writeWithLegacyColumnFallback = async <T extends { error: any },>(
+    row: Record<string, any>,
+    write: (row: Record<string, any>) => PromiseLike<T>
+): Promise<T> => {
+    let remainingGroups = [...OPTIONAL_COLUMN_GROUPS];
+    let currentRow = row;
+    let result = await write(currentRow);
+
+    while (result.error) {
+        const missingGroup = remainingGroups.find(columns => isMissingColumnError(result.error, columns));
+        if (!missingGroup) break;
+        remainingGroups = remainingGroups.filter(columns => columns !== missingGroup);
+        currentRow = stripColumns(currentRow, missingGroup);
+        result = await write(currentRow);
+    }
+
+    return result;
+};
+
+type EditSource = 'online' | 'offline';
+
+const withEditAttribution = (
+    row: Record<string, any>,
+    source: EditSource,
+    editedAt: number,
+    offlineEditCount?: number
+): Record<string, any> => ({
+    ...row,
+    edited_at: new Date(editedAt).toISOString(),
+    edit_source: source,
+    offline_edit_count: offlineEditCount ?? null
+});
+
+// Databases without the phase 7 migration have no deleted_at column (hard deletes, full reloads only).
+const isMissingSoftDeleteColumnError = (error: any): boolean => isMissingColumnError(error, ['deleted_at']);
+
 const mapToObservation = (row: any): Observation => ({
     id: row.id,
     speciesName: row.species_name,
@@ -77,6 +194,8 @@ const mapToObservation = (row: any): Observation => ({
     unidentifiedCount: row.unidentified_count ?? undefined,
     location: row.location,
     gps: { lat: row.gps_lat, lon: row.gps_lon },
+    gpsAccuracy: row.gps_accuracy ?? undefined,
+    geometry: sanitizeGeometry(row.geometry),
     municipality: row.municipality,
     department: row.department,
     country: row.country,
@@ -91,7 +210,24 @@ const mapToObservation = (row: any): Observation => ({
     comportement: row.comportement,
     photo: row.photo_url,
     wikipediaImage: row.wikipedia_image,
-    sound: row.sound_url
+    sound: row.sound_url,
+    updatedAt: row.updated_at ?? undefined,
+    deletedAt: row.deleted_at ?? undefined,
+    sessionId: row.session_id ?? undefined,
+    cdNom: row.cd_nom ?? undefined,
+    cdRef: row.cd_ref ?? undefined,
+    gbifTaxonId: row.gbif_taxon_id ?? undefined,
+    inatTaxonId: row.inat_taxon_id ?? undefined,
+    redLists: Array.isArray(row.red_lists) ? row.red_lists : undefined,
+    regulatoryStatuses: Array.isArray(row.regulatory_statuses) ? row.regulatory_statuses : undefined,
+    exceptional: row.exceptional ? true : undefined,
+    identificationRank: row.identification_rank ?? undefined,
+    candidateLatinNames: Array.isArray(row.candidate_latin_names) && row.candidate_latin_names.length ? row.candidate_latin_names : undefined,
+    confidence: row.confidence ?? undefined,
+    validationStatus: row.validation_status ?? undefined,
+    validationComment: row.validation_comment || undefined,
+    validatedBy: row.validated_by ?? undefined,
+    validatedAt: row.validated_at ?? undefined
 });
 
 const mapToRow = (obs: Observation, userId: string): Record<string, any> => {
@@ -109,6 +245,8 @@ const mapToRow = (obs: Observation, userId: string): Record<string, any> => {
         location: obs.location,
         gps_lat: obs.gps.lat,
         gps_lon: obs.gps.lon,
+        gps_accuracy: obs.gpsAccuracy ?? null,
+        geometry: obs.geometry ?? null,
         municipality: obs.municipality,
         department: obs.department,
         country: obs.country,
@@ -123,7 +261,22 @@ const mapToRow = (obs: Observation, userId: string): Record<string, any> => {
         comportement: obs.comportement,
         photo_url: obs.photo,
         wikipedia_image: obs.wikipediaImage,
-        sound_url: obs.sound
+        sound_url: obs.sound,
+        session_id: obs.sessionId ?? null,
+        cd_nom: obs.cdNom ?? null,
+        cd_ref: obs.cdRef ?? null,
+        gbif_taxon_id: obs.gbifTaxonId ?? null,
+        inat_taxon_id: obs.inatTaxonId ?? null,
+        red_lists: obs.redLists?.length ? obs.redLists : null,
+        regulatory_statuses: obs.regulatoryStatuses?.length ? obs.regulatoryStatuses : null,
+        exceptional: obs.exceptional ?? false,
+        identification_rank: obs.identificationRank ?? null,
+        candidate_latin_names: obs.candidateLatinNames?.length ? obs.candidateLatinNames : null,
+        confidence: obs.confidence ?? null,
+        validation_status: obs.validationStatus ?? ValidationStatus.PENDING,
+        validation_comment: obs.validationComment ?? null,
+        validated_by: obs.validatedBy ?? null,
+        validated_at: obs.validatedAt ?? null
     };
 
     if (isUuid(obs.id)) {
@@ -142,77 +295,202 @@ const parseJson = <T,>(raw: string | null, fallback: T): T => {
     }
 };
 
-export const setStorageNamespace = (userId: string | null): void => {
-    storageNamespace = userId?.trim() || null;
-};
-
-export const clearScopedOfflineData = (userId?: string): void => {
-    const targetUserId = (userId ?? storageNamespace ?? '').trim();
+export const clearScopedOfflineData = async (userId?: string): Promise<void> => {
+    const targetUserId = (userId ?? getStorageNamespace() ?? '').trim();
     if (!targetUserId) return;
 
-    localStorage.removeItem(getQueueScopedKey(targetUserId));
-    localStorage.removeItem(getCacheScopedKey(targetUserId));
+    for (const key of [getQueueScopedKey(targetUserId), getCacheScopedKey(targetUserId)]) {
+        localStorage.removeItem(key);
+        localStorage.removeItem(getFallbackKey(key));
+    }
+    localStorageMigrations.delete(targetUserId);
+
+    try {
+        const mediaKeys = await listOfflineRecordKeys(getMediaScopedPrefix(targetUserId));
+        await deleteOfflineRecords([
+            getQueueScopedKey(targetUserId),
+            getCacheScopedKey(targetUserId),
+            getTrashScopedKey(targetUserId),
+            getSyncCursorScopedKey(targetUserId),
+            ...getSessionScopedKeys(targetUserId),
+            ...mediaKeys
+        ]);
+    } catch (e) {
+        console.warn('IndexedDB cleanup failed:', e);
+    }
 };
 
-export const migrateLegacyLocalStorageToScoped = (userId: string): void => {
-    const normalizedUserId = userId.trim();
-    if (!normalizedUserId) return;
+// Written only when IndexedDB is missing or a write to it fails: newer than the IndexedDB record.
+const getFallbackKey = (key: string): string => `offline_fallback:${key}`;
+
+// Queue items and cached observations both carry an id; queue items also a timestamp.
+type MigratedRecord = { id?: string; timestamp?: number };
 
-    const scopedQueueKey = getQueueScopedKey(normalizedUserId);
-    const scopedCacheKey = getCacheScopedKey(normalizedUserId);
+const readLegacyArray = (sourceKeys: string[]): MigratedRecord[] => {
+    for (const sourceKey of sourceKeys) {
+        const legacyValue = parseJson<MigratedRecord[]>(localStorage.getItem(sourceKey), []);
+        if (Array.isArray(legacyValue) && legacyValue.length > 0) return legacyValue;
+    }
+    return [];
+};
+
+/**
+ * Moves a localStorage entry into IndexedDB. A cache already in IndexedDB wins,
+ * as it can be reloaded from the server; a queue is merged with it so that no
+ * action saved before the migration is dropped.
+ */
+const moveLocalStorageEntryToOfflineDatabase = async (
+    sourceKeys: string[],
+    targetKey: string,
+    mergeQueue = false
+): Promise<void> => {
+    const existing = await readOfflineRecord<MigratedRecord[]>(targetKey);
+    const existingItems = Array.isArray(existing) ? existing : [];
+    const legacyItems = readLegacyArray(sourceKeys);
+
+    if (legacyItems.length > 0 && (existingItems.length === 0 || mergeQueue)) {
+        const existingIds = new Set(existingItems.map(item => item.id));
+        const merged = [...existingItems, ...legacyItems.filter(item => !existingIds.has(item.id))];
+        // Replay order.
+        if (mergeQueue) merged.sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+        await writeOfflineRecord(targetKey, merged);
+    }
 
-    const legacyQueue = parseJson<OfflineQueueItem[]>(localStorage.getItem(LEGACY_QUEUE_KEY), []);
-    const legacyCache = parseJson<Observation[]>(localStorage.getItem(LEGACY_LOCAL_CACHE_KEY), []);
+    for (const sourceKey of sourceKeys) {
+        localStorage.removeItem(sourceKey);
+    }
+};
 
-    if (!localStorage.getItem(scopedQueueKey) && Array.isArray(legacyQueue) && legacyQueue.length > 0) {
-        localStorage.setItem(scopedQueueKey, JSON.stringify(legacyQueue));
+const runLocalStorageMigration = async (userId: string): Promise<void> => {
+    // Without IndexedDB, localStorage stays the store.
+    if (!isOfflineDatabaseAvailable()) return;
+    try {
+        // Scoped localStorage entries win over the pre-namespace legacy ones.
+        await moveLocalStorageEntryToOfflineDatabase(
+            [getQueueScopedKey(userId), LEGACY_QUEUE_KEY],
+            getQueueScopedKey(userId),
+            true
+        );
+        await moveLocalStorageEntryToOfflineDatabase(
+            [getCacheScopedKey(userId), LEGACY_LOCAL_CACHE_KEY],
+            getCacheScopedKey(userId)
+        );
+    } catch (e) {
+        console.warn('Offline data migration to IndexedDB failed, localStorage kept as is:', e);
+        localStorageMigrations.delete(userId);
     }
-    if (!localStorage.getItem(scopedCacheKey) && Array.isArray(legacyCache) && legacyCache.length > 0) {
-        localStorage.setItem(scopedCacheKey, JSON.stringify(legacyCache));
+};
+
+/**
+ * Moves the offline queue and cache still held in localStorage (legacy unscoped keys
+ * or `<prefix>:<userId>` keys) into IndexedDB. Idempotent and memoized per user: every
+ * scoped read awaits it, so callers do not need to wait for it explicitly.
+ */
+export const migrateLegacyLocalStorageToScoped = (userId: string): Promise<void> => {
+    const normalizedUserId = userId.trim();
+    if (!normalizedUserId) return Promise.resolve();
+
+    let pending = localStorageMigrations.get(normalizedUserId);
+    if (!pending) {
+        pending = runLocalStorageMigration(normalizedUserId);
+        localStorageMigrations.set(normalizedUserId, pending);
     }
+    return pending;
+};
 
-    localStorage.removeItem(LEGACY_QUEUE_KEY);
-    localStorage.removeItem(LEGACY_LOCAL_CACHE_KEY);
+// IndexedDB writes are asynchronous: serialize read-modify-write cycles so that
+// concurrent saves (import workers, startup enrichment) cannot overwrite each other.
+const withOfflineWriteLock = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = offlineWriteChain.then(task, task);
+    offlineWriteChain = run.then(() => undefined, () => undefined);
+    return run;
 };
 
-const getScopedKeys = (): { queueKey: string; cacheKey: string } => {
+const getScopedKeys = async (): Promise<{ queueKey: string; cacheKey: string }> => {
     const userId = ensureStorageNamespace();
+    await migrateLegacyLocalStorageToScoped(userId);
     return {
         queueKey: getQueueScopedKey(userId),
         cacheKey: getCacheScopedKey(userId)
     };
 };
 
-const getQueue = (): OfflineQueueItem[] => {
-    const { queueKey } = getScopedKeys();
-    const queue = parseJson<OfflineQueueItem[]>(localStorage.getItem(queueKey), []);
-    return Array.isArray(queue) ? queue : [];
+const readScopedArray = async <T,>(key: string): Promise<T[]> => {
+    const fallback = localStorage.getItem(getFallbackKey(key));
+    if (fallback !== null || !isOfflineDatabaseAvailable()) {
+        const value = parseJson<T[]>(fallback, []);
+        return Array.isArray(value) ? value : [];
+    }
+    try {
+        const value = await readOfflineRecord<T[]>(key);
+        return Array.isArray(value) ? value : [];
+    } catch (e) {
+        console.warn(`IndexedDB read failed for ${key}:`, e);
+        return [];
+    }
+};
+
+/**
+ * Saves to IndexedDB, or to localStorage when IndexedDB is missing or the write
+ * fails, so that offline data survives a reload. Throws when neither works.
+ */
+const writeScopedArray = async (key: string, value: unknown[]): Promise<void> => {
+    if (isOfflineDatabaseAvailable()) {
+        try {
+            await writeOfflineRecord(key, value);
+            localStorage.removeItem(getFallbackKey(key));
+            return;
+        } catch (e) {
+            console.warn(`IndexedDB write failed for ${key}, saved to localStorage instead:`, e);
+        }
+    }
+    localStorage.setItem(getFallbackKey(key), JSON.stringify(value));
 };
 
-const setQueue = (queue: OfflineQueueItem[]) => {
-    const { queueKey } = getScopedKeys();
-    localStorage.setItem(queueKey, JSON.stringify(queue));
+const getQueue = async (): Promise<OfflineQueueItem[]> => {
+    const { queueKey } = await getScopedKeys();
+    return readScopedArray<OfflineQueueItem>(queueKey);
 };
 
-const addToQueue = (action: OfflineAction, payload: Observation | { id: string }) => {
-    const queue = getQueue();
-    queue.push({
+const setQueue = async (queue: OfflineQueueItem[]): Promise<void> => {
+    const { queueKey } = await getScopedKeys();
+    try {
+        await writeScopedArray(queueKey, queue);
+    } catch (e) {
+        console.warn('Offline queue not saved:', e);
+        window.dispatchEvent(new CustomEvent('storage-quota-exceeded'));
+    }
+};
+
+const createQueueItem = (action: OfflineAction, payload: Observation | { id: string }): OfflineQueueItem => {
+    const media = isLifecycleAction(action) ? [] : collectPendingMedia(payload as Observation);
+    const baseUpdatedAt = action === 'UPDATE' ? (payload as Observation).updatedAt : undefined;
+    return {
         id: crypto.randomUUID(),
         action,
         payload,
-        timestamp: Date.now()
-    });
-    setQueue(queue);
+        timestamp: Date.now(),
+        ...(media.length > 0 ? { media } : {}),
+        ...(baseUpdatedAt ? { baseUpdatedAt } : {})
+    };
 };
 
-const getLocalCache = (): Observation[] => {
-    const { cacheKey } = getScopedKeys();
-    return parseJson<Observation[]>(localStorage.getItem(cacheKey), []);
+// Queues several actions in a single write: the batch is saved or lost as a whole.
+const addBatchToQueue = (action: OfflineAction, payloads: (Observation | { id: string })[]): Promise<void> => withOfflineWriteLock(async () => {
+    const queue = await getQueue();
+    await setQueue([...queue, ...payloads.map(payload => createQueueItem(action, payload))]);
+});
+
+const addToQueue = (action: OfflineAction, payload: Observation | { id: string }): Promise<void> => addBatchToQueue(action, [payload]);
+
+const getLocalCache = async (): Promise<Observation[]> => {
+    const { cacheKey } = await getScopedKeys();
+    return readScopedArray<Observation>(cacheKey);
 };
 
-const setLocalCache = (observations: Observation[]) => {
+const setLocalCache = async (observations: Observation[]): Promise<void> => {
     try {
-        const { cacheKey } = getScopedKeys();
+        const { cacheKey } = await getScopedKeys();
         let strippedMediaCount = 0;
         const lightweight = observations.map(observation => ({
             ...observation,
@@ -228,47 +506,240 @@ const setLocalCache = (observations: Observation[]) => {
             })(),
             wikipediaImage: sanitizeCachedMediaValue(observation.wikipediaImage)
         }));
-        localStorage.setItem(cacheKey, JSON.stringify(lightweight));
+        await writeScopedArray(cacheKey, lightweight);
         if (strippedMediaCount > 0) {
             window.dispatchEvent(new CustomEvent('media-stripped-offline', { detail: { count: strippedMediaCount } }));
         }
     } catch (e) {
-        console.warn('localStorage quota exceeded, cache not saved:', e);
+        console.warn('Storage quota exceeded, cache not saved:', e);
         window.dispatchEvent(new CustomEvent('storage-quota-exceeded'));
     }
 };
 
-const replaceObservationIdInCache = (oldId: string, newId: string) => {
-    const cache = getLocalCache();
-    const updated = cache.map(obs => (obs.id === oldId ? { ...obs, id: newId } : obs));
-    setLocalCache(updated);
-};
+const patchObservationInCache = (id: string, patch: Partial<Observation>): Promise<void> => withOfflineWriteLock(async () => {
+    const cache = await getLocalCache();
+    const updated = cache.map(obs => (obs.id === id ? { ...obs, ...patch } : obs));
+    await setLocalCache(updated);
+});
 
-const upsertObservationInCache = (observation: Observation) => {
-    const cache = getLocalCache();
+const upsertObservationInCache = (observation: Observation): Promise<void> => withOfflineWriteLock(async () => {
+    const cache = await getLocalCache();
     const index = cache.findIndex(obs => obs.id === observation.id);
     if (index === -1) {
-        setLocalCache([observation, ...cache]);
+        await setLocalCache([observation, ...cache]);
         return;
     }
 
     const next = [...cache];
     next[index] = observation;
-    setLocalCache(next);
+    await setLocalCache(next);
+});
+
+const removeObservationsFromCache = (ids: string[]): Promise<void> => withOfflineWriteLock(async () => {
+    if (ids.length === 0) return;
+    const removed = new Set(ids);
+    const cache = await getLocalCache();
+    await setLocalCache(cache.filter(obs => !removed.has(obs.id)));
+});
+
+const removeObservationFromCache = (id: string): Promise<void> => removeObservationsFromCache([id]);
+
+const getTrashCache = async (): Promise<Observation[]> => {
+    const userId = ensureStorageNamespace();
+    return readScopedArray<Observation>(getTrashScopedKey(userId));
+};
+
+const setTrashCache = async (observations: Observation[]): Promise<void> => {
+    const userId = ensureStorageNamespace();
+    try {
+        await writeOfflineRecord(getTrashScopedKey(userId), observations);
+    } catch (e) {
+        console.warn('IndexedDB write failed, recycle bin not saved:', e);
+        window.dispatchEvent(new CustomEvent('storage-quota-exceeded'));
+    }
 };
 
-export const bulkUpsertObservationsInCache = (newObservations: Observation[]): void => {
-    const cache = getLocalCache();
+/**
+ * Moves observations from the cache to the local recycle bin. `deleted` entries
+ * carry their `deletedAt`; ids missing from the cache are ignored.
+ */
+const moveObservationsToTrash = (deleted: { id: string; deletedAt: string; observation?: Observation }[]): Promise<void> => withOfflineWriteLock(async () => {
+    if (deleted.length === 0) return;
+    const cache = await getLocalCache();
+    const trash = await getTrashCache();
+    const cachedById = new Map(cache.map(obs => [obs.id, obs] as [string, Observation]));
+    const trashById = new Map(trash.map(obs => [obs.id, obs] as [string, Observation]));
+
+    for (const entry of deleted) {
+        const observation = entry.observation ?? cachedById.get(entry.id) ?? trashById.get(entry.id);
+        cachedById.delete(entry.id);
+        if (observation) {
+            trashById.set(entry.id, { ...observation, deletedAt: entry.deletedAt });
+        }
+    }
+
+    await setLocalCache(Array.from(cachedById.values()));
+    await setTrashCache(Array.from(trashById.values()));
+});
+
+const removeObservationsFromTrash = (ids: string[]): Promise<void> => withOfflineWriteLock(async () => {
+    const removed = new Set(ids);
+    const trash = await getTrashCache();
+    await setTrashCache(trash.filter(obs => !removed.has(obs.id)));
+});
+
+export const bulkUpsertObservationsInCache = (newObservations: Observation[]): Promise<void> => withOfflineWriteLock(async () => {
+    const cache = await getLocalCache();
     const mergedById = new Map(cache.map(obs => [obs.id, obs] as [string, Observation]));
     for (const obs of newObservations) {
         mergedById.set(obs.id, obs);
     }
-    setLocalCache(Array.from(mergedById.values()));
+    await setLocalCache(Array.from(mergedById.values()));
+});
+
+/**
+ * Detaches a deleted session from its observations in the cache and in queued
+ * writes. The server sets session_id to null itself, but a queued INSERT/UPDATE
+ * still carrying the id would break the foreign key once the session is gone.
+ */
+export const detachSessionFromObservations = (sessionId: string): Promise<void> => withOfflineWriteLock(async () => {
+    const detach = (obs: Observation): Observation => (obs.sessionId === sessionId ? { ...obs, sessionId: undefined } : obs);
+
+    const cache = await getLocalCache();
+    if (cache.some(obs => obs.sessionId === sessionId)) {
+        await setLocalCache(cache.map(detach));
+    }
+
+    const queue = await getQueue();
+    const isAttachedWrite = (item: OfflineQueueItem) => !isLifecycleAction(item.action) && (item.payload as Observation).sessionId === sessionId;
+    if (queue.some(isAttachedWrite)) {
+        await setQueue(queue.map(item => (isAttachedWrite(item) ? { ...item, payload: detach(item.payload as Observation) } : item)));
+    }
+});
+
+const readSyncCursor = async (userId: string): Promise<SyncCursor | null> => {
+    try {
+        return (await readOfflineRecord<SyncCursor>(getSyncCursorScopedKey(userId))) ?? null;
+    } catch (e) {
+        console.warn('IndexedDB read failed for sync cursor:', e);
+        return null;
+    }
+};
+
+const writeSyncCursor = async (userId: string, cursor: SyncCursor | null): Promise<void> => {
+    try {
+        if (cursor) {
+            await writeOfflineRecord(getSyncCursorScopedKey(userId), cursor);
+        } else {
+            await deleteOfflineRecords([getSyncCursorScopedKey(userId)]);
+        }
+    } catch (e) {
+        console.warn('IndexedDB write failed for sync cursor:', e);
+    }
+};
+
+const getLatestUpdatedAt = (rows: any[], fallback: string): string => {
+    return rows.reduce<string>((latest, row) => {
+        if (!row.updated_at) return latest;
+        return new Date(row.updated_at).getTime() > new Date(latest).getTime() ? row.updated_at : latest;
+    }, fallback);
+};
+
+const sortByDateDesc = (observations: Observation[]): Observation[] => {
+    return [...observations].sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+};
+
+// Observations with queued offline actions keep their local version until the queue is synced.
+const getPendingObservationIds = async (): Promise<Set<string>> => {
+    const queue = await getQueue();
+    return new Set(queue.map(getItemTargetId));
+};
+
+const fetchAllRemoteRows = async (userId: string): Promise<{ rows: any[]; hasTombstones: boolean }> => {
+    const { data, error } = await supabase
+        .from('observations')
+        .select('*')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('date', { ascending: false });
+
+    if (error && isMissingSoftDeleteColumnError(error)) {
+        const fallback = await supabase
+            .from('observations')
+            .select('*')
+            .eq('user_id', userId)
+            .order('date', { ascending: false });
+        if (fallback.error) throw fallback.error;
+        return { rows: fallback.data ?? [], hasTombstones: false };
+    }
+
+    if (error) throw error;
+    return { rows: data ?? [], hasTombstones: true };
+};
+
+const fetchChangedRemoteRows = async (userId: string, since: string): Promise<any[]> => {
+    const { data, error } = await supabase
+        .from('observations')
+        .select('*')
+        .eq('user_id', userId)
+        .gt('updated_at', since)
+        .order('updated_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+};
+
+/**
+ * Brings the scoped cache up to date with the server. Once a full load has
+ * stored a cursor, only rows whose updated_at moved since are pulled; rows
+ * carrying deleted_at are tombstones and leave the cache.
+ */
+const syncObservationsFromRemote = async (userId: string): Promise<Observation[]> => {
+    const cursor = await readSyncCursor(userId);
+    const pendingIds = await getPendingObservationIds();
+    const now = Date.now();
+
+    if (cursor && now - cursor.fullSyncAt < FULL_SYNC_INTERVAL_MS) {
+        const since = new Date(new Date(cursor.lastUpdatedAt).getTime() - DELTA_SYNC_OVERLAP_MS).toISOString();
+        const rows = await fetchChangedRemoteRows(userId, since);
+        const changed = rows
+            .filter(row => !row.deleted_at && !pendingIds.has(row.id))
+            .map(mapToObservation);
+        const deleted = rows
+            .filter(row => row.deleted_at && !pendingIds.has(row.id))
+            .map(row => ({ id: String(row.id), deletedAt: String(row.deleted_at), observation: mapToObservation(row) }));
+
+        await moveObservationsToTrash(deleted);
+        if (changed.length > 0) {
+            // Rows restored from another device leave the local recycle bin.
+            await removeObservationsFromTrash(changed.map(obs => obs.id));
+            await bulkUpsertObservationsInCache(changed);
+        }
+        await writeSyncCursor(userId, { ...cursor, lastUpdatedAt: getLatestUpdatedAt(rows, cursor.lastUpdatedAt) });
+        return sortByDateDesc(await getLocalCache());
+    }
+
+    const { rows, hasTombstones } = await fetchAllRemoteRows(userId);
+    const remote = rows.map(mapToObservation);
+    const observations = await withOfflineWriteLock(async () => {
+        const cache = await getLocalCache();
+        const pendingLocal = cache.filter(obs => pendingIds.has(obs.id));
+        const pendingLocalIds = new Set(pendingLocal.map(obs => obs.id));
+        const merged = sortByDateDesc([...pendingLocal, ...remote.filter(obs => !pendingLocalIds.has(obs.id))]);
+        await setLocalCache(merged);
+        return merged;
+    });
+
+    // Without tombstones a delta cannot see deletions: keep doing full loads.
+    await writeSyncCursor(userId, hasTombstones
+        ? { lastUpdatedAt: getLatestUpdatedAt(rows, new Date(0).toISOString()), fullSyncAt: now }
+        : null);
+    return observations;
 };
 
 export const getObservations = async (): Promise<ObservationLoadResult> => {
     ensureStorageNamespace();
-    const cached = getLocalCache();
+    const cached = await getLocalCache();
 
     if (!navigator.onLine) {
         return { observations: cached, source: 'cache' };
@@ -278,16 +749,7 @@ export const getObservations = async (): Promise<ObservationLoadResult> => {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) throw new Error('Utilisateur non authentifié');
 
-        const { data, error } = await supabase
-            .from('observations')
-            .select('*')
-            .eq('user_id', user.id)
-            .order('date', { ascending: false });
-
-        if (error) throw error;
-
-        const observations = data.map(mapToObservation);
-        setLocalCache(observations);
+        const observations = await syncObservationsFromRemote(user.id);
         return { observations, source: 'remote' };
     } catch (error: any) {
         console.error('Error fetching observations:', error);
@@ -315,40 +777,34 @@ export const saveObservation = async (
 
     if (!navigator.onLine) {
         const offlineObs = { ...observation, id: observation.id || `temp-${Date.now()}` };
-        addToQueue('INSERT', offlineObs);
+        await addToQueue('INSERT', offlineObs);
         if (!options.skipCache) {
-            upsertObservationInCache(offlineObs);
+            await upsertObservationInCache(offlineObs);
         }
         return offlineObs;
     }
 
-    const row = mapToRow(observation, userId);
+    const { observation: uploadable, uploaded } = await uploadPendingMedia(observation, userId);
+    const row = mapToRow(uploadable, userId);
 
-    let { data, error } = await supabase
+    const { data, error } = await writeWithLegacyColumnFallback(row, nextRow => supabase
         .from('observations')
-        .insert(row)
+        .insert(nextRow)
         .select()
-        .single();
-
-    if (error && isMissingCountBreakdownColumnError(error)) {
-        const legacyRow = stripCountBreakdownColumns(row);
-        const fallback = await supabase
-            .from('observations')
-            .insert(legacyRow)
-            .select()
-            .single();
-        data = fallback.data;
-        error = fallback.error;
-    }
+        .single());
 
     if (error) {
         console.error('Error saving observation:', error);
         throw new Error(error.message);
     }
 
+    if (uploaded.length > 0) {
+        await deleteOfflineMedia(userId, uploaded);
+    }
+
     const savedObs = mapToObservation(data);
     if (!options.skipCache) {
-        upsertObservationInCache(savedObs);
+        await upsertObservationInCache(savedObs);
     }
 
     return savedObs;
@@ -357,90 +813,272 @@ export const saveObservation = async (
 export const updateObservation = async (
     observation: Observation,
     options: PersistenceOptions = {}
-): Promise<void> => {
+): Promise<Observation> => {
     ensureStorageNamespace();
 
     const { data: { user } } = await supabase.auth.getUser();
     const userId = user?.id || 'offline-user';
 
     if (!navigator.onLine) {
-        addToQueue('UPDATE', observation);
+        await addToQueue('UPDATE', observation);
         if (!options.skipCache) {
-            upsertObservationInCache(observation);
+            await upsertObservationInCache(observation);
         }
-        return;
+        return observation;
     }
 
-    const row = mapToRow(observation, userId);
+    const { observation: persisted, uploaded } = await uploadPendingMedia(observation, userId);
+    const row = withEditAttribution(mapToRow(persisted, userId), 'online', Date.now());
 
-    let { error } = await supabase
+    // Read back so that updatedAt is the server's: a later offline edit uses it as its conflict base.
+    const { data, error } = await writeWithLegacyColumnFallback(row, nextRow => supabase
         .from('observations')
-        .update(row)
+        .update(nextRow)
         .eq('id', observation.id)
-        .eq('user_id', userId);
-
-    if (error && isMissingCountBreakdownColumnError(error)) {
-        const legacyRow = stripCountBreakdownColumns(row);
-        const fallback = await supabase
-            .from('observations')
-            .update(legacyRow)
-            .eq('id', observation.id)
-            .eq('user_id', userId);
-        error = fallback.error;
-    }
+        .eq('user_id', userId)
+        .select()
+        .single());
 
     if (error) {
         console.error('Error updating observation:', error);
         throw new Error(error.message);
     }
 
+    if (uploaded.length > 0) {
+        await deleteOfflineMedia(userId, uploaded);
+    }
+
+    const updatedObs = mapToObservation(data);
     if (!options.skipCache) {
-        upsertObservationInCache(observation);
+        await upsertObservationInCache(updatedObs);
     }
+
+    return updatedObs;
 };
 
-export const deleteObservation = async (id: string): Promise<void> => {
+/**
+ * Updates a batch of observations (bulk re-identification, re-tagging) and
+ * refreshes the cache once. Offline, the edits are queued together; online,
+ * each row is updated in turn and the ones that failed are returned.
+ */
+export const updateObservations = async (observations: Observation[]): Promise<BulkUpdateResult> => {
     ensureStorageNamespace();
-
-    const { data: { user } } = await supabase.auth.getUser();
-    const userId = user?.id || 'offline-user';
+    if (observations.length === 0) return { updated: [], failed: [] };
 
     if (!navigator.onLine) {
-        addToQueue('DELETE', { id });
+        await addBatchToQueue('UPDATE', observations);
+        await bulkUpsertObservationsInCache(observations);
+        return { updated: observations, failed: [] };
+    }
 
-        const currentCache = getLocalCache();
-        const updatedCache = currentCache.filter(obs => obs.id !== id);
-        setLocalCache(updatedCache);
-        return;
+    const updated: Observation[] = [];
+    const failed: Observation[] = [];
+    for (const observation of observations) {
+        try {
+            updated.push(await updateObservation(observation, { skipCache: true }));
+        } catch (error) {
+            console.error(`Failed to update observation ${observation.id}`, error);
+            failed.push(observation);
+        }
     }
+    await bulkUpsertObservationsInCache(updated);
+    return { updated, failed };
+};
 
+const purgeRemoteObservation = async (id: string, userId: string): Promise<void> => {
     const { error } = await supabase
         .from('observations')
         .delete()
         .eq('id', id)
         .eq('user_id', userId);
 
-    if (error) {
-        console.error('Error deleting observation:', error);
-        throw new Error(error.message);
+    if (error) throw error;
+};
+
+/**
+ * Marks the row with deleted_at instead of removing it, so other devices learn
+ * about the deletion through delta sync. Returns false when the database has no
+ * recycle bin yet and the row was removed for good.
+ */
+const softDeleteRemoteObservation = async (id: string, userId: string, deletedAt: string): Promise<boolean> => {
+    const { error } = await supabase
+        .from('observations')
+        .update({ deleted_at: deletedAt })
+        .eq('id', id)
+        .eq('user_id', userId);
+
+    if (error && isMissingSoftDeleteColumnError(error)) {
+        await purgeRemoteObservation(id, userId);
+        return false;
     }
 
-    const currentCache = getLocalCache();
-    const updatedCache = currentCache.filter(obs => obs.id !== id);
-    setLocalCache(updatedCache);
+    if (error) throw error;
+    return true;
 };
 
+const restoreRemoteObservation = async (id: string, userId: string): Promise<void> => {
+    const { error } = await supabase
+        .from('observations')
+        .update({ deleted_at: null })
+        .eq('id', id)
+        .eq('user_id', userId);
 
+    if (error) throw error;
+};
+
+export const deleteObservation = async (id: string): Promise<void> => {
+    ensureStorageNamespace();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const userId = user?.id || 'offline-user';
+    const deletedAt = new Date().toISOString();
 
-export const uploadPhoto = async (file: Blob): Promise<string> => {
     if (!navigator.onLine) {
-        throw new Error("Impossible d'envoyer une photo en mode hors-ligne. Veuillez réessayer une fois connecté.");
+        await addToQueue('DELETE', { id });
+        await moveObservationsToTrash([{ id, deletedAt }]);
+        return;
     }
 
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
+    let softDeleted: boolean;
+    try {
+        softDeleted = await softDeleteRemoteObservation(id, userId, deletedAt);
+    } catch (error: any) {
+        console.error('Error deleting observation:', error);
+        throw new Error(error?.message || String(error));
+    }
+
+    if (softDeleted) {
+        await moveObservationsToTrash([{ id, deletedAt }]);
+    } else {
+        await removeObservationFromCache(id);
+    }
+};
+
+/**
+ * Lists the recycle bin. Online, the server is the reference (minus pending
+ * offline restores/purges); offline, the local copy kept at deletion time is used.
+ */
+export const getDeletedObservations = async (): Promise<Observation[]> => {
+    ensureStorageNamespace();
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+    const isRecent = (obs: Observation) => !obs.deletedAt || new Date(obs.deletedAt).getTime() >= cutoff;
+
+    if (navigator.onLine) {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('Utilisateur non authentifié');
+
+            const { data, error } = await supabase
+                .from('observations')
+                .select('*')
+                .eq('user_id', user.id)
+                .not('deleted_at', 'is', null)
+                .order('deleted_at', { ascending: false });
+
+            if (error && isMissingSoftDeleteColumnError(error)) return [];
+            if (error) throw error;
+
+            const pendingIds = await getPendingObservationIds();
+            await withOfflineWriteLock(async () => {
+                const localPending = (await getTrashCache()).filter(obs => pendingIds.has(obs.id));
+                const localPendingIds = new Set(localPending.map(obs => obs.id));
+                const remote = (data ?? []).map(mapToObservation).filter(obs => !pendingIds.has(obs.id) && !localPendingIds.has(obs.id));
+                await setTrashCache([...localPending, ...remote]);
+            });
+        } catch (error) {
+            console.error('Error fetching deleted observations:', error);
+        }
+    }
+
+    const trash = await getTrashCache();
+    return trash
+        .filter(isRecent)
+        .sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+};
+
+export const restoreObservation = async (id: string): Promise<Observation> => {
+    ensureStorageNamespace();
+
+    const trashed = (await getTrashCache()).find(obs => obs.id === id);
+    if (!trashed) {
+        throw new Error('Observation introuvable dans la corbeille.');
+    }
+
+    if (navigator.onLine) {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('User not authenticated');
+        try {
+            await restoreRemoteObservation(id, user.id);
+        } catch (error: any) {
+            console.error('Error restoring observation:', error);
+            throw new Error(error?.message || String(error));
+        }
+    } else {
+        await addToQueue('RESTORE', { id });
+    }
+
+    const restored: Observation = { ...trashed, deletedAt: undefined };
+    await removeObservationsFromTrash([id]);
+    await upsertObservationInCache(restored);
+    return restored;
+};
+
+/** Removes an observation from the recycle bin for good. */
+export const purgeObservation = async (id: string): Promise<void> => {
+    ensureStorageNamespace();
+
+    if (navigator.onLine) {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('User not authenticated');
+        try {
+            await purgeRemoteObservation(id, user.id);
+        } catch (error: any) {
+            console.error('Error purging observation:', error);
+            throw new Error(error?.message || String(error));
+        }
+    } else {
+        await addToQueue('PURGE', { id });
+    }
+
+    await removeObservationsFromTrash([id]);
+};
 
-    const fileName = `${user.id}/photos/${Date.now()}-${crypto.randomUUID()}.jpg`;
+/**
+ * Permanently removes observations deleted more than TRASH_RETENTION_DAYS ago,
+ * on the server when reachable and in the local recycle bin. Returns how many
+ * local entries were dropped.
+ */
+export const purgeExpiredDeletedObservations = async (): Promise<number> => {
+    ensureStorageNamespace();
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_MS).toISOString();
+
+    if (navigator.onLine) {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (user) {
+                const { error } = await supabase
+                    .from('observations')
+                    .delete()
+                    .eq('user_id', user.id)
+                    .lt('deleted_at', cutoff);
+                if (error && !isMissingSoftDeleteColumnError(error)) throw error;
+            }
+        } catch (error) {
+            console.warn('Remote recycle bin purge failed:', error);
+        }
+    }
+
+    const expiredIds = (await getTrashCache())
+        .filter(obs => obs.deletedAt && obs.deletedAt < cutoff)
+        .map(obs => obs.id);
+    await removeObservationsFromTrash(expiredIds);
+    return expiredIds.length;
+};
+
+
+
+const uploadPhotoForUser = async (file: Blob, userId: string): Promise<string> => {
+    const fileName = `${userId}/photos/${Date.now()}-${crypto.randomUUID()}.jpg`;
     const { error: uploadError } = await supabase.storage
         .from('photos')
         .upload(fileName, file, {
@@ -460,17 +1098,10 @@ export const uploadPhoto = async (file: Blob): Promise<string> => {
     return publicUrl;
 };
 
-export const uploadSound = async (file: Blob): Promise<string> => {
-    if (!navigator.onLine) {
-        throw new Error("Impossible d'envoyer un son en mode hors-ligne. Veuillez réessayer une fois connecté.");
-    }
-
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
-
+const uploadSoundForUser = async (file: Blob, userId: string): Promise<string> => {
     const contentType = file.type || 'audio/mpeg';
     const extension = contentType.split('/')[1]?.split(';')[0] || 'mp3';
-    const fileName = `${user.id}/sounds/${Date.now()}-${crypto.randomUUID()}.${extension}`;
+    const fileName = `${userId}/sounds/${Date.now()}-${crypto.randomUUID()}.${extension}`;
 
     const { error: uploadError } = await supabase.storage
         .from('photos')
@@ -491,76 +1122,228 @@ export const uploadSound = async (file: Blob): Promise<string> => {
     return publicUrl;
 };
 
+export const uploadPhoto = async (file: Blob): Promise<string> => {
+    if (!navigator.onLine) {
+        throw new Error("Impossible d'envoyer une photo en mode hors-ligne. Veuillez réessayer une fois connecté.");
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    return uploadPhotoForUser(file, user.id);
+};
+
+export const uploadSound = async (file: Blob): Promise<string> => {
+    if (!navigator.onLine) {
+        throw new Error("Impossible d'envoyer un son en mode hors-ligne. Veuillez réessayer une fois connecté.");
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    return uploadSoundForUser(file, user.id);
+};
+
+const readBlobAsArrayBuffer = (blob: Blob): Promise<ArrayBuffer> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as ArrayBuffer);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(blob);
+    });
+};
+
+/**
+ * Keeps a photo/sound captured without network in IndexedDB and returns the
+ * `offline-media:` reference to store in the observation until the queue syncs.
+ */
+export const stashOfflineMedia = async (file: Blob, field: PendingMediaField): Promise<string> => {
+    const userId = ensureStorageNamespace();
+    await migrateLegacyLocalStorageToScoped(userId);
+
+    // The timestamp prefix lets orphan cleanup skip media whose observation is still being saved.
+    const mediaId = `${Date.now()}-${crypto.randomUUID()}`;
+    const record: OfflineMediaRecord = {
+        data: await readBlobAsArrayBuffer(file),
+        contentType: file.type || (field === 'photo' ? 'image/jpeg' : 'audio/mpeg'),
+        field
+    };
+
+    try {
+        await writeOfflineRecord(getMediaScopedKey(userId, mediaId), record);
+    } catch (e) {
+        window.dispatchEvent(new CustomEvent('storage-quota-exceeded'));
+        throw new Error(`Impossible de conserver le média hors-ligne: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    return toPendingMediaRef(mediaId);
+};
+
+export const loadOfflineMedia = async (ref: string): Promise<Blob | null> => {
+    if (!isPendingMediaRef(ref)) return null;
+
+    try {
+        const userId = ensureStorageNamespace();
+        const record = await readOfflineRecord<OfflineMediaRecord>(getMediaScopedKey(userId, getPendingMediaId(ref)));
+        if (!record) return null;
+        return new Blob([record.data], { type: record.contentType });
+    } catch (e) {
+        console.warn('Offline media read failed:', e);
+        return null;
+    }
+};
+
+/**
+ * Uploads every pending attachment of an observation to Supabase Storage and
+ * returns the observation with remote URLs in place of the `offline-media:` refs.
+ */
+const uploadPendingMedia = async (
+    observation: Observation,
+    userId: string
+): Promise<{ observation: Observation; uploaded: PendingMediaAttachment[] }> => {
+    const attachments = collectPendingMedia(observation);
+    if (attachments.length === 0) {
+        return { observation, uploaded: [] };
+    }
+
+    const next: Observation = { ...observation };
+    for (const attachment of attachments) {
+        const record = await readOfflineRecord<OfflineMediaRecord>(getMediaScopedKey(userId, attachment.mediaId));
+        if (!record) {
+            console.warn(`Offline ${attachment.field} ${attachment.mediaId} missing, reference dropped.`);
+            next[attachment.field] = undefined;
+            continue;
+        }
+
+        const blob = new Blob([record.data], { type: record.contentType });
+        next[attachment.field] = attachment.field === 'photo'
+            ? await uploadPhotoForUser(blob, userId)
+            : await uploadSoundForUser(blob, userId);
+    }
+
+    return { observation: next, uploaded: attachments };
+};
+
+const deleteOfflineMedia = async (userId: string, attachments: PendingMediaAttachment[]): Promise<void> => {
+    try {
+        await deleteOfflineRecords(attachments.map(attachment => getMediaScopedKey(userId, attachment.mediaId)));
+    } catch (e) {
+        console.warn('Offline media cleanup failed:', e);
+    }
+};
+
+const pruneOrphanOfflineMedia = async (userId: string, queue: OfflineQueueItem[]): Promise<void> => {
+    try {
+        const prefix = getMediaScopedPrefix(userId);
+        const referenced = new Set(queue.flatMap(item => (item.media ?? []).map(attachment => attachment.mediaId)));
+        const now = Date.now();
+        const orphanKeys = (await listOfflineRecordKeys(prefix)).filter(key => {
+            const mediaId = key.slice(prefix.length);
+            const createdAt = Number(mediaId.split('-')[0]);
+            return !referenced.has(mediaId) && Number.isFinite(createdAt) && now - createdAt > ORPHAN_MEDIA_GRACE_MS;
+        });
+        await deleteOfflineRecords(orphanKeys);
+    } catch (e) {
+        console.warn('Offline media pruning failed:', e);
+    }
+};
+
+const fetchRemoteObservation = async (id: string, userId: string): Promise<Observation | null> => {
+    const { data, error } = await supabase
+        .from('observations')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapToObservation(data) : null;
+};
+
+const MISSING_REMOTE_MESSAGE = 'Observation introuvable sur le serveur';
+
+const isRemoteNewer = (remote: Observation, baseUpdatedAt: string): boolean => {
+    if (!remote.updatedAt) return false;
+    return new Date(remote.updatedAt).getTime() > new Date(baseUpdatedAt).getTime();
+};
+
 export const processOfflineQueue = async (): Promise<OfflineSyncResult> => {
     ensureStorageNamespace();
 
     if (!navigator.onLine) {
-        return { processed: 0, failed: 0, failureReasons: [] };
+        return { processed: 0, failed: 0, conflicts: 0, failureReasons: [] };
     }
 
-    const queue = getQueue();
+    // Sessions first: queued observations may reference a session created offline.
+    const sessionResult = await processSessionQueue();
+    const withSessionResult = (result: OfflineSyncResult): OfflineSyncResult => ({
+        processed: result.processed + sessionResult.processed,
+        failed: result.failed + sessionResult.failed,
+        conflicts: result.conflicts,
+        failureReasons: [...sessionResult.failureReasons, ...result.failureReasons]
+    });
+
+    const queue = await getQueue();
     if (queue.length === 0) {
-        return { processed: 0, failed: 0, failureReasons: [] };
+        return withSessionResult({ processed: 0, failed: 0, conflicts: 0, failureReasons: [] });
     }
 
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
-        return {
+        return withSessionResult({
             processed: queue.length,
             failed: queue.length,
+            conflicts: 0,
             failureReasons: ['User not authenticated']
-        };
+        });
     }
 
     const reducedQueue = reduceQueue(queue);
+    // Restores run after data actions: their observation may still be trashed when its edit is sent.
+    const pendingRestoreIds = new Set(reducedQueue.filter(item => item.action === 'RESTORE').map(getItemTargetId));
     const failedItems: OfflineQueueItem[] = [];
+    const conflictedItems: OfflineQueueItem[] = [];
     const idMap = new Map<string, string>();
     const failureReasons = new Map<string, number>();
 
+    // Pending photos/sounds go to Supabase Storage before the row is written, so the
+    // row is inserted/updated with its final photo_url/sound_url.
+    const uploadQueuedMedia = async (queued: OfflineQueueItem): Promise<OfflineQueueItem> => {
+        const { observation, uploaded } = await uploadPendingMedia(queued.payload as Observation, user.id);
+        if (uploaded.length === 0) return queued;
+
+        await deleteOfflineMedia(user.id, uploaded);
+        await patchObservationInCache(observation.id, { photo: observation.photo, sound: observation.sound });
+        return { ...queued, payload: observation, media: undefined };
+    };
+
     for (const rawItem of reducedQueue) {
-        const item = mapQueueItemIds(rawItem, idMap);
+        let item = mapQueueItemIds(rawItem, idMap);
 
         try {
             if (item.action === 'INSERT') {
+                item = await uploadQueuedMedia(item);
                 const payload = item.payload as Observation;
                 const row = mapToRow(payload, user.id);
 
                 if (isTempId(payload.id)) {
-                    let rowWithoutId = { ...row };
+                    const rowWithoutId = { ...row };
                     delete rowWithoutId.id;
-                    let { data, error } = await supabase
+                    const { data, error } = await writeWithLegacyColumnFallback(rowWithoutId, nextRow => supabase
                         .from('observations')
-                        .insert(rowWithoutId)
+                        .insert(nextRow)
                         .select('*')
-                        .single();
-
-                    if (error && isMissingCountBreakdownColumnError(error)) {
-                        rowWithoutId = stripCountBreakdownColumns(rowWithoutId);
-                        const fallback = await supabase
-                            .from('observations')
-                            .insert(rowWithoutId)
-                            .select('*')
-                            .single();
-                        data = fallback.data;
-                        error = fallback.error;
-                    }
+                        .single());
 
                     if (error) throw error;
 
                     const created = mapToObservation(data);
                     idMap.set(payload.id, created.id);
-                    replaceObservationIdInCache(payload.id, created.id);
+                    await patchObservationInCache(payload.id, { id: created.id });
                 } else {
-                    let { error } = await supabase
+                    const { error } = await writeWithLegacyColumnFallback(row, nextRow => supabase
                         .from('observations')
-                        .upsert(row, { onConflict: 'id' });
-
-                    if (error && isMissingCountBreakdownColumnError(error)) {
-                        const fallback = await supabase
-                            .from('observations')
-                            .upsert(stripCountBreakdownColumns(row), { onConflict: 'id' });
-                        error = fallback.error;
-                    }
+                        .upsert(nextRow, { onConflict: 'id' }));
 
                     if (error) throw error;
                 }
@@ -572,63 +1355,132 @@ export const processOfflineQueue = async (): Promise<OfflineSyncResult> => {
                     continue;
                 }
 
-                const row = mapToRow(payload, user.id);
-                let { error } = await supabase
+                if (item.baseUpdatedAt) {
+                    const remote = await fetchRemoteObservation(payload.id, user.id);
+                    if (!remote) throw new Error(MISSING_REMOTE_MESSAGE);
+                    // Trashed on another device: restoring it with the edit, or dropping the edit, is the user's call.
+                    const isTrashedRemotely = !!remote.deletedAt && !pendingRestoreIds.has(payload.id);
+                    if (isTrashedRemotely || (isRemoteNewer(remote, item.baseUpdatedAt) && diffObservations(payload, remote).length > 0)) {
+                        conflictedItems.push({ ...item, conflict: { remote, detectedAt: Date.now() } });
+                        continue;
+                    }
+                }
+
+                item = await uploadQueuedMedia(item);
+                // Attributed to the offline edits (time of the latest one), not to the sync.
+                const row = withEditAttribution(
+                    mapToRow(item.payload as Observation, user.id),
+                    'offline',
+                    item.timestamp,
+                    getQueueItemEditCount(item)
+                );
+                const { data, error } = await writeWithLegacyColumnFallback(row, nextRow => supabase
                     .from('observations')
-                    .update(row)
+                    .update(nextRow)
                     .eq('id', payload.id)
-                    .eq('user_id', user.id);
-
-                if (error && isMissingCountBreakdownColumnError(error)) {
-                    const fallback = await supabase
-                        .from('observations')
-                        .update(stripCountBreakdownColumns(row))
-                        .eq('id', payload.id)
-                        .eq('user_id', user.id);
-                    error = fallback.error;
-                }
+                    .eq('user_id', user.id)
+                    .select('id'));
 
                 if (error) throw error;
-            } else if (item.action === 'DELETE') {
+                // No row touched: purged, or never reached the server. The edit stays queued.
+                if (!data || data.length === 0) throw new Error(MISSING_REMOTE_MESSAGE);
+            } else if (isLifecycleAction(item.action)) {
                 const payload = item.payload as { id: string };
 
                 if (isTempId(payload.id) && !idMap.has(payload.id)) {
                     continue;
                 }
 
-                const { error } = await supabase
-                    .from('observations')
-                    .delete()
-                    .eq('id', payload.id)
-                    .eq('user_id', user.id);
-
-                if (error) throw error;
+                if (item.action === 'DELETE') {
+                    await softDeleteRemoteObservation(payload.id, user.id, new Date(item.timestamp).toISOString());
+                } else if (item.action === 'RESTORE') {
+                    await restoreRemoteObservation(payload.id, user.id);
+                } else {
+                    await purgeRemoteObservation(payload.id, user.id);
+                }
             }
         } catch (error) {
             console.error('Error processing queue item:', error);
-            failedItems.push(mapQueueItemIds(rawItem, idMap));
+            failedItems.push(mapQueueItemIds(item, idMap));
             const reason = error instanceof Error ? error.message : String(error);
             failureReasons.set(reason, (failureReasons.get(reason) || 0) + 1);
         }
     }
 
-    setQueue(failedItems);
-
-    if (failedItems.length === 0) {
-        const { data, error } = await supabase
-            .from('observations')
-            .select('*')
-            .eq('user_id', user.id)
-            .order('date', { ascending: false });
+    // Keep actions queued while this sync was running (they were not part of the snapshot).
+    const snapshotIds = new Set(queue.map(item => item.id));
+    await withOfflineWriteLock(async () => {
+        const latestQueue = await getQueue();
+        const queuedMeanwhile = latestQueue.filter(item => !snapshotIds.has(item.id));
+        const nextQueue = [...failedItems, ...conflictedItems, ...queuedMeanwhile];
+        await setQueue(nextQueue);
+        await pruneOrphanOfflineMedia(user.id, nextQueue);
+    });
 
-        if (!error && data) {
-            setLocalCache(data.map(mapToObservation));
-        }
+    // Items still queued (failures, conflicts) keep their local version in the cache.
+    try {
+        await syncObservationsFromRemote(user.id);
+    } catch (e) {
+        console.warn('Cache refresh after offline sync failed:', e);
     }
 
-    return {
+    return withSessionResult({
         processed: reducedQueue.length,
         failed: failedItems.length,
+        conflicts: conflictedItems.length,
         failureReasons: Array.from(failureReasons.entries()).map(([reason, count]) => `${count}x ${reason}`)
-    };
+    });
+};
+
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
+    ensureStorageNamespace();
+    const queue = await getQueue();
+    return queue
+        .filter(item => item.action === 'UPDATE' && item.conflict)
+        .map(item => {
+            const local = item.payload as Observation;
+            const remote = item.conflict!.remote;
+            return { queueItemId: item.id, local, remote, diffs: diffObservations(local, remote) };
+        });
 };
+
+/**
+ * Applies the version chosen in the conflict dialog. Keeping the server version
+ * drops the queued edit; anything else is re-queued on top of the server row,
+ * and restores it when it was moved to the recycle bin on another device.
+ */
+export const resolveSyncConflict = (queueItemId: string, resolved: Observation): Promise<Observation | null> => withOfflineWriteLock(async () => {
+    const queue = await getQueue();
+    const item = queue.find(queued => queued.id === queueItemId);
+    if (!item?.conflict) return null;
+
+    const { remote } = item.conflict;
+    const restores = !!remote.deletedAt && !resolved.deletedAt;
+    const next: Observation = { ...resolved, id: remote.id, updatedAt: remote.updatedAt, deletedAt: restores ? undefined : remote.deletedAt };
+    const keepsRemote = !restores && diffObservations(next, remote).length === 0;
+
+    if (keepsRemote) {
+        await setQueue(queue.filter(queued => queued.id !== queueItemId));
+    } else {
+        const media = collectPendingMedia(next);
+        const requeued = queue.map(queued => queued.id === queueItemId
+            ? {
+                ...queued,
+                payload: next,
+                media: media.length > 0 ? media : undefined,
+                baseUpdatedAt: remote.updatedAt,
+                conflict: undefined
+            }
+            : queued);
+        await setQueue(restores ? [...requeued, createQueueItem('RESTORE', { id: remote.id })] : requeued);
+    }
+
+    const cached = keepsRemote ? remote : next;
+    const cache = await getLocalCache();
+    // A trashed server row leaves the list; the next sync files it in the recycle bin.
+    const others = cache.filter(obs => obs.id !== cached.id);
+    await setLocalCache(cached.deletedAt ? others : (cache.some(obs => obs.id === cached.id)
+        ? cache.map(obs => (obs.id === cached.id ? cached : obs))
+        : [cached, ...cache]));
+    return cached;
+});
@@ -0,0 +1,177 @@
+import { RedListAssessment, RedListScale, Status, TaxonomicGroup } from '../types';
+
+/**
+ * Taxon providers: each source of species data (iNaturalist, GBIF, the local
+ * index, TAXREF…) implements the capabilities it supports. speciesService runs
+ * them in priority order, each bounded by its own timeout, and merges results.
+ */
+
+export type TaxonProviderId = string;
+
+export interface SpeciesSuggestion {
+    displayName: string;
+    latinName: string;
+    commonName?: string;
+    source: TaxonProviderId | 'history' | 'checklist';
+    iconicTaxonName?: string;   // e.g. "Aves", "Mammalia" (iNat only)
+    imageUrl?: string;          // medium_url from iNaturalist
+    taxonomicGroup?: TaxonomicGroup; // Known locally (notebook, checklist, TAXREF)
+    cdNom?: number;
+    cdRef?: number;
+    gbifTaxonId?: number;
+    inatTaxonId?: number;
+}
+
+export interface TaxonNames {
+    latinName?: string;
+    speciesName?: string;
+}
+
+/** Classification and identifiers of a name, as far as the provider knows them. */
+export interface TaxonMatch {
+    taxonomicGroup?: TaxonomicGroup;
+    cdNom?: number;
+    cdRef?: number;
+    gbifTaxonId?: number;
+    inatTaxonId?: number;
+}
+
+export interface TaxonDetails {
+    latinName?: string;
+    description: string;
+    imageUrl: string | null;
+    sourceUrl: string;
+    matchedBy: 'latin' | 'common';
+    confidence: 'high' | 'medium' | 'low';
+    iconicTaxonName?: string;
+    inatTaxonId?: number;
+}
+
+export interface TaxonDetailsOptions {
+    // Genus-level identification ("Sympetrum sp."): the genus itself, not one of its species.
+    genusLevel?: boolean;
+}
+
+export interface TaxonReferenceQuery {
+    latinName: string;
+    inatTaxonId?: number;
+}
+
+export interface TaxonProvider {
+    id: TaxonProviderId;
+    label: string;
+    // Lower runs first.
+    priority: number;
+    timeoutMs: number;
+    // Skipped when the device is offline.
+    remote: boolean;
+    suggest?: (query: string, limit: number) => Promise<SpeciesSuggestion[]>;
+    match?: (names: TaxonNames) => Promise<TaxonMatch | null>;
+    details?: (query: string, options?: TaxonDetailsOptions) => Promise<TaxonDetails | null>;
+    // Every assessment the provider knows, regional lists of all régions included.
+    redLists?: (taxon: TaxonReferenceQuery) => Promise<RedListAssessment[]>;
+    // Scales redLists can answer; the provider is skipped once they are all known.
+    redListScales?: RedListScale[];
+    images?: (taxon: TaxonReferenceQuery, limit: number) => Promise<string[]>;
+}
+
+export type TaxonCapability = 'suggest' | 'match' | 'details' | 'redLists' | 'images';
+
+export interface TaxonProviderSettings {
+    priority?: number;
+    timeoutMs?: number;
+    enabled?: boolean;
+}
+
+export const mapIucnStatusCodeToStatus = (code?: string): Status | undefined => {
+    const normalizedCode = (code || '').trim().toUpperCase();
+    if (!normalizedCode) return undefined;
+
+    switch (normalizedCode) {
+        case 'NE': return Status.NE;
+        case 'DD': return Status.DD;
+        case 'LC': return Status.LC;
+        case 'NT': return Status.NT;
+        case 'VU': return Status.VU;
+        case 'EN': return Status.EN;
+        case 'CR': return Status.CR;
+        case 'EW': return Status.EW;
+        case 'EX': return Status.EX;
+        default: return undefined;
+    }
+};
+
+const registeredProviders = new Map<TaxonProviderId, TaxonProvider>();
+const providerSettings = new Map<TaxonProviderId, TaxonProviderSettings>();
+
+/** Adds a provider, or replaces the one registered under the same id. */
+export const registerTaxonProvider = (provider: TaxonProvider): void => {
+    registeredProviders.set(provider.id, provider);
+};
+
+export const unregisterTaxonProvider = (id: TaxonProviderId): void => {
+    registeredProviders.delete(id);
+};
+
+/** Overrides the priority, timeout or activation of registered providers. */
+export const configureTaxonProviders = (settings: Record<TaxonProviderId, TaxonProviderSettings>): void => {
+    Object.entries(settings).forEach(([id, value]) => {
+        providerSettings.set(id, { ...providerSettings.get(id), ...value });
+    });
+};
+
+export const resetTaxonProviderSettings = (): void => {
+    providerSettings.clear();
+};
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/** Enabled providers supporting a capability, by priority; remote ones are left out offline. */
+export const getTaxonProviders = (capability: TaxonCapability): TaxonProvider[] => {
+    const offline = isOffline();
+    return Array.from(registeredProviders.values())
+        .map(provider => ({ ...provider, ...providerSettings.get(provider.id) }))
+        .filter(provider => provider.enabled !== false && typeof provider[capability] === 'function')
+        .filter(provider => !(offline && provider.remote))
+        .sort((a, b) => a.priority - b.priority);
+};
+
+/**
+ * Runs one provider call within its timeout. A timeout or an error counts as
+ * "no answer" so that the next provider can take over.
+ */
+export const callTaxonProvider = async <T,>(
+    provider: TaxonProvider,
+    call: () => Promise<T>,
+    fallback: T
+): Promise<T> => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<T>(resolve => {
+        timeoutId = setTimeout(() => {
+            console.warn(`Taxon provider ${provider.id} timed out after ${provider.timeoutMs} ms`);
+            resolve(fallback);
+        }, provider.timeoutMs);
+    });
+
+    try {
+        return await Promise.race([call(), timeout]);
+    } catch (error) {
+        console.error(`Taxon provider ${provider.id} error:`, error);
+        return fallback;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+/** First non-empty answer of the providers, in priority order. */
+export const firstTaxonProviderResult = async <T,>(
+    providers: TaxonProvider[],
+    call: (provider: TaxonProvider) => Promise<T | null | undefined>,
+    isEmpty: (value: T) => boolean = () => false
+): Promise<{ value: T; provider: TaxonProvider } | null> => {
+    for (const provider of providers) {
+        const value = await callTaxonProvider<T | null | undefined>(provider, () => call(provider), null);
+        if (value !== null && value !== undefined && !isEmpty(value)) return { value, provider };
+    }
+    return null;
+};
@@ -0,0 +1,254 @@
+import { Observation } from '../types';
+import { parseCsvId, parseDelimitedText } from '../utils/csvUtils';
+import { normalizeSearchText, scoreNameMatch } from '../utils/textUtils';
+import { isOfflineDatabaseAvailable, readOfflineRecord, writeOfflineRecord } from './offlineDatabase';
+
+/**
+ * Offline TAXREF reference (INPN). The table is imported by the user from the
+ * TAXREF export (TAXREFvXX.txt) or a subset of it with the same headers, and
+ * kept in IndexedDB so that matching and autocomplete work without network.
+ *
+ * cdNom identifies a name, cdRef the valid taxon it belongs to: synonyms and
+ * renamed taxa share the cdRef of the current name.
+ */
+
+export interface TaxrefClassification {
+    kingdom?: string;
+    class?: string;
+    order?: string;
+    family?: string;
+}
+
+export interface TaxrefEntry {
+    cdNom: number;
+    cdRef: number;
+    latinName: string;
+    frenchNames: string[];
+    classification?: TaxrefClassification;
+}
+
+export interface TaxrefMeta {
+    fileName: string;
+    importedAt: string;
+    // Valid taxa (one per cdRef), synonyms excluded.
+    taxonCount: number;
+    nameCount: number;
+}
+
+export interface TaxrefIndex {
+    byCdNom: Map<number, TaxrefEntry>;
+    byLatinName: Map<string, TaxrefEntry>;
+    byFrenchName: Map<string, TaxrefEntry>;
+    entries: TaxrefEntry[];
+}
+
+export interface TaxonReference {
+    cdNom: number;
+    cdRef: number;
+}
+
+const TAXREF_ENTRIES_KEY = 'taxref_reference:entries';
+const TAXREF_META_KEY = 'taxref_reference:meta';
+
+// Ranks kept from the full table: species and infraspecific taxa.
+const KEPT_RANKS = new Set(['ES', 'SSES', 'VAR', 'SVAR', 'FO', 'SSFO']);
+// FR status of taxa absent from France (A) or reported by mistake (Q).
+const EXCLUDED_FR_STATUSES = new Set(['A', 'Q']);
+
+let indexPromise: Promise<TaxrefIndex> | null = null;
+
+/**
+ * Parses a TAXREF text export (tab, semicolon or comma separated). Only CD_NOM,
+ * CD_REF and LB_NOM are required. When the RANG and FR columns are present, the
+ * table is reduced to species-level taxa found in France and their synonyms.
+ */
+export const parseTaxrefText = (text: string): TaxrefEntry[] => {
+    const [headerCells, ...rows] = parseDelimitedText(text);
+    if (!headerCells) return [];
+
+    const headers = headerCells.map(header => header.toUpperCase());
+    const column = (name: string) => headers.indexOf(name);
+    const cdNomIndex = column('CD_NOM');
+    const cdRefIndex = column('CD_REF');
+    const latinIndex = column('LB_NOM');
+    if (cdNomIndex < 0 || cdRefIndex < 0 || latinIndex < 0) {
+        throw new Error('Fichier TAXREF invalide : colonnes CD_NOM, CD_REF et LB_NOM attendues.');
+    }
+    const frenchIndex = column('NOM_VERN');
+    const rankIndex = column('RANG');
+    const frIndex = column('FR');
+    const classificationIndexes = {
+        kingdom: column('REGNE'),
+        class: column('CLASSE'),
+        order: column('ORDRE'),
+        family: column('FAMILLE')
+    };
+
+    const candidates: (TaxrefEntry & { keep: boolean })[] = [];
+    for (const cells of rows) {
+        const cdNom = parseCsvId(cells[cdNomIndex]);
+        const cdRef = parseCsvId(cells[cdRefIndex]);
+        const latinName = cells[latinIndex] ?? '';
+        if (cdNom === undefined || cdRef === undefined || !latinName) continue;
+        if (rankIndex >= 0 && !KEPT_RANKS.has(cells[rankIndex] ?? '')) continue;
+
+        const frStatus = frIndex >= 0 ? (cells[frIndex] ?? '') : 'P';
+        const classification: TaxrefClassification = {};
+        for (const [key, index] of Object.entries(classificationIndexes)) {
+            if (index >= 0 && cells[index]) classification[key as keyof TaxrefClassification] = cells[index];
+        }
+
+        candidates.push({
+            cdNom,
+            cdRef,
+            latinName,
+            frenchNames: frenchIndex >= 0
+                ? (cells[frenchIndex] ?? '').split(',').map(name => name.trim()).filter(Boolean)
+                : [],
+            ...(Object.keys(classification).length > 0 ? { classification } : {}),
+            keep: cdNom === cdRef && !!frStatus && !EXCLUDED_FR_STATUSES.has(frStatus)
+        });
+    }
+
+    // Synonyms carry no FR status: they follow their valid taxon.
+    const keptRefs = new Set(candidates.filter(candidate => candidate.keep).map(candidate => candidate.cdRef));
+    return candidates
+        .filter(candidate => keptRefs.has(candidate.cdRef))
+        .map(({ keep: _keep, ...entry }) => entry);
+};
+
+export const buildTaxrefIndex = (entries: TaxrefEntry[]): TaxrefIndex => {
+    const byCdNom = new Map<number, TaxrefEntry>();
+    const byLatinName = new Map<string, TaxrefEntry>();
+    const byFrenchName = new Map<string, TaxrefEntry>();
+
+    for (const entry of entries) {
+        byCdNom.set(entry.cdNom, entry);
+        const latinKey = normalizeSearchText(entry.latinName);
+        // A valid name wins over a homonym synonym.
+        if (!byLatinName.has(latinKey) || entry.cdNom === entry.cdRef) byLatinName.set(latinKey, entry);
+    }
+    for (const entry of entries) {
+        const valid = byCdNom.get(entry.cdRef) ?? entry;
+        for (const name of entry.frenchNames) {
+            const key = normalizeSearchText(name);
+            if (!byFrenchName.has(key)) byFrenchName.set(key, valid);
+        }
+    }
+
+    return { byCdNom, byLatinName, byFrenchName, entries };
+};
+
+/** Valid taxon of an entry (itself when the entry is not a synonym). */
+export const getValidTaxrefEntry = (index: TaxrefIndex, entry: TaxrefEntry): TaxrefEntry => {
+    return index.byCdNom.get(entry.cdRef) ?? entry;
+};
+
+/**
+ * Matches a recorded name: the latin name first (synonyms keep their own cdNom),
+ * then the French name, which always resolves to the valid taxon.
+ */
+export const matchTaxref = (
+    index: TaxrefIndex,
+    names: { latinName?: string; speciesName?: string }
+): TaxonReference | null => {
+    const latin = index.byLatinName.get(normalizeSearchText(names.latinName ?? ''));
+    if (latin) return { cdNom: latin.cdNom, cdRef: latin.cdRef };
+    const speciesKey = normalizeSearchText(names.speciesName ?? '');
+    const byName = index.byLatinName.get(speciesKey) ?? index.byFrenchName.get(speciesKey);
+    return byName ? { cdNom: byName.cdNom, cdRef: byName.cdRef } : null;
+};
+
+/**
+ * Accent-insensitive search on latin and French names. Synonyms are returned as
+ * their valid taxon, once per cdRef.
+ */
+export const searchTaxref = (index: TaxrefIndex, query: string, limit = 5): TaxrefEntry[] => {
+    const normalizedQuery = normalizeSearchText(query);
+    if (normalizedQuery.length < 2) return [];
+
+    const bestByRef = new Map<number, { entry: TaxrefEntry; score: number }>();
+    for (const entry of index.entries) {
+        const score = Math.max(scoreNameMatch(entry.latinName, normalizedQuery), ...entry.frenchNames.map(name => scoreNameMatch(name, normalizedQuery)));
+        if (score === 0) continue;
+        const current = bestByRef.get(entry.cdRef);
+        if (!current || score > current.score) {
+            bestByRef.set(entry.cdRef, { entry: getValidTaxrefEntry(index, entry), score });
+        }
+    }
+
+    return Array.from(bestByRef.values())
+        .sort((a, b) => b.score - a.score || a.entry.latinName.localeCompare(b.entry.latinName))
+        .slice(0, limit)
+        .map(match => match.entry);
+};
+
+/** Imported reference, loaded once; empty when nothing was imported or IndexedDB is unavailable. */
+export const loadTaxrefIndex = (): Promise<TaxrefIndex> => {
+    if (!indexPromise) {
+        indexPromise = (async () => {
+            if (!isOfflineDatabaseAvailable()) return buildTaxrefIndex([]);
+            try {
+                return buildTaxrefIndex((await readOfflineRecord<TaxrefEntry[]>(TAXREF_ENTRIES_KEY)) ?? []);
+            } catch (error) {
+                console.error('Error loading TAXREF reference:', error);
+                return buildTaxrefIndex([]);
+            }
+        })();
+    }
+    return indexPromise;
+};
+
+export const getTaxrefMeta = async (): Promise<TaxrefMeta | null> => {
+    if (!isOfflineDatabaseAvailable()) return null;
+    try {
+        return (await readOfflineRecord<TaxrefMeta>(TAXREF_META_KEY)) ?? null;
+    } catch (error) {
+        console.error('Error loading TAXREF metadata:', error);
+        return null;
+    }
+};
+
+export const importTaxrefFile = async (file: File): Promise<TaxrefMeta> => {
+    const entries = parseTaxrefText(await file.text());
+    if (entries.length === 0) {
+        throw new Error('Aucun taxon présent en France trouvé dans ce fichier.');
+    }
+
+    const meta: TaxrefMeta = {
+        fileName: file.name,
+        importedAt: new Date().toISOString(),
+        taxonCount: entries.filter(entry => entry.cdNom === entry.cdRef).length,
+        nameCount: entries.length
+    };
+    await writeOfflineRecord(TAXREF_ENTRIES_KEY, entries);
+    await writeOfflineRecord(TAXREF_META_KEY, meta);
+    indexPromise = Promise.resolve(buildTaxrefIndex(entries));
+    return meta;
+};
+
+/** cdNom / cdRef of an observation from its names, or null when the reference has no match. */
+export const resolveTaxonReference = async (
+    observation: Pick<Observation, 'speciesName' | 'latinName'>
+): Promise<TaxonReference | null> => {
+    return matchTaxref(await loadTaxrefIndex(), observation);
+};
+
+/**
+ * Observations recorded without a cdRef whose names resolve in the reference,
+ * with cdNom / cdRef filled in, so that stats key them like the linked ones.
+ */
+export const fillTaxonReferences = (index: TaxrefIndex, observations: Observation[]): Observation[] => {
+    return observations
+        .filter(obs => !obs.cdRef)
+        .map((obs): Observation | null => {
+            const reference = matchTaxref(index, obs);
+            return reference ? { ...obs, cdNom: obs.cdNom ?? reference.cdNom, cdRef: reference.cdRef } : null;
+        })
+        .filter((obs): obs is Observation => obs !== null);
+};
+
+/** Same as `fillTaxonReferences` with the imported reference; empty when nothing was imported. */
+export const linkObservationsToTaxref = async (observations: Observation[]): Promise<Observation[]> => {
+    return fillTaxonReferences(await loadTaxrefIndex(), observations);
+};
@@ -0,0 +1,64 @@
+-- Phase 10 migration: sampling sessions ("sorties / relevés") carrying the shared effort metadata
+-- (time span, observers, weather, protocol, point or route) of the observations attached to them.
+
+create table if not exists sampling_sessions (
+  id uuid default uuid_generate_v4() primary key, -- generated by the app, also offline
+  user_id uuid references auth.users not null,
+  name text,
+  date date not null,
+  start_time time,
+  end_time time, -- null while the session is running
+  observers text[] not null default '{}',
+  weather text,
+  protocol text,
+  location text,
+  municipality text,
+  department text,
+  country text,
+  gps_lat float,
+  gps_lon float,
+  route jsonb, -- [{ "lat": ..., "lon": ... }, ...] for transects
+  comment text,
+  created_at timestamp with time zone default timezone('utc'::text, now()),
+  updated_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index if not exists idx_sampling_sessions_user_date
+  on sampling_sessions (user_id, date desc);
+
+-- Same timestamp trigger as observations.
+drop trigger if exists trg_set_sampling_sessions_updated_at on sampling_sessions;
+create trigger trg_set_sampling_sessions_updated_at
+before update on sampling_sessions
+for each row
+execute function public.set_observations_updated_at();
+
+alter table sampling_sessions enable row level security;
+
+drop policy if exists "Users can view their own sessions" on sampling_sessions;
+create policy "Users can view their own sessions"
+  on sampling_sessions for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own sessions" on sampling_sessions;
+create policy "Users can insert their own sessions"
+  on sampling_sessions for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own sessions" on sampling_sessions;
+create policy "Users can update their own sessions"
+  on sampling_sessions for update
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own sessions" on sampling_sessions;
+create policy "Users can delete their own sessions"
+  on sampling_sessions for delete
+  using (auth.uid() = user_id);
+
+-- Deleting a session keeps its observations.
+alter table observations
+  add column if not exists session_id uuid references sampling_sessions on delete set null;
+
+create index if not exists idx_observations_session
+  on observations (session_id)
+  where session_id is not null;
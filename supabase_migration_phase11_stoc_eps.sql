@@ -0,0 +1,5 @@
+-- Phase 11 migration: STOC-EPS point counts stored on their sampling session
+-- (square, passage and, per point, the contacts of each species by distance band).
+
+alter table sampling_sessions
+  add column if not exists stoc jsonb;
@@ -0,0 +1,5 @@
+-- Phase 12 migration: "liste complète" flag of EPOC checklists. On a complete list,
+-- a species without observation was not detected, which gives absence data.
+
+alter table sampling_sessions
+  add column if not exists complete_list boolean;
@@ -0,0 +1,12 @@
+-- Phase 13 migration: persistent taxon reference of each observation. cd_nom is the
+-- TAXREF id of the recorded name, cd_ref the id of its valid taxon (shared by synonyms).
+
+alter table observations
+  add column if not exists cd_nom integer,
+  add column if not exists cd_ref integer,
+  add column if not exists gbif_taxon_id bigint,
+  add column if not exists inat_taxon_id bigint;
+
+create index if not exists idx_observations_cd_ref
+  on observations (user_id, cd_ref)
+  where cd_ref is not null;
@@ -0,0 +1,6 @@
+-- Phase 14 migration: red-list statuses per scale. One entry per scale (world, Europe,
+-- France, région of the observation) with the list authority and its year, e.g.
+-- [{"scale": "France", "status": "VU", "source": "UICN France", "year": 2016}].
+
+alter table observations
+  add column if not exists red_lists jsonb;
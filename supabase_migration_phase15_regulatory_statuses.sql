@@ -0,0 +1,7 @@
+-- Phase 15 migration: regulatory statuses of each observation (protected species,
+-- Habitats and Birds directive annexes, ZNIEFF determinants), from the INPN lists
+-- imported on the device, e.g.
+-- [{"type": "Protection", "list": "Protection nationale", "label": "Article 3", "territory": "France métropolitaine"}].
+
+alter table observations
+  add column if not exists regulatory_statuses jsonb;
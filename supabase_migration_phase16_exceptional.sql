@@ -0,0 +1,6 @@
+-- Phase 16 migration: "donnée exceptionnelle" flag, set when the observer confirms
+-- an observation despite the plausibility warnings (out-of-season date, new
+-- department, unusual altitude or count, species missing from the regional checklist).
+
+alter table observations
+  add column if not exists exceptional boolean not null default false;
@@ -0,0 +1,7 @@
+-- Phase 17 migration: identification rank of each observation (species, subspecies,
+-- genus such as "Sympetrum sp.", pair or aggregate such as "Pipistrellus kuhlii/nathusii")
+-- and the candidate species of a pair or aggregate. Null rank: read from the latin name.
+
+alter table observations
+  add column if not exists identification_rank text,
+  add column if not exists candidate_latin_names text[];
@@ -0,0 +1,14 @@
+-- Phase 18 migration: identification confidence given by the observer
+-- ('Certaine', 'Probable', 'Possible') and review of each observation
+-- ('Non validée', 'Validée', 'Invalidée') with the reviewer's comment.
+
+alter table observations
+  add column if not exists confidence text,
+  add column if not exists validation_status text not null default 'Non validée',
+  add column if not exists validation_comment text,
+  add column if not exists validated_by text,
+  add column if not exists validated_at timestamp with time zone;
+
+create index if not exists idx_observations_validation_status
+  on observations (user_id, validation_status)
+  where deleted_at is null;
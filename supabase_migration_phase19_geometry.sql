@@ -0,0 +1,16 @@
+-- Phase 19 migration: accuracy radius of the observation point (metres, from
+-- the device GPS or typed) and optional line / polygon geometry stored as a
+-- GeoJSON object ({"type": "LineString" | "Polygon", "coordinates": ...}).
+-- gps_lat / gps_lon stay the representative point of the geometry.
+
+alter table observations
+  add column if not exists gps_accuracy real,
+  add column if not exists geometry jsonb;
+
+alter table observations
+  add constraint observations_gps_accuracy_positive_check
+  check (gps_accuracy is null or gps_accuracy > 0);
+
+alter table observations
+  add constraint observations_geometry_type_check
+  check (geometry is null or geometry->>'type' in ('LineString', 'Polygon'));
@@ -0,0 +1,9 @@
+-- Phase 7 migration: incremental (delta) sync support.
+-- Deletions become tombstones (deleted_at) so clients pulling rows by updated_at
+-- also learn about removed observations.
+
+alter table observations
+  add column if not exists deleted_at timestamp with time zone;
+
+create index if not exists idx_observations_user_updated_at
+  on observations (user_id, updated_at);
@@ -0,0 +1,31 @@
+-- Phase 8 migration: recycle bin ("Corbeille") on top of the phase 7 deleted_at tombstones.
+-- Deleted observations stay restorable for 30 days, then are removed for good.
+
+create index if not exists idx_observations_user_deleted_at
+  on observations (user_id, deleted_at)
+  where deleted_at is not null;
+
+-- Permanently removes observations that have been in the recycle bin longer than the retention period.
+-- The app purges the current user's rows when it opens the recycle bin; this function lets the project
+-- purge every account on a schedule.
+create or replace function public.purge_deleted_observations(retention interval default interval '30 days')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purged integer;
+begin
+  delete from observations
+  where deleted_at is not null
+    and deleted_at < timezone('utc'::text, now()) - retention;
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
+
+revoke all on function public.purge_deleted_observations(interval) from public, anon, authenticated;
+
+-- Optional (requires the pg_cron extension):
+-- select cron.schedule('purge-deleted-observations', '15 3 * * *', $$select public.purge_deleted_observations()$$);
@@ -0,0 +1,73 @@
+-- Phase 9 migration: per-observation edit history, filled by a trigger next to set_observations_updated_at.
+-- Every update that changes a column stores the old and new values of the changed columns.
+
+-- Written by the app with each edit so the history can tell offline edits (made earlier, synced later,
+-- possibly several merged into one write) from direct ones.
+alter table observations add column if not exists edited_at timestamp with time zone;
+alter table observations add column if not exists edit_source text;
+alter table observations add column if not exists offline_edit_count int;
+
+create table if not exists observation_revisions (
+  id uuid default uuid_generate_v4() primary key,
+  observation_id uuid references observations on delete cascade not null,
+  user_id uuid references auth.users not null,
+  revised_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  edited_at timestamp with time zone, -- when the edit was made on the device (offline edits sync later)
+  edit_source text, -- 'online' | 'offline', null for writes without attribution (recycle bin moves)
+  offline_edit_count int, -- offline edits merged into this write by the sync queue
+  changes jsonb not null -- { "<column>": { "old": ..., "new": ... } }
+);
+
+create index if not exists idx_observation_revisions_observation
+  on observation_revisions (observation_id, revised_at desc);
+
+create or replace function public.record_observation_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed jsonb;
+  attributed boolean;
+begin
+  select coalesce(jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value)), '{}'::jsonb)
+    into changed
+  from jsonb_each(to_jsonb(new)) n
+  join jsonb_each(to_jsonb(old)) o on o.key = n.key
+  where n.value is distinct from o.value
+    and n.key not in ('updated_at', 'edited_at', 'edit_source', 'offline_edit_count');
+
+  if changed = '{}'::jsonb then
+    return new;
+  end if;
+
+  -- Attribution columns only describe the write that set them.
+  attributed := new.edited_at is distinct from old.edited_at;
+
+  insert into observation_revisions (observation_id, user_id, edited_at, edit_source, offline_edit_count, changes)
+  values (
+    new.id,
+    new.user_id,
+    case when attributed then new.edited_at end,
+    case when attributed then new.edit_source end,
+    case when attributed then new.offline_edit_count end,
+    changed
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_record_observation_revision on observations;
+create trigger trg_record_observation_revision
+after update on observations
+for each row
+execute function public.record_observation_revision();
+
+alter table observation_revisions enable row level security;
+
+-- Revisions are written by the trigger only.
+drop policy if exists "Users can view their own observation revisions" on observation_revisions;
+create policy "Users can view their own observation revisions"
+  on observation_revisions for select
+  using (auth.uid() = user_id);
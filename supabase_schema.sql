@@ -1,6 +1,31 @@
 -- Enable UUID extension
 create extension if not exists "uuid-ossp";
 
+-- Sampling sessions ("sorties / relevés"): shared effort metadata of the observations attached to them
+create table sampling_sessions (
+  id uuid default uuid_generate_v4() primary key, -- generated by the app, also offline
+  user_id uuid references auth.users not null,
+  name text,
+  date date not null,
+  start_time time,
+  end_time time, -- null while the session is running
+  observers text[] not null default '{}',
+  weather text,
+  protocol text,
+  location text,
+  municipality text,
+  department text,
+  country text,
+  gps_lat float,
+  gps_lon float,
+  route jsonb, -- [{ "lat": ..., "lon": ... }, ...] for transects
+  comment text,
+  stoc jsonb, -- STOC-EPS points: { "square": ..., "passage": ..., "points": [...] }
+  complete_list boolean, -- EPOC checklists: every detected species was recorded
+  created_at timestamp with time zone default timezone('utc'::text, now()),
+  updated_at timestamp with time zone default timezone('utc'::text, now())
+);
+
 -- Create Observations Table
 create table observations (
   id uuid default uuid_generate_v4() primary key,
@@ -17,6 +42,8 @@ create table observations (
   location text,
   gps_lat float,
   gps_lon float,
+  gps_accuracy real, -- accuracy radius in metres, see phase 19
+  geometry jsonb, -- GeoJSON LineString or Polygon, gps_lat / gps_lon being its representative point, see phase 19
   municipality text,
   department text,
   country text,
@@ -33,7 +60,38 @@ create table observations (
   wikipedia_image text,
   sound_url text,
   created_at timestamp with time zone default timezone('utc'::text, now()),
-  updated_at timestamp with time zone default timezone('utc'::text, now())
+  updated_at timestamp with time zone default timezone('utc'::text, now()),
+  deleted_at timestamp with time zone, -- soft-delete tombstone, picked up by delta sync
+  edited_at timestamp with time zone, -- device time of the last edit (see observation_revisions)
+  edit_source text, -- 'online' | 'offline'
+  offline_edit_count int, -- offline edits merged into the last write
+  session_id uuid references sampling_sessions on delete set null,
+  cd_nom integer, -- TAXREF id of the recorded name
+  cd_ref integer, -- TAXREF id of the valid taxon, shared by synonyms
+  gbif_taxon_id bigint,
+  inat_taxon_id bigint,
+  red_lists jsonb, -- [{scale, status, source, year, region}], see phase 14
+  regulatory_statuses jsonb, -- [{type, list, label, code, territory}], see phase 15
+  exceptional boolean not null default false, -- confirmed despite plausibility warnings, see phase 16
+  identification_rank text, -- 'Espèce' | 'Sous-espèce' | 'Genre' | 'Paire / agrégat', see phase 17
+  candidate_latin_names text[], -- members of a pair or aggregate, see phase 17
+  confidence text, -- 'Certaine' | 'Probable' | 'Possible', see phase 18
+  validation_status text not null default 'Non validée', -- 'Non validée' | 'Validée' | 'Invalidée', see phase 18
+  validation_comment text,
+  validated_by text, -- reviewer e-mail
+  validated_at timestamp with time zone
+);
+
+-- Edit history, one row per update that changed at least one column
+create table observation_revisions (
+  id uuid default uuid_generate_v4() primary key,
+  observation_id uuid references observations on delete cascade not null,
+  user_id uuid references auth.users not null,
+  revised_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  edited_at timestamp with time zone,
+  edit_source text,
+  offline_edit_count int,
+  changes jsonb not null -- { "<column>": { "old": ..., "new": ... } }
 );
 
 -- Data integrity constraints
@@ -53,6 +111,14 @@ alter table observations
   add constraint observations_unidentified_count_non_negative_check
   check (unidentified_count is null or unidentified_count >= 0);
 
+alter table observations
+  add constraint observations_gps_accuracy_positive_check
+  check (gps_accuracy is null or gps_accuracy > 0);
+
+alter table observations
+  add constraint observations_geometry_type_check
+  check (geometry is null or geometry->>'type' in ('LineString', 'Polygon'));
+
 alter table observations
   add constraint observations_count_breakdown_sum_check
   check (
@@ -92,6 +158,35 @@ create index if not exists idx_observations_user_gps_present
   on observations (user_id, gps_lat, gps_lon)
   where gps_lat is not null and gps_lon is not null;
 
+-- Delta sync: rows changed (or tombstoned) since the client's last sync
+create index if not exists idx_observations_user_updated_at
+  on observations (user_id, updated_at);
+
+-- Recycle bin listing and 30-day purge
+create index if not exists idx_observations_user_deleted_at
+  on observations (user_id, deleted_at)
+  where deleted_at is not null;
+
+-- Observations of a session, sessions list
+create index if not exists idx_observations_session
+  on observations (session_id)
+  where session_id is not null;
+
+create index if not exists idx_observations_cd_ref
+  on observations (user_id, cd_ref)
+  where cd_ref is not null;
+
+create index if not exists idx_observations_validation_status
+  on observations (user_id, validation_status)
+  where deleted_at is null;
+
+create index if not exists idx_sampling_sessions_user_date
+  on sampling_sessions (user_id, date desc);
+
+-- Edit history timeline of an observation
+create index if not exists idx_observation_revisions_observation
+  on observation_revisions (observation_id, revised_at desc);
+
 -- Keep updated_at synchronized
 create or replace function public.set_observations_updated_at()
 returns trigger
@@ -108,6 +203,74 @@ before update on observations
 for each row
 execute function public.set_observations_updated_at();
 
+create trigger trg_set_sampling_sessions_updated_at
+before update on sampling_sessions
+for each row
+execute function public.set_observations_updated_at();
+
+-- Edit history: record the changed columns of every update
+create or replace function public.record_observation_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed jsonb;
+  attributed boolean;
+begin
+  select coalesce(jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value)), '{}'::jsonb)
+    into changed
+  from jsonb_each(to_jsonb(new)) n
+  join jsonb_each(to_jsonb(old)) o on o.key = n.key
+  where n.value is distinct from o.value
+    and n.key not in ('updated_at', 'edited_at', 'edit_source', 'offline_edit_count');
+
+  if changed = '{}'::jsonb then
+    return new;
+  end if;
+
+  -- Attribution columns only describe the write that set them.
+  attributed := new.edited_at is distinct from old.edited_at;
+
+  insert into observation_revisions (observation_id, user_id, edited_at, edit_source, offline_edit_count, changes)
+  values (
+    new.id,
+    new.user_id,
+    case when attributed then new.edited_at end,
+    case when attributed then new.edit_source end,
+    case when attributed then new.offline_edit_count end,
+    changed
+  );
+  return new;
+end;
+$$;
+
+create trigger trg_record_observation_revision
+after update on observations
+for each row
+execute function public.record_observation_revision();
+
+-- Recycle bin: purge observations deleted more than 30 days ago (schedulable with pg_cron)
+create or replace function public.purge_deleted_observations(retention interval default interval '30 days')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purged integer;
+begin
+  delete from observations
+  where deleted_at is not null
+    and deleted_at < timezone('utc'::text, now()) - retention;
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
+
+revoke all on function public.purge_deleted_observations(interval) from public, anon, authenticated;
+
 -- Enable Row Level Security (RLS)
 alter table observations enable row level security;
 
@@ -132,6 +295,32 @@ create policy "Users can delete their own observations"
   on observations for delete
   using (auth.uid() = user_id);
 
+-- 5. Users can view the edit history of their own observations (written by the trigger only)
+alter table observation_revisions enable row level security;
+
+create policy "Users can view their own observation revisions"
+  on observation_revisions for select
+  using (auth.uid() = user_id);
+
+-- 6. Users manage their own sampling sessions
+alter table sampling_sessions enable row level security;
+
+create policy "Users can view their own sessions"
+  on sampling_sessions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own sessions"
+  on sampling_sessions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own sessions"
+  on sampling_sessions for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own sessions"
+  on sampling_sessions for delete
+  using (auth.uid() = user_id);
+
 -- Create Storage Bucket for Photos
 insert into storage.buckets (id, name, public) values ('photos', 'photos', true);
 
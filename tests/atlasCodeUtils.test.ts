@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Age, BreedingEvidence, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import { buildBreedingAtlas, normalizeAtlasCode, parseAtlasCode } from '../utils/atlasCodeUtils';
+import { getAtlasSquareCode } from '../utils/atlasGridUtils';
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Pie-grièche écorcheur',
+    latinName: 'Lanius collurio',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-06-02',
+    time: '09:15',
+    count: 1,
+    location: '',
+    gps: { lat: 47.32, lon: 5.04 },
+    municipality: 'Dijon',
+    department: '21',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NT,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('parseAtlasCode', () => {
+    it('reads codes 1 to 19 and their evidence level', () => {
+        expect(parseAtlasCode(' 03 ')?.evidence).toBe(BreedingEvidence.POSSIBLE);
+        expect(parseAtlasCode('10')?.evidence).toBe(BreedingEvidence.PROBABLE);
+        expect(parseAtlasCode('19')?.evidence).toBe(BreedingEvidence.CERTAIN);
+        expect(parseAtlasCode('B4')).toBeNull();
+        expect(normalizeAtlasCode('03')).toBe('3');
+    });
+});
+
+describe('getAtlasSquareCode', () => {
+    it('gives the 10 km Lambert-93 square of a French point', () => {
+        expect(getAtlasSquareCode({ lat: 48.853, lon: 2.3498 })).toBe('10kmL93E065N686');
+        expect(getAtlasSquareCode({ lat: 40.4, lon: -3.7 })).toBeNull();
+        expect(getAtlasSquareCode({ lat: null, lon: null })).toBeNull();
+    });
+});
+
+describe('buildBreedingAtlas', () => {
+    it('keeps the highest evidence per species and per square', () => {
+        const atlas = buildBreedingAtlas([
+            makeObservation({ id: '1', atlasCode: '3' }),
+            makeObservation({ id: '2', atlasCode: '16', gps: { lat: 47.9, lon: 5.6 } }),
+            makeObservation({ id: '3', atlasCode: '4' }),
+            makeObservation({ id: '4', speciesName: 'Grenouille agile', latinName: 'Rana dalmatina', taxonomicGroup: TaxonomicGroup.AMPHIBIAN, atlasCode: '19' })
+        ]);
+
+        expect(atlas.species).toHaveLength(1);
+        expect(atlas.species[0]).toMatchObject({ name: 'Pie-grièche écorcheur', squareCount: 2 });
+        expect(atlas.species[0].atlasCode.code).toBe(16);
+        expect(atlas.squares.map(square => square.species[0].atlasCode.code).sort((a, b) => a - b)).toEqual([4, 16]);
+        expect(atlas.squares.find(square => square.species[0].atlasCode.code === 4)?.counts).toEqual({
+            [BreedingEvidence.POSSIBLE]: 0,
+            [BreedingEvidence.PROBABLE]: 1,
+            [BreedingEvidence.CERTAIN]: 0
+        });
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import {
+    buildAtlasSquareSummaries,
+    getAtlasSquareCode,
+    getAtlasSquareCorners,
+    matchesAtlasSquareFilter,
+    parseAtlasSquareCode
+} from '../utils/atlasGridUtils';
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Agrion jouvencelle',
+    latinName: 'Coenagrion puella',
+    taxonomicGroup: TaxonomicGroup.ODONATE,
+    date: '2026-06-02',
+    time: '10:00',
+    count: 1,
+    location: '',
+    gps: { lat: 48.853, lon: 2.3498 },
+    municipality: 'Paris',
+    department: '75',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.LC,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('getAtlasSquareCode', () => {
+    it('gives the 5 and 1 km squares in kilometres', () => {
+        const gps = { lat: 48.853, lon: 2.3498 };
+        expect(getAtlasSquareCode(gps, 5)).toBe('5kmL93E0650N6860');
+        expect(getAtlasSquareCode(gps, 1)).toBe('1kmL93E0652N6861');
+    });
+});
+
+describe('getAtlasSquareCorners', () => {
+    it('projects the square back around the observation point', () => {
+        const corners = getAtlasSquareCorners('1kmL93E0652N6861');
+
+        expect(parseAtlasSquareCode('1kmL93E0652N6861')).toEqual({ sizeKm: 1, x: 652000, y: 6861000 });
+        expect(corners).toHaveLength(4);
+        expect(getAtlasSquareCode({ lat: corners![0].lat + 0.001, lon: corners![0].lon + 0.001 }, 1)).toBe('1kmL93E0652N6861');
+        expect(getAtlasSquareCorners('10kmL93E65N686')).toBeNull();
+    });
+});
+
+describe('atlas square filter and summaries', () => {
+    it('filters on a square of any size and counts species per square', () => {
+        const observations = [
+            makeObservation({ id: '1' }),
+            makeObservation({ id: '2', speciesName: 'Anax empereur', latinName: 'Anax imperator' }),
+            makeObservation({ id: '3', gps: { lat: 47.32, lon: 5.04 } }),
+            makeObservation({ id: '4', gps: { lat: null, lon: null } })
+        ];
+
+        expect(observations.filter(obs => matchesAtlasSquareFilter(obs, '1kmL93E0652N6861')).map(obs => obs.id)).toEqual(['1', '2']);
+        expect(observations.filter(obs => matchesAtlasSquareFilter(obs, 'all'))).toHaveLength(4);
+        expect(buildAtlasSquareSummaries(observations)).toEqual([
+            { squareCode: '10kmL93E065N686', observations: 2, speciesCount: 2 },
+            { squareCode: getAtlasSquareCode({ lat: 47.32, lon: 5.04 }), observations: 1, speciesCount: 1 }
+        ]);
+    });
+});
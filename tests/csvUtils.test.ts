@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvId, parseDelimitedText } from '../utils/csvUtils';
+
+describe('parseDelimitedText', () => {
+    it('keeps delimiters, quotes and line breaks inside quoted cells', () => {
+        const text = '\uFEFFCD_NOM,LB_AUTEUR,NOM_VERN\r\n3764,"Linnaeus, 1758","Mésange ""charbonnière""\nMésange"\r\n\r\n3967, L. ,Pie-grièche d"Europe\n';
+
+        expect(parseDelimitedText(text)).toEqual([
+            ['CD_NOM', 'LB_AUTEUR', 'NOM_VERN'],
+            ['3764', 'Linnaeus, 1758', 'Mésange "charbonnière"\nMésange'],
+            ['3967', 'L.', 'Pie-grièche d"Europe']
+        ]);
+    });
+
+    it('picks the delimiter of the header line', () => {
+        expect(parseDelimitedText('A\tB,C\n1\t2,3')).toEqual([['A', 'B,C'], ['1', '2,3']]);
+        expect(parseDelimitedText('A;B\n"1;2";3')).toEqual([['A', 'B'], ['1;2', '3']]);
+    });
+});
+
+describe('parseCsvId', () => {
+    it('accepts positive integers only', () => {
+        expect(parseCsvId(' 3764 ')).toBe(3764);
+        expect(parseCsvId('0')).toBeUndefined();
+        expect(parseCsvId('')).toBeUndefined();
+        expect(parseCsvId(undefined)).toBeUndefined();
+    });
+});
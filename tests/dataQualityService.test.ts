@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { auditObservationsWithReferences } from '../services/dataQualityService';
+import { registerTaxonProvider, unregisterTaxonProvider } from '../services/taxonProvider';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+
+const { fetchSpeciesInfoMock } = vi.hoisted(() => ({
+    fetchSpeciesInfoMock: vi.fn()
+}));
+
+vi.mock('../services/speciesService', () => ({
+    fetchSpeciesInfo: fetchSpeciesInfoMock
+}));
+
+const fetchMock = vi.fn();
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Fourmi rousse',
+    latinName: 'Formica rufa',
+    taxonomicGroup: TaxonomicGroup.ANT,
+    date: '2026-03-01',
+    time: '12:00',
+    count: 1,
+    location: '',
+    gps: { lat: null, lon: null },
+    municipality: '',
+    department: '',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NE,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('auditObservationsWithReferences', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubGlobal('fetch', fetchMock);
+        registerTaxonProvider({
+            id: 'stub',
+            label: 'Stub',
+            priority: 1,
+            timeoutMs: 1000,
+            remote: false,
+            match: async ({ latinName }) => ({
+                taxonomicGroup: latinName === 'Vespa crabro' ? TaxonomicGroup.HYMENOPTERA : TaxonomicGroup.ANT
+            })
+        });
+    });
+
+    afterEach(() => {
+        unregisterTaxonProvider('stub');
+        vi.unstubAllGlobals();
+    });
+
+    it('checks each species and GPS point once against the references', async () => {
+        fetchSpeciesInfoMock.mockResolvedValueOnce({ latinName: 'Formica rufa', confidence: 'high' });
+        fetchMock.mockResolvedValueOnce({ ok: true, json: async () => [{ codeDepartement: '39' }] } as Response);
+        const progress = vi.fn();
+
+        const issues = await auditObservationsWithReferences([
+            makeObservation({ id: 'hornet-1', speciesName: 'Frelon', latinName: 'Vespa crabro' }),
+            makeObservation({ id: 'hornet-2', speciesName: 'Frelon', latinName: 'Vespa crabro', taxonomicGroup: TaxonomicGroup.HYMENOPTERA }),
+            makeObservation({ id: 'ant', latinName: '', gps: { lat: 46.67, lon: 5.55 }, department: '21' }),
+            makeObservation({ id: 'ant-same-point', gps: { lat: 46.67, lon: 5.55 }, department: '39' })
+        ], progress);
+
+        expect(issues.map(issue => [issue.observationId, issue.type, issue.fix?.patch])).toEqual([
+            ['hornet-1', 'taxonomicGroup', { taxonomicGroup: TaxonomicGroup.HYMENOPTERA }],
+            ['ant', 'latinName', { latinName: 'Formica rufa' }],
+            ['ant', 'department', { department: '39' }]
+        ]);
+        expect(fetchSpeciesInfoMock).toHaveBeenCalledWith('Fourmi rousse');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(String(fetchMock.mock.calls[0][0])).toContain('geo.api.gouv.fr/communes?lat=46.67&lon=5.55');
+        expect(progress).toHaveBeenLastCalledWith({ done: 4, total: 4 });
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, RedListScale, Sexe, Status, TaxonomicGroup } from '../types';
+import { applyDataQualityFix, findDataQualityIssues, mergeDataQualityIssues } from '../utils/dataQualityUtils';
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Chrysope verte',
+    latinName: 'Chrysoperla carnea',
+    taxonomicGroup: TaxonomicGroup.NEUROPTERA,
+    date: '2026-03-01',
+    time: '12:00',
+    count: 3,
+    location: 'Jardin',
+    gps: { lat: null, lon: null },
+    municipality: 'Dijon',
+    department: '21',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.LC,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('findDataQualityIssues', () => {
+    it('flags legacy groups, missing latin names, unknown statuses and wrong breakdowns', () => {
+        const issues = findDataQualityIssues([
+            makeObservation(),
+            makeObservation({ id: 'legacy', taxonomicGroup: 'Nervoptère' as TaxonomicGroup }),
+            makeObservation({ id: 'no-latin', latinName: ' ' }),
+            makeObservation({ id: 'bad-status', status: 'XX' as Status }),
+            makeObservation({
+                id: 'listed',
+                status: Status.NE,
+                redLists: [{ scale: RedListScale.FRANCE, status: Status.VU, source: 'UICN France' }]
+            }),
+            makeObservation({ id: 'breakdown', maleCount: 1, femaleCount: 1 })
+        ]);
+
+        expect(issues.map(issue => [issue.observationId, issue.type, issue.fix?.patch])).toEqual([
+            ['legacy', 'taxonomicGroup', { taxonomicGroup: TaxonomicGroup.NEUROPTERA }],
+            ['no-latin', 'latinName', undefined],
+            ['bad-status', 'status', { status: Status.NE }],
+            ['listed', 'status', { status: Status.VU }],
+            ['breakdown', 'countBreakdown', { count: 2 }]
+        ]);
+    });
+
+    it('clears an all-zero breakdown and lets a reference issue replace the local one', () => {
+        const obs = makeObservation({ maleCount: 0, unidentifiedCount: 0 });
+        const [issue] = findDataQualityIssues([obs]);
+        expect(applyDataQualityFix(obs, issue.fix!)).toMatchObject({ count: 3, maleCount: undefined, unidentifiedCount: undefined });
+
+        const local = findDataQualityIssues([makeObservation({ latinName: '' })]);
+        const reference = [{ ...local[0], fix: { label: 'Renseigner Chrysoperla carnea', patch: { latinName: 'Chrysoperla carnea' } } }];
+        expect(mergeDataQualityIssues(local, reference)).toEqual(reference);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import { addEpocTally, buildEpocCandidates, buildEpocObservations, createEpocSession, selectEpocHistory } from '../services/epocService';
+
+vi.mock('../supabaseClient', () => ({
+    supabase: {}
+}));
+
+const makeObservation = (overrides: Partial<Observation>): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Merle noir',
+    latinName: 'Turdus merula',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2025-04-10',
+    time: '08:00',
+    count: 1,
+    location: '',
+    gps: { lat: null, lon: null },
+    municipality: '',
+    department: '',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NE,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('EPOC checklist prefill', () => {
+    it('keeps the birds seen nearby in the same month, the most regular first', () => {
+        const session = {
+            ...createEpocSession(new Date(2026, 3, 18, 7, 0)),
+            municipality: 'Trappes',
+            gps: { lat: 48.775, lon: 2.0 }
+        };
+        const history = selectEpocHistory([
+            makeObservation({ id: '1', date: '2025-04-10', gps: { lat: 48.776, lon: 2.001 } }),
+            makeObservation({ id: '2', date: '2024-04-22', gps: { lat: 48.78, lon: 2.01 } }),
+            makeObservation({ id: '3', date: '2025-04-10', speciesName: 'Pinson des arbres', latinName: '', municipality: 'trappes' }),
+            makeObservation({ id: '4', date: '2025-04-10', speciesName: 'Renard roux', taxonomicGroup: TaxonomicGroup.MAMMAL, gps: { lat: 48.775, lon: 2.0 } }),
+            makeObservation({ id: '5', date: '2025-05-10', speciesName: 'Martinet noir', gps: { lat: 48.775, lon: 2.0 } }),
+            makeObservation({ id: '6', date: '2025-04-10', speciesName: 'Goéland argenté', gps: { lat: 49.5, lon: 0.1 } })
+        ], session);
+
+        expect(history.map(obs => obs.id)).toEqual(['1', '2', '3', '4']);
+        expect(buildEpocCandidates(history).map(candidate => [candidate.speciesName, candidate.visits])).toEqual([
+            ['Merle noir', 2],
+            ['Pinson des arbres', 1]
+        ]);
+    });
+
+    it('turns the tapped counts into observations attached to the checklist', () => {
+        const session = { ...createEpocSession(new Date(2026, 3, 18, 7, 0)), location: 'Parc', gps: { lat: 48.7, lon: 2.0 } };
+        const merle = { speciesName: 'Merle noir', latinName: 'Turdus merula', taxonomicGroup: TaxonomicGroup.BIRD };
+        const pinson = { speciesName: 'Pinson des arbres', latinName: '', taxonomicGroup: TaxonomicGroup.BIRD };
+
+        let tallies = addEpocTally([], merle);
+        tallies = addEpocTally(tallies, merle);
+        tallies = addEpocTally(tallies, pinson);
+        tallies = addEpocTally(tallies, pinson, -1);
+
+        const observations = buildEpocObservations(session, tallies);
+        expect(observations).toHaveLength(1);
+        expect(observations[0]).toMatchObject({
+            speciesName: 'Merle noir',
+            count: 2,
+            protocol: Protocol.EPOC,
+            sessionId: session.id,
+            date: '2026-04-18',
+            time: '07:00',
+            location: 'Parc',
+            gps: { lat: 48.7, lon: 2.0 }
+        });
+    });
+});
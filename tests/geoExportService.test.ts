@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import { buildGeoJson, buildGpx, buildKml, getTaxonIconUrl } from '../services/geoExportService';
+
+const BASE_URL = 'https://carnet.example.org';
+
+const makeObservation = (overrides: Partial<Observation>): Observation => ({
+    id: '123e4567-e89b-42d3-a456-426614174000',
+    speciesName: 'Pie-grièche écorcheur',
+    latinName: 'Lanius collurio',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-06-02',
+    time: '09:15',
+    count: 3,
+    location: 'Haies du Moulin',
+    gps: { lat: 47.25, lon: 5.01 },
+    municipality: 'Dijon',
+    department: '21',
+    country: 'France',
+    altitude: 245,
+    comment: 'Couple & jeunes',
+    status: Status.NE,
+    atlasCode: '16',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.ADULT,
+    observationCondition: ObservationCondition.SEEN_LANDED,
+    comportement: Comportement.HUNTING,
+    ...overrides
+});
+
+const transect = makeObservation({
+    id: '223e4567-e89b-42d3-a456-426614174000',
+    speciesName: 'Agrion de Mercure',
+    taxonomicGroup: TaxonomicGroup.ODONATE,
+    geometry: { type: 'LineString', coordinates: [[5.01, 47.25], [5.02, 47.26]] }
+});
+
+const unlocated = makeObservation({ id: '323e4567-e89b-42d3-a456-426614174000', gps: { lat: null, lon: null } });
+
+describe('getTaxonIconUrl', () => {
+    it('resolves the group logo to an encoded absolute URL', () => {
+        expect(getTaxonIconUrl(TaxonomicGroup.MAMMAL, BASE_URL)).toBe('https://carnet.example.org/Logo/Mammif%C3%A8res.png');
+    });
+});
+
+describe('buildGeoJson', () => {
+    it('writes one feature per located observation with its group icon', () => {
+        const { content, skipped } = buildGeoJson([makeObservation({}), transect, unlocated], BASE_URL);
+        const collection = JSON.parse(content);
+
+        expect(skipped).toBe(1);
+        expect(collection.type).toBe('FeatureCollection');
+        expect(collection.features.map((feature: { geometry: { type: string } }) => feature.geometry.type)).toEqual(['Point', 'LineString']);
+        expect(collection.features[0].geometry.coordinates).toEqual([5.01, 47.25]);
+        expect(collection.features[0].properties).toMatchObject({
+            speciesName: 'Pie-grièche écorcheur',
+            taxonomicGroup: 'Oiseaux',
+            count: 3,
+            icon: 'https://carnet.example.org/Logo/Oiseaux.png'
+        });
+    });
+});
+
+describe('buildKml', () => {
+    it('declares a style per group and escapes the placemark text', () => {
+        const { content } = buildKml([makeObservation({}), transect], BASE_URL);
+
+        expect(content.match(/<Style id=/g)).toHaveLength(2);
+        expect(content).toContain('<href>https://carnet.example.org/Logo/Odonates.png</href>');
+        expect(content).toContain('<color>ff457b5d</color>');
+        expect(content).toContain('Couple &amp; jeunes');
+        expect(content).toContain('<Point><coordinates>5.01,47.25</coordinates></Point>');
+        expect(content).toContain('<coordinates>5.01,47.25 5.02,47.26</coordinates>');
+    });
+});
+
+describe('buildGpx', () => {
+    it('writes points as waypoints before lines as tracks', () => {
+        const { content, skipped } = buildGpx([transect, makeObservation({}), unlocated], BASE_URL);
+
+        expect(skipped).toBe(1);
+        expect(content.indexOf('<wpt lat="47.25" lon="5.01">')).toBeGreaterThan(-1);
+        expect(content.indexOf('<wpt')).toBeLessThan(content.indexOf('<trk>'));
+        expect(content).toContain('<ele>245</ele>');
+        expect(content).toContain('<sym>Oiseaux</sym>');
+        expect(content).toContain('<desc>Couple &amp; jeunes</desc>');
+        expect(content).toContain('<trkpt lat="47.26" lon="5.02"/>');
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import { buildGeoJson, buildGpx } from '../services/geoExportService';
+import { isGeoJson, parseGeoJsonImport, parseGpxImport } from '../services/geoImportService';
+import { buildImportPersistencePlan } from '../services/importPolicy';
+
+const HANDHELD_GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="eTrex 32x" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="45.7712" lon="4.8301">
+    <ele>182.4</ele>
+    <time>2026-05-14T06:42:10Z</time>
+    <name>Huppe fasciée</name>
+    <desc>Chant depuis le verger</desc>
+    <sym>Flag, Blue</sym>
+  </wpt>
+  <wpt lat="95" lon="4.83"><name>Erreur</name></wpt>
+  <wpt lat="45.7720" lon="4.8310"><name>Lézard des murailles</name><type>Réptiles</type></wpt>
+  <trk><name>Sortie</name><trkseg><trkpt lat="45.77" lon="4.83"/></trkseg></trk>
+</gpx>`;
+
+const located = (overrides: Partial<Observation>): Observation => ({
+    id: '123e4567-e89b-42d3-a456-426614174000',
+    speciesName: 'Huppe fasciée',
+    latinName: 'Upupa epops',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-05-14',
+    time: '08:42',
+    count: 1,
+    location: 'Verger',
+    gps: { lat: 45.7712, lon: 4.8301 },
+    municipality: 'Lyon',
+    department: '69',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NE,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('parseGpxImport', () => {
+    it('turns valid waypoints into drafts and reports the others', () => {
+        const { observations, report } = parseGpxImport(HANDHELD_GPX);
+
+        expect(observations).toHaveLength(2);
+        expect(observations[0]).toMatchObject({
+            speciesName: 'Huppe fasciée',
+            gps: { lat: 45.7712, lon: 4.8301 },
+            altitude: 182.4,
+            comment: 'Chant depuis le verger',
+            taxonomicGroup: TaxonomicGroup.OTHER,
+            count: 1,
+            status: Status.NE
+        });
+        const instant = new Date('2026-05-14T06:42:10Z');
+        expect(observations[0].time).toBe(`${String(instant.getHours()).padStart(2, '0')}:${String(instant.getMinutes()).padStart(2, '0')}`);
+        expect(observations[1].taxonomicGroup).toBe(TaxonomicGroup.REPTILE);
+        expect(report).toMatchObject({ totalRows: 3, validRows: 2, blockingErrors: [] });
+        expect(report.errors).toEqual([expect.objectContaining({ row: 2, field: 'Coordonnées' })]);
+        expect(report.warnings.map(warning => warning.message)).toContain('Traces et itinéraires ignorés, seuls les points de passage sont importés');
+    });
+
+    it('blocks files that are not GPX', () => {
+        expect(parseGpxImport('<kml></kml>').report.blockingErrors).toHaveLength(1);
+        expect(parseGpxImport('<gpx><wpt').report.blockingErrors).toHaveLength(1);
+    });
+
+    it('reads back the date, group and comment of its own export', () => {
+        const source = located({ date: '2026-05-14', time: '07:30', comment: 'Au sol' });
+        const [draft] = parseGpxImport(buildGpx([source], 'https://carnet.example.org').content).observations;
+
+        expect(draft).toMatchObject({ date: '2026-05-14', time: '07:30', taxonomicGroup: TaxonomicGroup.BIRD, comment: 'Au sol' });
+    });
+});
+
+describe('parseGeoJsonImport', () => {
+    it('round-trips exported points and shapes, keeping ids for the import policy', () => {
+        const point = located({ gpsAccuracy: 8 });
+        const transect = located({
+            id: '223e4567-e89b-42d3-a456-426614174000',
+            geometry: { type: 'LineString', coordinates: [[4.83, 45.77], [4.84, 45.77]] }
+        });
+        const raw = JSON.parse(buildGeoJson([point, transect], 'https://carnet.example.org').content);
+
+        expect(isGeoJson(raw)).toBe(true);
+        const { observations, report } = parseGeoJsonImport(raw);
+
+        expect(report.warnings).toEqual([]);
+        expect(observations[0]).toMatchObject({ id: point.id, date: point.date, time: point.time, gpsAccuracy: 8, taxonomicGroup: TaxonomicGroup.BIRD });
+        expect(observations[1].geometry).toEqual(transect.geometry);
+        expect(observations[1].gps.lat).toBeCloseTo(45.77, 5);
+        expect(buildImportPersistencePlan(observations, [point]).map(plan => plan.mode)).toEqual(['update', 'insert']);
+    });
+
+    it('reads name and timestamp from other tools and skips unsupported geometries', () => {
+        const { observations, report } = parseGeoJsonImport({
+            type: 'FeatureCollection',
+            features: [
+                { type: 'Feature', geometry: { type: 'Point', coordinates: [2.35, 48.85, 35] }, properties: { name: 'Moineau domestique', time: '2026-04-02T10:05:00' } },
+                { type: 'Feature', geometry: { type: 'MultiPoint', coordinates: [[2.35, 48.85]] }, properties: {} }
+            ]
+        });
+
+        expect(observations).toHaveLength(1);
+        expect(observations[0]).toMatchObject({ speciesName: 'Moineau domestique', date: '2026-04-02', time: '10:05', altitude: 35 });
+        expect(report.errors).toEqual([expect.objectContaining({ row: 2, field: 'geometry' })]);
+    });
+
+    it('leaves the app JSON export to the JSON importer', () => {
+        expect(isGeoJson([{ id: 'x' }])).toBe(false);
+        expect(parseGeoJsonImport([]).report.blockingErrors).toHaveLength(1);
+    });
+});
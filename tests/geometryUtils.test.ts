@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildGeometry,
+    formatGeometrySummary,
+    getGeometryAnchor,
+    getGeometryVertices,
+    getPolygonAreaM2,
+    sanitizeGeometry,
+    sanitizeGpsAccuracy,
+    toGeoJsonGeometry,
+    toWkt
+} from '../utils/geometryUtils';
+
+// Roughly 100 m squares along the Ouche at Dijon.
+const SOUTH_WEST = { lat: 47.3, lon: 5.0 };
+const SOUTH_EAST = { lat: 47.3, lon: 5.0013245 };
+const NORTH_EAST = { lat: 47.3008993, lon: 5.0013245 };
+const NORTH_WEST = { lat: 47.3008993, lon: 5.0 };
+
+describe('buildGeometry', () => {
+    it('waits for two vertices on a line and three on a polygon', () => {
+        expect(buildGeometry('LineString', [SOUTH_WEST])).toBeUndefined();
+        expect(buildGeometry('Polygon', [SOUTH_WEST, SOUTH_EAST])).toBeUndefined();
+        expect(buildGeometry('LineString', [SOUTH_WEST, SOUTH_EAST])).toEqual({ type: 'LineString', coordinates: [[5.0, 47.3], [5.0013245, 47.3]] });
+    });
+
+    it('closes the polygon ring and gives the drawn vertices back', () => {
+        const polygon = buildGeometry('Polygon', [SOUTH_WEST, SOUTH_EAST, NORTH_EAST])!;
+
+        expect(polygon.coordinates).toEqual([[[5.0, 47.3], [5.0013245, 47.3], [5.0013245, 47.3008993], [5.0, 47.3]]]);
+        expect(getGeometryVertices(polygon)).toEqual([SOUTH_WEST, SOUTH_EAST, NORTH_EAST]);
+    });
+});
+
+describe('sanitizeGeometry', () => {
+    it('keeps valid GeoJSON and drops polygon holes', () => {
+        const ring = [[5.0, 47.3], [5.0013245, 47.3], [5.0013245, 47.3008993], [5.0, 47.3]];
+        const hole = [[5.0005, 47.3002], [5.0006, 47.3002], [5.0006, 47.3003], [5.0005, 47.3002]];
+
+        expect(sanitizeGeometry({ type: 'Polygon', coordinates: [ring, hole] })).toEqual({ type: 'Polygon', coordinates: [ring] });
+        // An unclosed ring is closed.
+        expect(sanitizeGeometry({ type: 'Polygon', coordinates: [ring.slice(0, -1)] })).toEqual({ type: 'Polygon', coordinates: [ring] });
+    });
+
+    it('rejects other types, out of range positions and too few vertices', () => {
+        expect(sanitizeGeometry({ type: 'Point', coordinates: [5, 47] })).toBeUndefined();
+        expect(sanitizeGeometry({ type: 'LineString', coordinates: [[5, 47], [5, 97]] })).toBeUndefined();
+        expect(sanitizeGeometry({ type: 'LineString', coordinates: [[5, 47]] })).toBeUndefined();
+        expect(sanitizeGeometry(null)).toBeUndefined();
+    });
+});
+
+describe('sanitizeGpsAccuracy', () => {
+    it('keeps positive radii rounded to the decimetre', () => {
+        expect(sanitizeGpsAccuracy(12.345)).toBe(12.3);
+        expect(sanitizeGpsAccuracy('8,5')).toBe(8.5);
+        expect(sanitizeGpsAccuracy(0)).toBeUndefined();
+        expect(sanitizeGpsAccuracy('abc')).toBeUndefined();
+    });
+});
+
+describe('geometry measures', () => {
+    it('anchors a line halfway along its length and a polygon on its centroid', () => {
+        const line = buildGeometry('LineString', [SOUTH_WEST, SOUTH_EAST, NORTH_EAST])!;
+        const anchor = getGeometryAnchor(line);
+
+        expect(anchor.lat).toBeCloseTo(47.3, 5);
+        expect(anchor.lon).toBeCloseTo(5.0013245, 5);
+
+        const square = buildGeometry('Polygon', [SOUTH_WEST, SOUTH_EAST, NORTH_EAST, NORTH_WEST])!;
+        const centroid = getGeometryAnchor(square);
+        expect(centroid.lat).toBeCloseTo(47.30045, 5);
+        expect(centroid.lon).toBeCloseTo(5.00066, 5);
+    });
+
+    it('measures about one hectare for a 100 m square', () => {
+        const square = [SOUTH_WEST, SOUTH_EAST, NORTH_EAST, NORTH_WEST];
+
+        expect(getPolygonAreaM2(square)).toBeGreaterThan(9900);
+        expect(getPolygonAreaM2(square)).toBeLessThan(10100);
+        expect(formatGeometrySummary(buildGeometry('Polygon', square)!)).toBe('Polygone de 1,0 ha');
+        expect(formatGeometrySummary(buildGeometry('LineString', [SOUTH_WEST, SOUTH_EAST])!)).toBe('Ligne de 100 m');
+    });
+});
+
+describe('geometry exports', () => {
+    it('writes the shape, else the point, as WKT and GeoJSON', () => {
+        const line = buildGeometry('LineString', [SOUTH_WEST, SOUTH_EAST]);
+
+        expect(toWkt({ gps: { lat: 47.3, lon: 5.0006 }, geometry: line })).toBe('LINESTRING(5 47.3, 5.0013245 47.3)');
+        expect(toWkt({ gps: { lat: 47.3, lon: 5.0006 } })).toBe('POINT(5.0006 47.3)');
+        expect(toWkt({ gps: { lat: null, lon: null } })).toBe('');
+        expect(toGeoJsonGeometry({ gps: { lat: 47.3, lon: 5.0006 } })).toEqual({ type: 'Point', coordinates: [5.0006, 47.3] });
+        expect(toGeoJsonGeometry({ gps: { lat: 47.3, lon: 5.0006 }, geometry: line })).toBe(line);
+    });
+});
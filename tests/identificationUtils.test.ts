@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { IdentificationRank } from '../types';
+import { getIdentificationRank, parseCandidateLatinNames, parseIdentification } from '../utils/identificationUtils';
+
+describe('parseIdentification', () => {
+    it('reads the rank written in the latin name', () => {
+        expect(parseIdentification('Sympetrum sp.')).toEqual({ rank: IdentificationRank.GENUS, genus: 'Sympetrum' });
+        expect(parseIdentification('Pipistrellus kuhlii/nathusii')).toEqual({
+            rank: IdentificationRank.AGGREGATE,
+            genus: 'Pipistrellus',
+            candidates: ['Pipistrellus kuhlii', 'Pipistrellus nathusii']
+        });
+        expect(parseIdentification('Rubus fruticosus agg.')?.rank).toBe(IdentificationRank.AGGREGATE);
+        expect(parseIdentification('Parnassius apollo subsp. arvernensis')?.rank).toBe(IdentificationRank.SUBSPECIES);
+        expect(parseIdentification('Calopteryx splendens')?.rank).toBe(IdentificationRank.SPECIES);
+        expect(parseIdentification('  ')).toBeNull();
+    });
+
+    it('prefers the recorded rank over the latin name', () => {
+        expect(getIdentificationRank({ latinName: 'Aeshna', identificationRank: IdentificationRank.GENUS })).toBe(IdentificationRank.GENUS);
+        expect(getIdentificationRank({ latinName: 'Aeshna' })).toBe(IdentificationRank.SPECIES);
+    });
+
+    it('parses the candidate species typed in the form', () => {
+        expect(parseCandidateLatinNames('Myotis myotis / blythii')).toEqual(['Myotis myotis', 'Myotis blythii']);
+        expect(parseCandidateLatinNames('Myotis myotis, Myotis blythii')).toEqual(['Myotis myotis', 'Myotis blythii']);
+    });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildHistoryTaxa, searchLocalTaxa, setTaxonHistory } from '../services/localTaxonIndex';
+import { suggestSpeciesAutocomplete } from '../services/speciesService';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+
+const makeObservation = (overrides: Partial<Observation>): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Espèce inconnue',
+    latinName: '',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-05-01',
+    time: '08:00',
+    count: 1,
+    location: 'Lieu',
+    gps: { lat: null, lon: null },
+    municipality: 'Commune',
+    department: '21',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NE,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+const notebook = [
+    makeObservation({ id: '1', speciesName: 'Mésange charbonnière', latinName: 'Parus major' }),
+    makeObservation({ id: '2', speciesName: 'mesange charbonniere', latinName: '' }),
+    makeObservation({ id: '3', speciesName: 'Mésange bleue', latinName: 'Cyanistes caeruleus', cdNom: 534742, cdRef: 534742 }),
+    makeObservation({ id: '4', speciesName: 'Écureuil roux', latinName: 'Sciurus vulgaris', taxonomicGroup: TaxonomicGroup.MAMMAL })
+];
+
+describe('local taxon index', () => {
+    afterEach(() => {
+        setTaxonHistory([]);
+        vi.unstubAllGlobals();
+    });
+
+    it('keeps one entry per species of the notebook', () => {
+        expect(buildHistoryTaxa(notebook).map(taxon => [taxon.speciesName, taxon.latinName, taxon.occurrences])).toEqual([
+            ['Mésange charbonnière', 'Parus major', 2],
+            ['Mésange bleue', 'Cyanistes caeruleus', 1],
+            ['Écureuil roux', 'Sciurus vulgaris', 1]
+        ]);
+    });
+
+    it('searches without accents, the most observed species first', async () => {
+        setTaxonHistory(notebook);
+
+        expect((await searchLocalTaxa('mesange')).map(taxon => taxon.speciesName)).toEqual(['Mésange charbonnière', 'Mésange bleue']);
+        expect((await searchLocalTaxa('ECUR')).map(taxon => taxon.latinName)).toEqual(['Sciurus vulgaris']);
+        expect((await searchLocalTaxa('cyanistes'))[0]).toMatchObject({ cdNom: 534742, cdRef: 534742, source: 'history' });
+    });
+
+    it('answers the autocomplete offline without calling the remote services', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubGlobal('navigator', { onLine: false });
+        setTaxonHistory(notebook);
+
+        const suggestions = await suggestSpeciesAutocomplete('Mesange', 5);
+
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(suggestions.map(suggestion => suggestion.displayName)).toEqual(['Mésange charbonnière', 'Mésange bleue']);
+        expect(suggestions[0]).toMatchObject({ latinName: 'Parus major', source: 'history', taxonomicGroup: TaxonomicGroup.BIRD });
+    });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, IdentificationConfidence, IdentificationRank, Observation, ObservationCondition, Protocol, RedListScale, RegulatoryListType, Sexe, Status, TaxonomicGroup, ValidationStatus } from '../types';
+import { diffObservations, mergeObservationVersions } from '../utils/observationDiffUtils';
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Mésange',
+    latinName: 'Parus major',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-03-01',
+    time: '12:00',
+    count: 1,
+    location: 'Parc',
+    gps: { lat: 48.85, lon: 2.35 },
+    municipality: 'Paris',
+    department: '75',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NE,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('diffObservations', () => {
+    it('lists only the fields whose value differs, gps included', () => {
+        const local = makeObservation({ count: 3, gps: { lat: 48.86, lon: 2.35 }, updatedAt: '2026-03-01T10:00:00Z' });
+        const remote = makeObservation({ comment: 'Vue au nid', updatedAt: '2026-03-02T10:00:00Z' });
+
+        expect(diffObservations(local, remote)).toEqual([
+            { field: 'count', label: 'Nombre', local: '3', remote: '1' },
+            { field: 'gps', label: 'GPS', local: '48.86, 2.35', remote: '48.85, 2.35' },
+            { field: 'comment', label: 'Commentaire', local: '', remote: 'Vue au nid' }
+        ]);
+    });
+
+    it('treats missing optional values as empty', () => {
+        expect(diffObservations(makeObservation({ maleCount: undefined }), makeObservation({ maleCount: undefined }))).toEqual([]);
+    });
+
+    it('detects a review made on the server while the observation was edited offline', () => {
+        const local = makeObservation({ count: 2, confidence: IdentificationConfidence.PROBABLE });
+        const remote = makeObservation({
+            confidence: IdentificationConfidence.CERTAIN,
+            validationStatus: ValidationStatus.REJECTED,
+            validationComment: 'Confusion avec la Mésange noire',
+            validatedBy: 'relecteur@example.org',
+            validatedAt: '2026-03-02T09:00:00Z'
+        });
+
+        expect(diffObservations(local, remote).map(diff => diff.field)).toEqual([
+            'count', 'confidence', 'validationStatus', 'validationComment', 'validatedBy', 'validatedAt'
+        ]);
+        expect(diffObservations(local, remote).find(diff => diff.field === 'validationStatus')).toMatchObject({ local: 'Non validée', remote: 'Invalidée' });
+    });
+
+    it('reports a TAXREF key filled in on one side only', () => {
+        expect(diffObservations(makeObservation({ cdNom: 3764, cdRef: 3764 }), makeObservation())).toEqual([
+            { field: 'cdNom', label: 'TAXREF cdNom', local: '3764', remote: '' },
+            { field: 'cdRef', label: 'TAXREF cdRef', local: '3764', remote: '' }
+        ]);
+    });
+
+    it('shows red-list assessments as badges and treats an empty list as none', () => {
+        const remote = makeObservation({ redLists: [{ scale: RedListScale.FRANCE, status: Status.LC, source: 'UICN France', year: 2016 }] });
+
+        expect(diffObservations(makeObservation(), remote)).toEqual([
+            { field: 'redLists', label: 'Listes rouges', local: '', remote: 'France LC (2016)' }
+        ]);
+        expect(diffObservations(makeObservation({ redLists: [] }), makeObservation())).toEqual([]);
+    });
+
+    it('shows regulatory statuses as badges', () => {
+        const remote = makeObservation({
+            regulatoryStatuses: [{ type: RegulatoryListType.PROTECTION, list: 'Protection nationale', label: 'Article 3', territory: 'France métropolitaine' }]
+        });
+
+        expect(diffObservations(makeObservation({ regulatoryStatuses: [] }), remote)).toEqual([
+            { field: 'regulatoryStatuses', label: 'Statuts réglementaires', local: '', remote: 'Protection nationale : Article 3' }
+        ]);
+    });
+
+    it('reports a record confirmed as exceptional on one side only', () => {
+        expect(diffObservations(makeObservation(), makeObservation({ exceptional: true }))).toEqual([
+            { field: 'exceptional', label: 'Donnée exceptionnelle', local: 'Non', remote: 'Oui' }
+        ]);
+        expect(diffObservations(makeObservation({ exceptional: false }), makeObservation())).toEqual([]);
+    });
+
+    it('reports an identification narrowed to an aggregate on the server', () => {
+        const remote = makeObservation({ identificationRank: IdentificationRank.AGGREGATE, candidateLatinNames: ['Parus major', 'Cyanistes caeruleus'] });
+
+        expect(diffObservations(makeObservation(), remote)).toEqual([
+            { field: 'identificationRank', label: "Rang d'identification", local: '', remote: 'Paire / agrégat' },
+            { field: 'candidateLatinNames', label: 'Espèces candidates', local: '', remote: 'Parus major / Cyanistes caeruleus' }
+        ]);
+    });
+
+    it('compares the drawn shape exactly and the GPS accuracy', () => {
+        const line = { type: 'LineString' as const, coordinates: [[2.35, 48.85], [2.36, 48.85]] as [number, number][] };
+        const local = makeObservation({ geometry: line, gpsAccuracy: 5 });
+        const remote = makeObservation({ geometry: { ...line, coordinates: [[2.35, 48.85], [2.36, 48.86]] }, gpsAccuracy: 12 });
+
+        expect(diffObservations(local, remote)).toEqual([
+            { field: 'gpsAccuracy', label: 'Précision GPS', local: '5', remote: '12' },
+            { field: 'geometry', label: 'Tracé', local: 'LINESTRING(2.35 48.85, 2.36 48.85)', remote: 'LINESTRING(2.35 48.85, 2.36 48.86)' }
+        ]);
+        expect(diffObservations(makeObservation({ geometry: line }), makeObservation({ geometry: { ...line } }))).toEqual([]);
+    });
+
+    it('reports a change of session or taxon provider ids', () => {
+        const local = makeObservation({ sessionId: 'session-1', gbifTaxonId: 9705453 });
+        const remote = makeObservation({ gbifTaxonId: 9705453, inatTaxonId: 203153 });
+
+        expect(diffObservations(local, remote)).toEqual([
+            { field: 'sessionId', label: 'Sortie', local: 'session-1', remote: '' },
+            { field: 'inatTaxonId', label: 'Taxon iNaturalist', local: '', remote: '203153' }
+        ]);
+        expect(mergeObservationVersions(local, remote, { sessionId: 'remote' }).sessionId).toBeUndefined();
+    });
+
+    it('does not report a missing validation status as a change from "non validée"', () => {
+        expect(diffObservations(makeObservation(), makeObservation({ validationStatus: ValidationStatus.PENDING }))).toEqual([]);
+    });
+});
+
+describe('mergeObservationVersions', () => {
+    it('takes the chosen side per field and keeps the server timestamp', () => {
+        const local = makeObservation({ count: 3, comment: 'Local' });
+        const remote = makeObservation({ count: 5, comment: 'Serveur', gps: { lat: 45, lon: 5 }, updatedAt: '2026-03-02T10:00:00Z' });
+
+        const merged = mergeObservationVersions(local, remote, { comment: 'remote', gps: 'remote', count: 'local' });
+
+        expect(merged).toMatchObject({ count: 3, comment: 'Serveur', gps: { lat: 45, lon: 5 }, updatedAt: '2026-03-02T10:00:00Z' });
+        expect(merged.gps).not.toBe(remote.gps);
+    });
+
+    it("keeps the server's review unless the local side is chosen", () => {
+        const local = makeObservation({ count: 3 });
+        const remote = makeObservation({ validationStatus: ValidationStatus.VALIDATED, validatedBy: 'relecteur@example.org', validatedAt: '2026-03-02T09:00:00Z' });
+
+        expect(mergeObservationVersions(local, remote, {})).toMatchObject({
+            count: 3,
+            validationStatus: ValidationStatus.VALIDATED,
+            validatedBy: 'relecteur@example.org',
+            validatedAt: '2026-03-02T09:00:00Z'
+        });
+        expect(mergeObservationVersions(local, remote, { validationStatus: 'local' }).validationStatus).toBeUndefined();
+    });
+});
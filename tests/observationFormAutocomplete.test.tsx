@@ -4,10 +4,12 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
 
 const {
+    suggestLocalSpeciesMock,
     suggestSpeciesAutocompleteMock,
     fetchSpeciesInfoMock,
     mapINatIconicToTaxonomicGroupMock
 } = vi.hoisted(() => ({
+    suggestLocalSpeciesMock: vi.fn(async () => []),
     suggestSpeciesAutocompleteMock: vi.fn(),
     fetchSpeciesInfoMock: vi.fn(),
     mapINatIconicToTaxonomicGroupMock: vi.fn((iconicName?: string) => {
@@ -18,6 +20,7 @@ const {
 }));
 
 vi.mock('../services/speciesService', () => ({
+    suggestLocalSpecies: suggestLocalSpeciesMock,
     suggestSpeciesAutocomplete: suggestSpeciesAutocompleteMock,
     fetchSpeciesInfo: fetchSpeciesInfoMock,
     mapINatIconicToTaxonomicGroup: mapINatIconicToTaxonomicGroupMock
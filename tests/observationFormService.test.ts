@@ -65,3 +65,20 @@ describe('observationFormService count breakdown', () => {
         expect(errors.countBreakdown).toBeUndefined();
     });
 });
+
+describe('observationFormService atlas code', () => {
+    it('accepts a breeding code 1 to 19 on a bird only', () => {
+        expect(validateObservationForm(makeFormData({ taxonomicGroup: TaxonomicGroup.BIRD, atlasCode: '16' })).atlasCode).toBeUndefined();
+        expect(validateObservationForm(makeFormData({ taxonomicGroup: TaxonomicGroup.BIRD, atlasCode: '20' })).atlasCode).toContain('1 à 19');
+        expect(validateObservationForm(makeFormData({ atlasCode: '3' })).atlasCode).toContain('réservé aux oiseaux');
+    });
+});
+
+describe('observationFormService GPS accuracy', () => {
+    it('accepts an empty or positive radius only', () => {
+        expect(validateObservationForm(makeFormData()).gpsAccuracy).toBeUndefined();
+        expect(validateObservationForm(makeFormData({ gpsAccuracy: 8 })).gpsAccuracy).toBeUndefined();
+        expect(validateObservationForm(makeFormData({ gpsAccuracy: 0 })).gpsAccuracy).toContain('positif');
+        expect(validateObservationForm(makeFormData({ gpsAccuracy: Number.NaN })).gpsAccuracy).toContain('positif');
+    });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+
+const orderMock = vi.fn();
+const eqMock = vi.fn(() => ({ order: orderMock }));
+const selectMock = vi.fn(() => ({ eq: eqMock }));
+const fromMock = vi.fn(() => ({ select: selectMock }));
+
+vi.mock('../supabaseClient', () => ({
+    supabase: {
+        from: fromMock
+    }
+}));
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: '123e4567-e89b-42d3-a456-426614174000',
+    speciesName: 'Mésange charbonnière',
+    latinName: 'Parus major',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-03-01',
+    time: '12:00',
+    count: 3,
+    maleCount: 1,
+    location: 'Parc',
+    gps: { lat: 48.85, lon: 2.35 },
+    municipality: 'Paris',
+    department: '75',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NE,
+    atlasCode: 'B4',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('observationHistoryService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('maps revisions newest first with labelled changes and offline attribution', async () => {
+        orderMock.mockResolvedValue({
+            data: [{
+                id: 'rev-2',
+                revised_at: '2026-03-02T08:00:00+00:00',
+                edited_at: '2026-03-01T18:00:00+00:00',
+                edit_source: 'offline',
+                offline_edit_count: 2,
+                changes: {
+                    species_name: { old: 'Mésange bleue', new: 'Mésange charbonnière' },
+                    deleted_at: { old: '2026-03-01T17:00:00+00:00', new: null }
+                }
+            }],
+            error: null
+        });
+
+        const { getObservationHistory } = await import('../services/observationHistoryService');
+        const [revision] = await getObservationHistory('obs-1');
+
+        expect(fromMock).toHaveBeenCalledWith('observation_revisions');
+        expect(eqMock).toHaveBeenCalledWith('observation_id', 'obs-1');
+        expect(orderMock).toHaveBeenCalledWith('revised_at', { ascending: false });
+        expect(revision).toMatchObject({ source: 'offline', offlineEditCount: 2, editedAt: '2026-03-01T18:00:00+00:00' });
+        expect(revision.changes).toEqual([
+            { column: 'species_name', label: "Nom de l'espèce", oldValue: 'Mésange bleue', newValue: 'Mésange charbonnière', revertible: true },
+            { column: 'deleted_at', label: 'Corbeille', oldValue: '2026-03-01T17:00:00+00:00', newValue: null, revertible: false }
+        ]);
+    });
+
+    it('reverts a single field to its previous value', async () => {
+        const { revertRevisionChange } = await import('../services/observationHistoryService');
+        const observation = makeObservation();
+        const change = (column: string, oldValue: unknown) => ({ column, label: column, oldValue, newValue: null, revertible: true });
+
+        expect(revertRevisionChange(observation, change('atlas_code', 'A2'))).toMatchObject({ atlasCode: 'A2', count: 3 });
+        expect(revertRevisionChange(observation, change('male_count', null)).maleCount).toBeUndefined();
+        expect(revertRevisionChange(observation, change('time', '08:30:00')).time).toBe('08:30');
+        expect(revertRevisionChange(observation, change('gps_lat', 45.5)).gps).toEqual({ lat: 45.5, lon: 2.35 });
+        expect(revertRevisionChange(observation, change('unknown_column', 'x'))).toBe(observation);
+    });
+
+    it('formats a geometry change as its shape and vertex count', async () => {
+        const { formatRevisionValue } = await import('../services/observationHistoryService');
+        const change = { column: 'geometry', label: 'Tracé', oldValue: null, newValue: null, revertible: false };
+        const polygon = { type: 'Polygon', coordinates: [[[2.35, 48.85], [2.36, 48.85], [2.36, 48.86], [2.35, 48.85]]] };
+
+        expect(formatRevisionValue(change, polygon)).toMatch(/^Polygone de .+ \(3 sommets\)$/);
+        expect(formatRevisionValue(change, { type: 'Circle' })).toBe('{"type":"Circle"}');
+    });
+});
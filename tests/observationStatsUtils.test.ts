@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
-import { buildTaxonSpeciesCards } from '../utils/observationStatsUtils';
-import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import { buildChecklistStats, buildTaxonSpeciesCards, getCountedSpeciesKeys } from '../utils/observationStatsUtils';
+import { buildTaxrefIndex, fillTaxonReferences } from '../services/taxrefService';
+import { Age, Comportement, IdentificationRank, Observation, ObservationCondition, Protocol, SamplingSession, Sexe, Status, TaxonomicGroup } from '../types';
 
 const makeObservation = (overrides: Partial<Observation>): Observation => ({
     id: 'obs-1',
@@ -66,3 +67,85 @@ describe('buildTaxonSpeciesCards', () => {
         expect(cards.find(card => card.taxonomicGroup === TaxonomicGroup.REPTILE)?.speciesCount).toBe(1);
     });
 });
+
+describe('getCountedSpeciesKeys', () => {
+    it('counts genus-level, aggregate and subspecies records only when they add a species', () => {
+        const keys = getCountedSpeciesKeys([
+            makeObservation({ id: '1', speciesName: 'Sympétrum strié', latinName: 'Sympetrum striolatum' }),
+            makeObservation({ id: '2', speciesName: 'Sympétrum', latinName: 'Sympetrum sp.' }),
+            makeObservation({ id: '3', speciesName: 'Aeschne', latinName: 'Aeshna', identificationRank: IdentificationRank.GENUS }),
+            makeObservation({ id: '4', speciesName: 'Pipistrelle', latinName: 'Pipistrellus kuhlii/nathusii' }),
+            makeObservation({ id: '5', speciesName: 'Murin', latinName: 'Myotis myotis/blythii' }),
+            makeObservation({ id: '6', speciesName: 'Grand murin', latinName: 'Myotis myotis' }),
+            makeObservation({ id: '7', speciesName: 'Apollon', latinName: 'Parnassius apollo arvernensis' })
+        ]);
+
+        expect(Array.from(keys).sort()).toEqual([
+            'aggregate:pipistrellus kuhlii|pipistrellus nathusii',
+            'genus:aeshna',
+            'grand murin',
+            'species:parnassius apollo',
+            'sympetrum strie'
+        ]);
+    });
+
+    it('counts a linked and an older unlinked record of one species once after the TAXREF backfill', () => {
+        const index = buildTaxrefIndex([
+            { cdNom: 3764, cdRef: 3764, latinName: 'Parus major', frenchNames: ['Mésange charbonnière'] }
+        ]);
+        const linked = makeObservation({ id: '1', speciesName: 'Mésange charbonnière', latinName: 'Parus major', cdNom: 3764, cdRef: 3764 });
+        const unlinked = makeObservation({ id: '2', speciesName: 'Mésange charbonnière', latinName: '' });
+        expect(getCountedSpeciesKeys([linked, unlinked]).size).toBe(2);
+
+        const filled = fillTaxonReferences(index, [linked, unlinked]);
+
+        expect(filled).toEqual([{ ...unlinked, cdNom: 3764, cdRef: 3764 }]);
+        expect(Array.from(getCountedSpeciesKeys([linked, ...filled]))).toEqual(['cdref:3764']);
+    });
+});
+
+describe('buildChecklistStats', () => {
+    const makeChecklist = (id: string, completeList: boolean | undefined): SamplingSession => ({
+        id,
+        name: 'EPOC',
+        date: '2026-04-12',
+        startTime: '07:00',
+        endTime: '07:05',
+        observers: [],
+        weather: '',
+        protocol: Protocol.EPOC,
+        location: '',
+        municipality: '',
+        department: '',
+        country: 'France',
+        gps: { lat: null, lon: null },
+        route: [],
+        comment: '',
+        completeList
+    });
+
+    it('totals each list and derives absences from complete lists only', () => {
+        const stats = buildChecklistStats(
+            [makeChecklist('a', true), makeChecklist('b', true), makeChecklist('c', false), makeChecklist('d', undefined)],
+            [
+                makeObservation({ id: '1', sessionId: 'a', speciesName: 'Merle noir', count: 2 }),
+                makeObservation({ id: '2', sessionId: 'a', speciesName: 'Pinson des arbres', count: 3 }),
+                makeObservation({ id: '3', sessionId: 'b', speciesName: 'merle noir', count: 1 }),
+                makeObservation({ id: '4', sessionId: 'c', speciesName: 'Pinson des arbres', count: 5 }),
+                makeObservation({ id: '5', sessionId: 'd', speciesName: 'Geai des chênes' })
+            ]
+        );
+
+        expect(stats.lists.map(list => [list.session.id, list.speciesCount, list.individuals])).toEqual([
+            ['a', 2, 5],
+            ['b', 1, 1],
+            ['c', 1, 5]
+        ]);
+        expect(stats.completeLists).toBe(2);
+        expect(stats.averageSpeciesPerCompleteList).toBe(1.5);
+        expect(stats.reportingRates).toEqual([
+            { speciesName: 'Merle noir', detections: 2, absences: 0, rate: 1 },
+            { speciesName: 'Pinson des arbres', detections: 1, absences: 1, rate: 0.5 }
+        ]);
+    });
+});
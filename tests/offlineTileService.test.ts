@@ -0,0 +1,80 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TileSourceId, countAreaTiles } from '../utils/tileUtils';
+
+const cacheEntries = new Map<string, Response>();
+const fakeCache = {
+    match: vi.fn(async (url: string) => cacheEntries.get(url)?.clone()),
+    put: vi.fn(async (url: string, response: Response) => { cacheEntries.set(url, response); }),
+    delete: vi.fn(async (url: string) => cacheEntries.delete(url))
+};
+const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(new Uint8Array(100), { headers: { 'Content-Type': 'image/png' } }));
+
+const AREA = { south: 48.85, west: 2.34, north: 48.86, east: 2.36 };
+
+beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    cacheEntries.clear();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    vi.stubGlobal('caches', { open: vi.fn(async () => fakeCache), delete: vi.fn(async () => true) });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('devicePixelRatio', 1);
+});
+
+const loadService = () => import('../services/offlineTileService');
+
+describe('downloadOfflineArea', () => {
+    it('stores every tile of the area and records it with its measured size', async () => {
+        const service = await loadService();
+        const onProgress = vi.fn();
+
+        const request = { name: ' Île de la Cité ', bounds: AREA, minZoom: 12, maxZoom: 14, sources: ['light', 'osm'] as TileSourceId[] };
+        const total = countAreaTiles(AREA, 12, 14) * 2;
+
+        const area = await service.downloadOfflineArea(request, onProgress);
+
+        expect(area).toMatchObject({ name: 'Île de la Cité', tileCount: total, storedTiles: total, bytes: total * 100, retina: false });
+        expect(cacheEntries.size).toBe(total);
+        expect(cacheEntries.has('https://d.basemaps.cartocdn.com/light_all/12/2074/1409.png')).toBe(true);
+        expect(cacheEntries.has('https://a.tile.openstreetmap.org/12/2074/1409.png')).toBe(true);
+        expect(onProgress).toHaveBeenLastCalledWith({ done: total, total, failed: 0, bytes: total * 100 });
+        expect(await service.listOfflineAreas()).toEqual([area]);
+        expect(await service.readOfflineTile('https://d.basemaps.cartocdn.com/light_all/12/2074/1409.png')).toBeDefined();
+    });
+
+    it('counts failed tiles without losing the others', async () => {
+        const service = await loadService();
+        fetchMock.mockImplementationOnce(async () => new Response(null, { status: 503 }));
+
+        const area = await service.downloadOfflineArea({ name: 'Cité', bounds: AREA, minZoom: 12, maxZoom: 14, sources: ['light'] });
+
+        expect(area.storedTiles).toBe(area.tileCount - 1);
+        expect(cacheEntries.size).toBe(area.tileCount - 1);
+    });
+
+    it('refuses areas above the tile ceiling before downloading anything', async () => {
+        const service = await loadService();
+
+        await expect(service.downloadOfflineArea({ name: 'France', bounds: { south: 42, west: -5, north: 51, east: 8 }, minZoom: 10, maxZoom: 17, sources: ['osm'] }))
+            .rejects.toThrow('Zone trop grande');
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
+
+describe('deleteOfflineArea', () => {
+    it('keeps the tiles another area still covers', async () => {
+        const service = await loadService();
+        const small = await service.downloadOfflineArea({ name: 'Cité', bounds: AREA, minZoom: 12, maxZoom: 12, sources: ['light'] });
+        await service.downloadOfflineArea({ name: 'Cité détaillée', bounds: AREA, minZoom: 12, maxZoom: 14, sources: ['light'] });
+        // The shared zoom 12 tile is served from the cache the second time.
+        expect(fetchMock).toHaveBeenCalledTimes(countAreaTiles(AREA, 12, 14));
+
+        const detailed = (await service.listOfflineAreas()).find(area => area.name === 'Cité détaillée');
+        await service.deleteOfflineArea(detailed!.id);
+
+        expect(Array.from(cacheEntries.keys())).toEqual(['https://d.basemaps.cartocdn.com/light_all/12/2074/1409.png']);
+        expect((await service.listOfflineAreas()).map(area => area.id)).toEqual([small.id]);
+    });
+});
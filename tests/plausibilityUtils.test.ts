@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import { findPlausibilityWarnings } from '../utils/plausibilityUtils';
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Caloptéryx éclatant',
+    latinName: 'Calopteryx splendens',
+    taxonomicGroup: TaxonomicGroup.ODONATE,
+    date: '2026-07-01',
+    time: '12:00',
+    count: 2,
+    location: 'Ouche',
+    gps: { lat: null, lon: null },
+    municipality: 'Dijon',
+    department: '21',
+    country: 'France',
+    altitude: 250,
+    comment: '',
+    status: Status.LC,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+const history = ['2025-06-10', '2025-07-02', '2025-07-20', '2025-08-05', '2026-06-15'].map((date, index) => makeObservation({
+    id: `history-${index}`,
+    date,
+    count: 3
+}));
+
+describe('findPlausibilityWarnings', () => {
+    it('accepts an observation in line with the notebook', () => {
+        expect(findPlausibilityWarnings(makeObservation(), history, { inRegionalChecklist: true })).toEqual([]);
+    });
+
+    it('flags season, department, altitude, count and checklist outliers', () => {
+        const warnings = findPlausibilityWarnings(
+            makeObservation({ date: '2026-01-12', department: '39', altitude: 1200, count: 30 }),
+            history,
+            { inRegionalChecklist: false }
+        );
+
+        expect(warnings.map(warning => warning.type)).toEqual(['phenology', 'department', 'altitude', 'count', 'checklist']);
+    });
+
+    it('falls back to the group flight season without history', () => {
+        const [warning] = findPlausibilityWarnings(makeObservation({ date: '2026-01-12' }), []);
+
+        expect(warning.type).toBe('phenology');
+        expect(warning.message).toContain('janvier');
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { RedListAssessment, RedListScale, Status } from '../types';
+import {
+    formatRedListAssessment,
+    getObservationStatus,
+    getRegionForDepartment,
+    resolveRegionName,
+    selectRedListsForDepartment
+} from '../utils/redListUtils';
+
+const assessments: RedListAssessment[] = [
+    { scale: RedListScale.FRANCE, status: Status.NT, source: 'UICN France', year: 2016 },
+    { scale: RedListScale.REGION, status: Status.EN, source: 'CSRPN Bretagne', region: 'Bretagne' },
+    { scale: RedListScale.WORLD, status: Status.LC, source: 'IUCN Red List' },
+    { scale: RedListScale.REGION, status: Status.VU, source: 'Liste rouge Bourgogne 2015', year: 2015, region: 'Bourgogne' },
+    { scale: RedListScale.WORLD, status: Status.NT, source: 'UICN (via GBIF)' }
+];
+
+describe('red lists', () => {
+    it('finds the région of a department, former régions included', () => {
+        expect(getRegionForDepartment('21')).toBe('Bourgogne-Franche-Comté');
+        expect(getRegionForDepartment('2A')).toBe('Corse');
+        expect(getRegionForDepartment('974')).toBe('La Réunion');
+        expect(getRegionForDepartment('')).toBeUndefined();
+        expect(resolveRegionName('Bourgogne, FR')).toBe('Bourgogne-Franche-Comté');
+        expect(resolveRegionName("Provence-Alpes-Cote-d'Azur")).toBe("Provence-Alpes-Côte d'Azur");
+        expect(resolveRegionName('Bavaria, DE')).toBeUndefined();
+    });
+
+    it('keeps one assessment per scale and the regional list of the observation', () => {
+        expect(selectRedListsForDepartment(assessments, '21')).toEqual([
+            assessments[2],
+            assessments[0],
+            assessments[3]
+        ]);
+        expect(selectRedListsForDepartment(assessments, '75').map(entry => entry.scale)).toEqual([RedListScale.WORLD, RedListScale.FRANCE]);
+        expect(formatRedListAssessment(assessments[3])).toBe('Bourgogne VU (2015)');
+    });
+
+    it('reads the status of an observation at a scale', () => {
+        const obs = { status: Status.NT, redLists: selectRedListsForDepartment(assessments, '35') };
+        expect(getObservationStatus(obs)).toBe(Status.NT);
+        expect(getObservationStatus(obs, RedListScale.REGION)).toBe(Status.EN);
+        expect(getObservationStatus(obs, RedListScale.EUROPE)).toBeUndefined();
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { buildRegulatoryListIndex, findRegulatoryStatuses, parseRegulatoryListText } from '../services/regulatoryListService';
+import { RegulatoryListType, Status } from '../types';
+import { getHeritageReasons, matchesRegulatoryFilter } from '../utils/regulatoryStatusUtils';
+
+const BDC_STATUTS = [
+    'CD_NOM;CD_REF;CD_TYPE_STATUT;LB_TYPE_STATUT;CODE_STATUT;LABEL_STATUT;LB_NOM;LB_ADM_TR;NIVEAU_ADMIN;CD_ISO3166_2',
+    '3967;3967;PN;Protection nationale;NO3;Article 3;Lanius collurio;France métropolitaine;État;',
+    '3967;3967;DO;Directive Oiseaux;CDO1;Annexe I;Lanius collurio;France;État;',
+    '3967;3967;ZDET;Déterminante ZNIEFF;DZ;Déterminante;Lanius collurio;Bourgogne;Ancienne région;',
+    '3967;3967;LRN;Liste rouge nationale;NT;Quasi menacée;Lanius collurio;France métropolitaine;État;',
+    '79306;79306;PD;Protection départementale;PD;Article 1;Gentiana lutea;Côte-d’Or;Département;FR-21',
+    '79306;79306;PR;Protection régionale;PR;Article 1;Gentiana lutea;Pays inconnu;Région;',
+    '79306;79306;PR;Protection régionale;PR;Article 1;Gentiana lutea;Guyane;Territoire;'
+].join('\n');
+
+// INPN export as downloaded: comma separated, with commas inside quoted cells.
+const BDC_STATUTS_COMMA = [
+    'CD_REF,CD_TYPE_STATUT,LB_TYPE_STATUT,CODE_STATUT,LABEL_STATUT,LB_NOM,LB_AUTEUR,RQ_STATUT,LB_ADM_TR,NIVEAU_ADMIN,CD_ISO3166_2',
+    '3967,ZDET,Déterminante ZNIEFF,DZ,Déterminante,Lanius collurio,"Linnaeus, 1758","Nicheur, sous conditions",Bourgogne,Ancienne région,',
+    '3967,PN,Protection nationale,NO3,Article 3,Lanius collurio,"Linnaeus, 1758",,France métropolitaine,État,'
+].join('\r\n');
+
+describe('regulatory lists', () => {
+    it('keeps protection, directive and ZNIEFF statuses with their territory', () => {
+        const entries = parseRegulatoryListText(BDC_STATUTS);
+
+        expect(entries.map(entry => [entry.cdRef, entry.status.type, entry.status.label, entry.region, entry.department])).toEqual([
+            [3967, RegulatoryListType.PROTECTION, 'Article 3', undefined, undefined],
+            [3967, RegulatoryListType.BIRDS_DIRECTIVE, 'Annexe I', undefined, undefined],
+            [3967, RegulatoryListType.ZNIEFF, 'Déterminante', 'Bourgogne-Franche-Comté', undefined],
+            [79306, RegulatoryListType.PROTECTION, 'Article 1', undefined, '21']
+        ]);
+        expect(() => parseRegulatoryListText('CD_NOM;LB_NOM\n1;Parus major')).toThrow(/CD_TYPE_STATUT/);
+    });
+
+    it('reads a comma-separated export with commas inside quoted cells', () => {
+        const entries = parseRegulatoryListText(BDC_STATUTS_COMMA);
+
+        expect(entries.map(entry => [entry.status.type, entry.status.territory, entry.region])).toEqual([
+            [RegulatoryListType.ZNIEFF, 'Bourgogne', 'Bourgogne-Franche-Comté'],
+            [RegulatoryListType.PROTECTION, 'France métropolitaine', undefined]
+        ]);
+    });
+
+    it('skips lists whose level or territory cannot be placed instead of making them national', () => {
+        const entries = parseRegulatoryListText([
+            'CD_REF;CD_TYPE_STATUT;LABEL_STATUT;LB_NOM;LB_ADM_TR',
+            '3967;ZDET;Déterminante;Lanius collurio;Bourgogne',
+            '3967;ZDET;Déterminante;Lanius collurio;Contrée inconnue',
+            '3967;PN;Article 3;Lanius collurio;France métropolitaine',
+            '3967;DO;Annexe I;Lanius collurio;'
+        ].join('\n'));
+
+        expect(entries.map(entry => [entry.status.type, entry.region])).toEqual([
+            [RegulatoryListType.ZNIEFF, 'Bourgogne-Franche-Comté'],
+            [RegulatoryListType.PROTECTION, undefined],
+            [RegulatoryListType.BIRDS_DIRECTIVE, undefined]
+        ]);
+    });
+
+    it('tags an observation with the lists in force where it was made', () => {
+        const index = buildRegulatoryListIndex(parseRegulatoryListText(BDC_STATUTS));
+        const labels = (obs: { cdRef?: number; latinName: string; department: string }) =>
+            findRegulatoryStatuses(index, obs).map(status => `${status.list} : ${status.label}`);
+
+        expect(labels({ cdRef: 3967, latinName: '', department: '89' })).toEqual([
+            'Protection nationale : Article 3',
+            'Directive Oiseaux : Annexe I',
+            'Déterminante ZNIEFF : Déterminante'
+        ]);
+        expect(labels({ latinName: 'lanius collurio', department: '35' })).toEqual([
+            'Protection nationale : Article 3',
+            'Directive Oiseaux : Annexe I'
+        ]);
+        expect(labels({ latinName: 'Gentiana lutea', department: '21' })).toEqual(['Protection départementale : Article 1']);
+        expect(labels({ latinName: 'Gentiana lutea', department: '25' })).toEqual([]);
+    });
+
+    it('selects patrimonial observations from their lists and red-list statuses', () => {
+        const index = buildRegulatoryListIndex(parseRegulatoryListText(BDC_STATUTS));
+        const protectedObs = { status: Status.LC, regulatoryStatuses: findRegulatoryStatuses(index, { cdRef: 3967, latinName: '', department: '35' }) };
+        const threatenedObs = { status: Status.VU };
+        const commonObs = { status: Status.LC };
+
+        expect(matchesRegulatoryFilter(protectedObs, RegulatoryListType.BIRDS_DIRECTIVE)).toBe(true);
+        expect(matchesRegulatoryFilter(protectedObs, RegulatoryListType.ZNIEFF)).toBe(false);
+        expect(getHeritageReasons(threatenedObs)).toEqual(['Liste rouge : VU']);
+        expect([protectedObs, threatenedObs, commonObs].filter(obs => matchesRegulatoryFilter(obs, 'heritage'))).toHaveLength(2);
+    });
+});
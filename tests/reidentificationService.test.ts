@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { previewReidentification, selectObservationsForReidentification } from '../services/reidentificationService';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, RedListScale, Sexe, Status, TaxonomicGroup } from '../types';
+
+const { fetchSpeciesInfoMock } = vi.hoisted(() => ({
+    fetchSpeciesInfoMock: vi.fn()
+}));
+
+vi.mock('../services/speciesService', () => ({
+    fetchSpeciesInfo: fetchSpeciesInfoMock
+}));
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: crypto.randomUUID(),
+    speciesName: 'Pouillot véloce',
+    latinName: 'Phylloscopus collybita',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-03-01',
+    time: '12:00',
+    count: 2,
+    location: 'Bois',
+    gps: { lat: null, lon: null },
+    municipality: 'Dijon',
+    department: '21',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.LC,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('reidentificationService', () => {
+    it('selects observations by current name and date range', () => {
+        const observations = [
+            makeObservation({ id: '1', date: '2025-04-10' }),
+            makeObservation({ id: '2', date: '2026-04-10', latinName: 'phylloscopus  collybita' }),
+            makeObservation({ id: '3', date: '2026-05-02', latinName: '', speciesName: 'Pouillot véloce' }),
+            makeObservation({ id: '4', date: '2026-04-10', speciesName: 'Pouillot fitis', latinName: 'Phylloscopus trochilus' })
+        ];
+
+        const select = (criteria: Partial<Parameters<typeof selectObservationsForReidentification>[1]>) =>
+            selectObservationsForReidentification(observations, { name: '', startDate: '', endDate: '', ...criteria }).map(obs => obs.id);
+
+        expect(select({ name: 'Phylloscopus collybita', startDate: '2026-01-01' })).toEqual(['2']);
+        expect(select({ name: 'pouillot veloce', endDate: '2026-04-30' })).toEqual(['1', '2']);
+        expect(select({ startDate: '2026-04-10', endDate: '2026-04-10', ids: ['1', '4'] })).toEqual(['4']);
+    });
+
+    it('moves observations to the new species with its group, statuses and image', async () => {
+        fetchSpeciesInfoMock.mockResolvedValueOnce({
+            description: '',
+            imageUrl: 'https://img.example/iberian.jpg',
+            sourceUrl: '',
+            latinName: 'Phylloscopus ibericus',
+            taxonomicGroup: TaxonomicGroup.BIRD,
+            redListStatus: Status.NT,
+            redListSource: 'france',
+            redLists: [
+                { scale: RedListScale.FRANCE, status: Status.NT, source: 'UICN France' },
+                { scale: RedListScale.REGION, status: Status.EN, source: 'UICN France', region: 'Aquitaine' }
+            ],
+            matchedBy: 'common',
+            confidence: 'high'
+        });
+        const before = makeObservation({ id: '1', cdNom: 4280, cdRef: 4280, inatTaxonId: 14007, wikipediaImage: 'https://img.example/chiffchaff.jpg' });
+
+        const { changes } = await previewReidentification([before], { speciesName: 'Pouillot ibérique', latinName: '' });
+
+        expect(fetchSpeciesInfoMock).toHaveBeenCalledWith('Pouillot ibérique');
+        expect(changes).toEqual([{
+            before,
+            after: {
+                ...before,
+                speciesName: 'Pouillot ibérique',
+                latinName: 'Phylloscopus ibericus',
+                status: Status.NT,
+                wikipediaImage: 'https://img.example/iberian.jpg',
+                redLists: [{ scale: RedListScale.FRANCE, status: Status.NT, source: 'UICN France' }],
+                cdNom: undefined,
+                cdRef: undefined,
+                gbifTaxonId: undefined,
+                inatTaxonId: undefined,
+                regulatoryStatuses: undefined
+            }
+        }]);
+    });
+});
@@ -0,0 +1,133 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Protocol, SamplingSession } from '../types';
+
+const authGetUserMock = vi.fn(async () => ({ data: { user: { id: 'user-1' } } }));
+
+const orderMock = vi.fn();
+const selectEqMock = vi.fn(() => ({ order: orderMock }));
+const selectMock = vi.fn(() => ({ eq: selectEqMock }));
+
+const upsertSingleMock = vi.fn();
+const upsertMock = vi.fn((): any => ({ select: () => ({ single: upsertSingleMock }) }));
+
+const deleteEqUserMock = vi.fn();
+const deleteEqIdMock = vi.fn(() => ({ eq: deleteEqUserMock }));
+const deleteMock = vi.fn(() => ({ eq: deleteEqIdMock }));
+
+const fromMock = vi.fn(() => ({ select: selectMock, upsert: upsertMock, delete: deleteMock }));
+
+vi.mock('../supabaseClient', () => ({
+    supabase: {
+        from: fromMock,
+        auth: {
+            getUser: authGetUserMock
+        }
+    }
+}));
+
+const makeSession = (id: string, overrides: Partial<SamplingSession> = {}): SamplingSession => ({
+    id,
+    name: 'Tour de l\'étang',
+    date: '2026-04-12',
+    startTime: '07:30',
+    endTime: '',
+    observers: ['Camille'],
+    weather: 'Couvert',
+    protocol: Protocol.WETLANDS_COUNT,
+    location: 'Étang de Saint-Quentin',
+    municipality: 'Trappes',
+    department: '78',
+    country: 'France',
+    gps: { lat: null, lon: null },
+    route: [],
+    comment: '',
+    ...overrides
+});
+
+beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    vi.stubGlobal('navigator', { onLine: true });
+    authGetUserMock.mockResolvedValue({ data: { user: { id: 'user-1' } } });
+    orderMock.mockResolvedValue({ data: [], error: null });
+    upsertMock.mockImplementation(() => ({ select: () => ({ single: upsertSingleMock }) }));
+    deleteEqUserMock.mockResolvedValue({ error: null });
+});
+
+const loadService = async () => {
+    const { setStorageNamespace } = await import('../services/storageNamespace');
+    setStorageNamespace('user-1');
+    return import('../services/sessionService');
+};
+
+describe('sessionService offline queue', () => {
+    it('replays only the last offline version of each session, deletions included', async () => {
+        const sessionService = await loadService();
+        vi.stubGlobal('navigator', { onLine: false });
+        await sessionService.saveSession(makeSession('session-1'));
+        await sessionService.saveSession(makeSession('session-1', { endTime: '09:00' }));
+        await sessionService.saveSession(makeSession('session-2'));
+        await sessionService.deleteSession('session-2');
+
+        expect((await sessionService.getSessions()).map(session => session.id)).toEqual(['session-1']);
+
+        vi.stubGlobal('navigator', { onLine: true });
+        upsertMock.mockResolvedValue({ error: null });
+        const result = await sessionService.processSessionQueue();
+
+        expect(result).toEqual({ processed: 2, failed: 0, failureReasons: [] });
+        expect(upsertMock).toHaveBeenCalledTimes(1);
+        expect(upsertMock).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 'session-1', user_id: 'user-1', end_time: '09:00', observers: ['Camille'] }),
+            { onConflict: 'id' }
+        );
+        // Non-STOC sessions do not need the phase 11 column.
+        expect(upsertMock.mock.calls[0]).not.toHaveProperty('0.stoc');
+        expect(deleteEqIdMock).toHaveBeenCalledWith('id', 'session-2');
+        expect(deleteEqUserMock).toHaveBeenCalledWith('user_id', 'user-1');
+        expect(await sessionService.processSessionQueue()).toEqual({ processed: 0, failed: 0, failureReasons: [] });
+    });
+
+    it('keeps the local version of sessions still queued when loading from the server', async () => {
+        const sessionService = await loadService();
+        vi.stubGlobal('navigator', { onLine: false });
+        await sessionService.saveSession(makeSession('session-1', { weather: 'Pluie' }));
+
+        vi.stubGlobal('navigator', { onLine: true });
+        orderMock.mockResolvedValue({
+            data: [
+                { id: 'session-1', name: 'Ancien nom', date: '2026-04-12', start_time: '07:30:00', weather: 'Soleil', protocol: 'Comptage Wetlands' },
+                { id: 'session-3', name: 'Crépuscule', date: '2026-04-10', start_time: '20:15:00', end_time: '21:00:00', observers: ['Léa'], protocol: 'EPOC' }
+            ],
+            error: null
+        });
+
+        const sessions = await sessionService.getSessions();
+
+        expect(selectEqMock).toHaveBeenCalledWith('user_id', 'user-1');
+        expect(sessions.map(session => [session.id, session.weather])).toEqual([['session-1', 'Pluie'], ['session-3', '']]);
+        expect(sessions[1]).toMatchObject({ startTime: '20:15', endTime: '21:00', observers: ['Léa'], protocol: Protocol.EPOC });
+    });
+});
+
+describe('buildSessionObservationDefaults', () => {
+    it('prefills the shared fields and falls back to the last route point without a session point', async () => {
+        const { buildSessionObservationDefaults } = await loadService();
+        const session = makeSession('session-1', { route: [{ lat: 48.77, lon: 2.03 }, { lat: 48.78, lon: 2.04 }] });
+
+        expect(buildSessionObservationDefaults(session)).toEqual({
+            sessionId: 'session-1',
+            date: '2026-04-12',
+            protocol: Protocol.WETLANDS_COUNT,
+            location: 'Étang de Saint-Quentin',
+            municipality: 'Trappes',
+            department: '78',
+            country: 'France',
+            gps: { lat: 48.78, lon: 2.04 }
+        });
+        expect(buildSessionObservationDefaults({ ...session, gps: { lat: 48.7, lon: 2.0 } }).gps).toEqual({ lat: 48.7, lon: 2.0 });
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, SamplingSession, Sexe, Status, TaxonomicGroup, ValidationStatus } from '../types';
+import { buildSinpCsv, buildSinpOccurrences, buildSinpReportCsv } from '../services/sinpExportService';
+
+const makeObservation = (overrides: Partial<Observation>): Observation => ({
+    id: '123e4567-e89b-42d3-a456-426614174000',
+    speciesName: 'Pie-grièche écorcheur',
+    latinName: 'Lanius collurio',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-06-02',
+    time: '09:15',
+    count: 3,
+    maleCount: 1,
+    femaleCount: 2,
+    unidentifiedCount: 0,
+    location: 'Haies du Moulin',
+    gps: { lat: 47.25, lon: 5.01 },
+    municipality: 'Dijon',
+    department: '21',
+    country: 'France',
+    altitude: 245,
+    comment: 'Couple nourrissant',
+    status: Status.NE,
+    atlasCode: '16',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.ADULT,
+    observationCondition: ObservationCondition.SEEN_LANDED,
+    comportement: Comportement.HUNTING,
+    ...overrides
+});
+
+const session = { id: 'session-1', observers: ['Camille Martin', 'Léa Petit'] } as SamplingSession;
+
+describe('buildSinpOccurrences', () => {
+    it('maps an observation to the Occurrences de taxons columns', () => {
+        const { rows, report } = buildSinpOccurrences([makeObservation({ sessionId: 'session-1' })], { sessions: [session], observer: 'compte@example.org' });
+
+        expect(rows[0]).toMatchObject({
+            idSINPOccTax: '123e4567-e89b-42d3-a456-426614174000',
+            statutObservation: 'Pr',
+            nomCite: 'Pie-grièche écorcheur',
+            dateDebut: '2026-06-02',
+            dateFin: '2026-06-02',
+            heureDebut: '09:15',
+            denombrementMin: 3,
+            denombrementMax: 3,
+            objetDenombrement: 'IND',
+            typeDenombrement: 'Co',
+            occStatutBiologique: '3',
+            occComportement: '5',
+            occSexe: '5',
+            occStadeDeVie: '2',
+            geometrie: 'POINT(5.01 47.25)',
+            natureObjetGeo: 'St',
+            nomCommune: 'Dijon',
+            codeDepartement: '21',
+            identiteObservateur: 'Camille Martin, Léa Petit'
+        });
+        // cdNom is not known yet for this observation.
+        expect(report).toEqual({
+            totalRows: 1,
+            validRows: 0,
+            issues: [{ rowNumber: 1, observationId: '123e4567-e89b-42d3-a456-426614174000', speciesName: 'Pie-grièche écorcheur', missing: ['cdNom'] }],
+            excluded: []
+        });
+    });
+
+    it('lists every mandatory field missing in the validation report', () => {
+        const { rows, report } = buildSinpOccurrences([
+            makeObservation({
+                id: 'temp-1',
+                gps: { lat: null, lon: null },
+                municipality: '',
+                department: '',
+                atlasCode: '',
+                maleCount: undefined,
+                femaleCount: undefined,
+                sexe: Sexe.FEMALE
+            })
+        ]);
+
+        expect(rows[0]).toMatchObject({ geometrie: '', natureObjetGeo: '', occStatutBiologique: '1', occSexe: '2', identiteObservateur: '' });
+        expect(report.issues[0].missing).toEqual([
+            'idSINPOccTax (observation non synchronisée)',
+            'cdNom',
+            'géoréférencement (point, commune ou département)',
+            'identiteObservateur'
+        ]);
+        expect(buildSinpReportCsv(report).split('\r\n')[1]).toBe(
+            '"1";"temp-1";"Pie-grièche écorcheur";"idSINPOccTax (observation non synchronisée), cdNom, géoréférencement (point, commune ou département), identiteObservateur"'
+        );
+        expect(buildSinpCsv(rows).split('\r\n')[0].startsWith('"idSINPOccTax";"statutObservation";"nomCite";"cdNom"')).toBe(true);
+    });
+
+    it('leaves out observations invalidated by a reviewer and reports them', () => {
+        const { rows, report } = buildSinpOccurrences([
+            makeObservation({ validationStatus: ValidationStatus.REJECTED }),
+            makeObservation({ id: '123e4567-e89b-42d3-a456-426614174001', cdNom: 3833, validationStatus: ValidationStatus.VALIDATED })
+        ], { observer: 'compte@example.org' });
+
+        expect(rows.map(row => row.idSINPOccTax)).toEqual(['123e4567-e89b-42d3-a456-426614174001']);
+        expect(report.totalRows).toBe(1);
+        expect(report.excluded).toEqual([
+            { observationId: '123e4567-e89b-42d3-a456-426614174000', speciesName: 'Pie-grièche écorcheur', reason: 'exclue : donnée invalidée' }
+        ]);
+        expect(buildSinpReportCsv(report).split('\r\n')).toContain(
+            '"";"123e4567-e89b-42d3-a456-426614174000";"Pie-grièche écorcheur";"exclue : donnée invalidée"'
+        );
+    });
+
+    it('exports a drawn polygon as WKT with the accuracy radius', () => {
+        const { rows } = buildSinpOccurrences([
+            makeObservation({
+                gpsAccuracy: 12.4,
+                geometry: { type: 'Polygon', coordinates: [[[5.01, 47.25], [5.02, 47.25], [5.02, 47.26], [5.01, 47.25]]] }
+            })
+        ], { observer: 'compte@example.org' });
+
+        expect(rows[0]).toMatchObject({
+            geometrie: 'POLYGON((5.01 47.25, 5.02 47.25, 5.02 47.26, 5.01 47.25))',
+            natureObjetGeo: 'St',
+            precisionGeometrie: 13
+        });
+    });
+});
@@ -327,6 +327,47 @@ describe('fetchSpeciesInfo', () => {
         });
     });
 
+    it('returns red lists per scale and skips GBIF once the world status is known', async () => {
+        fetchMock
+            .mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    results: [{ id: 12024, name: 'Lanius collurio', rank: 'species', preferred_common_name: 'Pie-grièche écorcheur' }]
+                })
+            } as Response)
+            .mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ matchType: 'EXACT', class: 'Aves', order: 'Passeriformes', kingdom: 'Animalia' })
+            } as Response)
+            .mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    results: [
+                        {
+                            conservation_statuses: [
+                                { status: 'LC', authority: 'IUCN Red List', place: null },
+                                { status: 'LC', authority: 'European Red List of Birds 2021', place: { id: 97391, display_name: 'Europe' } },
+                                { status: 'NT', authority: 'UICN France', description: 'Liste rouge des oiseaux nicheurs 2016', place: { id: 6753, display_name: 'France' } },
+                                { status: 'VU', authority: 'Liste rouge régionale', place: { id: 10, display_name: 'Bourgogne, FR' } },
+                                { status: 'EN', authority: 'Rote Liste', place: { id: 11, display_name: 'Bayern, DE' } }
+                            ]
+                        }
+                    ]
+                })
+            } as Response);
+
+        const info = await fetchSpeciesInfo('Lanius collurio');
+
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(info).toMatchObject({ redListStatus: 'NT', redListSource: 'france' });
+        expect(info?.redLists).toEqual([
+            { scale: 'Monde', status: 'LC', source: 'IUCN Red List', year: undefined, region: undefined },
+            { scale: 'Europe', status: 'LC', source: 'European Red List of Birds 2021', year: 2021, region: undefined },
+            { scale: 'France', status: 'NT', source: 'UICN France', year: 2016, region: undefined },
+            { scale: 'Région', status: 'VU', source: 'Liste rouge régionale', year: undefined, region: 'Bourgogne' }
+        ]);
+    });
+
     it('maps Lecanoromycetes class to Lichens group', async () => {
         fetchMock
             .mockResolvedValueOnce({
@@ -2,7 +2,7 @@ import { describe, expect, it } from 'vitest';
 import { buildStatsReportData } from '../utils/statsReportData';
 import {
     Age, Comportement, Observation, ObservationCondition,
-    Protocol, Sexe, Status, TaxonomicGroup
+    Protocol, RedListScale, RegulatoryListType, Sexe, Status, TaxonomicGroup
 } from '../types';
 
 const makeObs = (overrides: Partial<Observation>): Observation => ({
@@ -150,6 +150,55 @@ describe('buildStatsReportData – topSpecies', () => {
         const data = buildStatsReportData(obs);
         expect(data.topSpecies[0]).toMatchObject({ name: 'Mésange', count: 10 });
     });
+
+    it('regroupe les synonymes sous le même cdRef TAXREF', () => {
+        const obs = [
+            makeObs({ id: '1', speciesName: 'Mésange bleue', latinName: 'Cyanistes caeruleus', cdNom: 534742, cdRef: 534742, count: 2 }),
+            makeObs({ id: '2', speciesName: 'Parus caeruleus', latinName: 'Parus caeruleus', cdNom: 3764, cdRef: 534742, count: 1 }),
+        ];
+        const data = buildStatsReportData(obs);
+        expect(data.uniqueSpecies).toBe(1);
+        expect(data.topSpecies).toEqual([{ name: 'Mésange bleue', count: 3 }]);
+    });
+});
+
+describe('buildStatsReportData – statuts', () => {
+    it('répartit les statuts selon l\'échelle de liste rouge choisie', () => {
+        const obs = [
+            makeObs({
+                id: '1',
+                status: Status.LC,
+                redLists: [
+                    { scale: RedListScale.WORLD, status: Status.LC, source: 'UICN' },
+                    { scale: RedListScale.REGION, status: Status.VU, source: 'CSRPN', region: 'Nord-Pas-de-Calais' }
+                ]
+            }),
+            makeObs({ id: '2', status: Status.LC }),
+        ];
+        expect(buildStatsReportData(obs).statusData.map(s => [s.name, s.value])).toEqual([[Status.LC, 2]]);
+        expect(buildStatsReportData(obs, RedListScale.REGION).statusData.map(s => [s.name, s.value])).toEqual([
+            [Status.VU, 1],
+            [Status.NE, 1]
+        ]);
+    });
+});
+
+describe('buildStatsReportData – espèces patrimoniales', () => {
+    it('liste les espèces protégées ou menacées avec leurs motifs', () => {
+        const protection = { type: RegulatoryListType.PROTECTION, list: 'Protection nationale', label: 'Article 3', territory: 'France métropolitaine' };
+        const obs = [
+            makeObs({ id: '1', speciesName: 'Pie-grièche écorcheur', latinName: 'Lanius collurio', regulatoryStatuses: [protection], count: 2 }),
+            makeObs({ id: '2', speciesName: 'Pie-grièche écorcheur', latinName: 'Lanius collurio', regulatoryStatuses: [protection], status: Status.NT }),
+            makeObs({ id: '3', speciesName: 'Mésange charbonnière', latinName: 'Parus major' }),
+        ];
+        expect(buildStatsReportData(obs).heritageSpecies).toEqual([{
+            name: 'Pie-grièche écorcheur',
+            latinName: 'Lanius collurio',
+            observations: 2,
+            individuals: 3,
+            reasons: ['Protection nationale : Article 3', 'Liste rouge : NT']
+        }]);
+    });
 });
 
 describe('buildStatsReportData – badges', () => {
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Age, Comportement, ObservationCondition, Protocol, SamplingSession, Sexe, Status, StocDistanceBand, TaxonomicGroup } from '../types';
+import {
+    addStocContact,
+    buildStocCsv,
+    buildStocSpeciesOptions,
+    createStocPoint,
+    formatCountdown,
+    getNextStocPointNumber,
+    upsertStocPoint
+} from '../services/stocService';
+
+vi.mock('../supabaseClient', () => ({
+    supabase: {}
+}));
+
+vi.mock('file-saver', () => ({
+    saveAs: vi.fn()
+}));
+
+const merle = { speciesName: 'Merle noir', latinName: 'Turdus merula' };
+const pinson = { speciesName: 'Pinson des arbres', latinName: 'Fringilla coelebs' };
+
+const makeStocSession = (overrides: Partial<SamplingSession> = {}): SamplingSession => ({
+    id: 'session-1',
+    name: 'STOC EPS',
+    date: '2026-04-18',
+    startTime: '06:10',
+    endTime: '',
+    observers: ['Camille', 'Léa'],
+    weather: '',
+    protocol: Protocol.STOC_EPS,
+    location: '',
+    municipality: '',
+    department: '',
+    country: 'France',
+    gps: { lat: null, lon: null },
+    route: [],
+    comment: '',
+    stoc: { square: '780123', passage: 1, points: [] },
+    ...overrides
+});
+
+describe('addStocContact', () => {
+    it('counts contacts per species and distance band, and drops a species back to zero', () => {
+        let point = createStocPoint(1, '06:10');
+        point = addStocContact(point, merle, StocDistanceBand.UNDER_25);
+        point = addStocContact(point, { speciesName: 'merle  noir', latinName: '' }, StocDistanceBand.UNDER_25);
+        point = addStocContact(point, merle, StocDistanceBand.FLYING);
+        point = addStocContact(point, pinson, StocDistanceBand.OVER_100);
+
+        expect(point.species).toEqual([
+            {
+                ...merle,
+                counts: { [StocDistanceBand.UNDER_25]: 2, [StocDistanceBand.FROM_25_TO_100]: 0, [StocDistanceBand.OVER_100]: 0, [StocDistanceBand.FLYING]: 1 }
+            },
+            {
+                ...pinson,
+                counts: { [StocDistanceBand.UNDER_25]: 0, [StocDistanceBand.FROM_25_TO_100]: 0, [StocDistanceBand.OVER_100]: 1, [StocDistanceBand.FLYING]: 0 }
+            }
+        ]);
+
+        point = addStocContact(point, pinson, StocDistanceBand.OVER_100, -1);
+        expect(point.species.map(entry => entry.speciesName)).toEqual(['Merle noir']);
+    });
+
+    it('picks the first point not yet recorded and formats the countdown', () => {
+        const survey = upsertStocPoint(upsertStocPoint({ square: '780123', passage: 1, points: [] }, createStocPoint(2, '06:30')), createStocPoint(1, '06:10'));
+
+        expect(survey.points.map(point => point.number)).toEqual([1, 2]);
+        expect(getNextStocPointNumber(survey)).toBe(3);
+        expect(formatCountdown(300)).toBe('5:00');
+        expect(formatCountdown(59.4)).toBe('0:59');
+    });
+});
+
+describe('buildStocCsv', () => {
+    it('writes one row per species and point in the national layout, keeping points without contact', () => {
+        const point1 = addStocContact(addStocContact(createStocPoint(1, '06:10'), merle, StocDistanceBand.UNDER_25), merle, StocDistanceBand.FROM_25_TO_100);
+        const session = makeStocSession({
+            stoc: { square: '780123', passage: 2, points: [point1, createStocPoint(2, '06:25')] }
+        });
+
+        expect(buildStocCsv([session]).split('\r\n')).toEqual([
+            '"N° carré";"Année";"Passage";"N° point";"Date";"Heure";"Observateur";"Espèce";"Nom scientifique";"Distance 0-25 m";"Distance 25-100 m";"Distance > 100 m";"En vol";"Total"',
+            '"780123";"2026";"2";"1";"18/04/2026";"06:10";"Camille";"Merle noir";"Turdus merula";"1";"1";"0";"0";"2"',
+            '"780123";"2026";"2";"2";"18/04/2026";"06:25";"Camille";"";"";"0";"0";"0";"0";"0"'
+        ]);
+    });
+});
+
+describe('buildStocSpeciesOptions', () => {
+    it('lists the birds of the notebook, most observed first', () => {
+        const makeObservation = (speciesName: string, latinName: string, taxonomicGroup = TaxonomicGroup.BIRD) => ({
+            id: speciesName,
+            speciesName,
+            latinName,
+            taxonomicGroup,
+            date: '2026-04-01',
+            time: '08:00',
+            count: 1,
+            location: '',
+            gps: { lat: null, lon: null },
+            municipality: '',
+            department: '',
+            country: 'France',
+            altitude: null,
+            comment: '',
+            status: Status.NE,
+            atlasCode: '',
+            protocol: Protocol.OPPORTUNIST,
+            sexe: Sexe.UNKNOWN,
+            age: Age.UNKNOWN,
+            observationCondition: ObservationCondition.UNKNOWN,
+            comportement: Comportement.UNKNOWN
+        });
+
+        expect(buildStocSpeciesOptions([
+            makeObservation('Pinson des arbres', 'Fringilla coelebs'),
+            makeObservation('Merle noir', ''),
+            makeObservation('merle noir', 'Turdus merula'),
+            makeObservation('Renard roux', 'Vulpes vulpes', TaxonomicGroup.MAMMAL)
+        ])).toEqual([merle, pinson]);
+    });
+});
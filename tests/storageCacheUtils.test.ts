@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { sanitizeCachedMediaValue, sanitizeCachedMediaValueWithTracking } from '../services/storageCacheUtils';
+import { MAX_PERSISTED_DATA_URL_LENGTH, sanitizeCachedMediaValue, sanitizeCachedMediaValueWithTracking } from '../services/storageCacheUtils';
 
 describe('sanitizeCachedMediaValue', () => {
     it('keeps remote URLs', () => {
@@ -11,9 +11,14 @@ describe('sanitizeCachedMediaValue', () => {
     });
 
     it('drops very large data URLs', () => {
-        const hugeDataUrl = `data:image/png;base64,${'a'.repeat(260_000)}`;
+        const hugeDataUrl = `data:image/png;base64,${'a'.repeat(MAX_PERSISTED_DATA_URL_LENGTH)}`;
         expect(sanitizeCachedMediaValue(hugeDataUrl)).toBeUndefined();
     });
+
+    it('keeps photo-sized data URLs now that the cache is in IndexedDB', () => {
+        const photoDataUrl = `data:image/jpeg;base64,${'a'.repeat(400_000)}`;
+        expect(sanitizeCachedMediaValue(photoDataUrl)).toBe(photoDataUrl);
+    });
 });
 
 describe('sanitizeCachedMediaValueWithTracking', () => {
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
+import { OfflineQueueItem, reduceQueue } from '../services/storageQueueUtils';
+
+const makeObservation = (id: string, overrides: Partial<Observation> = {}): Observation => ({
+    id,
+    speciesName: 'Mésange',
+    latinName: 'Parus major',
+    taxonomicGroup: TaxonomicGroup.BIRD,
+    date: '2026-03-01',
+    time: '12:00',
+    count: 1,
+    location: 'Parc',
+    gps: { lat: null, lon: null },
+    municipality: 'Paris',
+    department: '75',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.NE,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+const item = (id: string, action: OfflineQueueItem['action'], payload: OfflineQueueItem['payload'], timestamp: number): OfflineQueueItem => ({
+    id,
+    action,
+    payload,
+    timestamp
+});
+
+describe('reduceQueue', () => {
+    it('merges successive edits into the pending insert', () => {
+        const reduced = reduceQueue([
+            item('q1', 'INSERT', makeObservation('temp-1'), 1),
+            item('q2', 'UPDATE', makeObservation('temp-1', { count: 3 }), 2)
+        ]);
+
+        expect(reduced).toHaveLength(1);
+        expect(reduced[0]).toMatchObject({ action: 'INSERT', payload: { id: 'temp-1', count: 3 } });
+    });
+
+    it('counts the offline edits merged into one update and keeps the latest edit time', () => {
+        const reduced = reduceQueue([
+            item('q1', 'UPDATE', makeObservation('obs-1', { count: 2 }), 1),
+            item('q2', 'UPDATE', makeObservation('obs-1', { count: 3 }), 2),
+            item('q3', 'UPDATE', makeObservation('obs-1', { comment: 'Chant' }), 3),
+            item('q4', 'INSERT', makeObservation('temp-1'), 4),
+            item('q5', 'UPDATE', makeObservation('temp-1', { count: 5 }), 5)
+        ]);
+
+        expect(reduced[0]).toMatchObject({ action: 'UPDATE', timestamp: 3, editCount: 3, payload: { comment: 'Chant' } });
+        expect(reduced[1]).toMatchObject({ action: 'INSERT', payload: { count: 5 } });
+        expect(reduced[1].editCount).toBeUndefined();
+    });
+
+    it('keeps edits made before a soft delete and runs the delete after them', () => {
+        const reduced = reduceQueue([
+            item('q1', 'UPDATE', makeObservation('obs-1', { count: 2 }), 1),
+            item('q2', 'DELETE', { id: 'obs-1' }, 2),
+            item('q3', 'INSERT', makeObservation('temp-2'), 3)
+        ]);
+
+        expect(reduced.map(queued => `${queued.action}:${queued.id}`)).toEqual(['UPDATE:q1', 'INSERT:q3', 'DELETE:q2']);
+    });
+
+    it('cancels a deletion restored before the queue was synced', () => {
+        const reduced = reduceQueue([
+            item('q1', 'DELETE', { id: 'obs-1' }, 1),
+            item('q2', 'RESTORE', { id: 'obs-1' }, 2)
+        ]);
+
+        expect(reduced).toEqual([]);
+    });
+
+    it('drops every action on an observation created then purged offline', () => {
+        const reduced = reduceQueue([
+            item('q1', 'INSERT', makeObservation('temp-1'), 1),
+            item('q2', 'DELETE', { id: 'temp-1' }, 2),
+            item('q3', 'PURGE', { id: 'temp-1' }, 3)
+        ]);
+
+        expect(reduced).toEqual([]);
+    });
+
+    it('keeps only the purge for a server observation', () => {
+        const reduced = reduceQueue([
+            item('q1', 'UPDATE', makeObservation('obs-1'), 1),
+            item('q2', 'DELETE', { id: 'obs-1' }, 2),
+            item('q3', 'PURGE', { id: 'obs-1' }, 3),
+            item('q4', 'RESTORE', { id: 'obs-1' }, 4)
+        ]);
+
+        expect(reduced.map(queued => queued.action)).toEqual(['PURGE']);
+    });
+});
@@ -1,12 +1,21 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { Age, Comportement, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup } from '../types';
 
 const authGetUserMock = vi.fn(async () => ({ data: { user: { id: 'user-1' } } }));
 
 const orderMock = vi.fn();
-const selectEqMock = vi.fn(() => ({ order: orderMock }));
+const selectMaybeSingleMock = vi.fn();
+const selectEqSecondMock = vi.fn(() => ({ maybeSingle: selectMaybeSingleMock }));
+const selectIsMock = vi.fn(() => ({ order: orderMock }));
+const selectGtMock = vi.fn(() => ({ order: orderMock }));
+const selectEqMock = vi.fn(() => ({ order: orderMock, eq: selectEqSecondMock, is: selectIsMock, gt: selectGtMock }));
 const selectMock = vi.fn(() => ({ eq: selectEqMock, order: orderMock }));
 
+const SERVER_UPDATED_AT = '2026-03-05T09:00:00.000000+00:00';
+const updateSingleMock = vi.fn();
+const updateSelectMock = vi.fn();
+// Awaited directly by soft deletes, read back with select() by edits.
 const updateEqUserMock = vi.fn();
 const updateEqIdMock = vi.fn(() => ({ eq: updateEqUserMock }));
 const updateMock = vi.fn(() => ({ eq: updateEqIdMock }));
@@ -75,6 +84,8 @@ const makeObservation = (id: string) => ({
 beforeEach(() => {
     vi.resetModules();
     localStorage.clear();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
 
     authGetUserMock.mockReset();
     authGetUserMock.mockResolvedValue({ data: { user: { id: 'user-1' } } });
@@ -91,7 +102,15 @@ beforeEach(() => {
     selectMock.mockReset();
     selectMock.mockReturnValue({ eq: selectEqMock, order: orderMock });
     selectEqMock.mockReset();
-    selectEqMock.mockReturnValue({ order: orderMock });
+    selectEqMock.mockReturnValue({ order: orderMock, eq: selectEqSecondMock, is: selectIsMock, gt: selectGtMock });
+    selectIsMock.mockReset();
+    selectIsMock.mockReturnValue({ order: orderMock });
+    selectGtMock.mockReset();
+    selectGtMock.mockReturnValue({ order: orderMock });
+    selectEqSecondMock.mockReset();
+    selectEqSecondMock.mockReturnValue({ maybeSingle: selectMaybeSingleMock });
+    selectMaybeSingleMock.mockReset();
+    selectMaybeSingleMock.mockResolvedValue({ data: null, error: null });
     orderMock.mockReset();
     orderMock.mockResolvedValue({ data: [], error: null });
 
@@ -100,7 +119,23 @@ beforeEach(() => {
     updateEqIdMock.mockReset();
     updateEqIdMock.mockReturnValue({ eq: updateEqUserMock });
     updateEqUserMock.mockReset();
-    updateEqUserMock.mockResolvedValue({ error: null });
+    updateEqUserMock.mockImplementation(() => Object.assign(Promise.resolve({ error: null }), { select: updateSelectMock }));
+    updateSelectMock.mockReset();
+    // Queue replays await select('id') for the touched rows; online edits read the row back with single().
+    updateSelectMock.mockImplementation(() => Object.assign(
+        Promise.resolve({ data: [{ id: (updateEqIdMock.mock.calls.at(-1) as any[] | undefined)?.[1] }], error: null }),
+        { single: updateSingleMock }
+    ));
+    updateSingleMock.mockReset();
+    // Echoes the updated row as the server stores it, with a fresh updated_at.
+    updateSingleMock.mockImplementation(async () => ({
+        data: {
+            ...(updateMock.mock.calls.at(-1) as any[] | undefined)?.[0],
+            id: (updateEqIdMock.mock.calls.at(-1) as any[] | undefined)?.[1],
+            updated_at: SERVER_UPDATED_AT
+        },
+        error: null
+    }));
 
     deleteMock.mockReset();
     deleteMock.mockReturnValue({ eq: deleteEqIdMock });
@@ -245,6 +280,25 @@ describe('storageService security filters', () => {
 
         await storageService.deleteObservation('123e4567-e89b-42d3-a456-426614174000');
 
+        expect(updateMock).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+        expect(updateEqIdMock).toHaveBeenCalledWith('id', '123e4567-e89b-42d3-a456-426614174000');
+        expect(updateEqUserMock).toHaveBeenCalledWith('user_id', 'user-1');
+        expect(deleteMock).not.toHaveBeenCalled();
+    });
+
+    it('falls back to a hard delete with user_id filter when deleted_at is missing', async () => {
+        vi.stubGlobal('navigator', { onLine: true });
+        updateEqUserMock.mockResolvedValueOnce({
+            error: {
+                code: 'PGRST204',
+                message: "Could not find the 'deleted_at' column of 'observations' in the schema cache"
+            }
+        });
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+
+        await storageService.deleteObservation('123e4567-e89b-42d3-a456-426614174000');
+
         expect(deleteEqIdMock).toHaveBeenCalledWith('id', '123e4567-e89b-42d3-a456-426614174000');
         expect(deleteEqUserMock).toHaveBeenCalledWith('user_id', 'user-1');
     });
@@ -310,14 +364,13 @@ describe('storageService legacy schema fallback', () => {
 
     it('retries updateObservation without count-breakdown columns when schema cache is outdated', async () => {
         vi.stubGlobal('navigator', { onLine: true });
-        updateEqUserMock
+        updateSingleMock
             .mockResolvedValueOnce({
                 error: {
                     code: 'PGRST204',
                     message: "Could not find the 'male_count' column in the schema cache"
                 }
-            })
-            .mockResolvedValueOnce({ error: null });
+            });
 
         const storageService = await import('../services/storageService');
         storageService.setStorageNamespace('user-1');
@@ -375,14 +428,13 @@ describe('storageService legacy schema fallback', () => {
                 },
                 error: null
             });
-        updateEqUserMock
-            .mockResolvedValueOnce({
-                error: {
-                    code: 'PGRST204',
-                    message: "Could not find the 'male_count' column in the schema cache"
-                }
-            })
-            .mockResolvedValueOnce({ error: null });
+        updateSelectMock.mockReturnValueOnce(Promise.resolve({
+            data: null,
+            error: {
+                code: 'PGRST204',
+                message: "Could not find the 'male_count' column in the schema cache"
+            }
+        }));
 
         const storageService = await import('../services/storageService');
         storageService.setStorageNamespace('user-1');
@@ -431,32 +483,693 @@ describe('storageService legacy schema fallback', () => {
     });
 });
 
+describe('storageService delta sync', () => {
+    const makeRow = (id: string, updatedAt: string, overrides: Record<string, unknown> = {}) => ({
+        id,
+        species_name: 'Mésange',
+        latin_name: 'Parus major',
+        taxonomic_group: 'Oiseaux',
+        date: '2026-03-01',
+        time: '12:00',
+        count: 1,
+        location: 'Parc',
+        gps_lat: null,
+        gps_lon: null,
+        municipality: 'Paris',
+        department: '75',
+        country: 'France',
+        altitude: null,
+        comment: '',
+        status: 'NE',
+        atlas_code: '',
+        protocol: 'Opportuniste',
+        sexe: 'Non renseigné',
+        age: 'Non renseigné',
+        observation_condition: 'Non renseigné',
+        comportement: 'Non renseigné',
+        photo_url: null,
+        wikipedia_image: null,
+        sound_url: null,
+        updated_at: updatedAt,
+        deleted_at: null,
+        ...overrides
+    });
+
+    it('does a full load without tombstones first, then only pulls rows changed since the cursor', async () => {
+        vi.stubGlobal('navigator', { onLine: true });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+
+        orderMock.mockResolvedValueOnce({
+            data: [makeRow('obs-1', '2026-03-01T10:00:00+00:00'), makeRow('obs-2', '2026-03-02T10:00:00+00:00')],
+            error: null
+        });
+        const first = await storageService.getObservations();
+
+        expect(first.observations.map(obs => obs.id).sort()).toEqual(['obs-1', 'obs-2']);
+        expect(selectIsMock).toHaveBeenCalledWith('deleted_at', null);
+        const cursor = await offlineDatabase.readOfflineRecord<any>('observations_sync_cursor:user-1');
+        expect(cursor.lastUpdatedAt).toBe('2026-03-02T10:00:00+00:00');
+
+        orderMock.mockResolvedValueOnce({
+            data: [
+                makeRow('obs-1', '2026-03-03T09:00:00+00:00', { deleted_at: '2026-03-03T09:00:00+00:00' }),
+                makeRow('obs-2', '2026-03-03T09:30:00+00:00', { count: 7 }),
+                makeRow('obs-3', '2026-03-03T10:00:00+00:00')
+            ],
+            error: null
+        });
+        const second = await storageService.getObservations();
+
+        expect(selectGtMock).toHaveBeenCalledTimes(1);
+        const [column, since] = selectGtMock.mock.calls[0] as unknown as [string, string];
+        expect(column).toBe('updated_at');
+        expect(new Date(since).getTime()).toBeLessThan(new Date('2026-03-02T10:00:00+00:00').getTime());
+        expect(second.source).toBe('remote');
+        expect(second.observations.map(obs => obs.id).sort()).toEqual(['obs-2', 'obs-3']);
+        expect(second.observations.find(obs => obs.id === 'obs-2')?.count).toBe(7);
+        const nextCursor = await offlineDatabase.readOfflineRecord<any>('observations_sync_cursor:user-1');
+        expect(nextCursor.lastUpdatedAt).toBe('2026-03-03T10:00:00+00:00');
+    });
+
+    it('keeps the local version of observations that still have queued offline actions', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        await storageService.saveObservation({ ...makeObservation('temp-1'), speciesName: 'Hors-ligne' });
+
+        vi.stubGlobal('navigator', { onLine: true });
+        orderMock.mockResolvedValueOnce({ data: [makeRow('obs-1', '2026-03-01T10:00:00+00:00')], error: null });
+        const result = await storageService.getObservations();
+
+        expect(result.observations.map(obs => obs.id).sort()).toEqual(['obs-1', 'temp-1']);
+    });
+
+    it('keeps full loads when the database has no deleted_at column yet', async () => {
+        vi.stubGlobal('navigator', { onLine: true });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+
+        orderMock
+            .mockResolvedValueOnce({
+                data: null,
+                error: { code: '42703', message: 'column observations.deleted_at does not exist' }
+            })
+            .mockResolvedValueOnce({ data: [makeRow('obs-1', '2026-03-01T10:00:00+00:00')], error: null });
+
+        const result = await storageService.getObservations();
+
+        expect(result.observations.map(obs => obs.id)).toEqual(['obs-1']);
+        expect(await offlineDatabase.readOfflineRecord('observations_sync_cursor:user-1')).toBeUndefined();
+    });
+});
+
+describe('storageService recycle bin', () => {
+    const observationId = '123e4567-e89b-42d3-a456-426614174000';
+
+    it('moves a deleted observation to the recycle bin and restores it', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        await offlineDatabase.writeOfflineRecord('local_observations_cache:user-1', [makeObservation(observationId)]);
+
+        vi.stubGlobal('navigator', { onLine: true });
+        await storageService.deleteObservation(observationId);
+
+        expect(await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1')).toEqual([]);
+        vi.stubGlobal('navigator', { onLine: false });
+        const trash = await storageService.getDeletedObservations();
+        expect(trash.map(obs => obs.id)).toEqual([observationId]);
+        expect(trash[0].deletedAt).toEqual(expect.any(String));
+
+        vi.stubGlobal('navigator', { onLine: true });
+        const restored = await storageService.restoreObservation(observationId);
+
+        expect(restored.deletedAt).toBeUndefined();
+        expect(updateMock).toHaveBeenLastCalledWith({ deleted_at: null });
+        expect(updateEqUserMock).toHaveBeenLastCalledWith('user_id', 'user-1');
+        const cache = await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1');
+        expect(cache?.map(obs => obs.id)).toEqual([observationId]);
+        expect(await offlineDatabase.readOfflineRecord<any[]>('local_trash_cache:user-1')).toEqual([]);
+    });
+
+    it('queues recycle bin actions offline and replays them at sync', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        const otherId = '223e4567-e89b-42d3-a456-426614174000';
+        await offlineDatabase.writeOfflineRecord('local_observations_cache:user-1', [
+            makeObservation(observationId),
+            makeObservation(otherId)
+        ]);
+
+        await storageService.deleteObservation(observationId);
+        await storageService.deleteObservation(otherId);
+        await storageService.restoreObservation(observationId);
+        await storageService.purgeObservation(otherId);
+
+        const cache = await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1');
+        expect(cache?.map(obs => obs.id)).toEqual([observationId]);
+        expect(await storageService.getDeletedObservations()).toEqual([]);
+
+        vi.stubGlobal('navigator', { onLine: true });
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 0 });
+        expect(updateMock).not.toHaveBeenCalled();
+        expect(deleteEqIdMock).toHaveBeenCalledWith('id', otherId);
+        expect(deleteEqUserMock).toHaveBeenCalledWith('user_id', 'user-1');
+    });
+});
+
 describe('storageService.bulkUpsertObservationsInCache', () => {
-    it('writes local cache only once for a whole batch', async () => {
+    it('merges a whole batch into the IndexedDB cache', async () => {
         vi.stubGlobal('navigator', { onLine: true });
         const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
         storageService.setStorageNamespace('user-1');
 
         const cacheKey = 'local_observations_cache:user-1';
-        localStorage.setItem(cacheKey, JSON.stringify([makeObservation('obs1')]));
+        await offlineDatabase.writeOfflineRecord(cacheKey, [makeObservation('obs1')]);
 
-        const setItemSpy = vi.spyOn(Storage.prototype, 'setItem');
-        setItemSpy.mockClear();
-
-        storageService.bulkUpsertObservationsInCache([
+        await storageService.bulkUpsertObservationsInCache([
             { ...makeObservation('obs1'), speciesName: 'Updated A' },
             makeObservation('obs2')
         ]);
 
-        const rawCache = localStorage.getItem(cacheKey);
-        const parsed = JSON.parse(rawCache || '[]');
+        const parsed = await offlineDatabase.readOfflineRecord<any[]>(cacheKey) ?? [];
 
-        expect(setItemSpy).toHaveBeenCalledTimes(1);
         expect(parsed).toHaveLength(2);
         expect(parsed.find((o: any) => o.id === 'obs1')?.speciesName).toBe('Updated A');
         expect(parsed.find((o: any) => o.id === 'obs2')?.speciesName).toBe('Mésange');
+    });
+});
+
+describe('storageService.updateObservations', () => {
+    it('queues a bulk re-identification offline as one batch and syncs it', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        await offlineDatabase.writeOfflineRecord('local_observations_cache:user-1', [makeObservation('obs1'), makeObservation('obs2')]);
+
+        const renamed = ['obs1', 'obs2'].map(id => ({ ...makeObservation(id), speciesName: 'Mésange nonnette', latinName: 'Poecile palustris' }));
+        const result = await storageService.updateObservations(renamed);
+
+        expect(result).toEqual({ updated: renamed, failed: [] });
+        const queue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        expect(queue?.map(item => [item.action, item.payload.id])).toEqual([['UPDATE', 'obs1'], ['UPDATE', 'obs2']]);
+        const cache = await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1');
+        expect(cache?.map(obs => obs.latinName)).toEqual(['Poecile palustris', 'Poecile palustris']);
+
+        vi.stubGlobal('navigator', { onLine: true });
+        expect(await storageService.processOfflineQueue()).toMatchObject({ processed: 2, failed: 0 });
+        expect(updateMock).toHaveBeenCalledWith(expect.objectContaining({ latin_name: 'Poecile palustris' }));
+        expect(updateEqIdMock.mock.calls.map(call => (call as unknown[])[1])).toEqual(['obs1', 'obs2']);
+    });
+
+    it('returns the observations whose online update failed', async () => {
+        vi.stubGlobal('navigator', { onLine: true });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const echoUpdatedRow = updateSingleMock.getMockImplementation()!;
+        updateSingleMock
+            .mockImplementationOnce(echoUpdatedRow)
+            .mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } });
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+
+        const result = await storageService.updateObservations([makeObservation('obs1'), makeObservation('obs2')]);
+
+        expect(result.updated.map(obs => obs.id)).toEqual(['obs1']);
+        expect(result.failed.map(obs => obs.id)).toEqual(['obs2']);
+    });
+});
+
+describe('storageService IndexedDB offline store', () => {
+    it('migrates scoped and legacy localStorage data into IndexedDB once', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        localStorage.setItem('offline_sync_queue', JSON.stringify([
+            { id: 'q-legacy', action: 'DELETE', payload: { id: 'obs-legacy' }, timestamp: 1 }
+        ]));
+        localStorage.setItem('local_observations_cache:user-1', JSON.stringify([makeObservation('obs1')]));
+
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+
+        const result = await storageService.getObservations();
+
+        expect(result.source).toBe('cache');
+        expect(result.observations.map(obs => obs.id)).toEqual(['obs1']);
+        expect(localStorage.getItem('local_observations_cache:user-1')).toBeNull();
+        expect(localStorage.getItem('offline_sync_queue')).toBeNull();
+        const migratedQueue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        expect(migratedQueue?.map(item => item.id)).toEqual(['q-legacy']);
+    });
+
+    it('merges a queue left in localStorage with the one already in IndexedDB', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const offlineDatabase = await import('../services/offlineDatabase');
+        await offlineDatabase.writeOfflineRecord('offline_sync_queue:user-1', [
+            { id: 'q-new', action: 'DELETE', payload: { id: 'obs-2' }, timestamp: 20 }
+        ]);
+        localStorage.setItem('offline_sync_queue:user-1', JSON.stringify([
+            { id: 'q-old', action: 'DELETE', payload: { id: 'obs-1' }, timestamp: 10 },
+            { id: 'q-new', action: 'DELETE', payload: { id: 'obs-2' }, timestamp: 20 }
+        ]));
+
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        await storageService.getObservations();
+
+        const queue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        expect(queue?.map(item => item.id)).toEqual(['q-old', 'q-new']);
+        expect(localStorage.getItem('offline_sync_queue:user-1')).toBeNull();
+    });
+
+    it('keeps the offline queue in localStorage across reloads when IndexedDB is missing', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        vi.stubGlobal('indexedDB', undefined);
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        await storageService.saveObservation(makeObservation('temp-1'));
+
+        expect(JSON.parse(localStorage.getItem('offline_fallback:offline_sync_queue:user-1') ?? '[]')).toHaveLength(1);
+
+        vi.resetModules();
+        const reloaded = await import('../services/storageService');
+        reloaded.setStorageNamespace('user-1');
+        const result = await reloaded.getObservations();
+        expect(result.observations.map(obs => obs.id)).toEqual(['temp-1']);
+    });
+
+    it('keeps every queued action when offline saves run concurrently', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+
+        await Promise.all(
+            Array.from({ length: 5 }, (_, index) => storageService.saveObservation(makeObservation(`temp-${index}`)))
+        );
+
+        const queue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        const cache = await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1');
+        expect(queue).toHaveLength(5);
+        expect(cache).toHaveLength(5);
+    });
+
+    it('stores photo-sized inline media that localStorage used to strip', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+
+        const photo = `data:image/jpeg;base64,${'a'.repeat(400_000)}`;
+        await storageService.saveObservation({ ...makeObservation('temp-photo'), photo });
+
+        const result = await storageService.getObservations();
+        expect(result.observations[0].photo).toBe(photo);
+    });
+
+    it('clears only the scoped data of the given user', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+
+        storageService.setStorageNamespace('user-1');
+        await storageService.saveObservation(makeObservation('temp-1'));
+        storageService.setStorageNamespace('user-2');
+        await storageService.saveObservation(makeObservation('temp-2'));
+
+        await storageService.clearScopedOfflineData('user-1');
+
+        expect(await offlineDatabase.readOfflineRecord('offline_sync_queue:user-1')).toBeUndefined();
+        expect(await offlineDatabase.readOfflineRecord('local_observations_cache:user-1')).toBeUndefined();
+        expect(await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-2')).toHaveLength(1);
+    });
+});
+
+describe('storageService offline media queue', () => {
+    it('uploads a photo stashed offline before inserting the queued observation', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+
+        const file = new Blob(['jpeg-bytes'], { type: 'image/jpeg' });
+        const photoRef = await storageService.stashOfflineMedia(file, 'photo');
+        expect(photoRef).toMatch(/^offline-media:/);
+
+        await storageService.saveObservation({ ...makeObservation('temp-photo'), photo: photoRef });
+
+        const queue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        expect(queue?.[0].media).toEqual([{ field: 'photo', mediaId: photoRef.slice('offline-media:'.length) }]);
+        const storedBlob = await storageService.loadOfflineMedia(photoRef);
+        expect(storedBlob?.type).toBe('image/jpeg');
+
+        vi.stubGlobal('navigator', { onLine: true });
+        storageGetPublicUrlMock.mockReturnValue({ data: { publicUrl: 'https://example.com/uploaded.jpg' } });
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 0 });
+        expect(storageUploadMock).toHaveBeenCalledTimes(1);
+        const [uploadedFileName, , options] = storageUploadMock.mock.calls[0];
+        expect(String(uploadedFileName)).toMatch(/^user-1\//);
+        expect(options).toMatchObject({ contentType: 'image/jpeg' });
+        expect(storageUploadMock.mock.invocationCallOrder[0]).toBeLessThan(insertMock.mock.invocationCallOrder[0]);
+
+        const insertedRow = (insertMock.mock.calls.at(0) as any[] | undefined)?.[0];
+        expect(insertedRow.photo_url).toBe('https://example.com/uploaded.jpg');
+        expect(await storageService.loadOfflineMedia(photoRef)).toBeNull();
+        expect(await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1')).toEqual([]);
+    });
+
+    it('keeps the queued item and its blob when the media upload fails', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+
+        const soundRef = await storageService.stashOfflineMedia(new Blob(['wav'], { type: 'audio/wav' }), 'sound');
+        await storageService.saveObservation({ ...makeObservation('temp-sound'), sound: soundRef });
+
+        vi.stubGlobal('navigator', { onLine: true });
+        storageUploadMock.mockResolvedValue({ error: { message: 'Network error' } });
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 1 });
+        expect(insertMock).not.toHaveBeenCalled();
+        const queue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        expect(queue?.[0].payload.sound).toBe(soundRef);
+        expect(await storageService.loadOfflineMedia(soundRef)).not.toBeNull();
+    });
+});
+
+describe('storageService offline edit conflicts', () => {
+    const observationId = '123e4567-e89b-42d3-a456-426614174000';
+    const baseUpdatedAt = '2026-03-01T10:00:00.000000+00:00';
+    const remoteRow = (updatedAt: string, speciesName: string) => ({
+        id: observationId,
+        species_name: speciesName,
+        latin_name: 'Parus major',
+        taxonomic_group: 'Oiseaux',
+        date: '2026-03-01',
+        time: '12:00',
+        count: 1,
+        location: 'Parc',
+        gps_lat: null,
+        gps_lon: null,
+        municipality: 'Paris',
+        department: '75',
+        country: 'France',
+        altitude: null,
+        comment: '',
+        status: 'NE',
+        atlas_code: '',
+        protocol: 'Opportuniste',
+        sexe: 'Non renseigné',
+        age: 'Non renseigné',
+        observation_condition: 'Non renseigné',
+        comportement: 'Non renseigné',
+        photo_url: null,
+        wikipedia_image: null,
+        sound_url: null,
+        updated_at: updatedAt
+    });
+
+    const queueOfflineEdit = async (storageService: typeof import('../services/storageService')) => {
+        vi.stubGlobal('navigator', { onLine: false });
+        await storageService.updateObservation({
+            ...makeObservation(observationId),
+            count: 4,
+            updatedAt: baseUpdatedAt
+        });
+        vi.stubGlobal('navigator', { onLine: true });
+    };
+
+    it('keeps an offline edit queued as a conflict when the server row changed since', async () => {
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        await queueOfflineEdit(storageService);
+        selectMaybeSingleMock.mockResolvedValue({ data: remoteRow('2026-03-02T08:00:00+00:00', 'Mésange charbonnière'), error: null });
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 0, conflicts: 1 });
+        expect(updateMock).not.toHaveBeenCalled();
+        expect(selectEqMock).toHaveBeenCalledWith('id', observationId);
+        expect(selectEqSecondMock).toHaveBeenCalledWith('user_id', 'user-1');
+
+        const conflicts = await storageService.getSyncConflicts();
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].diffs.map(diff => diff.field)).toEqual(['speciesName', 'count']);
+        const queue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        expect(queue?.[0].baseUpdatedAt).toBe(baseUpdatedAt);
+    });
+
+    it('writes the merged version on top of the server row once the conflict is resolved', async () => {
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        await queueOfflineEdit(storageService);
+        const remoteUpdatedAt = '2026-03-02T08:00:00+00:00';
+        selectMaybeSingleMock.mockResolvedValue({ data: remoteRow(remoteUpdatedAt, 'Mésange charbonnière'), error: null });
+        await storageService.processOfflineQueue();
+
+        const [conflict] = await storageService.getSyncConflicts();
+        const resolved = await storageService.resolveSyncConflict(conflict.queueItemId, {
+            ...conflict.local,
+            speciesName: conflict.remote.speciesName
+        });
+        expect(resolved).toMatchObject({ speciesName: 'Mésange charbonnière', count: 4, updatedAt: remoteUpdatedAt });
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 0, conflicts: 0 });
+        expect(updateMock).toHaveBeenCalledTimes(1);
+        const updatedRow = (updateMock.mock.calls.at(0) as any[] | undefined)?.[0];
+        expect(updatedRow).toMatchObject({ species_name: 'Mésange charbonnière', count: 4 });
+        expect(updatedRow).not.toHaveProperty('updated_at');
+        expect(await storageService.getSyncConflicts()).toEqual([]);
+    });
+
+    it('drops the queued edit when the server version is kept', async () => {
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        await queueOfflineEdit(storageService);
+        selectMaybeSingleMock.mockResolvedValue({ data: remoteRow('2026-03-02T08:00:00+00:00', 'Mésange charbonnière'), error: null });
+        await storageService.processOfflineQueue();
+
+        const [conflict] = await storageService.getSyncConflicts();
+        await storageService.resolveSyncConflict(conflict.queueItemId, conflict.remote);
+
+        expect(await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1')).toEqual([]);
+        const cache = await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1');
+        expect(cache?.[0]).toMatchObject({ speciesName: 'Mésange charbonnière', count: 1 });
+    });
+
+    it('does not flag an offline edit made after an online edit of the same observation', async () => {
+        vi.stubGlobal('navigator', { onLine: true });
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        const edited = await storageService.updateObservation({ ...makeObservation(observationId), count: 2, updatedAt: baseUpdatedAt });
+        expect(edited.updatedAt).toBe(SERVER_UPDATED_AT);
+
+        vi.stubGlobal('navigator', { onLine: false });
+        await storageService.updateObservation({ ...edited, count: 5 });
+        vi.stubGlobal('navigator', { onLine: true });
+        selectMaybeSingleMock.mockResolvedValue({ data: { ...remoteRow(SERVER_UPDATED_AT, 'Mésange'), count: 2 }, error: null });
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 0, conflicts: 0 });
+        expect(updateMock).toHaveBeenLastCalledWith(expect.objectContaining({ count: 5 }));
+    });
+
+    it('keeps the edit queued as failed when the server row is gone', async () => {
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        await queueOfflineEdit(storageService);
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 1, conflicts: 0, failureReasons: ['1x Observation introuvable sur le serveur'] });
+        expect(updateMock).not.toHaveBeenCalled();
+        expect(await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1')).toHaveLength(1);
+    });
+
+    it('does not count an update that touched no row as synced', async () => {
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        localStorage.setItem('offline_sync_queue:user-1', JSON.stringify([
+            { id: 'q1', action: 'UPDATE', payload: { ...makeObservation(observationId), count: 4 }, timestamp: 1 }
+        ]));
+        updateSelectMock.mockReturnValueOnce(Promise.resolve({ data: [], error: null }));
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 1 });
+        expect(await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1')).toHaveLength(1);
+    });
+
+    it('flags an edit of an observation trashed on another device and restores it when the edit is kept', async () => {
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        await queueOfflineEdit(storageService);
+        const trashedRow = { ...remoteRow(baseUpdatedAt, 'Mésange'), deleted_at: '2026-03-02T08:00:00+00:00' };
+        selectMaybeSingleMock.mockResolvedValue({ data: trashedRow, error: null });
+
+        expect(await storageService.processOfflineQueue()).toMatchObject({ failed: 0, conflicts: 1 });
+        expect(updateMock).not.toHaveBeenCalled();
+
+        const [conflict] = await storageService.getSyncConflicts();
+        const resolved = await storageService.resolveSyncConflict(conflict.queueItemId, conflict.local);
+        expect(resolved).toMatchObject({ count: 4, deletedAt: undefined });
+        const queue = await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1');
+        expect(queue?.map(item => item.action)).toEqual(['UPDATE', 'RESTORE']);
+
+        expect(await storageService.processOfflineQueue()).toMatchObject({ processed: 2, failed: 0, conflicts: 0 });
+        expect(updateMock).toHaveBeenCalledWith(expect.objectContaining({ count: 4 }));
+        expect(updateMock).toHaveBeenCalledWith({ deleted_at: null });
+    });
+
+    it('drops the edit and leaves the list when the trashed server version is kept', async () => {
+        const storageService = await import('../services/storageService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        await queueOfflineEdit(storageService);
+        selectMaybeSingleMock.mockResolvedValue({ data: { ...remoteRow(baseUpdatedAt, 'Mésange'), deleted_at: '2026-03-02T08:00:00+00:00' }, error: null });
+        await storageService.processOfflineQueue();
+
+        const [conflict] = await storageService.getSyncConflicts();
+        await storageService.resolveSyncConflict(conflict.queueItemId, conflict.remote);
+
+        expect(await offlineDatabase.readOfflineRecord<any[]>('offline_sync_queue:user-1')).toEqual([]);
+        const cache = await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1');
+        expect(cache?.some(obs => obs.id === observationId)).toBe(false);
+    });
+
+    it('applies the offline edit when the server row is unchanged', async () => {
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        await queueOfflineEdit(storageService);
+        selectMaybeSingleMock.mockResolvedValue({ data: remoteRow(baseUpdatedAt, 'Mésange'), error: null });
+
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 1, failed: 0, conflicts: 0 });
+        expect(updateMock).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('storageService edit history attribution', () => {
+    const observationId = '123e4567-e89b-42d3-a456-426614174000';
+
+    it('attributes merged offline edits to the time of the latest edit', async () => {
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        const nowSpy = vi.spyOn(Date, 'now');
+
+        vi.stubGlobal('navigator', { onLine: false });
+        nowSpy.mockReturnValue(Date.parse('2026-03-01T09:00:00Z'));
+        await storageService.updateObservation({ ...makeObservation(observationId), count: 2 });
+        nowSpy.mockReturnValue(Date.parse('2026-03-01T09:30:00Z'));
+        await storageService.updateObservation({ ...makeObservation(observationId), count: 3 });
+        nowSpy.mockRestore();
+
+        vi.stubGlobal('navigator', { onLine: true });
+        await storageService.processOfflineQueue();
+
+        expect(updateMock).toHaveBeenCalledTimes(1);
+        expect((updateMock.mock.calls.at(0) as any[] | undefined)?.[0]).toMatchObject({
+            count: 3,
+            edit_source: 'offline',
+            edited_at: '2026-03-01T09:30:00.000Z',
+            offline_edit_count: 2
+        });
+    });
+
+    it('retries without the edit attribution columns before the phase 9 migration', async () => {
+        vi.stubGlobal('navigator', { onLine: true });
+        updateSingleMock.mockResolvedValueOnce({
+            error: {
+                code: 'PGRST204',
+                message: "Could not find the 'edit_source' column of 'observations' in the schema cache"
+            }
+        });
+
+        const storageService = await import('../services/storageService');
+        storageService.setStorageNamespace('user-1');
+        await storageService.updateObservation(makeObservation(observationId));
+
+        expect(updateMock).toHaveBeenCalledTimes(2);
+        const firstRow = (updateMock.mock.calls.at(0) as any[] | undefined)?.[0];
+        const fallbackRow = (updateMock.mock.calls.at(1) as any[] | undefined)?.[0];
+        expect(firstRow).toMatchObject({ edit_source: 'online' });
+        expect(fallbackRow).not.toHaveProperty('edited_at');
+        expect(fallbackRow).not.toHaveProperty('edit_source');
+        expect(fallbackRow).toHaveProperty('male_count');
+    });
+});
+
+describe('storageService sampling sessions', () => {
+    it('syncs sessions created offline before the observations attached to them', async () => {
+        const storageService = await import('../services/storageService');
+        const sessionService = await import('../services/sessionService');
+        storageService.setStorageNamespace('user-1');
+        const sessionId = '9b2f7c1e-4d3a-4f5b-8c6d-7e8f9a0b1c2d';
+        const observationId = '123e4567-e89b-42d3-a456-426614174000';
+
+        vi.stubGlobal('navigator', { onLine: false });
+        await sessionService.saveSession({ ...sessionService.createEmptySession(), id: sessionId, name: 'Matinée' });
+        await storageService.saveObservation({ ...makeObservation(observationId), sessionId });
+
+        vi.stubGlobal('navigator', { onLine: true });
+        const result = await storageService.processOfflineQueue();
+
+        expect(result).toMatchObject({ processed: 2, failed: 0 });
+        const writtenTables = fromMock.mock.calls.map(call => (call as unknown[])[0]);
+        expect(writtenTables.indexOf('sampling_sessions')).toBeLessThan(writtenTables.indexOf('observations'));
+        expect(upsertMock).toHaveBeenLastCalledWith(expect.objectContaining({ id: observationId, session_id: sessionId }), { onConflict: 'id' });
+    });
+});
+
+describe('storageService.detachSessionFromObservations', () => {
+    it('clears a session deleted offline from the cache and the queued observation writes', async () => {
+        const storageService = await import('../services/storageService');
+        const sessionService = await import('../services/sessionService');
+        const offlineDatabase = await import('../services/offlineDatabase');
+        storageService.setStorageNamespace('user-1');
+        const sessionId = '9b2f7c1e-4d3a-4f5b-8c6d-7e8f9a0b1c2d';
+        const inserted = '123e4567-e89b-42d3-a456-426614174000';
+        const edited = '223e4567-e89b-42d3-a456-426614174000';
+        await offlineDatabase.writeOfflineRecord('local_observations_cache:user-1', [{ ...makeObservation(edited), sessionId }]);
+
+        vi.stubGlobal('navigator', { onLine: false });
+        await storageService.saveObservation({ ...makeObservation(inserted), sessionId });
+        await storageService.updateObservation({ ...makeObservation(edited), sessionId, count: 3 });
+        await sessionService.deleteSession(sessionId);
+        await storageService.detachSessionFromObservations(sessionId);
+
+        const cache = await offlineDatabase.readOfflineRecord<any[]>('local_observations_cache:user-1');
+        expect(cache?.map(obs => obs.sessionId)).toEqual([undefined, undefined]);
+
+        vi.stubGlobal('navigator', { onLine: true });
+        const result = await storageService.processOfflineQueue();
 
-        setItemSpy.mockRestore();
+        expect(result).toMatchObject({ processed: 3, failed: 0 });
+        expect(upsertMock).toHaveBeenCalledWith(expect.objectContaining({ id: inserted, session_id: null }), { onConflict: 'id' });
+        expect(updateMock).toHaveBeenCalledWith(expect.objectContaining({ count: 3, session_id: null }));
     });
 });
 
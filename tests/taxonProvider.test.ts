@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchSpeciesInfo, suggestSpeciesAutocomplete } from '../services/speciesService';
+import {
+    TaxonProvider,
+    configureTaxonProviders,
+    registerTaxonProvider,
+    resetTaxonProviderSettings,
+    unregisterTaxonProvider
+} from '../services/taxonProvider';
+import { RedListScale, Status, TaxonomicGroup } from '../types';
+
+const fetchMock = vi.fn();
+
+const createStubProvider = (overrides: Partial<TaxonProvider> = {}): TaxonProvider => ({
+    id: 'stub',
+    label: 'Stub',
+    priority: 1,
+    timeoutMs: 1000,
+    remote: true,
+    suggest: async () => [{ displayName: 'Mésange bleue', latinName: 'Cyanistes caeruleus', source: 'stub' }],
+    ...overrides
+});
+
+describe('taxon providers', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        unregisterTaxonProvider('stub');
+        resetTaxonProviderSettings();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('asks a provider registered before iNaturalist first', async () => {
+        registerTaxonProvider(createStubProvider());
+
+        const suggestions = await suggestSpeciesAutocomplete('Mesange', 5);
+
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(suggestions).toEqual([{ displayName: 'Mésange bleue', latinName: 'Cyanistes caeruleus', source: 'stub' }]);
+    });
+
+    it('moves on to the next provider when one exceeds its timeout', async () => {
+        registerTaxonProvider(createStubProvider({ timeoutMs: 20, suggest: () => new Promise(() => { }) }));
+        configureTaxonProviders({ gbif: { enabled: false } });
+        fetchMock.mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ results: [{ id: 1, name: 'Parus major', rank: 'species', preferred_common_name: 'Mésange charbonnière' }] })
+        } as Response);
+
+        const suggestions = await suggestSpeciesAutocomplete('Mesange', 5);
+
+        expect(suggestions.map(suggestion => suggestion.source)).toEqual(['inat']);
+        expect(suggestions[0]).toMatchObject({ latinName: 'Parus major', inatTaxonId: 1 });
+    });
+
+    it('builds species info from the capabilities of several providers', async () => {
+        registerTaxonProvider(createStubProvider({
+            details: async () => ({
+                latinName: 'Lanius collurio',
+                description: 'Passereau des haies.',
+                imageUrl: null,
+                sourceUrl: '',
+                matchedBy: 'common',
+                confidence: 'high'
+            }),
+            match: async () => ({ taxonomicGroup: TaxonomicGroup.BIRD }),
+            redLists: async () => [{ scale: RedListScale.FRANCE, status: Status.NT, source: 'UICN France', year: 2016 }]
+        }));
+        configureTaxonProviders({ stub: { priority: 100 }, inat: { enabled: false }, gbif: { enabled: false } });
+
+        expect(await fetchSpeciesInfo('Pie-grièche écorcheur')).toEqual({
+            description: 'Passereau des haies.',
+            imageUrl: null,
+            sourceUrl: '',
+            latinName: 'Lanius collurio',
+            taxonomicGroup: TaxonomicGroup.BIRD,
+            redListStatus: Status.NT,
+            redListSource: 'france',
+            redLists: [{ scale: RedListScale.FRANCE, status: Status.NT, source: 'UICN France', year: 2016 }],
+            matchedBy: 'common',
+            confidence: 'high'
+        });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildTaxrefIndex, matchTaxref, parseTaxrefText, searchTaxref } from '../services/taxrefService';
+
+const TAXREF_EXTRACT = [
+    ['REGNE', 'CLASSE', 'ORDRE', 'FAMILLE', 'CD_NOM', 'CD_REF', 'RANG', 'LB_NOM', 'NOM_VERN', 'FR'].join('\t'),
+    ['Animalia', 'Aves', 'Passeriformes', 'Paridae', '534742', '534742', 'ES', 'Cyanistes caeruleus', 'Mésange bleue', 'P'].join('\t'),
+    ['Animalia', 'Aves', 'Passeriformes', 'Paridae', '3764', '534742', 'ES', 'Parus caeruleus', '', ''].join('\t'),
+    ['Animalia', 'Aves', 'Passeriformes', 'Laniidae', '3807', '3807', 'ES', 'Lanius collurio', 'Pie-grièche écorcheur', 'P'].join('\t'),
+    ['Animalia', 'Aves', 'Passeriformes', 'Paridae', '3760', '3760', 'GN', 'Parus', 'Mésanges', 'P'].join('\t'),
+    ['Animalia', 'Aves', 'Passeriformes', 'Muscicapidae', '999001', '999001', 'ES', 'Oenanthe isabellina', 'Traquet isabelle', 'A'].join('\t')
+].join('\n');
+
+describe('parseTaxrefText', () => {
+    it('keeps species present in France with their synonyms', () => {
+        const entries = parseTaxrefText(TAXREF_EXTRACT);
+
+        expect(entries.map(entry => entry.cdNom)).toEqual([534742, 3764, 3807]);
+        expect(entries[0]).toEqual({
+            cdNom: 534742,
+            cdRef: 534742,
+            latinName: 'Cyanistes caeruleus',
+            frenchNames: ['Mésange bleue'],
+            classification: { kingdom: 'Animalia', class: 'Aves', order: 'Passeriformes', family: 'Paridae' }
+        });
+    });
+
+    it('rejects a file without the TAXREF identifier columns', () => {
+        expect(() => parseTaxrefText('Nom;Latin\nMerle noir;Turdus merula')).toThrow('Fichier TAXREF invalide');
+    });
+});
+
+describe('TAXREF matching and search', () => {
+    const index = buildTaxrefIndex(parseTaxrefText(TAXREF_EXTRACT));
+
+    it('matches a synonym by latin name and a French name without accents', () => {
+        expect(matchTaxref(index, { latinName: 'Parus caeruleus', speciesName: 'Mésange bleue' })).toEqual({ cdNom: 3764, cdRef: 534742 });
+        expect(matchTaxref(index, { latinName: '', speciesName: 'pie-grieche ecorcheur' })).toEqual({ cdNom: 3807, cdRef: 3807 });
+        expect(matchTaxref(index, { latinName: 'Turdus merula', speciesName: 'Merle noir' })).toBeNull();
+    });
+
+    it('returns each valid taxon once, even when found through a synonym', () => {
+        expect(searchTaxref(index, 'parus').map(entry => entry.latinName)).toEqual(['Cyanistes caeruleus']);
+        expect(searchTaxref(index, 'mesange').map(entry => entry.cdRef)).toEqual([534742]);
+        expect(searchTaxref(index, 'ecorch').map(entry => entry.latinName)).toEqual(['Lanius collurio']);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+    TILE_SOURCES,
+    buildTileUrl,
+    countAreaTiles,
+    estimateTileBytes,
+    formatStorageSize,
+    latToTileY,
+    listAreaTiles,
+    lonToTileX
+} from '../utils/tileUtils';
+
+// Île de la Cité and its surroundings.
+const PARIS_CENTRE = { south: 48.85, west: 2.34, north: 48.86, east: 2.36 };
+
+describe('tile coordinates', () => {
+    it('finds the web mercator tile of a point', () => {
+        expect(lonToTileX(2.3498, 12)).toBe(2074);
+        expect(latToTileY(48.853, 12)).toBe(1409);
+    });
+
+    it('clamps points beyond the mercator limits to the edge tiles', () => {
+        expect(latToTileY(89, 3)).toBe(0);
+        expect(latToTileY(-89, 3)).toBe(7);
+        expect(lonToTileX(180, 3)).toBe(7);
+    });
+});
+
+describe('countAreaTiles', () => {
+    it('matches the tiles listed for each zoom level', () => {
+        const tiles = listAreaTiles(PARIS_CENTRE, 12, 15);
+
+        expect(countAreaTiles(PARIS_CENTRE, 12, 15)).toBe(tiles.length);
+        expect(tiles.filter(tile => tile.z === 12)).toEqual([{ z: 12, x: 2074, y: 1409 }]);
+        expect(new Set(tiles.map(tile => tile.z))).toEqual(new Set([12, 13, 14, 15]));
+    });
+});
+
+describe('buildTileUrl', () => {
+    it('picks the subdomain the way Leaflet does and adds the retina suffix', () => {
+        const tile = { z: 12, x: 2074, y: 1409 };
+
+        expect(buildTileUrl(TILE_SOURCES.light, tile, false)).toBe('https://d.basemaps.cartocdn.com/light_all/12/2074/1409.png');
+        expect(buildTileUrl(TILE_SOURCES.dark, tile, true)).toBe('https://d.basemaps.cartocdn.com/dark_all/12/2074/1409@2x.png');
+        expect(buildTileUrl(TILE_SOURCES.osm, tile, true)).toBe('https://a.tile.openstreetmap.org/12/2074/1409.png');
+    });
+});
+
+describe('tile storage sizes', () => {
+    it('estimates heavier retina tiles and formats sizes in French units', () => {
+        expect(estimateTileBytes(100, true)).toBeGreaterThan(estimateTileBytes(100, false));
+        expect(formatStorageSize(512)).toBe('1 Ko');
+        expect(formatStorageSize(15 * 1024 * 1024 + 300 * 1024)).toBe('15,3 Mo');
+        expect(formatStorageSize(2.5 * 1024 * 1024 * 1024)).toBe('2,50 Go');
+    });
+});
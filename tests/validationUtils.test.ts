@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Age, Comportement, IdentificationConfidence, Observation, ObservationCondition, Protocol, Sexe, Status, TaxonomicGroup, ValidationStatus } from '../types';
+import { applyValidationDecision, buildReviewQueue, matchesValidationFilter } from '../utils/validationUtils';
+
+const makeObservation = (overrides: Partial<Observation> = {}): Observation => ({
+    id: 'obs-1',
+    speciesName: 'Sympétrum strié',
+    latinName: 'Sympetrum striolatum',
+    taxonomicGroup: TaxonomicGroup.ODONATE,
+    date: '2026-08-01',
+    time: '12:00',
+    count: 1,
+    location: 'Mare',
+    gps: { lat: null, lon: null },
+    municipality: 'Dijon',
+    department: '21',
+    country: 'France',
+    altitude: null,
+    comment: '',
+    status: Status.LC,
+    atlasCode: '',
+    protocol: Protocol.OPPORTUNIST,
+    sexe: Sexe.UNKNOWN,
+    age: Age.UNKNOWN,
+    observationCondition: ObservationCondition.UNKNOWN,
+    comportement: Comportement.UNKNOWN,
+    ...overrides
+});
+
+describe('buildReviewQueue', () => {
+    it('lists pending observations, least certain and exceptional first', () => {
+        const queue = buildReviewQueue([
+            makeObservation({ id: 'certain', confidence: IdentificationConfidence.CERTAIN, date: '2026-01-01' }),
+            makeObservation({ id: 'old', date: '2025-07-01' }),
+            makeObservation({ id: 'exceptional', exceptional: true }),
+            makeObservation({ id: 'possible', confidence: IdentificationConfidence.POSSIBLE }),
+            makeObservation({ id: 'validated', validationStatus: ValidationStatus.VALIDATED }),
+            makeObservation({ id: 'deleted', deletedAt: '2026-08-02T10:00:00Z' })
+        ]);
+
+        expect(queue.map(obs => obs.id)).toEqual(['possible', 'exceptional', 'old', 'certain']);
+    });
+});
+
+describe('applyValidationDecision', () => {
+    it('records the reviewer and clears them when the decision is withdrawn', () => {
+        const decidedAt = new Date('2026-09-01T08:00:00Z');
+        const rejected = applyValidationDecision(makeObservation(), ValidationStatus.REJECTED, ' Photo floue ', 'relecteur@example.org', decidedAt);
+
+        expect(rejected).toMatchObject({
+            validationStatus: ValidationStatus.REJECTED,
+            validationComment: 'Photo floue',
+            validatedBy: 'relecteur@example.org',
+            validatedAt: '2026-09-01T08:00:00.000Z'
+        });
+        expect(matchesValidationFilter(rejected, ValidationStatus.REJECTED)).toBe(true);
+        expect(matchesValidationFilter(makeObservation(), ValidationStatus.PENDING)).toBe(true);
+
+        const withdrawn = applyValidationDecision(rejected, ValidationStatus.PENDING, '', 'relecteur@example.org');
+        expect(withdrawn.validatedBy).toBeUndefined();
+        expect(withdrawn.validatedAt).toBeUndefined();
+    });
+});
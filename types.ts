@@ -46,6 +46,67 @@ export enum Status {
     EX = 'EX'
 }
 
+// Échelles des listes rouges, de la plus large à la plus locale.
+export enum RedListScale {
+    WORLD = 'Monde',
+    EUROPE = 'Europe',
+    FRANCE = 'France',
+    REGION = 'Région'
+}
+
+export interface RedListAssessment {
+    scale: RedListScale;
+    status: Status;
+    source: string; // Autorité de la liste, ex. "UICN France"
+    year?: number;
+    region?: string; // Échelle régionale uniquement, ex. "Bourgogne-Franche-Comté"
+}
+
+// Niveau de détermination d'une observation.
+export enum IdentificationRank {
+    SPECIES = 'Espèce',
+    SUBSPECIES = 'Sous-espèce',
+    GENUS = 'Genre',
+    AGGREGATE = 'Paire / agrégat'
+}
+
+// Certitude de l'identification, déclarée par l'observateur.
+export enum IdentificationConfidence {
+    CERTAIN = 'Certaine',
+    PROBABLE = 'Probable',
+    POSSIBLE = 'Possible'
+}
+
+// Validation d'une observation par un relecteur.
+export enum ValidationStatus {
+    PENDING = 'Non validée',
+    VALIDATED = 'Validée',
+    REJECTED = 'Invalidée'
+}
+
+// Niveau de preuve de nidification donné par le code atlas.
+export enum BreedingEvidence {
+    POSSIBLE = 'Nicheur possible',
+    PROBABLE = 'Nicheur probable',
+    CERTAIN = 'Nicheur certain'
+}
+
+// Listes réglementaires (base de connaissance « statuts » de l'INPN).
+export enum RegulatoryListType {
+    PROTECTION = 'Protection',
+    HABITATS_DIRECTIVE = 'Directive Habitats',
+    BIRDS_DIRECTIVE = 'Directive Oiseaux',
+    ZNIEFF = 'Déterminante ZNIEFF'
+}
+
+export interface RegulatoryStatus {
+    type: RegulatoryListType;
+    list: string; // Intitulé de la liste, ex. "Protection nationale"
+    label: string; // Article ou annexe, ex. "Article 3", "Annexe II"
+    code?: string; // CODE_STATUT INPN, ex. "CDH2"
+    territory: string; // ex. "France métropolitaine", "Bourgogne"
+}
+
 export enum Protocol {
     OPPORTUNIST = 'Opportuniste',
     STOC_EPS = 'STOC EPS',
@@ -99,6 +160,11 @@ export enum Comportement {
     IN_TRANSIT = 'En transit'
 }
 
+// Tracé d'une observation étendue (transect, station), au format GeoJSON : coordonnées [lon, lat].
+export type ObservationGeometry =
+    | { type: 'LineString'; coordinates: [number, number][] }
+    | { type: 'Polygon'; coordinates: [number, number][][] };
+
 export interface Observation {
     id: string;
     speciesName: string;
@@ -112,6 +178,8 @@ export interface Observation {
     unidentifiedCount?: number;
     location: string;
     gps: { lat: number | null; lon: number | null };
+    gpsAccuracy?: number; // Rayon d'incertitude du point en mètres (GPS de l'appareil ou saisi)
+    geometry?: ObservationGeometry; // Ligne ou polygone ; `gps` en reste le point représentatif
     municipality: string;
     department: string;
     country: string;
@@ -127,6 +195,71 @@ export interface Observation {
     photo?: string; // URL Supabase Storage (ou base64 temporaire avant upload)
     sound?: string; // URL Supabase Storage (ou base64 temporaire avant upload)
     wikipediaImage?: string; // URL from Wikipedia
+    updatedAt?: string; // updated_at serveur (ISO), base de la détection de conflits hors-ligne
+    deletedAt?: string; // Présent uniquement pour les observations de la corbeille
+    sessionId?: string; // Sortie / relevé de rattachement
+    cdNom?: number; // TAXREF : identifiant du nom saisi
+    cdRef?: number; // TAXREF : identifiant du taxon de référence (regroupe les synonymes)
+    gbifTaxonId?: number;
+    inatTaxonId?: number;
+    redLists?: RedListAssessment[]; // Statuts par échelle ; `status` reste le statut retenu pour l'observation
+    regulatoryStatuses?: RegulatoryStatus[]; // Protection, annexes des directives, ZNIEFF applicables au lieu
+    exceptional?: boolean; // Donnée exceptionnelle confirmée par l'observateur malgré les alertes de vraisemblance
+    identificationRank?: IdentificationRank; // Absent : déduit du nom latin (« Sympetrum sp. », « Pipistrellus kuhlii/nathusii »)
+    candidateLatinNames?: string[]; // Paire / agrégat : espèces possibles, ex. ["Pipistrellus kuhlii", "Pipistrellus nathusii"]
+    confidence?: IdentificationConfidence; // Absent : non renseignée
+    validationStatus?: ValidationStatus; // Absent : non validée
+    validationComment?: string; // Commentaire du relecteur
+    validatedBy?: string; // Adresse du relecteur
+    validatedAt?: string; // ISO, date de la dernière décision
+}
+
+// Sortie / relevé : effort d'observation partagé par les observations qui y sont rattachées.
+export interface SamplingSession {
+    id: string;
+    name: string;
+    date: string; // YYYY-MM-DD
+    startTime: string; // HH:MM
+    endTime: string; // HH:MM, vide tant que la sortie est en cours
+    observers: string[];
+    weather: string;
+    protocol: Protocol;
+    location: string;
+    municipality: string;
+    department: string;
+    country: string;
+    gps: { lat: number | null; lon: number | null }; // Point du relevé
+    route: { lat: number; lon: number }[]; // Trajet parcouru, vide pour un relevé ponctuel
+    comment: string;
+    stoc?: StocSurvey; // Points d'écoute, uniquement pour le protocole STOC EPS
+    completeList?: boolean; // Liste EPOC : toutes les espèces détectées ont été notées
+    updatedAt?: string;
+}
+
+export enum StocDistanceBand {
+    UNDER_25 = '<25 m',
+    FROM_25_TO_100 = '25–100 m',
+    OVER_100 = '>100 m',
+    FLYING = 'En vol'
+}
+
+// Contacts d'une espèce sur un point, par classe de distance.
+export interface StocSpeciesCount {
+    speciesName: string;
+    latinName: string;
+    counts: Record<StocDistanceBand, number>;
+}
+
+export interface StocPoint {
+    number: number; // 1 à 10
+    startTime: string; // HH:MM
+    species: StocSpeciesCount[];
+}
+
+export interface StocSurvey {
+    square: string; // N° du carré national
+    passage: number; // 1er ou 2e passage de la saison
+    points: StocPoint[];
 }
 
 export enum View {
@@ -135,5 +268,9 @@ export enum View {
     MAP,
     STATS,
     GALLERY,
-    CALENDAR
+    CALENDAR,
+    TRASH,
+    SESSIONS,
+    QUALITY,
+    REVIEW
 }
@@ -0,0 +1,140 @@
+import { BreedingEvidence, Observation, TaxonomicGroup } from '../types';
+import { getAtlasSquareCode } from './atlasGridUtils';
+import { getObservationSpeciesKey } from './observationStatsUtils';
+
+export interface AtlasCode {
+    code: number;
+    label: string;
+    evidence: BreedingEvidence;
+}
+
+export const BREEDING_EVIDENCE_LEVELS: BreedingEvidence[] = [
+    BreedingEvidence.POSSIBLE,
+    BreedingEvidence.PROBABLE,
+    BreedingEvidence.CERTAIN
+];
+
+// Breeding codes 1 to 19 of the French bird atlases (Faune-France numbering of the EBCC criteria).
+export const ATLAS_CODES: AtlasCode[] = [
+    { code: 1, label: 'Individu observé en période de nidification', evidence: BreedingEvidence.POSSIBLE },
+    { code: 2, label: 'Présence dans son habitat durant la période de nidification', evidence: BreedingEvidence.POSSIBLE },
+    { code: 3, label: 'Mâle chanteur présent en période de nidification', evidence: BreedingEvidence.POSSIBLE },
+    { code: 4, label: 'Couple présent dans son habitat durant la période de nidification', evidence: BreedingEvidence.PROBABLE },
+    { code: 5, label: "Comportement territorial au même endroit à une semaine d'intervalle au moins", evidence: BreedingEvidence.PROBABLE },
+    { code: 6, label: 'Comportement nuptial : parades, copulation ou échange de nourriture', evidence: BreedingEvidence.PROBABLE },
+    { code: 7, label: "Visite d'un site de nidification probable", evidence: BreedingEvidence.PROBABLE },
+    { code: 8, label: "Cri d'alarme ou comportement agité suggérant un nid ou des jeunes", evidence: BreedingEvidence.PROBABLE },
+    { code: 9, label: 'Plaque incubatrice sur un oiseau en main', evidence: BreedingEvidence.PROBABLE },
+    { code: 10, label: "Transport de matériaux, construction d'un nid ou forage d'une cavité", evidence: BreedingEvidence.PROBABLE },
+    { code: 11, label: "Oiseau simulant une blessure ou détournant l'attention", evidence: BreedingEvidence.CERTAIN },
+    { code: 12, label: 'Nid vide ayant été utilisé ou coquilles de la saison', evidence: BreedingEvidence.CERTAIN },
+    { code: 13, label: 'Jeunes en duvet ou venant de quitter le nid', evidence: BreedingEvidence.CERTAIN },
+    { code: 14, label: "Adulte gagnant, occupant ou quittant le site d'un nid", evidence: BreedingEvidence.CERTAIN },
+    { code: 15, label: 'Adulte transportant des sacs fécaux', evidence: BreedingEvidence.CERTAIN },
+    { code: 16, label: 'Adulte transportant de la nourriture pour les jeunes', evidence: BreedingEvidence.CERTAIN },
+    { code: 17, label: "Coquilles d'œufs éclos", evidence: BreedingEvidence.CERTAIN },
+    { code: 18, label: 'Nid vu avec un adulte couvant', evidence: BreedingEvidence.CERTAIN },
+    { code: 19, label: 'Nid contenant des œufs ou des jeunes (vus ou entendus)', evidence: BreedingEvidence.CERTAIN }
+];
+
+const ATLAS_CODES_BY_NUMBER = new Map(ATLAS_CODES.map(entry => [entry.code, entry]));
+
+/** Known breeding code for a stored value ("3", "03"); null otherwise. */
+export const parseAtlasCode = (value: string): AtlasCode | null => {
+    const trimmed = value.trim();
+    if (!/^\d{1,2}$/.test(trimmed)) return null;
+    return ATLAS_CODES_BY_NUMBER.get(Number(trimmed)) ?? null;
+};
+
+/** Known codes without leading zeros ("03" → "3"); anything else trimmed as is. */
+export const normalizeAtlasCode = (value: string): string => {
+    const entry = parseAtlasCode(value);
+    return entry ? String(entry.code) : value.trim();
+};
+
+export const formatAtlasCode = (entry: AtlasCode): string => `${entry.code} – ${entry.label}`;
+
+/** Error message for a code that cannot be recorded on this observation, null when it can. */
+export const findAtlasCodeError = (atlasCode: string, taxonomicGroup: TaxonomicGroup): string | null => {
+    if (!atlasCode.trim()) return null;
+    if (taxonomicGroup !== TaxonomicGroup.BIRD) return 'Le code atlas est réservé aux oiseaux.';
+    if (!parseAtlasCode(atlasCode)) return 'Code atlas inconnu : choisissez un code de 1 à 19.';
+    return null;
+};
+
+// Stronger evidence first, then the higher code within a level.
+const compareAtlasCodes = (a: AtlasCode, b: AtlasCode): number => {
+    return BREEDING_EVIDENCE_LEVELS.indexOf(b.evidence) - BREEDING_EVIDENCE_LEVELS.indexOf(a.evidence) || b.code - a.code;
+};
+
+export interface SpeciesBreedingEvidence {
+    name: string;
+    latinName: string;
+    // Highest code recorded for the species.
+    atlasCode: AtlasCode;
+    squareCount: number;
+}
+
+export interface SquareBreedingEvidence {
+    squareCode: string;
+    // Species of the square, each with its highest code there.
+    species: SpeciesBreedingEvidence[];
+    counts: Record<BreedingEvidence, number>;
+}
+
+export interface BreedingAtlas {
+    species: SpeciesBreedingEvidence[];
+    squares: SquareBreedingEvidence[];
+}
+
+type BreedingRecord = { name: string; latinName: string; atlasCode: AtlasCode; squares: Set<string> };
+
+const keepHighest = (records: Map<string, BreedingRecord>, key: string, obs: Observation, atlasCode: AtlasCode, squareCode: string | null) => {
+    const record = records.get(key);
+    if (!record) {
+        records.set(key, { name: obs.speciesName, latinName: obs.latinName, atlasCode, squares: new Set(squareCode ? [squareCode] : []) });
+        return;
+    }
+    if (compareAtlasCodes(atlasCode, record.atlasCode) < 0) record.atlasCode = atlasCode;
+    if (squareCode) record.squares.add(squareCode);
+};
+
+const toSpeciesList = (records: Map<string, BreedingRecord>): SpeciesBreedingEvidence[] => {
+    return Array.from(records.values())
+        .map(({ name, latinName, atlasCode, squares }) => ({ name, latinName, atlasCode, squareCount: squares.size }))
+        .sort((a, b) => compareAtlasCodes(a.atlasCode, b.atlasCode) || a.name.localeCompare(b.name, 'fr'));
+};
+
+/**
+ * Highest breeding evidence of each bird species, over the whole notebook and
+ * per 10 km atlas square. Observations without a known code are left out.
+ */
+export const buildBreedingAtlas = (observations: Observation[]): BreedingAtlas => {
+    const bySpecies = new Map<string, BreedingRecord>();
+    const bySquare = new Map<string, Map<string, BreedingRecord>>();
+
+    observations.forEach(obs => {
+        if (obs.deletedAt || obs.taxonomicGroup !== TaxonomicGroup.BIRD) return;
+        const atlasCode = parseAtlasCode(obs.atlasCode);
+        if (!atlasCode) return;
+        const speciesKey = getObservationSpeciesKey(obs);
+        const squareCode = getAtlasSquareCode(obs.gps);
+
+        keepHighest(bySpecies, speciesKey, obs, atlasCode, squareCode);
+        if (!squareCode) return;
+        const squareSpecies = bySquare.get(squareCode) ?? new Map<string, BreedingRecord>();
+        keepHighest(squareSpecies, speciesKey, obs, atlasCode, squareCode);
+        bySquare.set(squareCode, squareSpecies);
+    });
+
+    const squares = Array.from(bySquare.entries())
+        .map(([squareCode, records]) => {
+            const species = toSpeciesList(records);
+            const counts = Object.fromEntries(BREEDING_EVIDENCE_LEVELS.map(level => [level, 0])) as Record<BreedingEvidence, number>;
+            species.forEach(entry => { counts[entry.atlasCode.evidence] += 1; });
+            return { squareCode, species, counts };
+        })
+        .sort((a, b) => a.squareCode.localeCompare(b.squareCode));
+
+    return { species: toSpeciesList(bySpecies), squares };
+};
@@ -0,0 +1,88 @@
+import { Observation } from '../types';
+import { LatLon, fromLambert93, toLambert93 } from './geoUtils';
+import { getCountedSpeciesKeys } from './observationStatsUtils';
+
+export type AtlasGridSize = 10 | 5 | 1;
+
+export const ATLAS_GRID_SIZES: AtlasGridSize[] = [10, 5, 1];
+
+// 'all' or an INPN square code.
+export type AtlasSquareFilter = string;
+
+// Metropolitan France with Corsica, where the Lambert-93 grid applies.
+const L93_BOUNDS = { minLat: 41, maxLat: 51.5, minLon: -5.5, maxLon: 10 };
+
+// INPN codes count 10 km squares in tens of kilometres, 5 and 1 km squares in kilometres.
+const CODE_UNIT_M: Record<AtlasGridSize, number> = { 10: 10000, 5: 1000, 1: 1000 };
+const CODE_DIGITS: Record<AtlasGridSize, number> = { 10: 3, 5: 4, 1: 4 };
+const SQUARE_CODE_PATTERN = /^(10|5|1)kmL93E(\d{3,4})N(\d{3,4})$/;
+
+/**
+ * Lambert-93 square of the observation point, in the INPN grid code form
+ * ("10kmL93E065N686", "1kmL93E0652N6861"). Null without a point or outside France.
+ */
+export const getAtlasSquareCode = (gps: Observation['gps'], sizeKm: AtlasGridSize = 10): string | null => {
+    const { lat, lon } = gps;
+    if (lat === null || lon === null) return null;
+    if (lat < L93_BOUNDS.minLat || lat > L93_BOUNDS.maxLat || lon < L93_BOUNDS.minLon || lon > L93_BOUNDS.maxLon) return null;
+    const { x, y } = toLambert93({ lat, lon });
+    const sizeM = sizeKm * 1000;
+    const toCode = (value: number) => String((Math.floor(value / sizeM) * sizeM) / CODE_UNIT_M[sizeKm]).padStart(CODE_DIGITS[sizeKm], '0');
+    return `${sizeKm}kmL93E${toCode(x)}N${toCode(y)}`;
+};
+
+/** Size and south-west corner (Lambert-93 metres) of a square code; null if malformed. */
+export const parseAtlasSquareCode = (code: string): { sizeKm: AtlasGridSize; x: number; y: number } | null => {
+    const match = code.match(SQUARE_CODE_PATTERN);
+    if (!match) return null;
+    const sizeKm = Number(match[1]) as AtlasGridSize;
+    if (match[2].length !== CODE_DIGITS[sizeKm] || match[3].length !== CODE_DIGITS[sizeKm]) return null;
+    return { sizeKm, x: Number(match[2]) * CODE_UNIT_M[sizeKm], y: Number(match[3]) * CODE_UNIT_M[sizeKm] };
+};
+
+/** Corners of the square in latitude / longitude, for drawing it on a map. */
+export const getAtlasSquareCorners = (code: string): LatLon[] | null => {
+    const square = parseAtlasSquareCode(code);
+    if (!square) return null;
+    const sizeM = square.sizeKm * 1000;
+    return [
+        { x: square.x, y: square.y },
+        { x: square.x + sizeM, y: square.y },
+        { x: square.x + sizeM, y: square.y + sizeM },
+        { x: square.x, y: square.y + sizeM }
+    ].map(fromLambert93);
+};
+
+export const matchesAtlasSquareFilter = (obs: Pick<Observation, 'gps'>, filter: AtlasSquareFilter): boolean => {
+    if (filter === 'all') return true;
+    const square = parseAtlasSquareCode(filter);
+    return !!square && getAtlasSquareCode(obs.gps, square.sizeKm) === filter;
+};
+
+export interface AtlasSquareSummary {
+    squareCode: string;
+    observations: number;
+    // Species without double counting genus- or aggregate-level records.
+    speciesCount: number;
+}
+
+/** Observations and species of each square holding at least one observation, richest first. */
+export const buildAtlasSquareSummaries = (observations: Observation[], sizeKm: AtlasGridSize = 10): AtlasSquareSummary[] => {
+    const bySquare = new Map<string, Observation[]>();
+    observations.forEach(obs => {
+        if (obs.deletedAt) return;
+        const squareCode = getAtlasSquareCode(obs.gps, sizeKm);
+        if (!squareCode) return;
+        const records = bySquare.get(squareCode) ?? [];
+        records.push(obs);
+        bySquare.set(squareCode, records);
+    });
+
+    return Array.from(bySquare.entries())
+        .map(([squareCode, records]) => ({
+            squareCode,
+            observations: records.length,
+            speciesCount: getCountedSpeciesKeys(records).size
+        }))
+        .sort((a, b) => b.speciesCount - a.speciesCount || b.observations - a.observations || a.squareCode.localeCompare(b.squareCode));
+};
@@ -0,0 +1,64 @@
+// Tab, then semicolon, then comma: the first one found in the header line outside quotes.
+const detectDelimiter = (text: string): string => {
+    let header = '';
+    let inQuotes = false;
+    for (const char of text) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && (char === '\n' || char === '\r')) break;
+        else if (!inQuotes) header += char;
+    }
+    if (header.includes('\t')) return '\t';
+    if (header.includes(';')) return ';';
+    return ',';
+};
+
+/**
+ * Splits a delimited text export (INPN, TAXREF) into rows of trimmed cells.
+ * Quoted cells may hold the delimiter, line breaks and doubled quotes, as in
+ * `"Linnaeus, 1758"`. Blank lines are dropped.
+ */
+export const parseDelimitedText = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endCell = () => {
+        row.push(cell.trim());
+        cell = '';
+    };
+    const endRow = () => {
+        endCell();
+        if (row.some(value => value.length > 0)) rows.push(row);
+        row = [];
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char !== '"') cell += char;
+            else if (source[i + 1] === '"') cell += source[++i];
+            else inQuotes = false;
+        } else if (char === '"' && cell.trim() === '') {
+            // A quote only opens a quoted cell at its start; elsewhere it is text.
+            cell = '';
+            inQuotes = true;
+        } else if (char === delimiter) {
+            endCell();
+        } else if (char === '\n') {
+            endRow();
+        } else if (char !== '\r') {
+            cell += char;
+        }
+    }
+    if (cell.length > 0 || row.length > 0) endRow();
+    return rows;
+};
+
+/** Positive integer identifier (CD_NOM, CD_REF); undefined when missing or invalid. */
+export const parseCsvId = (value: string | undefined): number | undefined => {
+    const parsed = Number.parseInt((value ?? '').trim(), 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
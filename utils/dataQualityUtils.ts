@@ -0,0 +1,126 @@
+import { Observation, RedListScale, Status, TaxonomicGroup } from '../types';
+import { getRedListAssessment } from './redListUtils';
+
+export type DataQualityIssueType = 'taxonomicGroup' | 'latinName' | 'status' | 'department' | 'countBreakdown';
+
+export const DATA_QUALITY_ISSUE_LABELS: Record<DataQualityIssueType, string> = {
+    taxonomicGroup: 'Groupe taxonomique',
+    latinName: 'Nom latin manquant',
+    status: 'Statut inconnu',
+    department: 'GPS hors du département',
+    countBreakdown: 'Détail des effectifs'
+};
+
+export const DATA_QUALITY_ISSUE_TYPES: DataQualityIssueType[] = ['taxonomicGroup', 'latinName', 'status', 'department', 'countBreakdown'];
+
+export interface DataQualityFix {
+    label: string;
+    patch: Partial<Observation>;
+}
+
+export interface DataQualityIssue {
+    type: DataQualityIssueType;
+    observationId: string;
+    message: string;
+    // Absent when the observation has to be corrected by hand.
+    fix?: DataQualityFix;
+}
+
+// Labels written by earlier versions (see supabase_migration_phase5_neuroptera.sql).
+const LEGACY_TAXONOMIC_GROUPS: Record<string, TaxonomicGroup> = {
+    'Nervoptère': TaxonomicGroup.NEUROPTERA
+};
+
+const TAXONOMIC_GROUPS = new Set<string>(Object.values(TaxonomicGroup));
+const STATUSES = new Set<string>(Object.values(Status));
+
+export const isKnownTaxonomicGroup = (group: string): group is TaxonomicGroup => TAXONOMIC_GROUPS.has(group);
+
+export const getDataQualityIssueKey = (issue: Pick<DataQualityIssue, 'type' | 'observationId'>): string => {
+    return `${issue.type}:${issue.observationId}`;
+};
+
+const checkTaxonomicGroupLabel = (obs: Observation): DataQualityIssue | null => {
+    if (isKnownTaxonomicGroup(obs.taxonomicGroup)) return null;
+    const replacement = LEGACY_TAXONOMIC_GROUPS[obs.taxonomicGroup];
+    return {
+        type: 'taxonomicGroup',
+        observationId: obs.id,
+        message: `Groupe « ${obs.taxonomicGroup || 'vide'} » inconnu de l'application.`,
+        ...(replacement ? { fix: { label: `Remplacer par ${replacement}`, patch: { taxonomicGroup: replacement } } } : {})
+    };
+};
+
+const checkLatinName = (obs: Observation): DataQualityIssue | null => {
+    if (obs.latinName?.trim()) return null;
+    return {
+        type: 'latinName',
+        observationId: obs.id,
+        message: `Aucun nom latin pour « ${obs.speciesName} ».`
+    };
+};
+
+// Unknown: a value outside the IUCN categories, or NE while a red list evaluates the species.
+const checkStatus = (obs: Observation): DataQualityIssue | null => {
+    const assessment = getRedListAssessment(obs, RedListScale.FRANCE) ?? getRedListAssessment(obs, RedListScale.WORLD);
+    const listed = assessment && assessment.status !== Status.NE ? assessment.status : undefined;
+    if (!STATUSES.has(obs.status)) {
+        const status = listed ?? Status.NE;
+        return {
+            type: 'status',
+            observationId: obs.id,
+            message: `Statut « ${obs.status || 'vide'} » hors des catégories UICN.`,
+            fix: { label: `Statut ${status}`, patch: { status } }
+        };
+    }
+    if (obs.status === Status.NE && listed) {
+        return {
+            type: 'status',
+            observationId: obs.id,
+            message: `Statut NE alors que la liste rouge ${assessment!.scale} indique ${listed}.`,
+            fix: { label: `Statut ${listed}`, patch: { status: listed } }
+        };
+    }
+    return null;
+};
+
+const checkCountBreakdown = (obs: Observation): DataQualityIssue | null => {
+    const parts = [obs.maleCount, obs.femaleCount, obs.unidentifiedCount];
+    if (parts.every(part => part === undefined || part === null)) return null;
+    const sum = parts.reduce<number>((total, part) => total + (part ?? 0), 0);
+    if (sum === obs.count) return null;
+    return {
+        type: 'countBreakdown',
+        observationId: obs.id,
+        message: `${obs.maleCount ?? 0} mâle(s) + ${obs.femaleCount ?? 0} femelle(s) + ${obs.unidentifiedCount ?? 0} non identifié(s) = ${sum}, pour un total de ${obs.count}.`,
+        fix: sum >= 1
+            ? { label: `Total à ${sum}`, patch: { count: sum } }
+            : { label: 'Effacer le détail', patch: { maleCount: undefined, femaleCount: undefined, unidentifiedCount: undefined } }
+    };
+};
+
+/**
+ * Issues found from the observations alone. The checks that need a taxon
+ * reference or the geography (group, latin name, department) are completed by
+ * dataQualityService.
+ */
+export const findDataQualityIssues = (observations: Observation[]): DataQualityIssue[] => {
+    const checks = [checkTaxonomicGroupLabel, checkLatinName, checkStatus, checkCountBreakdown];
+    return observations.flatMap(obs => checks
+        .map(check => check(obs))
+        .filter((issue): issue is DataQualityIssue => issue !== null));
+};
+
+/** Local and reference issues, one per observation and type; the reference one wins. */
+export const mergeDataQualityIssues = (local: DataQualityIssue[], reference: DataQualityIssue[]): DataQualityIssue[] => {
+    const merged = new Map(local.map(issue => [getDataQualityIssueKey(issue), issue]));
+    reference.forEach(issue => merged.set(getDataQualityIssueKey(issue), issue));
+    return Array.from(merged.values());
+};
+
+export const applyDataQualityFix = (obs: Observation, fix: DataQualityFix): Observation => ({ ...obs, ...fix.patch });
+
+/** True once the observation already holds the values of the fix. */
+export const isDataQualityFixApplied = (obs: Observation, fix: DataQualityFix): boolean => {
+    return Object.entries(fix.patch).every(([key, value]) => obs[key as keyof Observation] === value);
+};
@@ -0,0 +1,59 @@
+export interface LatLon {
+    lat: number;
+    lon: number;
+}
+
+/** Great-circle distance in kilometres. */
+export const distanceKm = (a: LatLon, b: LatLon): number => {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLon = toRad(b.lon - a.lon);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
+export interface ProjectedPoint {
+    x: number;
+    y: number;
+}
+
+// Lambert-93 (RGF93, GRS80 ellipsoid), constants published by the IGN.
+const L93_E = 0.0818191910428158;
+const L93_N = 0.725607765053267;
+const L93_C = 11754255.426096;
+const L93_XS = 700000;
+const L93_YS = 12655612.049876;
+const L93_LON0 = 3;
+
+/** Lambert-93 coordinates in metres, meaningful for metropolitan France only. */
+export const toLambert93 = ({ lat, lon }: LatLon): ProjectedPoint => {
+    const phi = (lat * Math.PI) / 180;
+    const sinPhi = Math.sin(phi);
+    const isometricLatitude = Math.log(Math.tan(Math.PI / 4 + phi / 2) * ((1 - L93_E * sinPhi) / (1 + L93_E * sinPhi)) ** (L93_E / 2));
+    const radius = L93_C * Math.exp(-L93_N * isometricLatitude);
+    const gamma = L93_N * (((lon - L93_LON0) * Math.PI) / 180);
+    return {
+        x: L93_XS + radius * Math.sin(gamma),
+        y: L93_YS - radius * Math.cos(gamma)
+    };
+};
+
+/** Inverse of toLambert93. */
+export const fromLambert93 = ({ x, y }: ProjectedPoint): LatLon => {
+    const dx = x - L93_XS;
+    const dy = L93_YS - y;
+    const radius = Math.hypot(dx, dy);
+    const gamma = Math.atan2(dx, dy);
+    const isometricLatitude = -Math.log(radius / L93_C) / L93_N;
+
+    // The latitude has no closed form; a few fixed-point steps reach millimetre precision.
+    let phi = 2 * Math.atan(Math.exp(isometricLatitude)) - Math.PI / 2;
+    for (let i = 0; i < 8; i++) {
+        const eSinPhi = L93_E * Math.sin(phi);
+        phi = 2 * Math.atan(((1 + eSinPhi) / (1 - eSinPhi)) ** (L93_E / 2) * Math.exp(isometricLatitude)) - Math.PI / 2;
+    }
+    return {
+        lat: (phi * 180) / Math.PI,
+        lon: L93_LON0 + ((gamma / L93_N) * 180) / Math.PI
+    };
+};
@@ -0,0 +1,151 @@
+import { Observation, ObservationGeometry } from '../types';
+import { LatLon, distanceKm } from './geoUtils';
+
+export type GeometryKind = 'Point' | ObservationGeometry['type'];
+
+export const GEOMETRY_KIND_LABELS: Record<GeometryKind, string> = {
+    Point: 'Point',
+    LineString: 'Ligne',
+    Polygon: 'Polygone'
+};
+
+// Fewest vertices for a meaningful shape.
+const MIN_VERTICES: Record<ObservationGeometry['type'], number> = { LineString: 2, Polygon: 3 };
+
+export const getGeometryKind = (obs: Pick<Observation, 'geometry'>): GeometryKind => obs.geometry?.type ?? 'Point';
+
+/** Vertices in drawing order; a polygon ring is returned without its closing vertex. */
+export const getGeometryVertices = (geometry: ObservationGeometry): LatLon[] => {
+    const positions = geometry.type === 'LineString' ? geometry.coordinates : geometry.coordinates[0].slice(0, -1);
+    return positions.map(([lon, lat]) => ({ lat, lon }));
+};
+
+/** Line or polygon from drawn vertices; undefined until there are enough of them. */
+export const buildGeometry = (type: ObservationGeometry['type'], vertices: LatLon[]): ObservationGeometry | undefined => {
+    if (vertices.length < MIN_VERTICES[type]) return undefined;
+    const positions = vertices.map(({ lat, lon }) => [lon, lat] as [number, number]);
+    if (type === 'LineString') return { type, coordinates: positions };
+    return { type, coordinates: [[...positions, positions[0]]] };
+};
+
+const isPosition = (value: unknown): value is [number, number] => {
+    return Array.isArray(value)
+        && value.length >= 2
+        && typeof value[0] === 'number' && Number.isFinite(value[0]) && Math.abs(value[0]) <= 180
+        && typeof value[1] === 'number' && Number.isFinite(value[1]) && Math.abs(value[1]) <= 90;
+};
+
+const toVertices = (positions: unknown): LatLon[] | null => {
+    if (!Array.isArray(positions) || !positions.every(isPosition)) return null;
+    return positions.map(([lon, lat]) => ({ lat, lon }));
+};
+
+/**
+ * Geometry read from storage or an import: a GeoJSON LineString, or a Polygon
+ * whose outer ring is kept (holes are dropped). Undefined when unusable.
+ */
+export const sanitizeGeometry = (value: unknown): ObservationGeometry | undefined => {
+    if (!value || typeof value !== 'object') return undefined;
+    const { type, coordinates } = value as { type?: unknown; coordinates?: unknown };
+    if (type === 'LineString') {
+        const vertices = toVertices(coordinates);
+        return vertices ? buildGeometry('LineString', vertices) : undefined;
+    }
+    if (type === 'Polygon' && Array.isArray(coordinates)) {
+        const ring = toVertices(coordinates[0]);
+        if (!ring) return undefined;
+        const first = ring[0];
+        const last = ring[ring.length - 1];
+        const isClosed = ring.length > 1 && first.lat === last.lat && first.lon === last.lon;
+        return buildGeometry('Polygon', isClosed ? ring.slice(0, -1) : ring);
+    }
+    return undefined;
+};
+
+/** Accuracy radius in metres; undefined for missing, negative or non numeric values. */
+export const sanitizeGpsAccuracy = (value: unknown): number | undefined => {
+    const numeric = typeof value === 'string' && value.trim() ? Number(value.replace(',', '.')) : value;
+    if (typeof numeric !== 'number' || !Number.isFinite(numeric) || numeric <= 0) return undefined;
+    return Math.round(numeric * 10) / 10;
+};
+
+export const getLineLengthM = (vertices: LatLon[]): number => {
+    let length = 0;
+    for (let i = 1; i < vertices.length; i++) {
+        length += distanceKm(vertices[i - 1], vertices[i]) * 1000;
+    }
+    return length;
+};
+
+// Local equirectangular projection around the first vertex: accurate enough at station scale.
+export const getPolygonAreaM2 = (vertices: LatLon[]): number => {
+    if (vertices.length < 3) return 0;
+    const origin = vertices[0];
+    const metresPerDegree = 111320;
+    const cosLat = Math.cos((origin.lat * Math.PI) / 180);
+    const points = vertices.map(({ lat, lon }) => ({
+        x: (lon - origin.lon) * metresPerDegree * cosLat,
+        y: (lat - origin.lat) * metresPerDegree
+    }));
+    let twiceArea = 0;
+    points.forEach((point, index) => {
+        const next = points[(index + 1) % points.length];
+        twiceArea += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(twiceArea) / 2;
+};
+
+/** Representative point stored in `gps`: halfway along a line, the vertex centroid of a polygon. */
+export const getGeometryAnchor = (geometry: ObservationGeometry): LatLon => {
+    const vertices = getGeometryVertices(geometry);
+    if (geometry.type === 'Polygon') {
+        return {
+            lat: vertices.reduce((sum, vertex) => sum + vertex.lat, 0) / vertices.length,
+            lon: vertices.reduce((sum, vertex) => sum + vertex.lon, 0) / vertices.length
+        };
+    }
+
+    let remaining = getLineLengthM(vertices) / 2;
+    for (let i = 1; i < vertices.length; i++) {
+        const segment = distanceKm(vertices[i - 1], vertices[i]) * 1000;
+        if (segment >= remaining && segment > 0) {
+            const ratio = remaining / segment;
+            return {
+                lat: vertices[i - 1].lat + (vertices[i].lat - vertices[i - 1].lat) * ratio,
+                lon: vertices[i - 1].lon + (vertices[i].lon - vertices[i - 1].lon) * ratio
+            };
+        }
+        remaining -= segment;
+    }
+    return vertices[0];
+};
+
+/** "Ligne de 350 m", "Polygone de 1,2 ha". */
+export const formatGeometrySummary = (geometry: ObservationGeometry): string => {
+    const vertices = getGeometryVertices(geometry);
+    if (geometry.type === 'LineString') {
+        const length = getLineLengthM(vertices);
+        return `Ligne de ${length >= 1000 ? `${(length / 1000).toFixed(1).replace('.', ',')} km` : `${Math.round(length)} m`}`;
+    }
+    const area = getPolygonAreaM2(vertices);
+    return `Polygone de ${area >= 10000 ? `${(area / 10000).toFixed(1).replace('.', ',')} ha` : `${Math.round(area)} m²`}`;
+};
+
+const formatWktPositions = (positions: [number, number][]): string => positions.map(([lon, lat]) => `${lon} ${lat}`).join(', ');
+
+/** WKT of the drawn shape, or of the point; empty without any location. */
+export const toWkt = (obs: Pick<Observation, 'gps' | 'geometry'>): string => {
+    if (obs.geometry?.type === 'LineString') return `LINESTRING(${formatWktPositions(obs.geometry.coordinates)})`;
+    if (obs.geometry?.type === 'Polygon') return `POLYGON((${formatWktPositions(obs.geometry.coordinates[0])}))`;
+    if (obs.gps.lat === null || obs.gps.lon === null) return '';
+    return `POINT(${obs.gps.lon} ${obs.gps.lat})`;
+};
+
+export type GeoJsonGeometry = ObservationGeometry | { type: 'Point'; coordinates: [number, number] };
+
+/** GeoJSON geometry of the drawn shape, or of the point; null without any location. */
+export const toGeoJsonGeometry = (obs: Pick<Observation, 'gps' | 'geometry'>): GeoJsonGeometry | null => {
+    if (obs.geometry) return obs.geometry;
+    if (obs.gps.lat === null || obs.gps.lon === null) return null;
+    return { type: 'Point', coordinates: [obs.gps.lon, obs.gps.lat] };
+};
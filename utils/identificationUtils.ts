@@ -0,0 +1,75 @@
+import { IdentificationRank, Observation } from '../types';
+import { normalizeSearchText } from './textUtils';
+
+export interface ParsedIdentification {
+    rank: IdentificationRank;
+    genus: string;
+    // Aggregate members as binomials, when the name lists them.
+    candidates?: string[];
+}
+
+export const IDENTIFICATION_RANKS: IdentificationRank[] = [
+    IdentificationRank.SPECIES,
+    IdentificationRank.SUBSPECIES,
+    IdentificationRank.GENUS,
+    IdentificationRank.AGGREGATE
+];
+
+const GENUS_PATTERN = /^([A-Z][a-z]+(?:-[a-z]+)?)\s+spp?\.?$/;
+const AGGREGATE_PATTERN = /^([A-Z][a-z]+(?:-[a-z]+)?)\s.*\s(?:agg|aggr)\.?$/;
+const SUBSPECIES_PATTERN = /^[A-Z][a-z]+(?:-[a-z]+)?\s+[a-z-]+\s+(?:(?:subsp|ssp|var)\.\s+)?[a-z-]+$/;
+
+const cleanName = (value: string): string => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Rank written in a latin name: "Sympetrum sp." (genus), "Pipistrellus
+ * kuhlii/nathusii" or "Rubus fruticosus agg." (aggregate), three words
+ * (subspecies). Null for an empty name.
+ */
+export const parseIdentification = (latinName: string): ParsedIdentification | null => {
+    const name = cleanName(latinName);
+    if (!name) return null;
+    const genus = name.split(' ')[0];
+
+    const genusMatch = name.match(GENUS_PATTERN);
+    if (genusMatch) return { rank: IdentificationRank.GENUS, genus: genusMatch[1] };
+
+    if (name.includes('/')) {
+        // "Genus a/b" and "Genus a / Genus b" both list binomials.
+        const [first, ...others] = name.split('/').map(cleanName).filter(Boolean);
+        const candidates = [first, ...others.map(other => (other.includes(' ') ? other : `${genus} ${other}`))];
+        return { rank: IdentificationRank.AGGREGATE, genus, candidates };
+    }
+
+    const aggregateMatch = name.match(AGGREGATE_PATTERN);
+    if (aggregateMatch) return { rank: IdentificationRank.AGGREGATE, genus: aggregateMatch[1] };
+
+    if (SUBSPECIES_PATTERN.test(name)) return { rank: IdentificationRank.SUBSPECIES, genus };
+    return { rank: IdentificationRank.SPECIES, genus };
+};
+
+/** Recorded rank, or the one written in the latin name for older records. */
+export const getIdentificationRank = (obs: Pick<Observation, 'identificationRank' | 'latinName'>): IdentificationRank => {
+    return obs.identificationRank ?? parseIdentification(obs.latinName ?? '')?.rank ?? IdentificationRank.SPECIES;
+};
+
+/** Aggregate members, recorded or read from the latin name. */
+export const getCandidateLatinNames = (obs: Pick<Observation, 'candidateLatinNames' | 'latinName'>): string[] => {
+    if (obs.candidateLatinNames?.length) return obs.candidateLatinNames;
+    return parseIdentification(obs.latinName ?? '')?.candidates ?? [];
+};
+
+/** Form input, "Pipistrellus kuhlii / nathusii" or comma separated, → binomials. */
+export const parseCandidateLatinNames = (value: string): string[] => {
+    if (value.includes('/')) return parseIdentification(value)?.candidates ?? [];
+    return value.split(/[,;]/).map(cleanName).filter(Boolean);
+};
+
+// Genus and species epithet, normalized; subspecies collapse onto their species.
+export const getBinomialKey = (latinName: string): string => {
+    return normalizeSearchText(cleanName(latinName).split(' ').slice(0, 2).join(' '));
+};
+
+export const getGenusKey = (latinName: string): string => {
+    return normalizeSearchText(cleanName(latinName).split(' ')[0] ?? '');
+};
@@ -0,0 +1,118 @@
+import { Observation } from '../types';
+import { getValidationStatus } from './validationUtils';
+import { toWkt } from './geometryUtils';
+import { formatRedListAssessment } from './redListUtils';
+import { formatRegulatoryStatus } from './regulatoryStatusUtils';
+
+export type ObservationDiffField = Exclude<keyof Observation, 'id' | 'updatedAt' | 'deletedAt'>;
+
+export type ConflictSide = 'local' | 'remote';
+
+export interface ObservationFieldDiff {
+    field: ObservationDiffField;
+    label: string;
+    local: string;
+    remote: string;
+}
+
+export const OBSERVATION_DIFF_FIELDS: { field: ObservationDiffField; label: string }[] = [
+    { field: 'speciesName', label: "Nom de l'espèce" },
+    { field: 'latinName', label: 'Nom latin' },
+    { field: 'taxonomicGroup', label: 'Groupe taxonomique' },
+    { field: 'date', label: 'Date' },
+    { field: 'time', label: 'Heure' },
+    { field: 'count', label: 'Nombre' },
+    { field: 'maleCount', label: 'Mâles' },
+    { field: 'femaleCount', label: 'Femelles' },
+    { field: 'unidentifiedCount', label: 'Non identifiés' },
+    { field: 'location', label: 'Lieu-dit' },
+    { field: 'gps', label: 'GPS' },
+    { field: 'gpsAccuracy', label: 'Précision GPS' },
+    { field: 'geometry', label: 'Tracé' },
+    { field: 'municipality', label: 'Commune' },
+    { field: 'department', label: 'Département' },
+    { field: 'country', label: 'Pays' },
+    { field: 'altitude', label: 'Altitude' },
+    { field: 'status', label: 'Statut' },
+    { field: 'atlasCode', label: 'Code Atlas' },
+    { field: 'protocol', label: 'Protocole' },
+    { field: 'sexe', label: 'Sexe' },
+    { field: 'age', label: 'Age' },
+    { field: 'observationCondition', label: "Condition d'observation" },
+    { field: 'comportement', label: 'Comportement' },
+    { field: 'comment', label: 'Commentaire' },
+    { field: 'photo', label: 'Photo' },
+    { field: 'sound', label: 'Son' },
+    { field: 'wikipediaImage', label: 'Image Wikipédia' },
+    { field: 'sessionId', label: 'Sortie' },
+    { field: 'cdNom', label: 'TAXREF cdNom' },
+    { field: 'cdRef', label: 'TAXREF cdRef' },
+    { field: 'gbifTaxonId', label: 'Taxon GBIF' },
+    { field: 'inatTaxonId', label: 'Taxon iNaturalist' },
+    { field: 'redLists', label: 'Listes rouges' },
+    { field: 'regulatoryStatuses', label: 'Statuts réglementaires' },
+    { field: 'exceptional', label: 'Donnée exceptionnelle' },
+    { field: 'identificationRank', label: "Rang d'identification" },
+    { field: 'candidateLatinNames', label: 'Espèces candidates' },
+    { field: 'confidence', label: 'Certitude' },
+    { field: 'validationStatus', label: 'Validation' },
+    { field: 'validationComment', label: 'Commentaire de validation' },
+    { field: 'validatedBy', label: 'Validée par' },
+    { field: 'validatedAt', label: 'Date de validation' }
+];
+
+// The reviewer's decision is made on the server: unless told otherwise, a
+// conflicting offline edit keeps it rather than reverting it.
+const REVIEW_FIELDS = new Set<ObservationDiffField>(['validationStatus', 'validationComment', 'validatedBy', 'validatedAt']);
+
+export const getDefaultConflictSide = (field: ObservationDiffField): ConflictSide => (REVIEW_FIELDS.has(field) ? 'remote' : 'local');
+
+const formatDiffValue = (observation: Observation, field: ObservationDiffField): string => {
+    if (field === 'gps') {
+        const { lat, lon } = observation.gps ?? { lat: null, lon: null };
+        return lat === null || lon === null ? '' : `${lat}, ${lon}`;
+    }
+    if (field === 'validationStatus') return getValidationStatus(observation);
+    // WKT rather than a summary, so that a reshaped line of the same length still differs.
+    if (field === 'geometry') return observation.geometry ? toWkt(observation) : '';
+    if (field === 'redLists') return (observation.redLists ?? []).map(formatRedListAssessment).join(', ');
+    if (field === 'regulatoryStatuses') return (observation.regulatoryStatuses ?? []).map(formatRegulatoryStatus).join(', ');
+    if (field === 'candidateLatinNames') return (observation.candidateLatinNames ?? []).join(' / ');
+    if (field === 'exceptional') return observation.exceptional ? 'Oui' : 'Non';
+    const value = observation[field];
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ');
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Lists the fields whose displayed value differs between the local (queued)
+ * version of an observation and the version currently stored on the server.
+ */
+export const diffObservations = (local: Observation, remote: Observation): ObservationFieldDiff[] => {
+    return OBSERVATION_DIFF_FIELDS
+        .map(({ field, label }) => ({
+            field,
+            label,
+            local: formatDiffValue(local, field),
+            remote: formatDiffValue(remote, field)
+        }))
+        .filter(diff => diff.local !== diff.remote);
+};
+
+/**
+ * Builds the resolved observation from a per-field choice. Fields without an
+ * explicit choice take their default side (see getDefaultConflictSide).
+ */
+export const mergeObservationVersions = (
+    local: Observation,
+    remote: Observation,
+    choices: Partial<Record<ObservationDiffField, ConflictSide>>
+): Observation => {
+    const merged: Observation = { ...local, gps: { ...local.gps } };
+    for (const { field } of OBSERVATION_DIFF_FIELDS) {
+        if ((choices[field] ?? getDefaultConflictSide(field)) !== 'remote') continue;
+        (merged as unknown as Record<string, unknown>)[field] = field === 'gps' ? { ...remote.gps } : remote[field];
+    }
+    return { ...merged, id: remote.id, updatedAt: remote.updatedAt };
+};
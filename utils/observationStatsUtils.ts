@@ -1,5 +1,6 @@
 import { TAXON_LOGOS } from '../constants';
-import { Observation, TaxonomicGroup } from '../types';
+import { IdentificationRank, Observation, SamplingSession, TaxonomicGroup } from '../types';
+import { getBinomialKey, getCandidateLatinNames, getGenusKey, getIdentificationRank } from './identificationUtils';
 import { normalizeSearchText } from './textUtils';
 
 export interface TaxonSpeciesCard {
@@ -8,24 +9,95 @@ export interface TaxonSpeciesCard {
     speciesCount: number;
 }
 
-const getObservationSpeciesKey = (observation: Observation): string => {
+export interface ChecklistSummary {
+    session: SamplingSession;
+    speciesCount: number;
+    individuals: number;
+}
+
+export interface SpeciesReportingRate {
+    speciesName: string;
+    detections: number;
+    absences: number;
+    rate: number; // Share of the complete lists where the species was detected
+}
+
+export interface ChecklistStats {
+    lists: ChecklistSummary[];
+    completeLists: number;
+    averageSpeciesPerCompleteList: number;
+    reportingRates: SpeciesReportingRate[];
+}
+
+// Synonyms and renamed taxa share their TAXREF cdRef and count as one species.
+export const getObservationSpeciesKey = (observation: Observation): string => {
+    if (observation.cdRef) return `cdref:${observation.cdRef}`;
     const rawSpeciesName = observation.speciesName || observation.latinName || '';
     return normalizeSearchText(rawSpeciesName);
 };
 
+/**
+ * Keys of the species the observations account for. Subspecies count as their
+ * species; a pair or aggregate counts only when none of its members was
+ * identified, and a genus-level record only when nothing else of its genus was.
+ */
+export const getCountedSpeciesKeys = (observations: Observation[]): Set<string> => {
+    const keys = new Set<string>();
+    const binomials = new Set<string>();
+    const genera = new Set<string>();
+    const byRank = new Map<IdentificationRank, Observation[]>();
+    observations.forEach((observation) => {
+        const rank = getIdentificationRank(observation);
+        const rankObservations = byRank.get(rank) ?? [];
+        rankObservations.push(observation);
+        byRank.set(rank, rankObservations);
+    });
+
+    (byRank.get(IdentificationRank.SPECIES) ?? []).forEach((observation) => {
+        const speciesKey = getObservationSpeciesKey(observation);
+        if (!speciesKey) return;
+        keys.add(speciesKey);
+        if (observation.latinName) {
+            binomials.add(getBinomialKey(observation.latinName));
+            genera.add(getGenusKey(observation.latinName));
+        }
+    });
+
+    (byRank.get(IdentificationRank.SUBSPECIES) ?? []).forEach((observation) => {
+        const binomial = getBinomialKey(observation.latinName);
+        if (binomial && !binomials.has(binomial)) keys.add(`species:${binomial}`);
+        binomials.add(binomial);
+        genera.add(getGenusKey(observation.latinName));
+    });
+
+    (byRank.get(IdentificationRank.AGGREGATE) ?? []).forEach((observation) => {
+        const members = getCandidateLatinNames(observation).map(getBinomialKey).filter(Boolean);
+        if (members.length > 0 && members.some(member => binomials.has(member))) return;
+        const aggregateKey = members.length > 0 ? [...members].sort().join('|') : normalizeSearchText(observation.latinName);
+        if (aggregateKey) keys.add(`aggregate:${aggregateKey}`);
+        genera.add(getGenusKey(observation.latinName));
+    });
+
+    (byRank.get(IdentificationRank.GENUS) ?? []).forEach((observation) => {
+        const genus = getGenusKey(observation.latinName);
+        if (!genus || genera.has(genus)) return;
+        keys.add(`genus:${genus}`);
+        genera.add(genus);
+    });
+
+    return keys;
+};
+
 export const buildTaxonSpeciesCards = (observations: Observation[]): TaxonSpeciesCard[] => {
-    const uniqueSpeciesPerTaxon = new Map<TaxonomicGroup, Set<string>>();
+    const observationsPerTaxon = new Map<TaxonomicGroup, Observation[]>();
 
     observations.forEach((observation) => {
         const logo = TAXON_LOGOS[observation.taxonomicGroup];
         if (!logo) return;
 
-        const speciesKey = getObservationSpeciesKey(observation);
-        if (!speciesKey) return;
-
-        const taxonSet = uniqueSpeciesPerTaxon.get(observation.taxonomicGroup) ?? new Set<string>();
-        taxonSet.add(speciesKey);
-        uniqueSpeciesPerTaxon.set(observation.taxonomicGroup, taxonSet);
+        const taxonObservations = observationsPerTaxon.get(observation.taxonomicGroup) ?? [];
+        taxonObservations.push(observation);
+        observationsPerTaxon.set(observation.taxonomicGroup, taxonObservations);
     });
 
     return (Object.entries(TAXON_LOGOS) as Array<[TaxonomicGroup, string]>)
@@ -33,7 +105,65 @@ export const buildTaxonSpeciesCards = (observations: Observation[]): TaxonSpecie
         .map(([taxonomicGroup, logo]) => ({
             taxonomicGroup,
             logo,
-            speciesCount: uniqueSpeciesPerTaxon.get(taxonomicGroup)?.size ?? 0
+            speciesCount: getCountedSpeciesKeys(observationsPerTaxon.get(taxonomicGroup) ?? []).size
         }))
         .filter((card) => card.speciesCount > 0);
 };
+
+/**
+ * Per-list totals of the checklists (sessions carrying a "liste complète" flag).
+ * On complete lists, a species not recorded counts as an absence, which gives
+ * its reporting rate.
+ */
+export const buildChecklistStats = (sessions: SamplingSession[], observations: Observation[]): ChecklistStats => {
+    const checklists = sessions.filter(session => session.completeList !== undefined);
+    const speciesBySession = new Map<string, Map<string, { name: string; individuals: number }>>();
+
+    observations.forEach((observation) => {
+        if (!observation.sessionId) return;
+        const speciesKey = getObservationSpeciesKey(observation);
+        if (!speciesKey) return;
+        const species = speciesBySession.get(observation.sessionId) ?? new Map<string, { name: string; individuals: number }>();
+        const entry = species.get(speciesKey) ?? { name: observation.speciesName || observation.latinName, individuals: 0 };
+        entry.individuals += observation.count;
+        species.set(speciesKey, entry);
+        speciesBySession.set(observation.sessionId, species);
+    });
+
+    const lists = checklists.map((session) => {
+        const species = Array.from(speciesBySession.get(session.id)?.values() ?? []);
+        return {
+            session,
+            speciesCount: species.length,
+            individuals: species.reduce((sum, entry) => sum + entry.individuals, 0)
+        };
+    });
+
+    const completeLists = lists.filter(list => list.session.completeList);
+    const detections = new Map<string, { name: string; lists: number }>();
+    completeLists.forEach((list) => {
+        speciesBySession.get(list.session.id)?.forEach((entry, speciesKey) => {
+            const detection = detections.get(speciesKey) ?? { name: entry.name, lists: 0 };
+            detection.lists += 1;
+            detections.set(speciesKey, detection);
+        });
+    });
+
+    const reportingRates = Array.from(detections.values())
+        .map(({ name, lists: detected }) => ({
+            speciesName: name,
+            detections: detected,
+            absences: completeLists.length - detected,
+            rate: detected / completeLists.length
+        }))
+        .sort((a, b) => b.rate - a.rate || a.speciesName.localeCompare(b.speciesName, 'fr'));
+
+    return {
+        lists,
+        completeLists: completeLists.length,
+        averageSpeciesPerCompleteList: completeLists.length > 0
+            ? completeLists.reduce((sum, list) => sum + list.speciesCount, 0) / completeLists.length
+            : 0,
+        reportingRates
+    };
+};
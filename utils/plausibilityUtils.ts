@@ -0,0 +1,117 @@
+import { Observation, TaxonomicGroup } from '../types';
+import { getMonthIndexFromIsoDate } from './dateUtils';
+import { getObservationSpeciesKey } from './observationStatsUtils';
+
+export type PlausibilityWarningType = 'phenology' | 'department' | 'altitude' | 'count' | 'checklist';
+
+export interface PlausibilityWarning {
+    type: PlausibilityWarningType;
+    message: string;
+}
+
+export interface PlausibilityContext {
+    // From the regional checklist; null when none covers the observation point.
+    inRegionalChecklist?: boolean | null;
+}
+
+// Below this many records of the species, the notebook says nothing about its usual range.
+const MIN_HISTORY_RECORDS = 5;
+const ALTITUDE_MARGIN_M = 500;
+const COUNT_FACTOR = 10;
+const MIN_UNUSUAL_COUNT = 10;
+
+const MONTH_NAMES = [
+    'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+    'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'
+];
+
+// Months (1-12) when adults of the group are usually seen in France, used until the notebook has enough records.
+const GROUP_FLIGHT_SEASONS: Partial<Record<TaxonomicGroup, { from: number; to: number }>> = {
+    [TaxonomicGroup.ODONATE]: { from: 3, to: 11 },
+    [TaxonomicGroup.ORTHOPTERA]: { from: 5, to: 11 },
+    [TaxonomicGroup.CICADA]: { from: 5, to: 9 },
+    [TaxonomicGroup.MANTIS]: { from: 6, to: 11 },
+    [TaxonomicGroup.BUTTERFLY]: { from: 2, to: 11 },
+    [TaxonomicGroup.REPTILE]: { from: 2, to: 11 }
+};
+
+// Distance between two month indexes, across the new year.
+const monthDistance = (a: number, b: number): number => {
+    const diff = Math.abs(a - b);
+    return Math.min(diff, 12 - diff);
+};
+
+const findPhenologyWarning = (obs: Observation, history: Observation[]): PlausibilityWarning | null => {
+    const month = getMonthIndexFromIsoDate(obs.date);
+    if (month === null) return null;
+    const monthName = MONTH_NAMES[month];
+
+    const months = history
+        .map(record => getMonthIndexFromIsoDate(record.date))
+        .filter((value): value is number => value !== null);
+    if (months.length >= MIN_HISTORY_RECORDS) {
+        return months.some(value => monthDistance(value, month) <= 1)
+            ? null
+            : { type: 'phenology', message: `Aucune de vos ${months.length} observations de l'espèce n'est proche de ${monthName}.` };
+    }
+
+    const season = GROUP_FLIGHT_SEASONS[obs.taxonomicGroup];
+    if (!season || (month + 1 >= season.from && month + 1 <= season.to)) return null;
+    return {
+        type: 'phenology',
+        message: `${obs.taxonomicGroup} observé en ${monthName}, hors de la période habituelle (${MONTH_NAMES[season.from - 1]} à ${MONTH_NAMES[season.to - 1]}).`
+    };
+};
+
+const findDepartmentWarning = (obs: Observation, history: Observation[]): PlausibilityWarning | null => {
+    const department = obs.department.trim();
+    if (!department || history.length < MIN_HISTORY_RECORDS) return null;
+    if (history.some(record => record.department.trim() === department)) return null;
+    return { type: 'department', message: `Espèce jamais notée dans le département ${department} (${history.length} observations ailleurs).` };
+};
+
+const findAltitudeWarning = (obs: Observation, history: Observation[]): PlausibilityWarning | null => {
+    if (obs.altitude === null) return null;
+    const altitudes = history
+        .map(record => record.altitude)
+        .filter((value): value is number => value !== null);
+    if (altitudes.length < MIN_HISTORY_RECORDS) return null;
+    const maxAltitude = Math.max(...altitudes);
+    if (obs.altitude <= maxAltitude + ALTITUDE_MARGIN_M) return null;
+    return { type: 'altitude', message: `Altitude de ${obs.altitude} m, bien au-dessus de votre maximum pour l'espèce (${maxAltitude} m).` };
+};
+
+const findCountWarning = (obs: Observation, history: Observation[]): PlausibilityWarning | null => {
+    if (history.length === 0 || obs.count < MIN_UNUSUAL_COUNT) return null;
+    const maxCount = Math.max(...history.map(record => record.count));
+    if (obs.count < maxCount * COUNT_FACTOR) return null;
+    return { type: 'count', message: `Effectif de ${obs.count}, au moins ${COUNT_FACTOR} fois votre maximum pour l'espèce (${maxCount}).` };
+};
+
+/**
+ * Soft warnings for an observation that looks unusual against the notebook
+ * (season, department, altitude, count) or the regional checklist. They never
+ * block a save: the observer confirms the record as exceptional instead.
+ */
+export const findPlausibilityWarnings = (
+    obs: Observation,
+    observations: Observation[],
+    context: PlausibilityContext = {}
+): PlausibilityWarning[] => {
+    const speciesKey = getObservationSpeciesKey(obs);
+    const history = speciesKey
+        ? observations.filter(record => record.id !== obs.id && !record.deletedAt && getObservationSpeciesKey(record) === speciesKey)
+        : [];
+
+    const warnings = [
+        findPhenologyWarning(obs, history),
+        findDepartmentWarning(obs, history),
+        findAltitudeWarning(obs, history),
+        findCountWarning(obs, history)
+    ].filter((warning): warning is PlausibilityWarning => warning !== null);
+
+    if (context.inRegionalChecklist === false) {
+        warnings.push({ type: 'checklist', message: 'Espèce absente de la liste régionale téléchargée (iNaturalist).' });
+    }
+    return warnings;
+};
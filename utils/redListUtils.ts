@@ -0,0 +1,121 @@
+import { Observation, RedListAssessment, RedListScale, Status } from '../types';
+import { normalizeSearchText } from './textUtils';
+
+// 'observation': the status chosen on the observation itself (`status`).
+export type StatusScale = 'observation' | RedListScale;
+
+export const STATUS_SCALE_LABELS: Record<StatusScale, string> = {
+    observation: 'Statut retenu',
+    [RedListScale.WORLD]: 'Monde',
+    [RedListScale.EUROPE]: 'Europe',
+    [RedListScale.FRANCE]: 'France',
+    [RedListScale.REGION]: 'Région'
+};
+
+export const STATUS_SCALES: StatusScale[] = ['observation', RedListScale.WORLD, RedListScale.EUROPE, RedListScale.FRANCE, RedListScale.REGION];
+
+const REGION_DEPARTMENTS: Record<string, string[]> = {
+    'Auvergne-Rhône-Alpes': ['01', '03', '07', '15', '26', '38', '42', '43', '63', '69', '73', '74'],
+    'Bourgogne-Franche-Comté': ['21', '25', '39', '58', '70', '71', '89', '90'],
+    'Bretagne': ['22', '29', '35', '56'],
+    'Centre-Val de Loire': ['18', '28', '36', '37', '41', '45'],
+    'Corse': ['20', '2A', '2B'],
+    'Grand Est': ['08', '10', '51', '52', '54', '55', '57', '67', '68', '88'],
+    'Hauts-de-France': ['02', '59', '60', '62', '80'],
+    'Île-de-France': ['75', '77', '78', '91', '92', '93', '94', '95'],
+    'Normandie': ['14', '27', '50', '61', '76'],
+    'Nouvelle-Aquitaine': ['16', '17', '19', '23', '24', '33', '40', '47', '64', '79', '86', '87'],
+    'Occitanie': ['09', '11', '12', '30', '31', '32', '34', '46', '48', '65', '66', '81', '82'],
+    'Pays de la Loire': ['44', '49', '53', '72', '85'],
+    "Provence-Alpes-Côte d'Azur": ['04', '05', '06', '13', '83', '84'],
+    'Guadeloupe': ['971'],
+    'Martinique': ['972'],
+    'Guyane': ['973'],
+    'La Réunion': ['974'],
+    'Mayotte': ['976']
+};
+
+// Many regional red lists predate the 2016 merger and still carry the old name.
+const FORMER_REGIONS: Record<string, string> = {
+    'Alsace': 'Grand Est',
+    'Champagne-Ardenne': 'Grand Est',
+    'Lorraine': 'Grand Est',
+    'Aquitaine': 'Nouvelle-Aquitaine',
+    'Limousin': 'Nouvelle-Aquitaine',
+    'Poitou-Charentes': 'Nouvelle-Aquitaine',
+    'Auvergne': 'Auvergne-Rhône-Alpes',
+    'Rhône-Alpes': 'Auvergne-Rhône-Alpes',
+    'Bourgogne': 'Bourgogne-Franche-Comté',
+    'Franche-Comté': 'Bourgogne-Franche-Comté',
+    'Languedoc-Roussillon': 'Occitanie',
+    'Midi-Pyrénées': 'Occitanie',
+    'Nord-Pas-de-Calais': 'Hauts-de-France',
+    'Picardie': 'Hauts-de-France',
+    'Basse-Normandie': 'Normandie',
+    'Haute-Normandie': 'Normandie',
+    'Centre': 'Centre-Val de Loire',
+    'Réunion': 'La Réunion'
+};
+
+const normalizeRegionKey = (name: string): string => normalizeSearchText(name).replace(/[^a-z]/g, '');
+
+const REGION_BY_KEY = new Map<string, string>([
+    ...Object.keys(REGION_DEPARTMENTS).map(region => [normalizeRegionKey(region), region] as [string, string]),
+    ...Object.entries(FORMER_REGIONS).map(([former, region]) => [normalizeRegionKey(former), region] as [string, string])
+]);
+
+const normalizeDepartmentCode = (department: string): string => {
+    const code = department.trim().toUpperCase();
+    return /^\d$/.test(code) ? `0${code}` : code;
+};
+
+/** Current région (2016 boundaries) of a department code, e.g. "21" → "Bourgogne-Franche-Comté". */
+export const getRegionForDepartment = (department?: string): string | undefined => {
+    if (!department) return undefined;
+    const code = normalizeDepartmentCode(department);
+    return Object.keys(REGION_DEPARTMENTS).find(region => REGION_DEPARTMENTS[region].includes(code));
+};
+
+/**
+ * Current région matching a place or list name, former régions included:
+ * "Bourgogne, FR" → "Bourgogne-Franche-Comté". Undefined for anything else.
+ */
+export const resolveRegionName = (name?: string): string | undefined => {
+    if (!name) return undefined;
+    const withoutCountry = name.replace(/,\s*(FR|France)\s*$/i, '');
+    return REGION_BY_KEY.get(normalizeRegionKey(withoutCountry));
+};
+
+/**
+ * Keeps one assessment per scale for an observation: the first one met for
+ * the world, Europe and France, and the first regional list covering the
+ * région of `department`.
+ */
+export const selectRedListsForDepartment = (assessments: RedListAssessment[], department?: string): RedListAssessment[] => {
+    const region = getRegionForDepartment(department);
+    const selected = new Map<RedListScale, RedListAssessment>();
+    assessments.forEach(assessment => {
+        if (selected.has(assessment.scale)) return;
+        if (assessment.scale === RedListScale.REGION && (!region || resolveRegionName(assessment.region) !== region)) return;
+        selected.set(assessment.scale, assessment);
+    });
+    return [RedListScale.WORLD, RedListScale.EUROPE, RedListScale.FRANCE, RedListScale.REGION]
+        .map(scale => selected.get(scale))
+        .filter((assessment): assessment is RedListAssessment => !!assessment);
+};
+
+export const getRedListAssessment = (obs: Pick<Observation, 'redLists'>, scale: RedListScale): RedListAssessment | undefined => {
+    return obs.redLists?.find(assessment => assessment.scale === scale);
+};
+
+/** Status of an observation at a scale; undefined when no list of that scale evaluates it. */
+export const getObservationStatus = (obs: Pick<Observation, 'status' | 'redLists'>, scale: StatusScale = 'observation'): Status | undefined => {
+    if (scale === 'observation') return obs.status;
+    return getRedListAssessment(obs, scale)?.status;
+};
+
+/** Badge text, e.g. "France VU" or "Bourgogne VU (2015)". */
+export const formatRedListAssessment = (assessment: RedListAssessment): string => {
+    const label = assessment.scale === RedListScale.REGION && assessment.region ? assessment.region : assessment.scale;
+    return `${label} ${assessment.status}${assessment.year ? ` (${assessment.year})` : ''}`;
+};
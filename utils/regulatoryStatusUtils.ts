@@ -0,0 +1,64 @@
+import { Observation, RegulatoryListType, RegulatoryStatus, Status } from '../types';
+
+// 'heritage': espèces patrimoniales, see isHeritageObservation.
+export type RegulatoryFilter = 'all' | 'heritage' | RegulatoryListType;
+
+export const REGULATORY_FILTER_LABELS: Record<RegulatoryFilter, string> = {
+    all: 'Toutes',
+    heritage: 'Espèces patrimoniales',
+    [RegulatoryListType.PROTECTION]: 'Espèces protégées',
+    [RegulatoryListType.HABITATS_DIRECTIVE]: 'Directive Habitats',
+    [RegulatoryListType.BIRDS_DIRECTIVE]: 'Directive Oiseaux',
+    [RegulatoryListType.ZNIEFF]: 'Déterminantes ZNIEFF'
+};
+
+export const REGULATORY_FILTERS: RegulatoryFilter[] = [
+    'all',
+    'heritage',
+    RegulatoryListType.PROTECTION,
+    RegulatoryListType.HABITATS_DIRECTIVE,
+    RegulatoryListType.BIRDS_DIRECTIVE,
+    RegulatoryListType.ZNIEFF
+];
+
+// Red-list categories that make a species patrimoniale on their own.
+const HERITAGE_RED_LIST_STATUSES = new Set<Status>([Status.NT, Status.VU, Status.EN, Status.CR]);
+
+/** Badge text, e.g. "Protection nationale : Article 3". */
+export const formatRegulatoryStatus = (status: RegulatoryStatus): string => {
+    return status.label ? `${status.list} : ${status.label}` : status.list;
+};
+
+/** Same list, article and territory. */
+export const getRegulatoryStatusKey = (status: RegulatoryStatus): string => {
+    return `${status.type}|${status.list}|${status.label}|${status.territory}`;
+};
+
+/**
+ * Why an observation is patrimoniale: its regulatory lists, then its
+ * threatened or near-threatened red-list statuses. Empty when it is not.
+ */
+export const getHeritageReasons = (obs: Pick<Observation, 'status' | 'redLists' | 'regulatoryStatuses'>): string[] => {
+    const reasons = (obs.regulatoryStatuses ?? []).map(formatRegulatoryStatus);
+    const redLists = obs.redLists ?? [];
+    redLists
+        .filter(assessment => HERITAGE_RED_LIST_STATUSES.has(assessment.status))
+        .forEach(assessment => reasons.push(`Liste rouge ${assessment.region ?? assessment.scale} : ${assessment.status}`));
+    if (redLists.length === 0 && HERITAGE_RED_LIST_STATUSES.has(obs.status)) {
+        reasons.push(`Liste rouge : ${obs.status}`);
+    }
+    return Array.from(new Set(reasons));
+};
+
+export const isHeritageObservation = (obs: Pick<Observation, 'status' | 'redLists' | 'regulatoryStatuses'>): boolean => {
+    return getHeritageReasons(obs).length > 0;
+};
+
+export const matchesRegulatoryFilter = (
+    obs: Pick<Observation, 'status' | 'redLists' | 'regulatoryStatuses'>,
+    filter: RegulatoryFilter
+): boolean => {
+    if (filter === 'all') return true;
+    if (filter === 'heritage') return isHeritageObservation(obs);
+    return (obs.regulatoryStatuses ?? []).some(status => status.type === filter);
+};
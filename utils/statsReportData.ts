@@ -1,7 +1,11 @@
 import { Observation, Status } from '../types';
-import { TaxonSpeciesCard, buildTaxonSpeciesCards } from './observationStatsUtils';
+import { TaxonSpeciesCard, buildTaxonSpeciesCards, getCountedSpeciesKeys } from './observationStatsUtils';
 import { getMonthIndexFromIsoDate } from './dateUtils';
 import { BADGES_DEFINITIONS } from './badgeUtils';
+import { StatusScale, getObservationStatus } from './redListUtils';
+import { getHeritageReasons } from './regulatoryStatusUtils';
+import { BreedingAtlas, buildBreedingAtlas } from './atlasCodeUtils';
+import { AtlasSquareSummary, buildAtlasSquareSummaries } from './atlasGridUtils';
 
 export interface BadgeReport {
     id: string;
@@ -27,6 +31,15 @@ export interface StatusDatum {
     color: string;
 }
 
+// Espèce patrimoniale: protected, listed in a directive or ZNIEFF list, or threatened.
+export interface HeritageSpeciesDatum {
+    name: string;
+    latinName: string;
+    observations: number;
+    individuals: number;
+    reasons: string[];
+}
+
 export interface StatsReportData {
     totalObservations: number;
     uniqueSpecies: number;
@@ -35,9 +48,16 @@ export interface StatsReportData {
     taxonSpeciesCards: TaxonSpeciesCard[];
     groupData: Array<{ name: string; value: number }>;
     rankedGroupData: RankedGroupDatum[];
+    // Red-list scale of statusData.
+    statusScale: StatusScale;
     statusData: StatusDatum[];
     activityData: Array<{ name: string; observations: number }>;
     topSpecies: Array<{ name: string; count: number }>;
+    heritageSpecies: HeritageSpeciesDatum[];
+    // Bird breeding codes: highest evidence per species and per 10 km square.
+    breedingAtlas: BreedingAtlas;
+    // Lambert-93 10 km squares, richest first.
+    squareData: AtlasSquareSummary[];
     badges: BadgeReport[];
 }
 
@@ -142,9 +162,12 @@ const buildStatusData = (statusCounts: Record<string, number>, totalObservations
         .filter((status): status is StatusDatum => status !== null);
 };
 
-export function buildStatsReportData(observations: Observation[]): StatsReportData {
+const getTaxonKey = (obs: Observation): string => (obs.cdRef ? `cdref:${obs.cdRef}` : obs.speciesName);
+
+// Observations that no list of `statusScale` evaluates count as NE.
+export function buildStatsReportData(observations: Observation[], statusScale: StatusScale = 'observation'): StatsReportData {
     const totalObservations = observations.length;
-    const uniqueSpecies = new Set(observations.map(obs => obs.speciesName)).size;
+    const uniqueSpecies = getCountedSpeciesKeys(observations).size;
     const uniqueLocations = new Set(observations.map(obs => obs.municipality)).size;
     const uniqueGroups = new Set(observations.map(obs => obs.taxonomicGroup)).size;
     const taxonSpeciesCards = buildTaxonSpeciesCards(observations);
@@ -158,7 +181,8 @@ export function buildStatsReportData(observations: Observation[]): StatsReportDa
 
     const statusCounts: Record<string, number> = {};
     observations.forEach(obs => {
-        statusCounts[obs.status] = (statusCounts[obs.status] || 0) + 1;
+        const status = getObservationStatus(obs, statusScale) ?? Status.NE;
+        statusCounts[status] = (statusCounts[status] || 0) + 1;
     });
     const statusData = buildStatusData(statusCounts, totalObservations);
 
@@ -174,14 +198,31 @@ export function buildStatsReportData(observations: Observation[]): StatsReportDa
         observations: monthCounts[index] || 0
     }));
 
-    const speciesCounts: Record<string, number> = {};
+    // Keyed by taxon; a taxon recorded under several names shows the first one met.
+    const speciesCounts = new Map<string, { name: string; count: number }>();
+    observations.forEach(obs => {
+        const key = getTaxonKey(obs);
+        const entry = speciesCounts.get(key) ?? { name: obs.speciesName, count: 0 };
+        entry.count += obs.count;
+        speciesCounts.set(key, entry);
+    });
+    const topSpecies = Array.from(speciesCounts.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
+
+    const heritageByTaxon = new Map<string, HeritageSpeciesDatum>();
     observations.forEach(obs => {
-        speciesCounts[obs.speciesName] = (speciesCounts[obs.speciesName] || 0) + obs.count;
+        const reasons = getHeritageReasons(obs);
+        if (reasons.length === 0) return;
+        const key = getTaxonKey(obs);
+        const entry = heritageByTaxon.get(key) ?? { name: obs.speciesName, latinName: obs.latinName, observations: 0, individuals: 0, reasons: [] };
+        entry.observations += 1;
+        entry.individuals += obs.count;
+        entry.reasons = Array.from(new Set([...entry.reasons, ...reasons]));
+        heritageByTaxon.set(key, entry);
     });
-    const topSpecies = Object.entries(speciesCounts)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 5)
-        .map(([name, count]) => ({ name, count }));
+    const heritageSpecies = Array.from(heritageByTaxon.values())
+        .sort((a, b) => b.observations - a.observations || a.name.localeCompare(b.name, 'fr'));
 
     const badges = BADGES_DEFINITIONS.map(badge => ({
         id: badge.id,
@@ -199,9 +240,13 @@ export function buildStatsReportData(observations: Observation[]): StatsReportDa
         taxonSpeciesCards,
         groupData,
         rankedGroupData,
+        statusScale,
         statusData,
         activityData,
         topSpecies,
+        heritageSpecies,
+        breedingAtlas: buildBreedingAtlas(observations),
+        squareData: buildAtlasSquareSummaries(observations),
         badges
     };
 }
@@ -6,3 +6,14 @@ export const normalizeSearchText = (value: string): string => {
         .trim()
         .replace(/\s+/g, ' ');
 };
+
+/**
+ * Rank of a name for an already normalized query: 3 exact, 2 prefix,
+ * 1 prefix of one of its words, 0 no match.
+ */
+export const scoreNameMatch = (name: string, normalizedQuery: string): number => {
+    const normalized = normalizeSearchText(name);
+    if (normalized === normalizedQuery) return 3;
+    if (normalized.startsWith(normalizedQuery)) return 2;
+    return normalized.split(/[\s-]/).some(word => word.startsWith(normalizedQuery)) ? 1 : 0;
+};
@@ -0,0 +1,135 @@
+export interface TileSource {
+    id: TileSourceId;
+    label: string;
+    url: string;
+    subdomains: string;
+    attribution: string;
+}
+
+export type TileSourceId = 'light' | 'dark' | 'osm';
+
+const CARTO_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>';
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Base maps of the observation map (light / dark theme) and of the location picker.
+export const TILE_SOURCES: Record<TileSourceId, TileSource> = {
+    light: {
+        id: 'light',
+        label: 'Carte claire',
+        url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+        subdomains: 'abcd',
+        attribution: CARTO_ATTRIBUTION
+    },
+    dark: {
+        id: 'dark',
+        label: 'Carte sombre',
+        url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+        subdomains: 'abcd',
+        attribution: CARTO_ATTRIBUTION
+    },
+    osm: {
+        id: 'osm',
+        label: 'Carte de saisie (OpenStreetMap)',
+        url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+        subdomains: 'abc',
+        attribution: OSM_ATTRIBUTION
+    }
+};
+
+export const TILE_SOURCE_IDS: TileSourceId[] = ['light', 'dark', 'osm'];
+
+export interface TileBounds {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+}
+
+export interface TileCoords {
+    z: number;
+    x: number;
+    y: number;
+}
+
+// Zoom levels offered for download: below 10 tiles cover whole regions, above 17 they explode.
+export const OFFLINE_MIN_ZOOM = 10;
+export const OFFLINE_MAX_ZOOM = 17;
+
+// Ceiling per area, to stay a fair user of the free tile servers and of the device storage.
+export const MAX_OFFLINE_TILES = 10000;
+
+// Typical size of a 256 px tile; retina tiles are about three times heavier.
+const AVERAGE_TILE_BYTES = 15 * 1024;
+const AVERAGE_RETINA_TILE_BYTES = 45 * 1024;
+
+// Web Mercator stops at ±85.0511°.
+const MAX_MERCATOR_LAT = 85.05112878;
+
+const clampLat = (lat: number) => Math.min(Math.max(lat, -MAX_MERCATOR_LAT), MAX_MERCATOR_LAT);
+
+export const lonToTileX = (lon: number, z: number): number => {
+    const n = 2 ** z;
+    return Math.min(n - 1, Math.max(0, Math.floor(((lon + 180) / 360) * n)));
+};
+
+export const latToTileY = (lat: number, z: number): number => {
+    const n = 2 ** z;
+    const phi = (clampLat(lat) * Math.PI) / 180;
+    const y = Math.floor(((1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2) * n);
+    return Math.min(n - 1, Math.max(0, y));
+};
+
+const getTileRange = (bounds: TileBounds, z: number) => ({
+    minX: lonToTileX(bounds.west, z),
+    maxX: lonToTileX(bounds.east, z),
+    // Tile rows grow southwards.
+    minY: latToTileY(bounds.north, z),
+    maxY: latToTileY(bounds.south, z)
+});
+
+/** Tiles needed to cover the area at each zoom level from minZoom to maxZoom. */
+export const countAreaTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): number => {
+    let count = 0;
+    for (let z = minZoom; z <= maxZoom; z++) {
+        const { minX, maxX, minY, maxY } = getTileRange(bounds, z);
+        count += (maxX - minX + 1) * (maxY - minY + 1);
+    }
+    return count;
+};
+
+export const listAreaTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): TileCoords[] => {
+    const tiles: TileCoords[] = [];
+    for (let z = minZoom; z <= maxZoom; z++) {
+        const { minX, maxX, minY, maxY } = getTileRange(bounds, z);
+        for (let x = minX; x <= maxX; x++) {
+            for (let y = minY; y <= maxY; y++) {
+                tiles.push({ z, x, y });
+            }
+        }
+    }
+    return tiles;
+};
+
+export const estimateTileBytes = (tileCount: number, retina: boolean): number => {
+    return tileCount * (retina ? AVERAGE_RETINA_TILE_BYTES : AVERAGE_TILE_BYTES);
+};
+
+/**
+ * Tile URL as Leaflet requests it: same subdomain pick ((x + y) modulo the
+ * subdomain count) and "@2x" suffix on high density screens.
+ */
+export const buildTileUrl = (source: TileSource, { z, x, y }: TileCoords, retina: boolean): string => {
+    const subdomain = source.subdomains[Math.abs(x + y) % source.subdomains.length];
+    return source.url
+        .replace('{s}', subdomain)
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{y}', String(y))
+        .replace('{r}', retina ? '@2x' : '');
+};
+
+export const formatStorageSize = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} Ko`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} Mo`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2).replace('.', ',')} Go`;
+};
@@ -0,0 +1,76 @@
+import { IdentificationConfidence, Observation, ValidationStatus } from '../types';
+import { compareIsoDate } from './dateUtils';
+
+export type ValidationFilter = 'all' | ValidationStatus;
+
+export const VALIDATION_FILTERS: ValidationFilter[] = [
+    'all',
+    ValidationStatus.PENDING,
+    ValidationStatus.VALIDATED,
+    ValidationStatus.REJECTED
+];
+
+export const VALIDATION_FILTER_LABELS: Record<ValidationFilter, string> = {
+    all: 'Toutes',
+    [ValidationStatus.PENDING]: 'Non validées',
+    [ValidationStatus.VALIDATED]: 'Validées',
+    [ValidationStatus.REJECTED]: 'Invalidées'
+};
+
+export const IDENTIFICATION_CONFIDENCES: IdentificationConfidence[] = [
+    IdentificationConfidence.CERTAIN,
+    IdentificationConfidence.PROBABLE,
+    IdentificationConfidence.POSSIBLE
+];
+
+// Review order: the least certain identifications first.
+const CONFIDENCE_REVIEW_ORDER: Record<IdentificationConfidence, number> = {
+    [IdentificationConfidence.POSSIBLE]: 0,
+    [IdentificationConfidence.PROBABLE]: 1,
+    [IdentificationConfidence.CERTAIN]: 2
+};
+
+export const getValidationStatus = (obs: Pick<Observation, 'validationStatus'>): ValidationStatus => {
+    return obs.validationStatus ?? ValidationStatus.PENDING;
+};
+
+export const isValidatedObservation = (obs: Pick<Observation, 'validationStatus'>): boolean => {
+    return getValidationStatus(obs) === ValidationStatus.VALIDATED;
+};
+
+export const matchesValidationFilter = (obs: Pick<Observation, 'validationStatus'>, filter: ValidationFilter): boolean => {
+    return filter === 'all' || getValidationStatus(obs) === filter;
+};
+
+/**
+ * Observations awaiting review: uncertain identifications and exceptional
+ * records first, then the oldest.
+ */
+export const buildReviewQueue = (observations: Observation[]): Observation[] => {
+    const confidenceRank = (obs: Observation) => (obs.confidence ? CONFIDENCE_REVIEW_ORDER[obs.confidence] : 1);
+    return observations
+        .filter(obs => !obs.deletedAt && getValidationStatus(obs) === ValidationStatus.PENDING)
+        .sort((a, b) => confidenceRank(a) - confidenceRank(b)
+            || Number(!!b.exceptional) - Number(!!a.exceptional)
+            || compareIsoDate(a.date, b.date));
+};
+
+/** Records a reviewer decision; back to "non validée" clears the reviewer. */
+export const applyValidationDecision = (
+    obs: Observation,
+    status: ValidationStatus,
+    comment: string,
+    reviewer: string | undefined,
+    decidedAt: Date = new Date()
+): Observation => {
+    if (status === ValidationStatus.PENDING) {
+        return { ...obs, validationStatus: status, validationComment: comment.trim() || undefined, validatedBy: undefined, validatedAt: undefined };
+    }
+    return {
+        ...obs,
+        validationStatus: status,
+        validationComment: comment.trim() || undefined,
+        validatedBy: reviewer,
+        validatedAt: decidedAt.toISOString()
+    };
+};